@@ -0,0 +1,170 @@
+import { EndpointDefinition, EndpointMetadata, PathParamNames, PathParams } from '../types/endpoint.types';
+import { ENDPOINT_PATHS } from './endpoints.generated';
+import { expandPathTemplate, parsePathTemplate } from '../helpers/base/pathTemplate';
+/**
+ * Endpoint Registry
+ *
+ * Typed view of config/endpoints.json. Paths come from the generated
+ * endpoints.generated.ts, so their {placeholders} are known at compile time;
+ * method, base URL and query parameters are declared here for every route.
+ * Adding a route to endpoints.json without declaring it here (or the other way
+ * round) is a compile error.
+ *
+ * @example
+ * helper.callEndpoint(endpointRegistry.los.loanAccountCreation.getKycUtility, {
+ *   pathParams: { utilityReferenceId },
+ *   query: { imageType: 'base64' }
+ * });
+ */
+
+type EndpointPaths = typeof ENDPOINT_PATHS;
+
+/** Same shape as endpoints.json, with metadata in place of each path */
+type EndpointMetadataShape = {
+  [Pod in keyof EndpointPaths]: {
+    [Category in keyof EndpointPaths[Pod]]: { [Name in keyof EndpointPaths[Pod][Category]]: EndpointMetadata };
+  };
+};
+
+const ENDPOINT_METADATA = {
+  los: {
+    auth: {
+      requestOtp: { method: 'GET', base: 'volt', query: ['enableWhatsapp'] },
+      verifyOtp: { method: 'POST', base: 'volt' },
+      getUserData: { method: 'POST', base: 'volt' },
+      logout: { method: 'POST', base: 'volt' }
+    },
+    loans: {
+      create: { method: 'POST', base: 'volt' },
+      getById: { method: 'GET', base: 'volt' },
+      update: { method: 'PUT', base: 'volt' },
+      delete: { method: 'DELETE', base: 'volt' },
+      list: { method: 'GET', base: 'volt' }
+    },
+    applications: {
+      create: { method: 'POST', base: 'volt' },
+      getById: { method: 'GET', base: 'volt' },
+      submit: { method: 'POST', base: 'volt' }
+    },
+    loanAccountCreation: {
+      generateOffer: { method: 'POST', base: 'dsp' },
+      clientDedupeCheck: { method: 'POST', base: 'dsp' },
+      createOpportunity: { method: 'POST', base: 'dsp' },
+      kycUtilityInit: { method: 'POST', base: 'dsp' },
+      getKycUtility: { method: 'GET', base: 'dsp', query: ['imageType'] },
+      initPhotoVerification: { method: 'POST', base: 'dsp' },
+      getPhotoVerification: { method: 'GET', base: 'dsp' },
+      saveAdditionalData: { method: 'POST', base: 'dsp' },
+      getAdditionalData: { method: 'GET', base: 'dsp' },
+      bankUtilityInit: { method: 'POST', base: 'dsp' },
+      getBankUtility: { method: 'GET', base: 'dsp' },
+      createMandate: { method: 'POST', base: 'dsp' },
+      getMandate: { method: 'GET', base: 'dsp' },
+      createVerificationLogEmail: { method: 'POST', base: 'dsp' },
+      getVerificationLog: { method: 'GET', base: 'dsp' },
+      generateLoanContract: { method: 'POST', base: 'dsp' },
+      approveKfs: { method: 'POST', base: 'dsp' },
+      kfsConsent: { method: 'POST', base: 'dsp' },
+      approveAgreement: { method: 'POST', base: 'dsp' },
+      agreementConsent: { method: 'POST', base: 'dsp' },
+      submitOpportunity: { method: 'POST', base: 'dsp' }
+    }
+  },
+  lms: {
+    auth: {
+      login: { method: 'POST', base: 'volt' },
+      logout: { method: 'POST', base: 'volt' }
+    },
+    payments: {
+      create: { method: 'POST', base: 'volt' },
+      getById: { method: 'GET', base: 'volt' },
+      list: {
+        method: 'GET',
+        base: 'volt',
+        query: ['accountId', 'paymentMethod', 'status', 'fromDate', 'toDate', 'minAmount', 'maxAmount', 'page', 'pageSize']
+      }
+    },
+    accounts: {
+      getById: { method: 'GET', base: 'volt' },
+      update: { method: 'PUT', base: 'volt' }
+    }
+  }
+} as const satisfies EndpointMetadataShape;
+
+type EndpointMetadataTable = typeof ENDPOINT_METADATA;
+
+/** Property lookup that yields never instead of an error for keys TypeScript cannot relate */
+type Lookup<T, K> = K extends keyof T ? T[K] : never;
+
+/** Query parameter names of a metadata entry (string when none are declared) */
+type QueryOf<Metadata> = Metadata extends { query: readonly (infer Name extends string)[] } ? Name : string;
+
+/**
+ * Registry entry type for endpoints.json path Pod.Category.Name
+ */
+type RegistryEntry<Path, Metadata> = Path extends string
+  ? EndpointDefinition<Path, Lookup<Metadata, 'method'> & EndpointMetadata['method'], QueryOf<Metadata>>
+  : never;
+
+/**
+ * Typed registry of every route in endpoints.json
+ */
+export type EndpointRegistry = {
+  [Pod in keyof EndpointPaths]: {
+    [Category in keyof EndpointPaths[Pod]]: {
+      [Name in keyof EndpointPaths[Pod][Category]]: RegistryEntry<
+        EndpointPaths[Pod][Category][Name],
+        Lookup<Lookup<Lookup<EndpointMetadataTable, Pod>, Category>, Name>
+      >;
+    };
+  };
+};
+
+/**
+ * Placeholder names of a path template, in order
+ */
+function getPathParamNames<Path extends string>(path: Path): PathParamNames<Path>[] {
+  return parsePathTemplate(path).map(placeholder => placeholder.name as PathParamNames<Path>);
+}
+
+/**
+ * Build the registry by pairing every generated path with its metadata
+ */
+function buildRegistry(): EndpointRegistry {
+  const paths = ENDPOINT_PATHS as unknown as Record<string, Record<string, Record<string, string>>>;
+  const metadata = ENDPOINT_METADATA as unknown as Record<string, Record<string, Record<string, EndpointMetadata>>>;
+  const registry: Record<string, Record<string, Record<string, EndpointDefinition>>> = {};
+  for (const [pod, categories] of Object.entries(paths)) {
+    registry[pod] = {};
+    for (const [category, routes] of Object.entries(categories)) {
+      registry[pod][category] = {};
+      for (const [name, path] of Object.entries(routes)) {
+        const { method, base, query = [] } = metadata[pod][category][name];
+        registry[pod][category][name] = {
+          name: `${pod}.${category}.${name}`,
+          method,
+          path,
+          pathParams: getPathParamNames(path),
+          query,
+          base
+        };
+      }
+    }
+  }
+  return registry as unknown as EndpointRegistry;
+}
+
+/** Every route in endpoints.json with its method, path params, query params and base URL */
+export const endpointRegistry: EndpointRegistry = buildRegistry();
+
+/**
+ * Fill the placeholders of a registry path
+ *
+ * @param endpoint - Registry entry
+ * @param pathParams - Value for every placeholder (checked at compile time)
+ * @returns Path with all placeholders replaced by their encoded values
+ * @throws Error if a placeholder has no value or a param is not in the path (only possible when types are bypassed)
+ */
+export function buildEndpointPath<E extends EndpointDefinition>(endpoint: E, pathParams: PathParams<E['path']>): string {
+  return expandPathTemplate(endpoint.path, pathParams as Record<string, string | undefined>, `${endpoint.name} (${endpoint.path})`);
+}
@@ -0,0 +1,67 @@
+/**
+ * Endpoint Paths
+ *
+ * GENERATED from config/endpoints.json by scripts/generate-endpoints.js - do not edit.
+ * Run `npm run generate:endpoints` after changing endpoints.json.
+ */
+
+export const ENDPOINT_PATHS = {
+  los: {
+    auth: {
+      requestOtp: '/api/client/auth/requestOtp/v2/{phoneNo}',
+      verifyOtp: '/api/client/auth/verifyOtp/',
+      getUserData: '/app/borrower/user',
+      logout: '/api/client/auth/logout'
+    },
+    loans: {
+      create: '/api/los/loans',
+      getById: '/api/los/loans/{id}',
+      update: '/api/los/loans/{id}',
+      delete: '/api/los/loans/{id}',
+      list: '/api/los/loans'
+    },
+    applications: {
+      create: '/api/los/applications',
+      getById: '/api/los/applications/{id}',
+      submit: '/api/los/applications/{id}/submit'
+    },
+    loanAccountCreation: {
+      generateOffer: '/los/api/v1/generate/offer',
+      clientDedupeCheck: '/lms/api/client/dedupe/v1',
+      createOpportunity: '/los/api/v1/opportunity',
+      kycUtilityInit: '/los/api/v1/utility/kyc/init',
+      getKycUtility: '/los/api/v1/utility/kyc/{utilityReferenceId}',
+      initPhotoVerification: '/los/api/v1/utility/photo/verification/init',
+      getPhotoVerification: '/los/api/v1/utility/photo/verification/{utilityReferenceId}',
+      saveAdditionalData: '/los/api/v1/utility/additional/data',
+      getAdditionalData: '/los/api/v1/utility/additional/data/{utilityReferenceId}',
+      bankUtilityInit: '/los/api/v1/utility/bank/verification/init',
+      getBankUtility: '/los/api/v1/utility/bank/verification/{utilityReferenceId}',
+      createMandate: '/los/api/v1/utility/mandate/init',
+      getMandate: '/los/api/v1/utility/mandate/{utilityReferenceId}',
+      createVerificationLogEmail: '/los/api/v1/utility/verification/log',
+      getVerificationLog: '/los/api/v1/utility/verification/log/{utilityReferenceId}',
+      generateLoanContract: '/los/api/v1/opportunity/{opportunityId}/loan/contract',
+      approveKfs: '/los/api/v2/utility/kfs',
+      kfsConsent: '/los/api/v2/utility/kfs/{kfsReferenceId}/consent',
+      approveAgreement: '/los/api/v2/utility/agreement/init',
+      agreementConsent: '/los/api/v2/utility/agreement/{agreementReferenceId}/customer/accept',
+      submitOpportunity: '/los/api/v1/opportunity/{opportunityId}/submit'
+    }
+  },
+  lms: {
+    auth: {
+      login: '/api/lms/auth/login',
+      logout: '/api/lms/auth/logout'
+    },
+    payments: {
+      create: '/api/lms/payments',
+      getById: '/api/lms/payments/{id}',
+      list: '/api/lms/payments'
+    },
+    accounts: {
+      getById: '/api/lms/accounts/{id}',
+      update: '/api/lms/accounts/{id}'
+    }
+  }
+} as const;
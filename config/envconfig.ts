@@ -1,59 +1,54 @@
-export interface EnvironmentConfig {
-  dev: {
-    baseUrl: string;
-    dspBaseUrl: string;
-    dspSecretKey: string;
-  };
-  staging: {
-    baseUrl: string;
-    dspBaseUrl: string;
-    dspSecretKey: string;
-  };
-  prod: {
-    baseUrl: string;
-    dspBaseUrl: string;
-    dspSecretKey: string;
-  };
-}
+import { EnvironmentSettings } from '../types/config.types';
+import { getSecret } from '../utils/secrets';
+import { getEnvironment, getEnvironments } from './environments';
 
-export const envConfig: EnvironmentConfig = {
-  dev: {
-    baseUrl: 'https://api.dev.voltmoney.in',
-    dspBaseUrl: 'https://api.dev.dspfin.com',
-    dspSecretKey: 'qdD6wRiuQ44cBZyXQ5UgGaSk5lzQWTcd'
-  },
-  staging: {
-    baseUrl: 'https://api.staging.voltmoney.in',
-    dspBaseUrl: 'https://api.staging.dspfin.com',
-    dspSecretKey: 'qdD6wRiuQ44cBZyXQ5UgGaSk5lzQWTcd'
-  },
-  prod: {
-    baseUrl: 'https://api.voltmoney.in',
-    dspBaseUrl: 'https://api.dspfin.com',
-    dspSecretKey: 'qdD6wRiuQ44cBZyXQ5UgGaSk5lzQWTcd'
-  }
-};
+/**
+ * Environments from config/environments/*.json, validated when this module loads
+ */
+export const envConfig: Record<string, EnvironmentSettings> = getEnvironments();
 
+/**
+ * Get the Volt base URL for an environment
+ * VOLT_BASE_URL overrides the configured URL (e.g. to point at the local mock Volt auth server)
+ */
 export function getBaseUrl(env: string = process.env.TEST_ENV || 'dev'): string {
-  const environment = env as keyof EnvironmentConfig;
-  if (!envConfig[environment]) {
-    throw new Error(`Invalid environment: ${env}`);
-  }
-  return envConfig[environment].baseUrl;
+  const environment = getEnvironment(env);
+  return process.env.VOLT_BASE_URL || environment.baseUrl;
+}
+
+/**
+ * Get the base URL for a pod
+ * <POD>_BASE_URL (e.g. LMS_BASE_URL) overrides the pod's entry in the environment,
+ * and pods without an entry use the Volt base URL
+ */
+export function getPodBaseUrl(podName: string, env: string = process.env.TEST_ENV || 'dev'): string {
+  const environment = getEnvironment(env);
+  const override = process.env[`${podName.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_BASE_URL`];
+  return override || environment.pods[podName] || getBaseUrl(env);
+}
+
+/**
+ * Get the LMS base URL for an environment
+ * LMS_BASE_URL overrides it (set by the global setup when MOCK_LMS=true starts the mock LMS server)
+ */
+export function getLmsBaseUrl(env: string = process.env.TEST_ENV || 'dev'): string {
+  return getPodBaseUrl('lms', env);
 }
 
+/**
+ * Get the DSP base URL for an environment
+ * DSP_BASE_URL overrides the configured URL (e.g. to point at the local mock DSP server)
+ */
 export function getDspBaseUrl(env: string = process.env.TEST_ENV || 'dev'): string {
-  const environment = env as keyof EnvironmentConfig;
-  if (!envConfig[environment]) {
-    throw new Error(`Invalid environment: ${env}`);
-  }
-  return envConfig[environment].dspBaseUrl;
+  const environment = getEnvironment(env);
+  return process.env.DSP_BASE_URL || environment.dspBaseUrl;
 }
 
+/**
+ * Get the DSP secret key for an environment from the secrets provider
+ * @throws Error if the environment is unknown or no backend provides DSP_SECRET_KEY
+ */
 export function getDspSecretKey(env: string = process.env.TEST_ENV || 'dev'): string {
-  const environment = env as keyof EnvironmentConfig;
-  if (!envConfig[environment]) {
-    throw new Error(`Invalid environment: ${env}`);
-  }
-  return envConfig[environment].dspSecretKey;
+  getEnvironment(env);
+  return getSecret('DSP_SECRET_KEY', env);
 }
@@ -0,0 +1,205 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnvironmentDefinition, EnvironmentSettings } from '../types/config.types';
+/**
+ * Environment Definitions
+ *
+ * Loads config/environments/<name>.json, validates every file against the
+ * environment schema and resolves `extends` chains (e.g. qa2 extends staging).
+ * All problems across all files are reported together.
+ */
+
+/** Directory holding the environment definitions */
+export const ENVIRONMENTS_DIR = path.resolve(__dirname, 'environments');
+
+/** Methods a safety policy may allow */
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH'];
+
+/** Endpoint categories are written as pod.category, matching endpoints.json */
+const CATEGORY_PATTERN = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/;
+
+/** Environment names become file names and env var lookups, so keep them simple */
+const NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Check that a value is an absolute http(s) URL
+ */
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Environment schema: one check per allowed field, returning an error message or undefined
+ */
+const ENVIRONMENT_SCHEMA: Record<keyof EnvironmentDefinition, (value: unknown) => string | undefined> = {
+  extends: value => typeof value === 'string' && NAME_PATTERN.test(value) ? undefined : 'must be an environment name',
+  baseUrl: value => isHttpUrl(value) ? undefined : 'must be an http(s) URL',
+  dspBaseUrl: value => isHttpUrl(value) ? undefined : 'must be an http(s) URL',
+  pods: value => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return 'must be an object mapping pod names to URLs';
+    }
+    const invalid = Object.entries(value).filter(([, url]) => !isHttpUrl(url)).map(([pod]) => pod);
+    return invalid.length > 0 ? `must map pods to http(s) URLs (invalid: ${invalid.join(', ')})` : undefined;
+  },
+  safety: value => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return 'must be an object with allowedMethods and allowedCategories';
+    }
+    const { allowedMethods, allowedCategories, ...unknown } = value as Record<string, unknown>;
+    if (Object.keys(unknown).length > 0) {
+      return `has unknown fields: ${Object.keys(unknown).join(', ')}`;
+    }
+    if (!Array.isArray(allowedMethods) || allowedMethods.some(method => !HTTP_METHODS.includes(method))) {
+      return `allowedMethods must be an array of ${HTTP_METHODS.join(', ')}`;
+    }
+    if (!Array.isArray(allowedCategories) || allowedCategories.some(category => !CATEGORY_PATTERN.test(category))) {
+      return 'allowedCategories must be an array of pod.category names';
+    }
+    return undefined;
+  }
+};
+
+/**
+ * Validate a single environment definition against the schema
+ *
+ * @param definition - Parsed JSON
+ * @returns Error messages, prefixed with the field name
+ */
+export function validateEnvironmentDefinition(definition: unknown): string[] {
+  if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+    return ['must be a JSON object'];
+  }
+  const errors: string[] = [];
+  for (const [field, value] of Object.entries(definition)) {
+    const check = ENVIRONMENT_SCHEMA[field as keyof EnvironmentDefinition];
+    const error = check ? check(value) : 'is not a known field';
+    if (error) {
+      errors.push(`${field} ${error}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Resolve inheritance for a set of environment definitions
+ *
+ * @param definitions - Definitions by environment name
+ * @returns Resolved environments by name
+ * @throws Error listing unknown parents, inheritance cycles and missing required URLs
+ */
+export function resolveEnvironments(definitions: Record<string, EnvironmentDefinition>): Record<string, EnvironmentSettings> {
+  const errors: string[] = [];
+  const resolved: Record<string, EnvironmentSettings> = {};
+  for (const name of Object.keys(definitions).sort()) {
+    const chain: string[] = [];
+    let current: string | undefined = name;
+    while (current !== undefined) {
+      if (chain.includes(current)) {
+        errors.push(`${name}: inheritance cycle ${[...chain, current].join(' -> ')}`);
+        break;
+      }
+      if (!definitions[current]) {
+        errors.push(`${name}: extends unknown environment "${current}"`);
+        break;
+      }
+      chain.push(current);
+      current = definitions[current].extends;
+    }
+    if (current !== undefined) {
+      continue;
+    }
+    // Apply the chain from the root ancestor down, so nearer definitions win
+    const merged = [...chain].reverse().reduce<EnvironmentDefinition>((settings, ancestor) => ({
+      ...settings,
+      ...definitions[ancestor],
+      pods: { ...settings.pods, ...definitions[ancestor].pods }
+    }), {});
+    const missing = (['baseUrl', 'dspBaseUrl'] as const).filter(field => !merged[field]);
+    if (missing.length > 0) {
+      errors.push(`${name}: missing ${missing.join(', ')} (not set here or in any parent)`);
+      continue;
+    }
+    resolved[name] = {
+      name,
+      chain,
+      baseUrl: merged.baseUrl!,
+      dspBaseUrl: merged.dspBaseUrl!,
+      pods: merged.pods || {},
+      ...(merged.safety && { safety: merged.safety })
+    };
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid environment configuration:\n  ${errors.join('\n  ')}`);
+  }
+  return resolved;
+}
+
+/**
+ * Load, validate and resolve every <name>.json in a directory
+ *
+ * @param directory - Directory with environment definitions (defaults to config/environments)
+ * @returns Resolved environments by name
+ * @throws Error listing every invalid file and field
+ */
+export function loadEnvironments(directory: string = ENVIRONMENTS_DIR): Record<string, EnvironmentSettings> {
+  const errors: string[] = [];
+  const definitions: Record<string, EnvironmentDefinition> = {};
+  for (const file of fs.readdirSync(directory).filter(entry => entry.endsWith('.json')).sort()) {
+    const name = file.replace(/\.json$/, '');
+    if (!NAME_PATTERN.test(name)) {
+      errors.push(`${file}: environment names may only contain lowercase letters, digits and dashes`);
+      continue;
+    }
+    let definition: unknown;
+    try {
+      definition = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf-8'));
+    } catch (error) {
+      errors.push(`${file}: invalid JSON (${(error as Error).message})`);
+      continue;
+    }
+    const problems = validateEnvironmentDefinition(definition);
+    if (problems.length > 0) {
+      errors.push(...problems.map(problem => `${file}: ${problem}`));
+      continue;
+    }
+    definitions[name] = definition as EnvironmentDefinition;
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid environment configuration:\n  ${errors.join('\n  ')}`);
+  }
+  return resolveEnvironments(definitions);
+}
+
+let environments: Record<string, EnvironmentSettings> | undefined;
+
+/**
+ * Get all environments from config/environments (loaded and validated on first use)
+ */
+export function getEnvironments(): Record<string, EnvironmentSettings> {
+  if (!environments) {
+    environments = loadEnvironments();
+  }
+  return environments;
+}
+
+/**
+ * Get a resolved environment
+ *
+ * @param env - Environment name (defaults to TEST_ENV or dev)
+ * @throws Error naming the defined environments if env is unknown
+ */
+export function getEnvironment(env: string = process.env.TEST_ENV || 'dev'): EnvironmentSettings {
+  const all = getEnvironments();
+  if (!all[env]) {
+    throw new Error(`Invalid environment: ${env} (defined in config/environments: ${Object.keys(all).join(', ')})`);
+  }
+  return all[env];
+}
@@ -1,16 +1,77 @@
 import { APIRequestContext } from '@playwright/test';
-import { getBaseUrl, getDspBaseUrl } from '../../config/envconfig';
+import { getDspBaseUrl, getPodBaseUrl } from '../../config/envconfig';
+import { getEnvironment } from '../../config/environments';
+import { buildEndpointPath } from '../../config/endpointRegistry';
+import { PathParamValue, expandPathTemplate } from './pathTemplate';
 import { Logger } from '../../utils/logger';
-import { ApiResponse } from '../../types/api.types';
-import { attachRequest, attachResponse, attachCurlCommand } from '../../utils/allureHelper';
+import {
+  ApiRequest, ApiResponse, HttpMethod, Interceptor, PollOptions, QueryArrayFormat, QueryParams, ReportEntry, RequestBodyOptions, RequestSigner, RetryPolicy
+} from '../../types/api.types';
+import { EndpointDefinition, EndpointQuery, PathParamNames, PathParams, RequiredPathParamNames } from '../../types/endpoint.types';
+import { attachRequest, attachResponse, attachCurlCommand, step } from '../../utils/allureHelper';
+import { getPodConfig } from '../../utils/testDataLoader';
+import { Cassette, createCassetteInterceptor } from './cassette';
+import { getGlobalInterceptors, isApiResponse } from './interceptors';
+import { pollUntil } from './polling';
+import { appendQuery } from './queryBuilder';
+import { describeBody, encodeRequestBody } from './requestBody';
+import { ParsedResponseBody, readResponseBody } from './responseParsers';
+import {
+  RetryableAttemptError, computeRetryDelay, getEffectiveRetryPolicy, isNetworkError, markNetworkError, resolveRetryPolicy
+} from './retryPolicy';
+import { evaluateSafety, getCurrentTestTags } from './safetyGuard';
+
+/**
+ * Options accepted by BaseHelper.makeRequest
+ */
+export interface RequestOptions extends RequestBodyOptions {
+  /** Query parameters, merged into any query string already in the endpoint */
+  params?: QueryParams;
+  /** How array query parameters are written (default: repeat) */
+  arrayFormat?: QueryArrayFormat;
+  /** Additional headers (override defaults) */
+  headers?: Record<string, string>;
+  /** Base URL override (defaults to the helper's baseUrl) */
+  baseUrl?: string;
+  /** Hook returning signature headers, invoked for every attempt */
+  signer?: RequestSigner;
+  /** Per-request retry overrides, or false to disable retries */
+  retry?: Partial<RetryPolicy> | false;
+  /** Request timeout in milliseconds (defaults to the pod's config.timeout) */
+  timeout?: number;
+}
+/**
+ * Options accepted by BaseHelper.callEndpoint
+ * pathParams is required exactly when the endpoint's path has required placeholders
+ */
+export type EndpointCallOptions<E extends EndpointDefinition> = Omit<RequestOptions, 'params' | 'baseUrl'> & {
+  /** Query parameters declared for the endpoint */
+  query?: EndpointQuery<E>;
+} & ([PathParamNames<E['path']>] extends [never]
+  ? { pathParams?: Record<string, never> }
+  : [RequiredPathParamNames<E['path']>] extends [never]
+    ? { pathParams?: PathParams<E['path']> }
+    : { pathParams: PathParams<E['path']> });
+/**
+ * Arguments after the endpoint: options are optional only for paths without required placeholders
+ */
+export type EndpointCallArgs<E extends EndpointDefinition> = [RequiredPathParamNames<E['path']>] extends [never]
+  ? [options?: EndpointCallOptions<E>]
+  : [options: EndpointCallOptions<E>];
 /**
  * Abstract base helper class for pod-specific API helpers
  * 
  * Provides common functionality including:
  * - HTTP request methods (GET, POST, PUT, DELETE, PATCH)
- * - URL building with query parameters
+ * - URL building with query parameters and per-request base URL override
+ * - Pluggable request signing (e.g. DSP HMAC headers)
+ * - Request/response interceptor chain (per instance and global)
+ * - Retry policy with exponential backoff, driven by the pod's test data config
+ * - Per-request timeouts and latency/size capture on every response
+ * - Polling until asynchronous statuses settle
+ * - JSON, form, multipart and binary request bodies with matching Content-Type
  * - Header building with authentication token injection
- * - Response parsing with automatic JSON handling
+ * - Response parsing by media type (JSON, +json, XML, binary, empty bodies)
  * - Path parameter substitution
  * - Authentication token management
  * - Comprehensive error logging
@@ -27,17 +88,26 @@ export abstract class BaseHelper {
   protected logger: Logger;
   /** Name of the pod this helper is for */
   protected podName: string;
+  /** Interceptors registered on this helper instance */
+  protected interceptors: Interceptor[] = [];
+  /** Retry policy for requests made by this helper */
+  protected retryPolicy: RetryPolicy;
+  /** Default request timeout in milliseconds (undefined uses Playwright's default) */
+  protected requestTimeout?: number;
   /**
    * Constructor for BaseHelper
    * 
    * @param request - Playwright APIRequestContext for making HTTP requests
-   * @param podName - Name of the pod (used for logging context)
+   * @param podName - Name of the pod (used for logging context and to pick the pod's base URL)
    */
   constructor(request: APIRequestContext, podName: string) {
     this.request = request;
     this.podName = podName;
-    this.baseUrl = getBaseUrl();
+    this.baseUrl = getPodBaseUrl(podName);
     this.logger = new Logger(podName);
+    const podConfig = getPodConfig(podName);
+    this.retryPolicy = resolveRetryPolicy(podConfig);
+    this.requestTimeout = podConfig?.timeout;
   }
   /**
    * Make an HTTP request to the API
@@ -45,87 +115,410 @@ export abstract class BaseHelper {
    * Handles all HTTP methods, builds URLs and headers, logs request/response details,
    * attaches data to Allure report, and provides comprehensive error handling.
    * 
+   * Requests the environment's safety policy does not allow (e.g. writes in prod)
+   * are blocked before anything is sent.
+   * 
+   * When a signer is provided it is invoked with the built request and the headers
+   * it returns are merged in, so signatures appear in logs and Allure attachments.
+   * 
+   * The request then passes through the interceptor chain (global interceptors first,
+   * then instance interceptors). An onRequest hook may short-circuit the call by
+   * returning an ApiResponse; onResponse and onError hooks run in reverse order.
+   * 
+   * Retryable statuses and network errors are retried according to the retry policy.
+   * POST and PATCH are only retried when the policy sets retryNonIdempotent. When more
+   * than one attempt is allowed, each attempt is reported as its own Allure step.
+   * 
    * @param method - HTTP method (GET, POST, PUT, DELETE, PATCH)
    * @param endpoint - API endpoint path (relative to baseUrl)
-   * @param options - Request options including data, params, and headers
+   * @param options - Request options including the body (data, form, multipart or binary), params, headers, baseUrl override, signer, retry and timeout
    * @returns Promise resolving to ApiResponse with status, headers, body, and ok flag
    * 
    * Requirements: 11.1, 11.2 - Logs request and response details on failure
    */
   protected async makeRequest(
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH',
+    method: HttpMethod,
     endpoint: string,
-    options: {
-      data?: any;
-      params?: Record<string, string>;
-      headers?: Record<string, string>;
-    } = {}
+    options: RequestOptions = {}
+  ): Promise<ApiResponse> {
+    const url = this.buildUrl(endpoint, options.params, options.baseUrl, options.arrayFormat);
+    this.enforceSafetyPolicy(method, url);
+    const chain = this.getInterceptorChain();
+    const policy = getEffectiveRetryPolicy(method, this.retryPolicy, options.retry);
+    if (policy.maxAttempts <= 1) {
+      return await this.executeRequest(method, url, options, chain);
+    }
+    for (let attempt = 1; ; attempt++) {
+      const label = `Attempt ${attempt}/${policy.maxAttempts}: ${method} ${url}`;
+      try {
+        return await step(label, () => this.executeAttempt(method, url, options, chain, policy, attempt));
+      } catch (error: any) {
+        if (!(error instanceof RetryableAttemptError)) {
+          throw error;
+        }
+        const delay = computeRetryDelay(policy, attempt, error.response);
+        this.logger.warn(`${label} failed with ${error.message}, retrying in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+  /**
+   * Call a route from the endpoint registry
+   * 
+   * Uses the route's method, fills its path params and sends it to the route's
+   * base URL (the helper's base URL for volt routes, the DSP base URL for dsp routes).
+   * Missing or misspelled path params and undeclared query params are compile errors.
+   * 
+   * @param endpoint - Registry entry (e.g. endpointRegistry.lms.payments.getById)
+   * @param options - Path params, query params and request options
+   * @returns Promise resolving to ApiResponse
+   * 
+   * @example
+   * await this.callEndpoint(endpointRegistry.lms.payments.getById, { pathParams: { id: paymentId } });
+   */
+  protected async callEndpoint<E extends EndpointDefinition>(endpoint: E, ...[options]: EndpointCallArgs<E>): Promise<ApiResponse> {
+    const { pathParams, query, ...requestOptions } = (options || {}) as EndpointCallOptions<EndpointDefinition> & {
+      pathParams?: Record<string, string>;
+    };
+    return await this.makeRequest(endpoint.method, buildEndpointPath(endpoint, (pathParams || {}) as unknown as PathParams<E['path']>), {
+      ...requestOptions,
+      ...(query && { params: query }),
+      baseUrl: endpoint.base === 'dsp' ? this.getDspBaseUrl() : this.baseUrl
+    });
+  }
+  /**
+   * Apply the environment's safety policy to a request and log the decision
+   * 
+   * @param method - HTTP method
+   * @param url - Complete request URL
+   * @throws Error with the reason if the request is blocked
+   */
+  private enforceSafetyPolicy(method: HttpMethod, url: string): void {
+    const environment = getEnvironment();
+    const decision = evaluateSafety(method, url, environment, this.podName, getCurrentTestTags());
+    if (!environment.safety) {
+      this.logger.debug(`Safety guard: ${decision.reason}`);
+    } else if (decision.allowed) {
+      this.logger.info(`Safety guard allowed ${decision.reason}`);
+    } else {
+      this.logger.error(`Safety guard blocked ${decision.reason}`);
+      throw new Error(`Blocked by safety guard: ${decision.reason}`);
+    }
+  }
+  /**
+   * Run a single attempt and decide whether it should be retried
+   * 
+   * @throws RetryableAttemptError if the attempt failed retryably and attempts remain
+   */
+  private async executeAttempt(
+    method: HttpMethod,
+    url: string,
+    options: RequestOptions,
+    chain: Interceptor[],
+    policy: RetryPolicy,
+    attempt: number
   ): Promise<ApiResponse> {
-    const url = this.buildUrl(endpoint, options.params);
-    const headers = this.buildHeaders(options.headers);
-    this.logger.info(`${method} ${url}`);
-    if (options.data) {
-      this.logger.debug('Request body:', options.data);
+    const canRetry = attempt < policy.maxAttempts;
+    let response: ApiResponse;
+    try {
+      response = await this.executeRequest(method, url, options, chain);
+    } catch (error: any) {
+      if (canRetry && policy.retryOnNetworkError && isNetworkError(error)) {
+        throw new RetryableAttemptError(undefined, error);
+      }
+      throw error;
     }
+    if (canRetry && policy.retryableStatuses.includes(response.status)) {
+      throw new RetryableAttemptError(response);
+    }
+    return response;
+  }
+  /**
+   * Sign, intercept, send and report one request
+   * 
+   * @param method - HTTP method
+   * @param url - Complete request URL
+   * @param options - Request options
+   * @param chain - Interceptors to apply
+   * @returns ApiResponse from the server, an interceptor short-circuit or an onError recovery
+   */
+  private async executeRequest(
+    method: HttpMethod,
+    url: string,
+    options: RequestOptions,
+    chain: Interceptor[]
+  ): Promise<ApiResponse> {
+    const body = encodeRequestBody(options);
+    let headers = this.buildHeaders(options.headers, body.contentType);
+    if (options.signer) {
+      headers = { ...headers, ...options.signer({ method, url, headers, data: body.data }) };
+    }
+    let apiRequest: ApiRequest = { method, url, headers, data: body.data };
+    const reverseChain = [...chain].reverse();
     try {
-      attachRequest(method, url, headers, options.data);
-      attachCurlCommand(method, url, headers, options.data);
-      const response = await this.request[method.toLowerCase() as Lowercase<typeof method>](url, {
-        data: options.data,
-        headers: headers
-      });
-      const body = await this.parseResponse(response);
-      const result: ApiResponse = {
-        status: response.status(),
-        headers: response.headers(),
-        body: body,
-        ok: response.ok()
-      };
-      this.logger.info(`Response status: ${result.status}`);
-      this.logger.debug('Response body:', result.body);
-      attachResponse(result.status, result.headers, result.body);
-      return result;
+      let result: ApiResponse | undefined;
+      for (const interceptor of chain) {
+        if (!interceptor.onRequest) {
+          continue;
+        }
+        const outcome = await interceptor.onRequest(apiRequest);
+        if (isApiResponse(outcome)) {
+          this.logger.info(`Request short-circuited by interceptor ${interceptor.name || '(anonymous)'}`);
+          result = outcome;
+          break;
+        }
+        if (outcome) {
+          apiRequest = outcome;
+        }
+      }
+      const reportedRequest = this.reportRequest(apiRequest, chain);
+      if (!result) {
+        result = await this.sendRequest(apiRequest, options.timeout ?? this.requestTimeout);
+      }
+      for (const interceptor of reverseChain) {
+        if (!interceptor.onResponse) {
+          continue;
+        }
+        const outcome = await interceptor.onResponse(result, apiRequest);
+        if (outcome) {
+          result = outcome;
+        }
+      }
+      this.reportResponse(apiRequest, result, chain);
+      return { ...result, request: reportedRequest };
     } catch (error: any) {
-      this.logger.error(`Request failed: ${method} ${url}`);
-      this.logger.error(`Request headers:`, headers);
-      if (options.data) {
-        this.logger.error(`Request body:`, options.data);
+      for (const interceptor of reverseChain) {
+        if (!interceptor.onError) {
+          continue;
+        }
+        const recovered = await interceptor.onError(error, apiRequest);
+        if (recovered) {
+          this.logger.warn(`Request failure handled by interceptor ${interceptor.name || '(anonymous)'}: ${error.message}`);
+          this.reportResponse(apiRequest, recovered, chain);
+          return { ...recovered, request: this.applyReportInterceptors({ request: apiRequest }, chain).request };
+        }
+      }
+      const reported = this.applyReportInterceptors({ request: apiRequest }, chain).request;
+      this.logger.error(`Request failed: ${reported.method} ${reported.url}`);
+      this.logger.error(`Request headers:`, reported.headers);
+      if (reported.data) {
+        this.logger.error(`Request body:`, describeBody(reported.data));
       }
       this.logger.error(`Error message: ${error.message}`);
       throw error;
     }
   }
   /**
-   * Build complete URL with query parameters
+   * Send a built request through the Playwright request context
    * 
-   * Combines base URL, endpoint path, and optional query parameters.
+   * Measures total duration and payload sizes.
    * 
-   * @param endpoint - API endpoint path (relative to baseUrl)
-   * @param params - Optional query parameters as key-value pairs
-   * @returns Complete URL with query string if params provided
-   */
-  protected buildUrl(endpoint: string, params?: Record<string, string>): string {
-    let url = `${this.baseUrl}${endpoint}`;
-    if (params) {
-      const queryString = new URLSearchParams(params).toString();
-      url += `?${queryString}`;
+   * @param apiRequest - Request to send
+   * @param timeout - Request timeout in milliseconds (optional)
+   * @returns ApiResponse built from the Playwright response, including timing data
+   */
+  protected async sendRequest(apiRequest: ApiRequest, timeout?: number): Promise<ApiResponse> {
+    const method = apiRequest.method.toLowerCase() as Lowercase<HttpMethod>;
+    const startedAt = Date.now();
+    const response = await this.request[method](apiRequest.url, {
+      data: apiRequest.data,
+      headers: apiRequest.headers,
+      ...(timeout !== undefined && { timeout })
+    }).catch(error => {
+      throw markNetworkError(error);
+    });
+    const { body, sizeBytes } = await this.readResponse(response);
+    return {
+      status: response.status(),
+      headers: response.headers(),
+      body: body,
+      ok: response.ok(),
+      timing: {
+        durationMs: Date.now() - startedAt,
+        requestSizeBytes: this.getPayloadSize(apiRequest.data),
+        responseSizeBytes: sizeBytes
+      }
+    };
+  }
+  /**
+   * Get the size of a request body as it is sent over the wire
+   * 
+   * @param data - Request body (object, string or Buffer)
+   * @returns Size in bytes (0 when there is no body)
+   */
+  protected getPayloadSize(data: any): number {
+    if (data === undefined || data === null) {
+      return 0;
     }
-    return url;
+    if (Buffer.isBuffer(data)) {
+      return data.length;
+    }
+    return Buffer.byteLength(typeof data === 'string' ? data : JSON.stringify(data), 'utf8');
+  }
+  /**
+   * Log the request and attach it (with a curl command) to the Allure report
+   * 
+   * @param apiRequest - Request about to be sent
+   * @param chain - Interceptors whose onReport hooks shape the reported copy
+   * @returns The reported copy of the request
+   */
+  private reportRequest(apiRequest: ApiRequest, chain: Interceptor[]): ApiRequest {
+    const { request } = this.applyReportInterceptors({ request: apiRequest }, chain);
+    const data = describeBody(request.data);
+    this.logger.info(`${request.method} ${request.url}`);
+    if (data) {
+      this.logger.debug('Request body:', data);
+    }
+    attachRequest(request.method, request.url, request.headers, data);
+    attachCurlCommand(request.method, request.url, request.headers, data);
+    return request;
+  }
+  /**
+   * Log the response and attach it to the Allure report
+   * 
+   * @param apiRequest - Request that produced the response
+   * @param apiResponse - Response to report
+   * @param chain - Interceptors whose onReport hooks shape the reported copy
+   */
+  private reportResponse(apiRequest: ApiRequest, apiResponse: ApiResponse, chain: Interceptor[]): void {
+    const response = this.applyReportInterceptors({ request: apiRequest, response: apiResponse }, chain).response!;
+    const latency = response.timing ? ` (${response.timing.durationMs}ms, ${response.timing.responseSizeBytes} bytes)` : '';
+    this.logger.info(`Response status: ${response.status}${latency}`);
+    const body = describeBody(response.body);
+    this.logger.debug('Response body:', body);
+    attachResponse(response.status, response.headers, body, response.timing);
+  }
+  /**
+   * Run onReport hooks to produce the copy written to logs and attachments
+   * 
+   * @param entry - Request/response pair as sent and received
+   * @param chain - Interceptors to apply in order
+   * @returns Transformed entry
+   */
+  private applyReportInterceptors(entry: ReportEntry, chain: Interceptor[]): ReportEntry {
+    return chain.reduce((current, interceptor) => interceptor.onReport?.(current) || current, entry);
+  }
+  /**
+   * Get interceptors applied to requests from this helper
+   * 
+   * @returns Global interceptors followed by instance interceptors
+   */
+  protected getInterceptorChain(): Interceptor[] {
+    return [...getGlobalInterceptors(), ...this.interceptors];
+  }
+  /**
+   * Register an interceptor on this helper instance
+   * 
+   * @param interceptor - Interceptor to add to the end of the instance chain
+   * @returns Function that removes the interceptor again
+   */
+  public addInterceptor(interceptor: Interceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => this.removeInterceptor(interceptor);
+  }
+  /**
+   * Remove an interceptor from this helper instance
+   * 
+   * @param interceptor - Interceptor to remove
+   */
+  public removeInterceptor(interceptor: Interceptor): void {
+    const index = this.interceptors.indexOf(interceptor);
+    if (index !== -1) {
+      this.interceptors.splice(index, 1);
+    }
+  }
+  /**
+   * Record this helper's traffic to, or replay it from, a cassette
+   * 
+   * Applies to DSP calls as well: in replay mode the request is answered from
+   * the cassette after signing, so signatures never reach the network.
+   * 
+   * @param cassette - Cassette in record or replay mode
+   * @returns Function that detaches the cassette again
+   */
+  public useCassette(cassette: Cassette): () => void {
+    return this.addInterceptor(createCassetteInterceptor(cassette));
+  }
+  /**
+   * Poll an endpoint until its response satisfies a predicate
+   * 
+   * Fails fast when body.status or body.subStatus reaches one of the failure states,
+   * and on timeout throws with the full status history.
+   * 
+   * @param fetcher - Function performing one request (e.g. () => helper.getMandate(id))
+   * @param predicate - Returns true once the response is final
+   * @param options - Interval, backoff, timeout and terminal failure states
+   * @returns The first response satisfying the predicate
+   * 
+   * @example
+   * const response = await helper.pollUntil(
+   *   () => helper.getKycUtility(utilityReferenceId),
+   *   res => res.body.status === 'APPROVED',
+   *   { timeoutMs: 60000, intervalMs: 2000, failureStates: ['REJECTED'] }
+   * );
+   */
+  public async pollUntil<T = any>(
+    fetcher: () => Promise<ApiResponse<T>>,
+    predicate: (response: ApiResponse<T>) => boolean,
+    options: PollOptions = {}
+  ): Promise<ApiResponse<T>> {
+    return await pollUntil(fetcher, predicate, options, this.logger);
+  }
+  /**
+   * Override the retry policy for requests made by this helper
+   * 
+   * @param overrides - Fields to change (e.g. { maxAttempts: 4, retryNonIdempotent: true })
+   */
+  public setRetryPolicy(overrides: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...overrides };
+    this.logger.info(`Retry policy updated: maxAttempts=${this.retryPolicy.maxAttempts}`);
+  }
+  /**
+   * Get the retry policy for requests made by this helper
+   * 
+   * @returns Copy of the current retry policy
+   */
+  public getRetryPolicy(): RetryPolicy {
+    return { ...this.retryPolicy };
+  }
+  /**
+   * Build complete URL with query parameters
+   * 
+   * Combines base URL, endpoint path, and optional query parameters. Parameters are
+   * merged into any query string the endpoint already has; undefined and null values
+   * are left out.
+   * 
+   * @param endpoint - API endpoint path (relative to baseUrl), optionally with a query string
+   * @param params - Optional query parameters (strings, numbers, booleans or arrays)
+   * @param baseUrl - Optional base URL override (defaults to the helper's baseUrl)
+   * @param arrayFormat - How array parameters are written (default: repeat)
+   * @returns Complete URL, with a query string only if there is something to send
+   */
+  protected buildUrl(
+    endpoint: string,
+    params?: QueryParams,
+    baseUrl: string = this.baseUrl,
+    arrayFormat: QueryArrayFormat = 'repeat'
+  ): string {
+    return appendQuery(`${baseUrl}${endpoint}`, params, arrayFormat);
   }
   /**
    * Build request headers with authentication token injection
    * 
    * Creates default headers (Content-Type, Accept) and adds Authorization header
-   * if auth token is present. Merges with any additional headers provided.
+   * if auth token is present. Merges with any additional headers provided; a
+   * Content-Type in additionalHeaders replaces the default whatever its casing.
    * 
    * @param additionalHeaders - Optional additional headers to include
+   * @param contentType - Content-Type of the body (default: application/json)
    * @returns Complete headers object with defaults, auth token, and additional headers
    * 
    * Requirements: 6.2 - Includes authentication token in request headers
    */
-  protected buildHeaders(additionalHeaders?: Record<string, string>): Record<string, string> {
+  protected buildHeaders(additionalHeaders?: Record<string, string>, contentType: string = 'application/json'): Record<string, string> {
+    const overridesContentType = Object.keys(additionalHeaders || {}).some(name => name.toLowerCase() === 'content-type');
     const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
+      ...(!overridesContentType && { 'Content-Type': contentType }),
       'Accept': 'application/json'
     };
     if (this.authToken) {
@@ -136,36 +529,44 @@ export abstract class BaseHelper {
   /**
    * Parse API response based on content type
    * 
-   * Automatically parses JSON responses and returns text for other content types.
+   * Uses the parser registered for the response's media type (see responseParsers.ts):
+   * JSON for application/json and +json types (including application/problem+json),
+   * text for XML and unknown types, a Buffer for PDF and other binary types, and
+   * undefined for empty JSON or binary bodies such as 204 No Content.
    * 
    * @param response - Playwright API response object
-   * @returns Parsed response body (object for JSON, string for text)
+   * @returns Parsed response body
+   * @throws ResponseParseError with the raw text if a JSON body is malformed
    * 
    * Requirements: 12.2 - Automatic JSON parsing for JSON responses
    */
   protected async parseResponse(response: any): Promise<any> {
-    const contentType = response.headers()['content-type'] || '';
-    if (contentType.includes('application/json')) {
-      return await response.json();
-    }
-    return await response.text();
+    return (await this.readResponse(response)).body;
+  }
+  /**
+   * Read and parse a response body once, keeping the raw body size for the timing data
+   * 
+   * @param response - Playwright API response object
+   * @returns Parsed body (as parseResponse) and raw body size in bytes
+   * @throws ResponseParseError with the raw text if a JSON body is malformed
+   */
+  protected async readResponse(response: any): Promise<ParsedResponseBody> {
+    return await readResponseBody(response);
   }
   /**
    * Replace path parameters in endpoint URL
    * 
-   * Substitutes placeholders like {id} with actual values from params object.
+   * Substitutes every {id} placeholder with its RFC 3986 encoded value and drops
+   * optional {id?} segments that have no value.
    * Example: "/api/loans/{id}" with {id: "123"} becomes "/api/loans/123"
    * 
    * @param endpoint - Endpoint path with parameter placeholders
    * @param params - Object mapping parameter names to values
    * @returns Endpoint path with parameters replaced
+   * @throws Error if a required placeholder has no value or a param is not in the path
    */
-  protected replacePathParams(endpoint: string, params: Record<string, string>): string {
-    let result = endpoint;
-    for (const [key, value] of Object.entries(params)) {
-      result = result.replace(`{${key}}`, value);
-    }
-    return result;
+  protected replacePathParams(endpoint: string, params: Record<string, PathParamValue>): string {
+    return expandPathTemplate(endpoint, params);
   }
   /**
    * Set authentication token
@@ -0,0 +1,383 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiRequest, ApiResponse, Interceptor } from '../../types/api.types';
+import {
+  CassetteBinaryBody,
+  CassetteFile,
+  CassetteInteraction,
+  CassetteMatchOptions,
+  CassetteMode,
+  CassetteRedactionOptions,
+  CassetteRequest
+} from '../../types/cassette.types';
+import { getSecretsProvider } from '../../utils/secrets';
+import { ResponseValidator } from '../../utils/validators';
+/**
+ * Cassettes (record/replay)
+ *
+ * Records request/response pairs to a JSON cassette and serves them back:
+ * - record: pairs are redacted and appended, then written on save()
+ * - replay: each request is matched against unused interactions, in order;
+ *   an unmatched request fails instead of reaching the network
+ * Cassettes are wired into helpers through createCassetteInterceptor.
+ */
+
+/** Placeholder for redacted values */
+export const REDACTED = '[REDACTED]';
+
+/** Structurally valid stand-in for redacted JWTs ({"alg":"none"}.{"redacted":true}) */
+export const REDACTED_JWT = 'eyJhbGciOiJub25lIn0.eyJyZWRhY3RlZCI6dHJ1ZX0.REDACTED';
+
+/** Anything shaped like a JWT: three base64url segments, the first a JSON header */
+const JWT_PATTERN = /eyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g;
+const FULL_JWT_PATTERN = /^eyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/;
+
+/** Boundary multipart bodies are stored and hashed with, instead of the random one of each run */
+export const CASSETTE_MULTIPART_BOUNDARY = 'CassetteMultipartBoundary';
+
+/** Directory holding cassettes, one JSON file per test */
+export const CASSETTE_ROOT = path.join(__dirname, '..', '..', 'testdata', 'cassettes');
+
+/** Default matching: method, path, query and body hash; volatile headers ignored */
+export const DEFAULT_CASSETTE_MATCH: CassetteMatchOptions = {
+  method: true,
+  path: true,
+  query: true,
+  bodyHash: true,
+  headers: false,
+  ignoreHeaders: ['x-timestamp', 'x-signature', 'authorization', 'x-correlation-id', 'user-agent', 'content-length']
+};
+
+/**
+ * Default redaction: auth headers, credential-like keys, the DSP secret and JWTs
+ *
+ * The DSP secret is optional: runs without it (LMS only, env-only prod secrets) have nothing to redact.
+ */
+export function getDefaultRedaction(): CassetteRedactionOptions {
+  const dspSecretKey = getSecretsProvider().resolve('DSP_SECRET_KEY')?.value;
+  return {
+    headers: ['authorization', 'x-signature', 'cookie', 'set-cookie', 'x-api-key', 'x-auth-token'],
+    bodyKeys: ['password', 'otp', 'token', 'jwt', 'secret', 'secretKey', 'accessToken', 'refreshToken', 'authToken'],
+    secretValues: dspSecretKey ? [dspSecretKey] : [],
+    jwt: true
+  };
+}
+
+/**
+ * Redact secrets from any JSON-compatible value
+ *
+ * @param value - Value to redact (not modified)
+ * @param redaction - What to redact
+ * @returns Redacted copy
+ */
+export function redactValue(value: any, redaction: CassetteRedactionOptions): any {
+  const keys = new Set(redaction.bodyKeys.map(key => key.toLowerCase()));
+  // JWTs under redacted keys keep their three-part shape so token handling still works on replay
+  const replace = (current: any): any =>
+    redaction.jwt && typeof current === 'string' && FULL_JWT_PATTERN.test(current) ? REDACTED_JWT : REDACTED;
+  const visit = (current: any): any => {
+    if (typeof current === 'string') {
+      let result = current;
+      for (const secret of redaction.secretValues.filter(Boolean)) {
+        result = result.split(secret).join(REDACTED);
+      }
+      return redaction.jwt ? result.replace(JWT_PATTERN, REDACTED_JWT) : result;
+    }
+    if (Array.isArray(current)) {
+      return current.map(visit);
+    }
+    if (current && typeof current === 'object' && !Buffer.isBuffer(current)) {
+      return Object.fromEntries(
+        Object.entries(current).map(([key, child]) => [key, keys.has(key.toLowerCase()) ? replace(child) : visit(child)])
+      );
+    }
+    return current;
+  };
+  return visit(value);
+}
+
+/**
+ * Redact a header map
+ */
+function redactHeaders(headers: Record<string, string>, redaction: CassetteRedactionOptions): Record<string, string> {
+  const names = new Set(redaction.headers.map(name => name.toLowerCase()));
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name, names.has(name.toLowerCase()) ? REDACTED : redactValue(value, redaction)])
+  );
+}
+
+/**
+ * Redact query parameter values whose names are redacted body keys
+ */
+function redactUrl(url: string, redaction: CassetteRedactionOptions): string {
+  const parsed = new URL(url);
+  const keys = new Set(redaction.bodyKeys.map(key => key.toLowerCase()));
+  for (const name of [...parsed.searchParams.keys()]) {
+    if (keys.has(name.toLowerCase())) {
+      parsed.searchParams.set(name, REDACTED);
+    }
+  }
+  return redactValue(parsed.toString(), redaction);
+}
+
+/**
+ * Replace the random boundary of a multipart request, in its body and Content-Type, with CASSETTE_MULTIPART_BOUNDARY
+ *
+ * @param request - Request as sent
+ * @returns The request with a fixed boundary (other requests unchanged)
+ */
+function normalizeMultipart(request: ApiRequest): ApiRequest {
+  const contentType = ResponseValidator.getHeader(request, 'content-type') || '';
+  const boundary = /^multipart\/[^;]+;.*\bboundary="?([^";]+)"?/i.exec(contentType)?.[1];
+  if (!boundary || !Buffer.isBuffer(request.data)) {
+    return request;
+  }
+  // latin1 maps every byte to one character, so the round trip keeps binary file parts intact
+  const data = Buffer.from(request.data.toString('latin1').split(boundary).join(CASSETTE_MULTIPART_BOUNDARY), 'latin1');
+  const headers = Object.fromEntries(Object.entries(request.headers).map(([name, value]) =>
+    [name, name.toLowerCase() === 'content-type' ? value.split(boundary).join(CASSETTE_MULTIPART_BOUNDARY) : value]));
+  return { ...request, data, headers };
+}
+
+/**
+ * Store Buffer bodies as base64 instead of Buffer's JSON form ({"type":"Buffer","data":[...]})
+ */
+function toStoredBody(body: any): any {
+  if (!Buffer.isBuffer(body)) {
+    return body;
+  }
+  const stored: CassetteBinaryBody = { $base64: body.toString('base64') };
+  return stored;
+}
+
+/**
+ * Turn a stored base64 body back into a Buffer
+ */
+function fromStoredBody(body: any): any {
+  const isBinary = body !== null && typeof body === 'object' && Object.keys(body).length === 1 && typeof body.$base64 === 'string';
+  return isBinary ? Buffer.from(body.$base64, 'base64') : body;
+}
+
+/**
+ * Hash a request body (undefined bodies hash to undefined)
+ *
+ * @param body - Request body
+ * @returns SHA-256 hex digest of the JSON serialization (of the base64 form for Buffers)
+ */
+export function hashBody(body: any): string | undefined {
+  if (body === undefined) {
+    return undefined;
+  }
+  return crypto.createHash('sha256').update(JSON.stringify(toStoredBody(body))).digest('hex');
+}
+
+/**
+ * Turn a test title path into a file-system friendly cassette name
+ *
+ * @param parts - Spec file path and test titles
+ * @returns Relative cassette path without extension
+ */
+export function toCassetteName(parts: string[]): string {
+  return parts
+    .map(part => part.replace(/\.spec\.ts$/, '').replace(/[^A-Za-z0-9/_-]+/g, '-').replace(/^-+|-+$/g, ''))
+    .filter(Boolean)
+    .join('/');
+}
+
+/**
+ * Cassette holding the recorded interactions of one test
+ */
+export class Cassette {
+  /** Path of the cassette JSON file */
+  readonly filePath: string;
+  /** Record, replay or off */
+  readonly mode: CassetteMode;
+  private match: CassetteMatchOptions;
+  private redaction: CassetteRedactionOptions;
+  private interactions: CassetteInteraction[] = [];
+  private used = new Set<number>();
+  /**
+   * Constructor for Cassette
+   *
+   * In replay mode the cassette file is loaded immediately.
+   *
+   * @param name - Cassette name, relative to CASSETTE_ROOT (or an absolute .json path)
+   * @param mode - Record, replay or off
+   * @param match - Matching overrides
+   * @param redaction - Redaction overrides
+   * @throws Error if replaying and the cassette file does not exist
+   */
+  constructor(
+    name: string,
+    mode: CassetteMode,
+    match: Partial<CassetteMatchOptions> = {},
+    redaction: Partial<CassetteRedactionOptions> = {}
+  ) {
+    this.filePath = path.isAbsolute(name) ? name : path.join(CASSETTE_ROOT, `${name}.json`);
+    this.mode = mode;
+    this.match = { ...DEFAULT_CASSETTE_MATCH, ...match };
+    this.redaction = { ...getDefaultRedaction(), ...redaction };
+    if (mode === 'replay') {
+      if (!fs.existsSync(this.filePath)) {
+        throw new Error(`Cassette not found: ${this.filePath} (record it with VCR_MODE=record)`);
+      }
+      const file: CassetteFile = JSON.parse(fs.readFileSync(this.filePath, 'utf-8'));
+      this.interactions = file.interactions;
+    }
+  }
+  /**
+   * Get the recorded (or loaded) interactions
+   */
+  getInteractions(): CassetteInteraction[] {
+    return [...this.interactions];
+  }
+  /**
+   * Get the number of recorded interactions not yet served in replay
+   */
+  getUnusedCount(): number {
+    return this.interactions.length - this.used.size;
+  }
+  /**
+   * Redact a request the way it is stored in the cassette
+   *
+   * Multipart boundaries are normalized and Buffer bodies stored as base64, so
+   * multipart and binary requests match on replay.
+   *
+   * @param request - Request as sent
+   * @returns Redacted cassette request including the body hash
+   */
+  toCassetteRequest(request: ApiRequest): CassetteRequest {
+    const { data, headers } = normalizeMultipart(request);
+    const body = data === undefined ? undefined : toStoredBody(redactValue(data, this.redaction));
+    return {
+      method: request.method,
+      url: redactUrl(request.url, this.redaction),
+      headers: redactHeaders(headers, this.redaction),
+      ...(body !== undefined && { body, bodyHash: hashBody(body) })
+    };
+  }
+  /**
+   * Append a redacted request/response pair
+   *
+   * @param request - Request as sent
+   * @param response - Response received
+   */
+  record(request: ApiRequest, response: ApiResponse): void {
+    this.interactions.push({
+      request: this.toCassetteRequest(request),
+      response: {
+        status: response.status,
+        headers: redactHeaders(response.headers, this.redaction),
+        body: toStoredBody(redactValue(response.body, this.redaction))
+      }
+    });
+  }
+  /**
+   * Serve the first unused interaction matching the request
+   *
+   * @param request - Request about to be sent
+   * @returns Recorded response
+   * @throws Error if no unused interaction matches
+   */
+  replay(request: ApiRequest): ApiResponse {
+    const candidate = this.toCassetteRequest(request);
+    const index = this.interactions.findIndex((interaction, position) =>
+      !this.used.has(position) && this.matches(interaction.request, candidate));
+    if (index === -1) {
+      throw new Error(
+        `No cassette interaction matches ${request.method} ${new URL(request.url).pathname} `
+        + `(cassette: ${this.filePath}, ${this.getUnusedCount()} unused interaction(s))`
+      );
+    }
+    this.used.add(index);
+    const { response } = this.interactions[index];
+    return {
+      status: response.status,
+      headers: { ...response.headers },
+      body: fromStoredBody(response.body),
+      ok: response.status >= 200 && response.status < 300
+    };
+  }
+  /**
+   * Write the cassette file (record mode only, and only if anything was recorded)
+   */
+  save(): void {
+    if (this.mode !== 'record' || this.interactions.length === 0) {
+      return;
+    }
+    const file: CassetteFile = {
+      name: path.relative(CASSETTE_ROOT, this.filePath).replace(/\.json$/, ''),
+      recordedAt: new Date().toISOString(),
+      interactions: this.interactions
+    };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, `${JSON.stringify(file, null, 2)}\n`);
+  }
+  /**
+   * Compare a recorded request with a candidate according to the match options
+   */
+  private matches(recorded: CassetteRequest, candidate: CassetteRequest): boolean {
+    const recordedUrl = new URL(recorded.url);
+    const candidateUrl = new URL(candidate.url);
+    if (this.match.method && recorded.method !== candidate.method) {
+      return false;
+    }
+    if (this.match.path && recordedUrl.pathname !== candidateUrl.pathname) {
+      return false;
+    }
+    if (this.match.query && recordedUrl.search !== candidateUrl.search) {
+      return false;
+    }
+    if (this.match.bodyHash && recorded.bodyHash !== candidate.bodyHash) {
+      return false;
+    }
+    if (this.match.headers) {
+      const ignored = new Set(this.match.ignoreHeaders.map(name => name.toLowerCase()));
+      const normalize = (headers: Record<string, string>) => JSON.stringify(
+        Object.entries(headers)
+          .map(([name, value]) => [name.toLowerCase(), value])
+          .filter(([name]) => !ignored.has(name))
+          .sort(([a], [b]) => a.localeCompare(b))
+      );
+      if (normalize(recorded.headers) !== normalize(candidate.headers)) {
+        return false;
+      }
+    }
+    return true;
+  }
+}
+
+/**
+ * Create an interceptor that records to or replays from a cassette
+ *
+ * In replay mode the request is answered from the cassette without reaching
+ * the network; in record mode every response is appended to the cassette.
+ *
+ * @param cassette - Cassette to use
+ * @returns Interceptor bound to the cassette
+ */
+export function createCassetteInterceptor(cassette: Cassette): Interceptor {
+  return {
+    name: 'cassette',
+    onRequest: (request: ApiRequest) => cassette.mode === 'replay' ? cassette.replay(request) : undefined,
+    onResponse: (response: ApiResponse, request: ApiRequest) => {
+      if (cassette.mode === 'record') {
+        cassette.record(request, response);
+      }
+    }
+  };
+}
+
+/**
+ * Read the cassette mode from VCR_MODE (off, record or replay)
+ *
+ * @throws Error if VCR_MODE has any other value
+ */
+export function getCassetteMode(value: string | undefined = process.env.VCR_MODE): CassetteMode {
+  const mode = (value || 'off').toLowerCase();
+  if (mode !== 'off' && mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Invalid VCR_MODE: ${value} (expected off, record or replay)`);
+  }
+  return mode;
+}
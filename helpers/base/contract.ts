@@ -0,0 +1,742 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { ApiRequest, ApiResponse, HttpMethod, Interceptor } from '../../types/api.types';
+import { CassetteRedactionOptions } from '../../types/cassette.types';
+import {
+  ContractFile,
+  ContractGenerators,
+  ContractInteraction,
+  ContractMatcher,
+  ContractMatchingRule,
+  ContractMode,
+  ContractRecorderOptions,
+  ContractResponse,
+  ContractVerificationReport,
+  ProviderState
+} from '../../types/contract.types';
+import { EndpointBase, EndpointDefinition } from '../../types/endpoint.types';
+import { SecretName } from '../../types/secrets.types';
+import { endpointRegistry } from '../../config/endpointRegistry';
+import { isObject, quote } from '../../utils/apiSnapshot';
+import { childPath, replaceJsonPath } from '../../utils/jsonPath';
+import { getSecretsProvider } from '../../utils/secrets';
+import { ResponseValidator } from '../../utils/validators';
+import { DEFAULT_CASSETTE_MATCH, REDACTED, getDefaultRedaction, redactValue } from './cassette';
+import { expandPathTemplate } from './pathTemplate';
+/**
+ * Consumer-Driven Contracts
+ *
+ * Records the registry routes our helpers call into Pact v3 contract files, one per
+ * consumer and provider (testdata/contracts/<consumer>-<provider>.json):
+ * - the request shape: method, path, query, headers and the redacted body
+ * - response matching rules generated from the body: types, number kinds,
+ *   patterns for timestamps and JWTs, equality for status fields
+ * - provider states declared by the test with given()
+ * Path params, redacted body values and oversized ones (e.g. base64 images) become
+ * provider-state generators, so a provider can replay an interaction with its own
+ * IDs and credentials; values of the secrets provider (the login phone number) are
+ * never written, the verifier fills them from its own environment. IDs a request reuses from an earlier response (opportunityId,
+ * utilityReferenceId) are linked when the file is saved: the earlier response captures
+ * the value under a name and the request fills it in through a generator.
+ * Recording is wired in through createContractInterceptor; ContractVerifier replays
+ * the files against a provider.
+ */
+
+/** Consumer name written to the contracts */
+export const CONTRACT_CONSUMER = 'playwright-api-framework';
+
+/** Provider name for each base URL of the endpoint registry */
+export const CONTRACT_PROVIDERS: Record<EndpointBase, string> = {
+  volt: 'volt-api',
+  dsp: 'dsp-api'
+};
+
+/** recordedAgainst of contracts recorded against an in-process mock server */
+export const MOCK_CONTRACT_TARGET = 'mock';
+
+/** Directory holding the contract files */
+export const CONTRACT_ROOT = path.join(__dirname, '..', '..', 'testdata', 'contracts');
+
+/** Pact specification the files follow */
+export const PACT_SPECIFICATION_VERSION = '3.0.0';
+
+/** Records the LOS routes (DSP loan account creation and Volt auth) with status fields matched by value */
+export const DEFAULT_CONTRACT_OPTIONS: ContractRecorderOptions = {
+  consumer: CONTRACT_CONSUMER,
+  directory: CONTRACT_ROOT,
+  pods: ['los'],
+  equalityKeys: ['status', 'subStatus'],
+  maxExampleLength: 1024,
+  captureKeys: ['opportunityId', 'utilityReferenceId'],
+  targets: {}
+};
+
+/** ${name} placeholders of generator expressions; capture names contain a dot (e.g. ${kycUtilityInit.utilityReferenceId}) */
+export const EXPRESSION_PLACEHOLDER = /\$\{([\w.]+)\}/g;
+
+/** Request headers left out of contracts: auth, signatures and browser or transport details */
+const IGNORED_REQUEST_HEADERS = new Set([
+  ...DEFAULT_CASSETTE_MATCH.ignoreHeaders,
+  'cookie',
+  'accept-language',
+  'accept-encoding',
+  'origin',
+  'referer',
+  'host',
+  'connection'
+]);
+
+/** ISO-8601 timestamps */
+const ISO_TIMESTAMP_REGEX = '^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?(Z|[+-]\\d{2}:?\\d{2})?$';
+
+/** Three base64url segments */
+const JWT_REGEX = '^[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+$';
+
+/**
+ * Registry route matched from a request URL
+ */
+export interface EndpointMatch {
+  endpoint: EndpointDefinition;
+
+  /** Decoded values of the path placeholders */
+  pathParams: Record<string, string>;
+}
+
+/** Registry routes compiled to path patterns with one named group per placeholder */
+const COMPILED_ENDPOINTS = Object.entries(endpointRegistry as unknown as Record<string, Record<string, Record<string, EndpointDefinition>>>)
+  .flatMap(([pod, categories]) => Object.values(categories).flatMap(routes => Object.values(routes).map(endpoint => ({
+    pod,
+    endpoint,
+    pattern: compilePathPattern(endpoint.path),
+    // Literal routes win over templated ones (e.g. /loans/search over /loans/{id})
+    literalLength: endpoint.path.replace(/\{[^}]+\}/g, '').length
+  }))));
+
+/**
+ * Compile a path template to a pattern matching the end of a URL path
+ */
+function compilePathPattern(template: string): RegExp {
+  const source = template.replace(/\/+$/, '').split(/(\/\{\w+\?\}|\{\w+\})/).map(part => {
+    const optional = part.match(/^\/\{(\w+)\?\}$/);
+    if (optional) {
+      return `(?:/(?<${optional[1]}>[^/]+))?`;
+    }
+    const required = part.match(/^\{(\w+)\}$/);
+    return required ? `(?<${required[1]}>[^/]+)` : part.replace(/[.*+?^$()|[\]\\{}]/g, '\\$&');
+  }).join('');
+  return new RegExp(`${source}/?$`);
+}
+
+/**
+ * Find the registry route a request was sent to
+ *
+ * @param method - HTTP method
+ * @param url - Complete request URL
+ * @param pods - Pods to search (default: all)
+ * @returns Route and decoded path params, or undefined for URLs not in endpoints.json
+ */
+export function matchEndpoint(method: HttpMethod, url: string, pods?: string[]): EndpointMatch | undefined {
+  const pathname = new URL(url).pathname;
+  const candidates = COMPILED_ENDPOINTS
+    .filter(compiled => compiled.endpoint.method === method && (!pods || pods.includes(compiled.pod)))
+    .map(compiled => ({ compiled, match: pathname.match(compiled.pattern) }))
+    .filter(candidate => candidate.match)
+    .sort((a, b) => b.compiled.literalLength - a.compiled.literalLength);
+  if (candidates.length === 0) {
+    return undefined;
+  }
+  const { compiled, match } = candidates[0];
+  const pathParams = Object.fromEntries(Object.entries(match!.groups || {})
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => [name, decodeURIComponent(value)]));
+  return { endpoint: compiled.endpoint, pathParams };
+}
+
+/**
+ * Pick the matcher for a leaf value: patterns for timestamps and JWTs, number kinds, type otherwise
+ */
+function leafMatcher(value: any): ContractMatcher {
+  if (typeof value === 'string') {
+    if (new RegExp(ISO_TIMESTAMP_REGEX).test(value)) {
+      return { match: 'regex', regex: ISO_TIMESTAMP_REGEX };
+    }
+    if (new RegExp(JWT_REGEX).test(value)) {
+      return { match: 'regex', regex: JWT_REGEX };
+    }
+  }
+  if (typeof value === 'number') {
+    return { match: 'number' };
+  }
+  return { match: 'type' };
+}
+
+/**
+ * Generate response matching rules from an example body
+ *
+ * Arrays are matched like Pact's eachLike: at least one item, every item shaped like the
+ * first example. Leaves under an equality key must equal the example, other leaves only
+ * need the same type. null values get no rule and must stay null.
+ *
+ * @param body - Example response body
+ * @param equalityKeys - Keys whose leaf values are matched by value
+ * @returns Matching rules by JSONPath, [*] standing for every array item
+ */
+export function buildMatchingRules(body: any, equalityKeys: string[] = DEFAULT_CONTRACT_OPTIONS.equalityKeys): Record<string, ContractMatchingRule> {
+  const rules: Record<string, ContractMatchingRule> = {};
+  const visit = (value: any, at: string, key?: string) => {
+    if (Array.isArray(value)) {
+      rules[at] = { matchers: [value.length > 0 ? { match: 'type', min: 1 } : { match: 'type' }] };
+      if (value.length > 0) {
+        visit(value[0], `${at}[*]`);
+      }
+    } else if (value !== null && typeof value === 'object') {
+      for (const [childKey, child] of Object.entries(value)) {
+        visit(child, childPath(at, childKey), childKey);
+      }
+    } else if (value !== null && value !== undefined) {
+      rules[at] = { matchers: [key !== undefined && equalityKeys.includes(key) ? { match: 'equality' } : leafMatcher(value)] };
+    }
+  };
+  visit(body, '$');
+  return rules;
+}
+
+/**
+ * JSON type name of a value
+ */
+function jsonType(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Apply one matcher
+ *
+ * @returns Why the value does not match, or undefined when it does
+ */
+function checkMatcher(matcher: ContractMatcher, expected: any, actual: any): string | undefined {
+  switch (matcher.match) {
+    case 'equality':
+      return isDeepStrictEqual(expected, actual) ? undefined : `expected ${quote(expected)}, got ${quote(actual)}`;
+    case 'type':
+      if (jsonType(expected) !== jsonType(actual)) {
+        return `expected ${jsonType(expected)}, got ${jsonType(actual)} ${quote(actual)}`;
+      }
+      return Array.isArray(actual) && matcher.min !== undefined && actual.length < matcher.min
+        ? `expected at least ${matcher.min} item(s), got ${actual.length}`
+        : undefined;
+    case 'number':
+    case 'decimal':
+      return typeof actual === 'number' ? undefined : `expected a number, got ${quote(actual)}`;
+    case 'integer':
+      return Number.isInteger(actual) ? undefined : `expected an integer, got ${quote(actual)}`;
+    case 'regex':
+      return typeof actual === 'string' && new RegExp(matcher.regex || '').test(actual)
+        ? undefined
+        : `expected a string matching /${matcher.regex}/, got ${quote(actual)}`;
+    default:
+      return `unknown matcher ${quote(matcher)}`;
+  }
+}
+
+/**
+ * Match a body against a contract example and its matching rules
+ *
+ * Objects may have extra keys; every key of the example must be present. Arrays with a
+ * type rule are matched item by item against the first example, other arrays by length
+ * and position. Values without a rule must equal the example.
+ *
+ * @param expected - Example body from the contract
+ * @param actual - Body returned by the provider
+ * @param rules - Matching rules by JSONPath
+ * @param at - JSONPath of the compared values
+ * @param ruleAt - Rule path of the compared values ([*] for array items under a type rule)
+ * @returns One line per mismatch, with the JSONPath of the value
+ */
+export function matchContractBody(
+  expected: any,
+  actual: any,
+  rules: Record<string, ContractMatchingRule>,
+  at: string = '$',
+  ruleAt: string = '$'
+): string[] {
+  const rule = rules[ruleAt];
+  if (rule) {
+    const failure = rule.matchers.map(matcher => checkMatcher(matcher, expected, actual)).find(Boolean);
+    if (failure) {
+      return [`${at}: ${failure}`];
+    }
+  }
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    if (rule?.matchers.some(matcher => matcher.match === 'type')) {
+      return expected.length === 0
+        ? []
+        : actual.flatMap((item, index) => matchContractBody(expected[0], item, rules, childPath(at, index), `${ruleAt}[*]`));
+    }
+    if (expected.length !== actual.length) {
+      return [`${at}: expected ${expected.length} item(s), got ${actual.length}`];
+    }
+    return expected.flatMap((item, index) => matchContractBody(item, actual[index], rules, childPath(at, index), childPath(ruleAt, index)));
+  }
+  if (isObject(expected) && isObject(actual)) {
+    return Object.keys(expected).flatMap(key => Object.prototype.hasOwnProperty.call(actual, key)
+      ? matchContractBody(expected[key], actual[key], rules, childPath(at, key), childPath(ruleAt, key))
+      : [`${childPath(at, key)}: missing`]);
+  }
+  if (rule) {
+    return [];
+  }
+  return isDeepStrictEqual(expected, actual) ? [] : [`${at}: expected ${quote(expected)}, got ${quote(actual)}`];
+}
+
+/**
+ * Match a provider response against the expected contract response
+ *
+ * @param expected - Contract response
+ * @param actual - Response returned by the provider
+ * @returns One line per mismatch (the status alone, or headers and body)
+ */
+export function matchContractResponse(expected: ContractResponse, actual: ApiResponse): string[] {
+  // A different status means a different body; its mismatches would only be noise
+  if (actual.status !== expected.status) {
+    return [`status: expected ${expected.status}, got ${actual.status}`];
+  }
+  const mismatches: string[] = [];
+  for (const [name, value] of Object.entries(expected.headers || {})) {
+    const received = ResponseValidator.getHeader(actual, name);
+    // Content types are compared without parameters such as charset
+    const normalize = (header: string) => name.toLowerCase() === 'content-type' ? header.split(';')[0].trim().toLowerCase() : header;
+    if (received === undefined || normalize(received) !== normalize(value)) {
+      mismatches.push(`header ${name}: expected ${quote(value)}, got ${received === undefined ? 'nothing' : quote(received)}`);
+    }
+  }
+  if (expected.body !== undefined) {
+    mismatches.push(...matchContractBody(expected.body, actual.body, expected.matchingRules?.body || {}));
+  }
+  return mismatches;
+}
+
+/**
+ * Request body values the provider supplies on replay: values under redacted keys and
+ * strings longer than maxLength, which are replaced by a short placeholder
+ *
+ * @param body - Redacted request body (long strings are replaced in place)
+ * @returns JSONPath of each value with the name of its generator
+ */
+function extractGeneratedValues(body: any, keys: Set<string>, maxLength: number): { path: string; name: string }[] {
+  const generated: { path: string; name: string }[] = [];
+  const visit = (value: any, at: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, childPath(at, index)));
+    } else if (value !== null && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        if (keys.has(key.toLowerCase())) {
+          generated.push({ path: childPath(at, key), name: key });
+        } else if (typeof child === 'string' && child.length > maxLength) {
+          value[key] = `[OMITTED: ${child.length} characters]`;
+          generated.push({ path: childPath(at, key), name: key });
+        } else {
+          visit(child, childPath(at, key));
+        }
+      }
+    }
+  };
+  visit(body, '$');
+  return generated;
+}
+
+/**
+ * Key telling interactions apart: description and provider state names
+ */
+function interactionKey(interaction: ContractInteraction): string {
+  return JSON.stringify([interaction.description, (interaction.providerStates || []).map(state => state.name)]);
+}
+
+/**
+ * Replace interactions with the same key in place and append new ones
+ */
+function mergeInteractions(existing: ContractInteraction[], recorded: ContractInteraction[]): ContractInteraction[] {
+  const merged = [...existing];
+  for (const interaction of recorded) {
+    const index = merged.findIndex(candidate => interactionKey(candidate) === interactionKey(interaction));
+    if (index === -1) {
+      merged.push(interaction);
+    } else {
+      merged[index] = interaction;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Values of the ${name} placeholders of a path expression, read from the recorded path
+ */
+function pathExpressionValues(expression: string, requestPath: string): Record<string, string> {
+  const parts = expression.split(new RegExp(EXPRESSION_PLACEHOLDER.source));
+  const source = parts.map((part, index) => index % 2 === 1 ? '([^/]+)' : part.replace(/[.*+?^$()|[\]\\{}]/g, '\\$&')).join('');
+  const match = requestPath.match(new RegExp(`^${source}$`));
+  if (!match) {
+    return {};
+  }
+  return Object.fromEntries(parts.filter((_, index) => index % 2 === 1).map((name, index) => [name, decodeURIComponent(match[index + 1])]));
+}
+
+/**
+ * String values of a body with their JSONPath
+ */
+function stringLeaves(value: any, at: string = '$'): { path: string; value: string }[] {
+  if (typeof value === 'string') {
+    return [{ path: at, value }];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => stringLeaves(item, childPath(at, index)));
+  }
+  return isObject(value) ? Object.entries(value).flatMap(([key, child]) => stringLeaves(child, childPath(at, key))) : [];
+}
+
+/**
+ * Link the IDs requests reuse from earlier responses, so a provider replays them with its own
+ *
+ * Walks the interactions in order. A top-level captureKeys value of a response (e.g. the
+ * opportunityId of createOpportunity) that a later request sends again, in its path or body,
+ * is captured by the first response returning it under "<route>.<key>"
+ * (e.g. createOpportunity.opportunityId) and replaced in the request by a generator.
+ * Earlier links are recomputed, so linking a linked contract changes nothing.
+ *
+ * @param interactions - Interactions in replay order (not modified)
+ * @param captureKeys - Top-level response keys whose values may be captured
+ * @returns Copies with response captures and request generators
+ */
+export function linkCapturedValues(interactions: ContractInteraction[], captureKeys: string[] = DEFAULT_CONTRACT_OPTIONS.captureKeys): ContractInteraction[] {
+  const linked: ContractInteraction[] = interactions.map(interaction => {
+    const copy: ContractInteraction = JSON.parse(JSON.stringify(interaction));
+    delete copy.response.captures;
+    return copy;
+  });
+  // First response returning each recorded value, and the capture name given to each used one
+  const sources = new Map<string, { index: number; key: string }>();
+  const names = new Map<string, string>();
+  const captureName = (source: { index: number; key: string }): string => {
+    const id = `${source.index}:${source.key}`;
+    if (!names.has(id)) {
+      const route = linked[source.index].description.replace(/ returns \d+$/, '').split(' ')[0].split('.').pop();
+      const taken = new Set(names.values());
+      let name = `${route}.${source.key}`;
+      for (let suffix = 2; taken.has(name); suffix++) {
+        name = `${route}.${source.key}${suffix}`;
+      }
+      names.set(id, name);
+      const { response } = linked[source.index];
+      response.captures = { ...response.captures, [name]: childPath('$', source.key) };
+    }
+    return names.get(id)!;
+  };
+
+  linked.forEach((interaction, index) => {
+    const { request } = interaction;
+    const pathGenerator = request.generators?.path;
+    if (pathGenerator) {
+      const values = pathExpressionValues(pathGenerator.expression, request.path);
+      pathGenerator.expression = pathGenerator.expression.replace(EXPRESSION_PLACEHOLDER, (placeholder, name) => {
+        const source = sources.get(values[name]);
+        return source ? `\${${captureName(source)}}` : placeholder;
+      });
+    }
+    for (const leaf of stringLeaves(request.body)) {
+      const source = sources.get(leaf.value);
+      if (source) {
+        request.generators = { ...request.generators };
+        request.generators.body = { ...request.generators.body, [leaf.path]: { type: 'ProviderState', expression: `\${${captureName(source)}}` } };
+      }
+    }
+    const { body } = interaction.response;
+    for (const key of captureKeys) {
+      if (isObject(body) && typeof body[key] === 'string' && !sources.has(body[key])) {
+        sources.set(body[key], { index, key });
+      }
+    }
+  });
+  return linked;
+}
+
+/**
+ * Load a contract file
+ *
+ * @param filePath - Contract path, absolute or relative to CONTRACT_ROOT
+ * @throws Error if the file does not exist
+ */
+export function loadContract(filePath: string): ContractFile {
+  const resolved = path.isAbsolute(filePath) ? filePath : path.join(CONTRACT_ROOT, filePath);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Contract not found: ${resolved} (record it with CONTRACT_MODE=record)`);
+  }
+  return JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+}
+
+/**
+ * List the contract files of a directory
+ *
+ * @param directory - Directory to list (default: CONTRACT_ROOT)
+ * @returns Absolute paths of the .json files, sorted
+ */
+export function listContractFiles(directory: string = CONTRACT_ROOT): string[] {
+  if (!fs.existsSync(directory)) {
+    return [];
+  }
+  return fs.readdirSync(directory)
+    .filter(name => name.endsWith('.json'))
+    .sort()
+    .map(name => path.join(directory, name));
+}
+
+/**
+ * Render a verification report, listing the mismatches of failed interactions
+ */
+export function formatVerificationReport(report: ContractVerificationReport): string {
+  const passed = report.results.filter(result => result.passed).length;
+  const lines = [`${report.consumer} → ${report.provider} at ${report.baseUrl}: ${passed}/${report.results.length} interaction(s) passed`];
+  for (const result of report.results.filter(candidate => !candidate.passed)) {
+    const states = result.providerStates.length > 0 ? ` (given ${result.providerStates.join(', ')})` : '';
+    lines.push(`  ✘ ${result.description}${states}`, ...result.mismatches.map(mismatch => `      ${mismatch}`));
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Records the interactions of one test into contracts, one per provider
+ */
+export class ContractRecorder {
+  /** Consumer, target directory, recorded pods and equality keys */
+  readonly options: ContractRecorderOptions;
+  private redaction: CassetteRedactionOptions;
+  /** Secret name of each value the secrets provider resolves */
+  private secrets: Map<string, SecretName>;
+  private providerStates: ProviderState[] = [];
+  private description: string | undefined;
+  private contracts = new Map<string, ContractFile>();
+  /**
+   * Constructor for ContractRecorder
+   *
+   * @param options - Recorder overrides
+   * @param redaction - Redaction overrides (defaults to the cassette redaction)
+   */
+  constructor(options: Partial<ContractRecorderOptions> = {}, redaction: Partial<CassetteRedactionOptions> = {}) {
+    this.options = { ...DEFAULT_CONTRACT_OPTIONS, ...options };
+    this.redaction = { ...getDefaultRedaction(), ...redaction };
+    this.secrets = new Map(Object.entries(getSecretsProvider().getAvailable()).map(([name, value]) => [value!, name as SecretName]));
+  }
+  /**
+   * Declare a provider state for the interactions recorded from now on
+   *
+   * States accumulate until clearProviderStates(); the request's path params are
+   * added to the params of every state.
+   *
+   * @param name - State description shared with the provider team
+   * @param params - Values the state refers to
+   * @returns The recorder, for chaining
+   */
+  given(name: string, params: Record<string, any> = {}): this {
+    this.providerStates.push({ name, params });
+    return this;
+  }
+  /**
+   * Describe the interactions recorded from now on (default: the registry route name)
+   *
+   * Needed when one test calls a route with different requests that should both stay in
+   * the contract (e.g. an email and a mobile verification log); " returns <status>" is appended.
+   *
+   * @param description - What the consumer requests
+   * @returns The recorder, for chaining
+   */
+  uponReceiving(description: string): this {
+    this.description = description;
+    return this;
+  }
+  /**
+   * Forget the declared provider states
+   */
+  clearProviderStates(): void {
+    this.providerStates = [];
+  }
+  /**
+   * Get the contracts recorded so far, one per provider
+   */
+  getContracts(): ContractFile[] {
+    return [...this.contracts.values()];
+  }
+  /**
+   * Record a request/response pair of a registry route
+   *
+   * Requests to routes outside the recorded pods (or outside the registry) are ignored.
+   * An interaction with the same description and provider states replaces the earlier one,
+   * so polled getters keep their final response; use uponReceiving() to keep both.
+   *
+   * @param request - Request as sent
+   * @param response - Response received
+   * @returns The recorded interaction, or undefined if the request was ignored
+   */
+  record(request: ApiRequest, response: ApiResponse): ContractInteraction | undefined {
+    const match = matchEndpoint(request.method, request.url, this.options.pods);
+    if (!match) {
+      return undefined;
+    }
+    const provider = CONTRACT_PROVIDERS[match.endpoint.base];
+    const contract = this.contracts.get(provider) || this.createContract(provider, match.endpoint.base);
+    this.contracts.set(provider, contract);
+    const interaction = this.toInteraction(match, request, response);
+    contract.interactions = mergeInteractions(contract.interactions, [interaction]);
+    return interaction;
+  }
+  /**
+   * Merge the recorded interactions into the contract files and link the IDs they reuse
+   *
+   * The read-merge-write is not locked: only one process may record at a time
+   * (the config runs CONTRACT_MODE=record with a single worker).
+   *
+   * @returns Paths of the written files
+   * @throws Error if a file was recorded against another target (e.g. the mock, when recording staging)
+   */
+  save(): string[] {
+    return this.getContracts().map(contract => {
+      const filePath = path.join(this.options.directory, `${contract.consumer.name}-${contract.provider.name}.json`);
+      const existing = fs.existsSync(filePath) ? loadContract(filePath) : undefined;
+      const recordedAgainst = existing?.metadata.recordedAgainst;
+      if (recordedAgainst && recordedAgainst !== contract.metadata.recordedAgainst) {
+        throw new Error(
+          `${filePath} was recorded against ${recordedAgainst}, not ${contract.metadata.recordedAgainst}; `
+          + 'delete it to re-record the whole contract'
+        );
+      }
+      const interactions = linkCapturedValues(mergeInteractions(existing?.interactions || [], contract.interactions), this.options.captureKeys);
+      const file: ContractFile = { ...contract, interactions };
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, `${JSON.stringify(file, null, 2)}\n`);
+      return filePath;
+    });
+  }
+  /**
+   * Create an empty contract for a provider
+   */
+  private createContract(provider: string, base: EndpointBase): ContractFile {
+    return {
+      consumer: { name: this.options.consumer },
+      provider: { name: provider },
+      interactions: [],
+      metadata: {
+        pactSpecification: { version: PACT_SPECIFICATION_VERSION },
+        recordedAgainst: this.options.targets[base] ?? (process.env.TEST_ENV || 'dev')
+      }
+    };
+  }
+  /**
+   * Build the redacted interaction with its matching rules, generators and provider states
+   *
+   * Values the secrets provider resolves (e.g. the LOS_PHONE_NO login number) are kept out:
+   * path params, body values and provider state params holding one are filled on replay
+   * from the secret of the provider's environment (${LOS_PHONE_NO}), and query, header and
+   * response values holding one are redacted.
+   */
+  private toInteraction({ endpoint, pathParams }: EndpointMatch, request: ApiRequest, response: ApiResponse): ContractInteraction {
+    const redactedKeys = new Set(this.redaction.bodyKeys.map(key => key.toLowerCase()));
+    const query: Record<string, string[]> = {};
+    for (const [name, value] of new URL(request.url).searchParams) {
+      (query[name] ||= []).push(redactedKeys.has(name.toLowerCase()) ? REDACTED : this.redactSecrets(value));
+    }
+    const headers = Object.fromEntries(Object.entries(request.headers)
+      .filter(([name]) => !IGNORED_REQUEST_HEADERS.has(name.toLowerCase()))
+      .map(([name, value]) => [name, this.redactSecrets(redactValue(value, this.redaction))]));
+
+    const generators: ContractGenerators = {};
+    if (endpoint.pathParams.length > 0) {
+      const expression = endpoint.path.replace(/\{(\w+)\??\}/g, (_, name) => `\${${this.secrets.get(pathParams[name]) ?? name}}`);
+      generators.path = { type: 'ProviderState', expression, dataType: 'STRING' };
+    }
+    const requestBody = request.data === undefined ? undefined : redactValue(request.data, this.redaction);
+    const generatedValues = [
+      ...extractGeneratedValues(requestBody, redactedKeys, this.options.maxExampleLength),
+      ...this.extractSecretValues(requestBody)
+    ];
+    if (generatedValues.length > 0) {
+      generators.body = Object.fromEntries(generatedValues.map(({ path: jsonPath, name }) =>
+        [jsonPath, { type: 'ProviderState', expression: `\${${name}}` }]));
+    }
+
+    const contentType = ResponseValidator.getHeader(response, 'content-type');
+    const body = response.body === undefined || response.body === '' ? undefined : redactValue(response.body, this.redaction);
+    this.extractSecretValues(body);
+    return {
+      description: `${this.description || endpoint.name} returns ${response.status}`,
+      ...(this.providerStates.length > 0 && {
+        providerStates: this.providerStates.map(state => ({
+          name: state.name,
+          params: Object.fromEntries(Object.entries({ ...pathParams, ...state.params })
+            .map(([name, value]) => [name, this.secrets.has(value) ? `\${${this.secrets.get(value)}}` : value]))
+        }))
+      }),
+      request: {
+        method: request.method,
+        path: expandPathTemplate(endpoint.path, Object.fromEntries(Object.entries(pathParams)
+          .map(([name, value]) => [name, this.redactSecrets(value)])), endpoint.name),
+        ...(Object.keys(query).length > 0 && { query }),
+        ...(Object.keys(headers).length > 0 && { headers }),
+        ...(requestBody !== undefined && { body: requestBody }),
+        ...(Object.keys(generators).length > 0 && { generators })
+      },
+      response: {
+        status: response.status,
+        ...(contentType && { headers: { 'Content-Type': contentType.split(';')[0].trim() } }),
+        ...(body !== undefined && { body, matchingRules: { body: buildMatchingRules(body, this.options.equalityKeys) } })
+      }
+    };
+  }
+  /**
+   * A value, or REDACTED if it is a secret
+   */
+  private redactSecrets(value: string): string {
+    return this.secrets.has(value) ? REDACTED : value;
+  }
+  /**
+   * Redact the string values of a body that are secrets
+   *
+   * @param body - Body to redact in place
+   * @returns JSONPath of each redacted value with the name of its secret
+   */
+  private extractSecretValues(body: any): { path: string; name: string }[] {
+    const secretLeaves = stringLeaves(body).filter(leaf => this.secrets.has(leaf.value));
+    for (const leaf of secretLeaves) {
+      replaceJsonPath(body, leaf.path, () => REDACTED);
+    }
+    return secretLeaves.map(leaf => ({ path: leaf.path, name: this.secrets.get(leaf.value)! }));
+  }
+}
+
+/**
+ * Create an interceptor that records every response into a contract recorder
+ *
+ * @param recorder - Recorder to use
+ * @returns Interceptor bound to the recorder
+ */
+export function createContractInterceptor(recorder: ContractRecorder): Interceptor {
+  return {
+    name: 'contract',
+    onResponse: (response: ApiResponse, request: ApiRequest) => {
+      recorder.record(request, response);
+    }
+  };
+}
+
+/**
+ * Read the contract mode from CONTRACT_MODE (off or record)
+ *
+ * @throws Error if CONTRACT_MODE has any other value
+ */
+export function getContractMode(value: string | undefined = process.env.CONTRACT_MODE): ContractMode {
+  const mode = (value || 'off').toLowerCase();
+  if (mode !== 'off' && mode !== 'record') {
+    throw new Error(`Invalid CONTRACT_MODE: ${value} (expected off or record)`);
+  }
+  return mode;
+}
@@ -0,0 +1,214 @@
+import { APIRequestContext } from '@playwright/test';
+import { BaseHelper } from './baseHelper';
+import { CONTRACT_PROVIDERS, EXPRESSION_PLACEHOLDER, loadContract, matchContractResponse } from './contract';
+import { expandPathTemplate } from './pathTemplate';
+import { ApiResponse, RequestSigner } from '../../types/api.types';
+import {
+  ContractFile,
+  ContractInteraction,
+  ContractInteractionResult,
+  ContractRequest,
+  ContractVerificationReport,
+  ContractVerifierOptions,
+  ProviderState
+} from '../../types/contract.types';
+import { getDspSecretKey } from '../../config/envconfig';
+import { createDspRequestSigner } from '../../utils/dspAuth';
+import { step } from '../../utils/allureHelper';
+import { getSecretsProvider } from '../../utils/secrets';
+import { replaceJsonPath } from '../../utils/jsonPath';
+import { ResponseValidator } from '../../utils/validators';
+
+/**
+ * Values captured from the provider's responses during one verification
+ */
+interface CapturedValues {
+  /** Provider values by capture name, for generator expressions */
+  values: Record<string, any>;
+
+  /** Provider value for each recorded one, for provider state params */
+  replacements: Map<any, any>;
+}
+
+/**
+ * Fill a generator expression from provider state values
+ *
+ * An expression that is a single placeholder keeps the value's type.
+ *
+ * @returns Filled value, or undefined if a placeholder has no value
+ */
+function fillExpression(expression: string, values: Record<string, any>): any {
+  const names = [...expression.matchAll(EXPRESSION_PLACEHOLDER)].map(([, name]) => name);
+  if (names.some(name => values[name] === undefined)) {
+    return undefined;
+  }
+  const single = expression.match(/^\$\{([\w.]+)\}$/);
+  return single ? values[single[1]] : expression.replace(EXPRESSION_PLACEHOLDER, (_, name) => String(values[name]));
+}
+
+/**
+ * Contract Verifier
+ *
+ * Replays the interactions of a contract against a provider (a local mock, a local
+ * backend or a deployed environment) and matches each response against the contract:
+ * - provider states are set up in order through the registered handlers
+ * - IDs captured from earlier responses (e.g. createOpportunity.opportunityId) replace
+ *   the recorded ones in later paths, bodies and provider state params
+ * - path params and redacted or omitted body values are filled from the captures, the
+ *   state values and the values option (the recorded ones are used when none is supplied)
+ * - values the recorder kept out as secrets (${LOS_PHONE_NO} in a generator or provider
+ *   state param) are filled from the secrets of the current environment
+ * - DSP requests are signed with X-Timestamp/X-Signature
+ * Requests go through BaseHelper, so the environment's safety policy, logging
+ * and Allure attachments apply as for any other call.
+ */
+export class ContractVerifier extends BaseHelper {
+  private options: ContractVerifierOptions;
+  /**
+   * Constructor for ContractVerifier
+   *
+   * @param request - Playwright APIRequestContext for making HTTP requests
+   * @param options - Base URL, signer, provider state handlers and extra headers
+   */
+  constructor(request: APIRequestContext, options: ContractVerifierOptions = {}) {
+    super(request, 'los');
+    this.options = options;
+  }
+  async login(): Promise<void> {
+    this.logger.info('ContractVerifier: Authentication comes from provider state handlers');
+  }
+  /**
+   * Verify a provider against every interaction of a contract
+   *
+   * Interactions are replayed in file order; a failed interaction does not stop the others.
+   *
+   * @param contract - Contract, or its path (absolute or relative to CONTRACT_ROOT)
+   * @returns Report with the mismatches of every interaction
+   */
+  async verify(contract: ContractFile | string): Promise<ContractVerificationReport> {
+    const file = typeof contract === 'string' ? loadContract(contract) : contract;
+    const isDsp = file.provider.name === CONTRACT_PROVIDERS.dsp;
+    const baseUrl = this.options.baseUrl ?? (isDsp ? this.getDspBaseUrl() : this.baseUrl);
+    const signer = this.options.signer ?? (isDsp ? createDspRequestSigner(getDspSecretKey()) : undefined);
+    this.logger.info(`Verifying ${file.provider.name} at ${baseUrl} against ${file.interactions.length} interaction(s) of ${file.consumer.name}`);
+    const results: ContractInteractionResult[] = [];
+    const captured: CapturedValues = { values: {}, replacements: new Map() };
+    for (const interaction of file.interactions) {
+      results.push(await step(`Verify ${interaction.description}`, () => this.verifyInteraction(interaction, baseUrl, signer, captured)));
+    }
+    return {
+      consumer: file.consumer.name,
+      provider: file.provider.name,
+      baseUrl,
+      passed: results.every(result => result.passed),
+      results
+    };
+  }
+  /**
+   * Set up the provider states of an interaction, replay its request, capture the values
+   * later requests reuse and match the response
+   */
+  private async verifyInteraction(
+    interaction: ContractInteraction,
+    baseUrl: string,
+    signer: RequestSigner | undefined,
+    captured: CapturedValues
+  ): Promise<ContractInteractionResult> {
+    const providerStates = (interaction.providerStates || []).map(state => state.name);
+    const outcome = (mismatches: string[]) => ({ description: interaction.description, providerStates, passed: mismatches.length === 0, mismatches });
+    try {
+      const { values, headers } = await this.setUpProviderStates(interaction.providerStates || [], captured);
+      const { request } = interaction;
+      const response = await this.makeRequest(request.method, this.generatePath(request, values), {
+        ...(request.query && { params: request.query }),
+        headers: { ...request.headers, ...this.options.headers, ...headers },
+        ...(request.body !== undefined && { data: this.generateBody(request, values) }),
+        baseUrl,
+        signer,
+        retry: false
+      });
+      this.capture(interaction, response, captured);
+      const mismatches = matchContractResponse(interaction.response, response);
+      if (mismatches.length > 0) {
+        this.logger.error(`${interaction.description}: ${mismatches.join('; ')}`);
+      }
+      return outcome(mismatches);
+    } catch (error: any) {
+      this.logger.error(`${interaction.description}: ${error.message}`);
+      return outcome([`request failed: ${error.message}`]);
+    }
+  }
+  /**
+   * Store the provider's values of the captures an interaction declares
+   */
+  private capture(interaction: ContractInteraction, response: ApiResponse, captured: CapturedValues): void {
+    for (const [name, jsonPath] of Object.entries(interaction.response.captures || {})) {
+      const value = ResponseValidator.getNestedField(response.body, jsonPath);
+      if (value !== undefined) {
+        captured.values[name] = value;
+        captured.replacements.set(ResponseValidator.getNestedField(interaction.response.body, jsonPath), value);
+      }
+    }
+  }
+  /**
+   * Run the handlers of the provider states in order and collect their values and headers
+   *
+   * States without a handler only contribute their params; recorded IDs in the params are
+   * replaced by the ones captured from the provider, and placeholders (${LOS_PHONE_NO}) filled.
+   */
+  private async setUpProviderStates(
+    states: ProviderState[],
+    captured: CapturedValues
+  ): Promise<{ values: Record<string, any>; headers: Record<string, string> }> {
+    let values: Record<string, any> = { ...getSecretsProvider().getAvailable(), ...this.options.values, ...captured.values };
+    let headers: Record<string, string> = {};
+    for (const state of states) {
+      const handler = this.options.stateHandlers?.[state.name];
+      if (!handler) {
+        this.logger.warn(`No handler for provider state "${state.name}", using its params`);
+      }
+      const params = Object.fromEntries(Object.entries(state.params || {})
+        .map(([name, value]) => [name, captured.replacements.has(value) ? captured.replacements.get(value) : this.fillParam(value, values)]));
+      const setup = handler ? await handler(params) : undefined;
+      values = { ...values, ...params, ...setup?.values };
+      headers = { ...headers, ...setup?.headers };
+    }
+    return { values, headers };
+  }
+  /**
+   * Provider state param with its placeholders filled, or as recorded if one has no value
+   */
+  private fillParam(value: any, values: Record<string, any>): any {
+    return typeof value === 'string' ? fillExpression(value, values) ?? value : value;
+  }
+  /**
+   * Path with the placeholders of the path generator filled, or the recorded path
+   */
+  private generatePath(request: ContractRequest, values: Record<string, any>): string {
+    const expression = request.generators?.path?.expression;
+    if (!expression) {
+      return request.path;
+    }
+    const names = [...expression.matchAll(EXPRESSION_PLACEHOLDER)].map(([, name]) => name);
+    if (names.some(name => values[name] === undefined)) {
+      return request.path;
+    }
+    // Capture names contain a dot, which path templates do not allow, so placeholders are numbered
+    let position = 0;
+    const template = expression.replace(EXPRESSION_PLACEHOLDER, () => `{value${position++}}`);
+    return expandPathTemplate(template, Object.fromEntries(names.map((name, index) => [`value${index}`, String(values[name])])));
+  }
+  /**
+   * Copy of the recorded body with the body generators filled where values exist
+   */
+  private generateBody(request: ContractRequest, values: Record<string, any>): any {
+    const body = JSON.parse(JSON.stringify(request.body));
+    for (const [jsonPath, generator] of Object.entries(request.generators?.body || {})) {
+      const value = fillExpression(generator.expression, values);
+      if (value !== undefined) {
+        replaceJsonPath(body, jsonPath, () => value);
+      }
+    }
+    return body;
+  }
+}
@@ -0,0 +1,130 @@
+import { randomUUID } from 'crypto';
+import { ApiRequest, ApiResponse, Interceptor, ReportEntry } from '../../types/api.types';
+/**
+ * Interceptor Registry
+ *
+ * Holds interceptors applied to every helper instance and provides
+ * ready-made interceptors for common cross-cutting concerns:
+ * - Correlation ID injection
+ * - PII masking in logs and Allure attachments
+ */
+
+/** Interceptors applied to all helpers, in registration order */
+const globalInterceptors: Interceptor[] = [];
+
+/**
+ * Register an interceptor for all helper instances
+ *
+ * @param interceptor - Interceptor to register
+ * @returns Function that unregisters the interceptor
+ */
+export function registerGlobalInterceptor(interceptor: Interceptor): () => void {
+  globalInterceptors.push(interceptor);
+  return () => unregisterGlobalInterceptor(interceptor);
+}
+
+/**
+ * Remove a previously registered global interceptor
+ *
+ * @param interceptor - Interceptor to remove
+ */
+export function unregisterGlobalInterceptor(interceptor: Interceptor): void {
+  const index = globalInterceptors.indexOf(interceptor);
+  if (index !== -1) {
+    globalInterceptors.splice(index, 1);
+  }
+}
+
+/**
+ * Remove all global interceptors
+ */
+export function clearGlobalInterceptors(): void {
+  globalInterceptors.length = 0;
+}
+
+/**
+ * Get a snapshot of the registered global interceptors
+ *
+ * @returns Copy of the global interceptor list
+ */
+export function getGlobalInterceptors(): Interceptor[] {
+  return [...globalInterceptors];
+}
+
+/**
+ * Check whether an interceptor result is an ApiResponse
+ *
+ * @param value - Value returned from an interceptor hook
+ * @returns True if the value looks like an ApiResponse
+ */
+export function isApiResponse(value: unknown): value is ApiResponse {
+  return typeof value === 'object' && value !== null
+    && typeof (value as ApiResponse).status === 'number'
+    && typeof (value as ApiResponse).ok === 'boolean';
+}
+
+/**
+ * Create an interceptor that adds a correlation ID header to every request
+ *
+ * Existing header values are kept so callers can pin an ID for a journey.
+ *
+ * @param headerName - Header to set (default: X-Correlation-Id)
+ * @param generateId - ID generator (default: random UUID)
+ * @returns Interceptor injecting the header
+ */
+export function createCorrelationIdInterceptor(
+  headerName: string = 'X-Correlation-Id',
+  generateId: () => string = randomUUID
+): Interceptor {
+  return {
+    name: 'correlation-id',
+    onRequest: (request: ApiRequest): ApiRequest => {
+      if (request.headers[headerName]) {
+        return request;
+      }
+      return { ...request, headers: { ...request.headers, [headerName]: generateId() } };
+    }
+  };
+}
+
+/**
+ * Create an interceptor that masks sensitive fields in logs and Allure attachments
+ *
+ * Matching is case-insensitive on header names and object keys at any depth.
+ * The request sent and the response returned to the test are not modified.
+ *
+ * @param fields - Header names / body keys to mask (e.g. ['pan', 'Authorization'])
+ * @param mask - Replacement value (default: '***')
+ * @returns Interceptor masking the report copy
+ */
+export function createMaskingInterceptor(fields: string[], mask: string = '***'): Interceptor {
+  const sensitive = new Set(fields.map(field => field.toLowerCase()));
+  const maskValue = (value: any): any => {
+    if (Array.isArray(value)) {
+      return value.map(maskValue);
+    }
+    if (value && typeof value === 'object' && !Buffer.isBuffer(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, child]) => [key, sensitive.has(key.toLowerCase()) ? mask : maskValue(child)])
+      );
+    }
+    return value;
+  };
+  return {
+    name: 'masking',
+    onReport: (entry: ReportEntry): ReportEntry => ({
+      request: {
+        ...entry.request,
+        headers: maskValue(entry.request.headers),
+        data: maskValue(entry.request.data)
+      },
+      ...(entry.response && {
+        response: {
+          ...entry.response,
+          headers: maskValue(entry.response.headers),
+          body: maskValue(entry.response.body)
+        }
+      })
+    })
+  };
+}
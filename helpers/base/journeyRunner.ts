@@ -0,0 +1,198 @@
+import { ApiResponse } from '../../types/api.types';
+import {
+  JourneyDefinition,
+  JourneyRunOptions,
+  JourneyStep,
+  JourneyVariant,
+  StepExpectation
+} from '../../types/journey.types';
+import { Logger } from '../../utils/logger';
+import { ResponseValidator } from '../../utils/validators';
+import { step } from '../../utils/allureHelper';
+/**
+ * Journey Runner
+ *
+ * Executes a declarative journey step by step:
+ * - Each step runs inside its own Allure step
+ * - Expectations are checked before values are captured into the context
+ * - Execution stops at the first failing step
+ * - A journey can resume from a named step with the context it has so far
+ *
+ * @template TContext - Shape of the values passed between steps
+ * @template THelper - Helper used to make the requests
+ */
+export class JourneyRunner<TContext extends object, THelper> {
+  /** Journey being executed */
+  private definition: JourneyDefinition<TContext, THelper>;
+  /** Helper passed to every step */
+  private helper: THelper;
+  /** Values captured so far */
+  private context: TContext;
+  /** Names of steps that passed, in order */
+  private completedSteps: string[] = [];
+  /** Last response of every executed step, keyed by step name */
+  private responses: Record<string, ApiResponse> = {};
+  /** Logger instance for journey progress */
+  private logger: Logger = new Logger('journey');
+  /**
+   * Constructor for JourneyRunner
+   *
+   * @param definition - Journey to execute
+   * @param helper - Helper passed to every step
+   * @param initialContext - Starting context (inputs and, when resuming, previously captured values)
+   */
+  constructor(definition: JourneyDefinition<TContext, THelper>, helper: THelper, initialContext: TContext) {
+    this.definition = definition;
+    this.helper = helper;
+    this.context = { ...initialContext };
+  }
+  /**
+   * Run the journey
+   *
+   * @param options - Optional first and last step names
+   * @returns Context after the last executed step
+   * @throws Error naming the failed step if any step fails
+   */
+  async run(options: JourneyRunOptions = {}): Promise<TContext> {
+    const steps = this.selectSteps(options);
+    this.logger.info(`Running journey "${this.definition.name}" (${steps.length} steps)`);
+    for (const journeyStep of steps) {
+      const index = this.definition.steps.indexOf(journeyStep) + 1;
+      try {
+        await step(`${index}. ${journeyStep.title || journeyStep.name}`, () => this.runStep(journeyStep));
+      } catch (error: any) {
+        this.logger.error(`Journey "${this.definition.name}" failed at step "${journeyStep.name}": ${error.message}`);
+        throw new Error(`Journey "${this.definition.name}" failed at step "${journeyStep.name}": ${error.message}`);
+      }
+      this.completedSteps.push(journeyStep.name);
+    }
+    this.logger.info(`Journey "${this.definition.name}" completed`);
+    return this.getContext();
+  }
+  /**
+   * Get the context captured so far
+   *
+   * @returns Copy of the current context
+   */
+  getContext(): TContext {
+    return { ...this.context };
+  }
+  /**
+   * Get the names of the steps that passed
+   *
+   * @returns Step names in execution order
+   */
+  getCompletedSteps(): string[] {
+    return [...this.completedSteps];
+  }
+  /**
+   * Get the last response of a step
+   *
+   * @param stepName - Name of the step
+   * @returns Response, or undefined if the step has not run
+   */
+  getResponse(stepName: string): ApiResponse | undefined {
+    return this.responses[stepName];
+  }
+  /**
+   * Execute one step: send, check expectations, verify, capture
+   *
+   * @param journeyStep - Step to execute
+   */
+  private async runStep(journeyStep: JourneyStep<TContext, THelper>): Promise<void> {
+    this.logger.info(`Step "${journeyStep.name}" started`);
+    const response = await journeyStep.run(this.helper, this.getContext());
+    this.responses[journeyStep.name] = response;
+    const expectation = typeof journeyStep.expect === 'function'
+      ? journeyStep.expect(this.getContext())
+      : journeyStep.expect;
+    if (expectation) {
+      this.checkExpectation(response, expectation);
+    }
+    if (journeyStep.verify) {
+      await journeyStep.verify(response, this.getContext());
+    }
+    if (journeyStep.capture) {
+      const captured = journeyStep.capture(response, this.getContext());
+      this.context = { ...this.context, ...captured };
+      this.logger.info(`Step "${journeyStep.name}" captured:`, captured);
+    }
+  }
+  /**
+   * Check a response against a step expectation
+   *
+   * @param response - Response of the step
+   * @param expectation - Expected status code, schema and fields
+   * @throws Error describing the first mismatch (or every schema violation)
+   */
+  private checkExpectation(response: ApiResponse, expectation: StepExpectation): void {
+    if (expectation.statusCode !== undefined) {
+      ResponseValidator.validateStatus(response, expectation.statusCode);
+    }
+    if (expectation.schema !== undefined) {
+      ResponseValidator.validateSchema(response, expectation.schema);
+    }
+    for (const field of expectation.requiredFields || []) {
+      ResponseValidator.validateField(response, field);
+    }
+    for (const [field, value] of Object.entries(expectation.fields || {})) {
+      ResponseValidator.validateField(response, field, value);
+    }
+  }
+  /**
+   * Select the steps between the from and until names
+   *
+   * @param options - Optional first and last step names
+   * @returns Steps to execute
+   * @throws Error if a step name is unknown or from comes after until
+   */
+  private selectSteps(options: JourneyRunOptions): JourneyStep<TContext, THelper>[] {
+    const names = this.definition.steps.map(journeyStep => journeyStep.name);
+    const start = options.from ? names.indexOf(options.from) : 0;
+    const end = options.until ? names.indexOf(options.until) : names.length - 1;
+    if (start === -1) {
+      throw new Error(`Unknown step "${options.from}" in journey "${this.definition.name}"`);
+    }
+    if (end === -1) {
+      throw new Error(`Unknown step "${options.until}" in journey "${this.definition.name}"`);
+    }
+    if (start > end) {
+      throw new Error(`Step "${options.from}" comes after step "${options.until}" in journey "${this.definition.name}"`);
+    }
+    return this.definition.steps.slice(start, end + 1);
+  }
+}
+
+/**
+ * Derive a journey variant by skipping or overriding named steps
+ *
+ * @param base - Journey to derive from
+ * @param variant - Steps to skip and per-step overrides
+ * @returns New journey definition (the base is not modified)
+ * @throws Error if the variant names a step that does not exist
+ *
+ * @example
+ * const withoutPhoto = deriveJourney(journey, {
+ *   name: 'Loan account creation without photo verification',
+ *   skip: ['initPhotoVerification', 'getPhotoVerification']
+ * });
+ */
+export function deriveJourney<TContext, THelper>(
+  base: JourneyDefinition<TContext, THelper>,
+  variant: JourneyVariant<TContext, THelper>
+): JourneyDefinition<TContext, THelper> {
+  const names = new Set(base.steps.map(journeyStep => journeyStep.name));
+  const referenced = [...(variant.skip || []), ...Object.keys(variant.steps || {})];
+  for (const name of referenced) {
+    if (!names.has(name)) {
+      throw new Error(`Unknown step "${name}" in journey "${base.name}"`);
+    }
+  }
+  const skipped = new Set(variant.skip || []);
+  return {
+    name: variant.name || base.name,
+    steps: base.steps
+      .filter(journeyStep => !skipped.has(journeyStep.name))
+      .map(journeyStep => ({ ...journeyStep, ...variant.steps?.[journeyStep.name] }))
+  };
+}
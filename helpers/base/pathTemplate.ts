@@ -0,0 +1,103 @@
+/**
+ * Path Templates
+ *
+ * Strict expansion of endpoint path templates such as
+ * /los/api/v1/opportunity/{opportunityId}/submit:
+ * - Values are percent-encoded per RFC 3986 (only unreserved characters stay as they are)
+ * - Every occurrence of a placeholder is replaced
+ * - Params that are not in the template are rejected
+ * - Placeholders left without a value are rejected
+ * - {name?} marks an optional segment, dropped together with its leading "/" when no value is given
+ */
+
+/** {name} or {name?} */
+const PLACEHOLDER_PATTERN = /\{([A-Za-z_][A-Za-z0-9_]*)(\?)?\}/g;
+
+/** Values a path param may take; undefined leaves optional segments out */
+export type PathParamValue = string | number | undefined;
+
+/**
+ * A placeholder of a path template
+ */
+export interface PathPlaceholder {
+  name: string;
+  optional: boolean;
+}
+
+/**
+ * Percent-encode a path param value per RFC 3986
+ *
+ * encodeURIComponent leaves !'()* alone; they are sub-delims, not unreserved, so encode them too.
+ *
+ * @example encodePathSegment('+91 98765') = '%2B91%2098765'
+ */
+export function encodePathSegment(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * List the placeholders of a path template (each name once, in order of first use)
+ *
+ * @throws Error if a name is used both as required and as optional
+ */
+export function parsePathTemplate(template: string): PathPlaceholder[] {
+  const placeholders = new Map<string, PathPlaceholder>();
+  for (const [, name, optional] of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const existing = placeholders.get(name);
+    if (existing && existing.optional !== !!optional) {
+      throw new Error(`Path template ${template} uses {${name}} both as required and as optional`);
+    }
+    placeholders.set(name, { name, optional: !!optional });
+  }
+  return [...placeholders.values()];
+}
+
+/**
+ * Fill a path template
+ *
+ * @param template - Path with {name} and {name?} placeholders
+ * @param params - Value for every required placeholder and any optional ones
+ * @param label - How to name the template in errors (defaults to the template)
+ * @returns Path with encoded values in place of the placeholders
+ * @throws Error listing missing, unknown, empty and dot-segment params
+ *
+ * @example
+ * expandPathTemplate('/api/client/auth/requestOtp/v2/{phoneNo}', { phoneNo: '+919876543210' })
+ * // '/api/client/auth/requestOtp/v2/%2B919876543210'
+ * expandPathTemplate('/api/files/{folder}/{name?}', { folder: 'kyc' })
+ * // '/api/files/kyc'
+ */
+export function expandPathTemplate(
+  template: string,
+  params: Record<string, PathParamValue>,
+  label: string = template
+): string {
+  const placeholders = parsePathTemplate(template);
+  const known = new Set(placeholders.map(placeholder => placeholder.name));
+  // Own properties only, so names like "constructor" are not filled from Object.prototype
+  const valueOf = (name: string) => Object.prototype.hasOwnProperty.call(params, name) ? params[name] : undefined;
+  const provided = (name: string) => valueOf(name) !== undefined;
+  const problems: string[] = [];
+
+  const missing = placeholders.filter(placeholder => !placeholder.optional && !provided(placeholder.name));
+  if (missing.length > 0) {
+    problems.push(`missing ${missing.map(placeholder => placeholder.name).join(', ')}`);
+  }
+  const unknown = Object.keys(params).filter(name => !known.has(name));
+  if (unknown.length > 0) {
+    problems.push(`unknown ${unknown.join(', ')} (template has ${[...known].join(', ') || 'no params'})`);
+  }
+  // Empty, "." and ".." values would collapse or climb out of the segment and hit another route
+  const unsafe = placeholders.filter(placeholder => ['', '.', '..'].includes(String(valueOf(placeholder.name))));
+  if (unsafe.length > 0) {
+    problems.push(`empty or dot-segment ${unsafe.map(placeholder => placeholder.name).join(', ')}`);
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid path params for ${label}: ${problems.join('; ')}`);
+  }
+
+  return template.replace(
+    new RegExp(`(/?)${PLACEHOLDER_PATTERN.source}`, 'g'),
+    (_, slash: string, name: string) => provided(name) ? `${slash}${encodePathSegment(String(valueOf(name)))}` : ''
+  );
+}
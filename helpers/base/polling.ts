@@ -0,0 +1,95 @@
+import { ApiResponse, PollHistoryEntry, PollOptions } from '../../types/api.types';
+import { Logger } from '../../utils/logger';
+import { attachText } from '../../utils/allureHelper';
+/**
+ * Polling
+ *
+ * Repeatedly calls a fetcher until its response satisfies a predicate,
+ * a terminal failure state is reached, or the timeout expires.
+ */
+
+/** Defaults used for options not given by the caller */
+export const DEFAULT_POLL_OPTIONS: Required<Omit<PollOptions, 'description'>> = {
+  timeoutMs: 30000,
+  intervalMs: 1000,
+  backoffFactor: 1,
+  maxIntervalMs: 10000,
+  failureStates: []
+};
+
+/**
+ * Format a poll history as one line per observation
+ *
+ * @param history - Observations recorded while polling
+ * @returns Human-readable history
+ */
+export function formatPollHistory(history: PollHistoryEntry[]): string {
+  return history
+    .map(entry => `  #${entry.attempt} +${entry.elapsedMs}ms HTTP ${entry.httpStatus} `
+      + `status=${entry.status ?? '-'} subStatus=${entry.subStatus ?? '-'}`)
+    .join('\n');
+}
+
+/**
+ * Poll until the response satisfies the predicate
+ *
+ * The fetcher is called immediately, then after each interval (multiplied by
+ * backoffFactor up to maxIntervalMs). The full status history is attached to
+ * the Allure report and included in the error on failure.
+ *
+ * @param fetcher - Function performing one request
+ * @param predicate - Returns true once the response is final
+ * @param options - Interval, backoff, timeout and terminal failure states
+ * @param logger - Logger for per-poll messages (optional)
+ * @returns The first response satisfying the predicate
+ * @throws Error if a failure state is reached or the timeout expires
+ */
+export async function pollUntil<T = any>(
+  fetcher: () => Promise<ApiResponse<T>>,
+  predicate: (response: ApiResponse<T>) => boolean,
+  options: PollOptions = {},
+  logger?: Logger
+): Promise<ApiResponse<T>> {
+  const settings = { ...DEFAULT_POLL_OPTIONS, ...options };
+  const description = options.description || 'condition';
+  const history: PollHistoryEntry[] = [];
+  const startedAt = Date.now();
+  let interval = settings.intervalMs;
+  const finish = (outcome: string) => {
+    attachText(`Poll history: ${description}`, `${outcome}\n${formatPollHistory(history)}`);
+  };
+  for (let attempt = 1; ; attempt++) {
+    const response = await fetcher();
+    const body: any = response.body;
+    const entry: PollHistoryEntry = {
+      attempt,
+      elapsedMs: Date.now() - startedAt,
+      httpStatus: response.status,
+      status: body?.status,
+      subStatus: body?.subStatus
+    };
+    history.push(entry);
+    logger?.info(`Poll #${attempt} for ${description}: HTTP ${entry.httpStatus} `
+      + `status=${entry.status ?? '-'} subStatus=${entry.subStatus ?? '-'}`);
+    if (predicate(response)) {
+      finish(`Satisfied after ${attempt} poll(s)`);
+      return response;
+    }
+    const failedState = [entry.status, entry.subStatus].find(state => state && settings.failureStates.includes(state));
+    if (failedState) {
+      finish(`Failure state ${failedState}`);
+      throw new Error(
+        `Polling for ${description} reached failure state ${failedState} after ${attempt} poll(s)\n${formatPollHistory(history)}`
+      );
+    }
+    const elapsed = Date.now() - startedAt;
+    if (elapsed + interval > settings.timeoutMs) {
+      finish(`Timed out after ${elapsed}ms`);
+      throw new Error(
+        `Polling for ${description} timed out after ${elapsed}ms (${attempt} poll(s))\n${formatPollHistory(history)}`
+      );
+    }
+    await new Promise(resolve => setTimeout(resolve, interval));
+    interval = Math.min(settings.maxIntervalMs, interval * settings.backoffFactor);
+  }
+}
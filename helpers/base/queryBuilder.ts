@@ -0,0 +1,90 @@
+import { QueryArrayFormat, QueryParams } from '../../types/api.types';
+/**
+ * Query Builder
+ *
+ * Builds query strings for BaseHelper.makeRequest:
+ * - Numbers and booleans are stringified; undefined and null are left out
+ * - Arrays are written as repeated keys or as one comma-separated value
+ * - Parameters are merged into any query string the endpoint already has,
+ *   replacing existing values of the same key and leaving the rest as written
+ */
+
+/**
+ * Encode a key or value the way URLSearchParams does (spaces become +)
+ */
+function encodeQueryComponent(value: string): string {
+  return new URLSearchParams({ v: value }).toString().slice(2);
+}
+
+/**
+ * Decode a key of an existing query string, keeping it as written if it is not valid percent-encoding
+ */
+function decodeQueryComponent(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Serialize query parameters to encoded key=value pairs
+ */
+function serializeQueryParams(params: QueryParams, arrayFormat: QueryArrayFormat): string[] {
+  const pairs: string[] = [];
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    const name = encodeQueryComponent(key);
+    if (!Array.isArray(value)) {
+      pairs.push(`${name}=${encodeQueryComponent(String(value))}`);
+    } else if (arrayFormat === 'comma') {
+      // Commas separate the items, so only the items themselves are encoded
+      if (value.length > 0) {
+        pairs.push(`${name}=${value.map(item => encodeQueryComponent(String(item))).join(',')}`);
+      }
+    } else {
+      value.forEach(item => pairs.push(`${name}=${encodeQueryComponent(String(item))}`));
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Build a query string (without the leading ?)
+ *
+ * @param params - Query parameters
+ * @param arrayFormat - How arrays are written (default: repeat)
+ * @returns Encoded query string, empty when nothing is left to send
+ *
+ * @example buildQueryString({ status: ['A', 'B'], page: 2, draft: undefined }) = 'status=A&status=B&page=2'
+ */
+export function buildQueryString(params: QueryParams, arrayFormat: QueryArrayFormat = 'repeat'): string {
+  return serializeQueryParams(params, arrayFormat).join('&');
+}
+
+/**
+ * Merge query parameters into a URL or path that may already have a query string
+ *
+ * @param url - URL or path, optionally with ?query and #fragment
+ * @param params - Query parameters (replace existing values of the same key)
+ * @param arrayFormat - How arrays are written (default: repeat)
+ * @returns URL with the merged query string, and no ? when the query is empty
+ *
+ * @example appendQuery('/api/items?page=1&sort=name', { page: 2 }) = '/api/items?sort=name&page=2'
+ */
+export function appendQuery(url: string, params: QueryParams = {}, arrayFormat: QueryArrayFormat = 'repeat'): string {
+  const hashIndex = url.indexOf('#');
+  const fragment = hashIndex >= 0 ? url.slice(hashIndex) : '';
+  const withoutFragment = hashIndex >= 0 ? url.slice(0, hashIndex) : url;
+  const queryIndex = withoutFragment.indexOf('?');
+  const path = queryIndex >= 0 ? withoutFragment.slice(0, queryIndex) : withoutFragment;
+  const replaced = new Set(Object.keys(params).filter(key => params[key] !== undefined && params[key] !== null));
+  const existing = queryIndex >= 0
+    ? withoutFragment.slice(queryIndex + 1).split('&')
+      .filter(pair => pair && !replaced.has(decodeQueryComponent(pair.split('=')[0])))
+    : [];
+  const query = [...existing, ...serializeQueryParams(params, arrayFormat)].join('&');
+  return `${path}${query ? `?${query}` : ''}${fragment}`;
+}
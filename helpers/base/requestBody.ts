@@ -0,0 +1,129 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MultipartFile, MultipartValue, RequestBodyOptions } from '../../types/api.types';
+import { buildQueryString } from './queryBuilder';
+/**
+ * Request Body Encoding
+ *
+ * Turns the body options of BaseHelper.makeRequest into the bytes that are sent
+ * and the Content-Type that describes them:
+ * - data: JSON (application/json)
+ * - form: URL-encoded fields (application/x-www-form-urlencoded)
+ * - multipart: fields and file parts (multipart/form-data; boundary=...)
+ * - binary: raw bytes (application/octet-stream)
+ * Encoding happens before signing, so signers, interceptors and reports see the real body.
+ */
+
+/** Content types by file extension, used for multipart file parts */
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.csv': 'text/csv',
+  '.txt': 'text/plain'
+};
+
+/**
+ * Encoded request body
+ */
+export interface EncodedBody {
+  /** Body to send (undefined when there is none) */
+  data?: any;
+  /** Content-Type describing the body */
+  contentType: string;
+}
+
+/**
+ * Guess the content type of a file from its extension
+ *
+ * @param fileName - File name or path
+ * @returns Content type, application/octet-stream for unknown extensions
+ */
+export function getMimeType(fileName: string): string {
+  return MIME_TYPES[path.extname(fileName).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Check whether a multipart value is a file part
+ */
+function isMultipartFile(value: MultipartValue): value is MultipartFile {
+  return typeof value === 'object' && value !== null && ('path' in value || 'buffer' in value);
+}
+
+/**
+ * Quote a field or file name for Content-Disposition (quotes and line breaks are percent-encoded)
+ */
+function quoteDispositionName(name: string): string {
+  return `"${name.replace(/"/g, '%22').replace(/\r/g, '%0D').replace(/\n/g, '%0A')}"`;
+}
+
+/**
+ * Encode multipart/form-data fields
+ *
+ * @param fields - Field values and file parts; undefined and null fields are left out
+ * @param boundary - Part boundary (random by default)
+ * @returns Body bytes and the Content-Type carrying the boundary
+ * @throws Error if a file part's path cannot be read
+ */
+export function encodeMultipart(
+  fields: Record<string, MultipartValue>,
+  boundary: string = `----ApiFrameworkBoundary${crypto.randomBytes(12).toString('hex')}`
+): EncodedBody {
+  const chunks: Buffer[] = [];
+  for (const [name, value] of Object.entries(fields)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    let disposition = `form-data; name=${quoteDispositionName(name)}`;
+    let partHeaders = '';
+    let content: Buffer;
+    if (isMultipartFile(value)) {
+      const fileName = 'buffer' in value ? value.name : value.name ?? path.basename(value.path);
+      content = 'buffer' in value ? value.buffer : fs.readFileSync(path.resolve(value.path));
+      disposition += `; filename=${quoteDispositionName(fileName)}`;
+      partHeaders = `Content-Type: ${value.mimeType ?? getMimeType(fileName)}\r\n`;
+    } else {
+      content = Buffer.from(String(value), 'utf8');
+    }
+    chunks.push(Buffer.from(`--${boundary}\r\nContent-Disposition: ${disposition}\r\n${partHeaders}\r\n`, 'utf8'), content, Buffer.from('\r\n'));
+  }
+  chunks.push(Buffer.from(`--${boundary}--\r\n`, 'utf8'));
+  return { data: Buffer.concat(chunks), contentType: `multipart/form-data; boundary=${boundary}` };
+}
+
+/**
+ * Encode the body options of a request
+ *
+ * @param options - Request options with at most one of data, form, multipart and binary
+ * @returns Body to send and its Content-Type (application/json when there is no body)
+ * @throws Error if more than one body option is set
+ */
+export function encodeRequestBody(options: RequestBodyOptions): EncodedBody {
+  const given = (['data', 'form', 'multipart', 'binary'] as const).filter(key => options[key] !== undefined);
+  if (given.length > 1) {
+    throw new Error(`Only one of data, form, multipart and binary may be set (got ${given.join(', ')})`);
+  }
+  if (options.form) {
+    return { data: buildQueryString(options.form), contentType: 'application/x-www-form-urlencoded' };
+  }
+  if (options.multipart) {
+    return encodeMultipart(options.multipart);
+  }
+  if (options.binary) {
+    return { data: options.binary, contentType: 'application/octet-stream' };
+  }
+  return { data: options.data, contentType: 'application/json' };
+}
+
+/**
+ * Describe a request or response body for logs and reports (binary bodies are summarised, not dumped)
+ */
+export function describeBody(data: any): any {
+  return Buffer.isBuffer(data) ? `<${data.length} bytes>` : data;
+}
@@ -0,0 +1,183 @@
+/**
+ * Response Parsers
+ *
+ * Registry of response body parsers keyed by media type, used by BaseHelper.parseResponse.
+ * A parser is looked up by, in order:
+ * 1. the exact media type (application/pdf)
+ * 2. its structured syntax suffix (+json for application/vnd.volt.v2+json or application/problem+json)
+ * 3. its top-level type (image/*)
+ * Anything else is returned as text. Empty bodies (e.g. 204 No Content, with or without a Content-Type) are
+ * returned as undefined before any parser is chosen.
+ */
+
+/**
+ * The parts of a Playwright APIResponse the parsers read
+ */
+export interface RawResponse {
+  headers(): Record<string, string>;
+  text(): Promise<string>;
+  body?(): Promise<Buffer>;
+  status?(): number;
+}
+
+/**
+ * Parsed response body with the size of the raw body it was parsed from
+ */
+export interface ParsedResponseBody {
+  /** Parsed JSON, text, Buffer for binary types, or undefined for empty bodies */
+  body: any;
+
+  /** Size of the raw response body in bytes */
+  sizeBytes: number;
+}
+
+/**
+ * Parser for one media type
+ *
+ * @param response - Response to read
+ * @param mediaType - Media type without parameters, lowercased (e.g. application/problem+json)
+ * @returns Parsed body
+ */
+export type ResponseParser = (response: RawResponse, mediaType: string) => Promise<any>;
+
+/**
+ * Thrown when a response body does not match its declared media type (e.g. malformed JSON)
+ *
+ * Carries the raw body text so the failure can be diagnosed from the report.
+ */
+export class ResponseParseError extends Error {
+  constructor(
+    message: string,
+    public readonly mediaType: string,
+    public readonly rawText: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'ResponseParseError';
+  }
+}
+
+/** Longest raw body quoted in a ResponseParseError message */
+const MAX_QUOTED_BODY = 500;
+
+/**
+ * Parse a JSON body, turning syntax errors into a ResponseParseError with the raw text
+ */
+const parseJson: ResponseParser = async (response, mediaType) => {
+  const text = await response.text();
+  if (text.trim() === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error: any) {
+    const status = response.status?.();
+    const quoted = text.length > MAX_QUOTED_BODY ? `${text.slice(0, MAX_QUOTED_BODY)}... (${text.length} chars)` : text;
+    throw new ResponseParseError(
+      `Malformed JSON in ${mediaType} response${status === undefined ? '' : ` (status ${status})`}: ${error.message}\n${quoted}`,
+      mediaType,
+      text,
+      status
+    );
+  }
+};
+
+/**
+ * Return the body as text
+ */
+const parseText: ResponseParser = async response => await response.text();
+
+/**
+ * Return the body as a Buffer (undefined when empty)
+ */
+const parseBinary: ResponseParser = async response => {
+  const bytes = response.body ? await response.body() : Buffer.from(await response.text(), 'binary');
+  return bytes.length === 0 ? undefined : bytes;
+};
+
+/** Parsers by media type, +suffix or type/* */
+const parsers = new Map<string, ResponseParser>([
+  ['application/json', parseJson],
+  ['application/problem+json', parseJson],
+  ['+json', parseJson],
+  ['application/xml', parseText],
+  ['text/xml', parseText],
+  ['+xml', parseText],
+  ['application/pdf', parseBinary],
+  ['application/octet-stream', parseBinary],
+  ['application/zip', parseBinary],
+  ['image/*', parseBinary]
+]);
+
+/**
+ * Register (or replace) the parser for a media type
+ *
+ * @param mediaType - Exact media type, +suffix or type/* (e.g. application/vnd.ms-excel, +cbor, audio/*)
+ * @param parser - Parser to use for matching responses
+ */
+export function registerResponseParser(mediaType: string, parser: ResponseParser): void {
+  parsers.set(mediaType.toLowerCase(), parser);
+}
+
+/**
+ * Extract the media type from a Content-Type header
+ *
+ * @example getMediaType('Application/Problem+JSON; charset=utf-8') = 'application/problem+json'
+ */
+export function getMediaType(contentType: string = ''): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Find the parser for a media type (text when none is registered)
+ */
+export function getResponseParser(mediaType: string): ResponseParser {
+  const suffix = mediaType.includes('+') ? mediaType.slice(mediaType.lastIndexOf('+')) : undefined;
+  return parsers.get(mediaType)
+    || (suffix && parsers.get(suffix))
+    || parsers.get(`${mediaType.split('/')[0]}/*`)
+    || parseText;
+}
+
+/**
+ * Read a response body once and parse it according to its Content-Type
+ *
+ * The raw body is read through body() (text() when the response has no body() method)
+ * and the parser reads that copy, so the body is neither fetched twice nor sized separately.
+ *
+ * @param response - Playwright APIResponse (or anything with headers/text/body)
+ * @returns Parsed body and raw body size
+ * @throws ResponseParseError if a JSON body is malformed
+ */
+export async function readResponseBody(response: RawResponse): Promise<ParsedResponseBody> {
+  let buffered: RawResponse;
+  let sizeBytes: number;
+  if (typeof response.body === 'function') {
+    const bytes = await response.body();
+    buffered = { headers: () => response.headers(), text: async () => bytes.toString('utf8'), body: async () => bytes };
+    sizeBytes = bytes.length;
+  } else {
+    const text = await response.text();
+    buffered = { headers: () => response.headers(), text: async () => text };
+    sizeBytes = Buffer.byteLength(text, 'utf8');
+  }
+  if (sizeBytes === 0) {
+    return { body: undefined, sizeBytes };
+  }
+  if (response.status) {
+    buffered.status = () => response.status!();
+  }
+  const mediaType = getMediaType(response.headers()['content-type']);
+  return { body: await getResponseParser(mediaType)(buffered, mediaType), sizeBytes };
+}
+
+/**
+ * Parse a response body according to its Content-Type
+ *
+ * @param response - Playwright APIResponse (or anything with headers/text/body)
+ * @returns Parsed JSON, text, Buffer for binary types, or undefined for empty bodies
+ * @throws ResponseParseError if a JSON body is malformed
+ */
+export async function parseResponseBody(response: RawResponse): Promise<any> {
+  return (await readResponseBody(response)).body;
+}
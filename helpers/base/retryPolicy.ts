@@ -0,0 +1,162 @@
+import { ApiResponse, HttpMethod, RetryPolicy } from '../../types/api.types';
+import { PodTestData } from '../../types/testdata.types';
+/**
+ * Retry Policy
+ *
+ * Resolves the retry policy for a request and computes backoff delays:
+ * - Exponential backoff with jitter
+ * - Retry-After header support (seconds or HTTP date)
+ * - Idempotency guard for POST/PATCH
+ * - Network retries limited to transport failures
+ */
+
+/** Defaults used when neither the pod config nor the request specify a value */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 1,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  jitter: 0.5,
+  retryableStatuses: [429, 502, 503, 504],
+  retryOnNetworkError: true,
+  retryNonIdempotent: false,
+  respectRetryAfter: true,
+  maxRetryAfterMs: 30000
+};
+
+/** Methods that are safe to repeat without side effects */
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+
+/** Node and Playwright messages of transport failures raised outside the request context */
+const NETWORK_ERROR_PATTERN = /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EPIPE|EAI_AGAIN|socket hang up/i;
+
+/** Errors thrown by the request context while sending a request */
+const networkErrors = new WeakSet<object>();
+
+/**
+ * Mark an error thrown while sending a request as a transport failure
+ *
+ * @param error - Error thrown by the request context
+ * @returns The same error, to rethrow
+ */
+export function markNetworkError<E>(error: E): E {
+  if (typeof error === 'object' && error !== null) {
+    networkErrors.add(error);
+  }
+  return error;
+}
+
+/**
+ * Check whether an error is a transport failure that may be retried
+ *
+ * Parse errors, interceptor errors and cassette mismatches are not.
+ *
+ * @param error - Error thrown by an attempt
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+  return networkErrors.has(error) || NETWORK_ERROR_PATTERN.test((error as Error).message || '');
+}
+
+/**
+ * Thrown inside an attempt to signal that it should be retried
+ *
+ * Carries either the retryable response or the underlying network error.
+ */
+export class RetryableAttemptError extends Error {
+  constructor(public readonly response?: ApiResponse, public readonly networkError?: Error) {
+    super(response ? `status ${response.status}` : networkError?.message || 'request failed');
+    this.name = 'RetryableAttemptError';
+  }
+}
+
+/**
+ * Build a retry policy from a pod's test data config
+ *
+ * `retries` is the number of retries after the first attempt; `retryPolicy`
+ * may override any other field.
+ *
+ * @param config - Config section of the pod's test data (optional)
+ * @returns Complete retry policy
+ */
+export function resolveRetryPolicy(config?: PodTestData['config']): RetryPolicy {
+  if (!config) {
+    return { ...DEFAULT_RETRY_POLICY };
+  }
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    maxAttempts: Math.max(1, (config.retries ?? 0) + 1),
+    ...config.retryPolicy
+  };
+}
+
+/**
+ * Apply per-request overrides and the idempotency guard
+ *
+ * @param method - HTTP method of the request
+ * @param policy - Helper-level retry policy
+ * @param override - Per-request overrides, or false to disable retries
+ * @returns Policy to use for this request
+ */
+export function getEffectiveRetryPolicy(
+  method: HttpMethod,
+  policy: RetryPolicy,
+  override?: Partial<RetryPolicy> | false
+): RetryPolicy {
+  if (override === false) {
+    return { ...policy, maxAttempts: 1 };
+  }
+  const effective = { ...policy, ...override };
+  if (!IDEMPOTENT_METHODS.includes(method) && !effective.retryNonIdempotent) {
+    effective.maxAttempts = 1;
+  }
+  return effective;
+}
+
+/**
+ * Parse a Retry-After header value
+ *
+ * @param value - Header value: delay in seconds or an HTTP date
+ * @param now - Current time in milliseconds (for HTTP dates)
+ * @returns Delay in milliseconds, or undefined if the value cannot be parsed
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - now);
+}
+
+/**
+ * Compute the delay before the next attempt
+ *
+ * @param policy - Retry policy in effect
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param response - Failed response, used for the Retry-After header
+ * @param random - Random source in [0, 1) (injectable for tests)
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  response?: ApiResponse,
+  random: () => number = Math.random
+): number {
+  if (policy.respectRetryAfter && response) {
+    const retryAfter = parseRetryAfter(response.headers['retry-after']);
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, policy.maxRetryAfterMs);
+    }
+  }
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(backoff * (1 - policy.jitter * random()));
+}
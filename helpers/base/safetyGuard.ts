@@ -0,0 +1,94 @@
+import { test } from '@playwright/test';
+import endpoints from '../../config/endpoints.json';
+import { EnvironmentSettings } from '../../types/config.types';
+import { HttpMethod, SafetyDecision } from '../../types/api.types';
+/**
+ * Environment Safety Guard
+ *
+ * Decides whether BaseHelper may send a request in the current environment:
+ * - Environments without a safety policy allow everything
+ * - A request is allowed if its method or its endpoint category (pod.category
+ *   from endpoints.json) is listed in the environment's policy
+ * - Tests tagged @prod-safe opt in to every call
+ * Anything else is blocked before it is sent.
+ */
+
+/** Tag with which a test opts in to calls outside the environment's safety policy */
+export const PROD_SAFE_TAG = '@prod-safe';
+
+/** Endpoint templates compiled to path matchers, with their pod.category */
+const ENDPOINT_PATTERNS: { pod: string; category: string; pattern: RegExp }[] = Object.entries(endpoints)
+  .flatMap(([pod, categories]) => Object.entries(categories as Record<string, Record<string, string>>)
+    .flatMap(([category, paths]) => Object.values(paths).map(template => ({
+      pod,
+      category: `${pod}.${category}`,
+      pattern: new RegExp(
+        `${template.replace(/\/+$/, '').replace(/[.*+?^$()|[\]\\]/g, '\\$&').replace(/\{[^}]+\}/g, '[^/]+')}/?$`
+      )
+    }))));
+
+/**
+ * Find the endpoint category of a request URL
+ *
+ * @param url - Complete request URL
+ * @param podName - Pod of the calling helper; its endpoints are preferred when paths overlap
+ * @returns pod.category (e.g. lms.payments), or undefined for URLs not in endpoints.json
+ */
+export function resolveEndpointCategory(url: string, podName?: string): string | undefined {
+  const pathname = new URL(url).pathname;
+  const matches = ENDPOINT_PATTERNS.filter(endpoint => endpoint.pattern.test(pathname));
+  return (matches.find(endpoint => endpoint.pod === podName) || matches[0])?.category;
+}
+
+/**
+ * Get the tags of the running test ([] outside a test)
+ */
+export function getCurrentTestTags(): string[] {
+  try {
+    return test.info().tags;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Decide whether a request may be sent in an environment
+ *
+ * @param method - HTTP method
+ * @param url - Complete request URL
+ * @param environment - Resolved environment with its safety policy
+ * @param podName - Pod of the calling helper
+ * @param tags - Tags of the running test
+ * @returns Decision with the reason
+ */
+export function evaluateSafety(
+  method: HttpMethod,
+  url: string,
+  environment: EnvironmentSettings,
+  podName?: string,
+  tags: string[] = []
+): SafetyDecision {
+  const policy = environment.safety;
+  const category = resolveEndpointCategory(url, podName);
+  const target = `${method} ${new URL(url).pathname}${category ? ` (${category})` : ''}`;
+  if (!policy) {
+    return { allowed: true, reason: `${target}: no safety policy for ${environment.name}`, category };
+  }
+  if (policy.allowedMethods.includes(method)) {
+    return { allowed: true, reason: `${target}: ${method} is allowed in ${environment.name}`, category };
+  }
+  if (category && policy.allowedCategories.includes(category)) {
+    return { allowed: true, reason: `${target}: category ${category} is allowed in ${environment.name}`, category };
+  }
+  if (tags.includes(PROD_SAFE_TAG)) {
+    return { allowed: true, reason: `${target}: test is tagged ${PROD_SAFE_TAG}`, category };
+  }
+  return {
+    allowed: false,
+    reason: `${target} is not allowed in ${environment.name} `
+      + `(allowed methods: ${policy.allowedMethods.join(', ') || 'none'}; `
+      + `allowed categories: ${policy.allowedCategories.join(', ') || 'none'}). `
+      + `Tag the test ${PROD_SAFE_TAG} to opt in`,
+    category
+  };
+}
@@ -1,16 +1,16 @@
 import { APIRequestContext } from '@playwright/test';
 import { BaseHelper } from '../base/baseHelper';
-import endpoints from '../../config/endpoints.json';
-import creds from '../../config/creds.json';
+import { endpointRegistry } from '../../config/endpointRegistry';
+import { EndpointQuery } from '../../types/endpoint.types';
+import { getSecret } from '../../utils/secrets';
 import { LoginResponse, ApiResponse } from '../../types/api.types';
 export class LMSHelper extends BaseHelper {
   constructor(request: APIRequestContext) {
     super(request, 'lms');
   }
   async login(): Promise<void> {
-    const loginEndpoint = endpoints.lms.auth.login;
-    const credentials = creds.lms;
-    const response = await this.makeRequest('POST', loginEndpoint, {
+    const credentials = { email: getSecret('LMS_EMAIL'), password: getSecret('LMS_PASSWORD') };
+    const response = await this.callEndpoint(endpointRegistry.lms.auth.login, {
       data: {
         email: credentials.email,
         password: credentials.password
@@ -24,28 +24,22 @@ export class LMSHelper extends BaseHelper {
     this.logger.info('LMS login successful');
   }
   async createPayment(paymentData: any): Promise<ApiResponse> {
-    const endpoint = endpoints.lms.payments.create;
-    return await this.makeRequest('POST', endpoint, { data: paymentData });
+    return await this.callEndpoint(endpointRegistry.lms.payments.create, { data: paymentData });
   }
   async getPaymentById(paymentId: string): Promise<ApiResponse> {
-    const endpoint = this.replacePathParams(endpoints.lms.payments.getById, { id: paymentId });
-    return await this.makeRequest('GET', endpoint);
+    return await this.callEndpoint(endpointRegistry.lms.payments.getById, { pathParams: { id: paymentId } });
   }
-  async listPayments(params?: Record<string, string>): Promise<ApiResponse> {
-    const endpoint = endpoints.lms.payments.list;
-    return await this.makeRequest('GET', endpoint, { params });
+  async listPayments(params?: EndpointQuery<typeof endpointRegistry.lms.payments.list>): Promise<ApiResponse> {
+    return await this.callEndpoint(endpointRegistry.lms.payments.list, { query: params });
   }
   async getAccountById(accountId: string): Promise<ApiResponse> {
-    const endpoint = this.replacePathParams(endpoints.lms.accounts.getById, { id: accountId });
-    return await this.makeRequest('GET', endpoint);
+    return await this.callEndpoint(endpointRegistry.lms.accounts.getById, { pathParams: { id: accountId } });
   }
   async updateAccount(accountId: string, accountData: any): Promise<ApiResponse> {
-    const endpoint = this.replacePathParams(endpoints.lms.accounts.update, { id: accountId });
-    return await this.makeRequest('PUT', endpoint, { data: accountData });
+    return await this.callEndpoint(endpointRegistry.lms.accounts.update, { pathParams: { id: accountId }, data: accountData });
   }
   async logout(): Promise<void> {
-    const endpoint = endpoints.lms.auth.logout;
-    await this.makeRequest('POST', endpoint);
+    await this.callEndpoint(endpointRegistry.lms.auth.logout);
     this.setAuthToken('');
     this.logger.info('LMS logout successful');
   }
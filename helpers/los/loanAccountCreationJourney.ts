@@ -0,0 +1,413 @@
+import { LoanAccountCreationHelper } from './loanAccountCreationHelper';
+import loanAccountData from '../../testdata/los/loanAccountCreation.json';
+import { JourneyDefinition, JourneyStep } from '../../types/journey.types';
+import { LoanContractStep, SubmittedData, SubmittedDataType } from '../../types/loanAccountCreation.types';
+import { loadTestAsset } from '../../utils/testDataLoader';
+/**
+ * Loan Account Creation Journey
+ *
+ * Declarative definition of the DSP loan account creation journey
+ * (offer → opportunity → utilities → contract → submit) for use with JourneyRunner.
+ * Variants are derived with deriveJourney or by changing the initial context.
+ */
+
+/** Test data shape of testdata/los/loanAccountCreation.json */
+export type LoanAccountTestData = typeof loanAccountData;
+
+/** Bank account used for bank verification and the mandate */
+export type BankAccountDetails = LoanAccountTestData['bankUtilityInit']['request'];
+
+/**
+ * Values passed between the steps of the loan account creation journey
+ */
+export interface LoanAccountJourneyContext {
+  pan: string;
+  phone: string;
+  sourcingChannelCode: string;
+  bankAccount: BankAccountDetails;
+  opportunityId?: string;
+  kycReferenceId?: string;
+  photoVerificationReferenceId?: string;
+  additionalDataReferenceId?: string;
+  bankUtilityReferenceId?: string;
+  mandateReferenceId?: string;
+  emailVerificationLogReferenceId?: string;
+  mobileVerificationLogReferenceId?: string;
+  contractKfsReferenceId?: string;
+  contractAgreementReferenceId?: string;
+  kfsReferenceId?: string;
+  agreementReferenceId?: string;
+}
+
+type LoanAccountJourneyStep = JourneyStep<LoanAccountJourneyContext, LoanAccountCreationHelper>;
+
+/**
+ * Read a captured value that a step depends on
+ *
+ * @throws Error if an earlier step did not capture the value
+ */
+function requireValue(context: LoanAccountJourneyContext, key: keyof LoanAccountJourneyContext): string {
+  const value = context[key];
+  if (typeof value !== 'string' || !value) {
+    throw new Error(`Journey context is missing ${key}`);
+  }
+  return value;
+}
+
+/**
+ * Build the initial journey context for a test user
+ *
+ * @param user - PAN and phone of the borrower
+ * @param overrides - Other context values (e.g. a different bank account)
+ */
+export function createLoanAccountJourneyContext(
+  user: { pan: string; phone: string } = loanAccountData.userDetails.automationMockUser,
+  overrides: Partial<LoanAccountJourneyContext> = {}
+): LoanAccountJourneyContext {
+  return {
+    pan: user.pan,
+    phone: user.phone,
+    sourcingChannelCode: loanAccountData.common.sourcingChannelCode,
+    bankAccount: loanAccountData.bankUtilityInit.request,
+    ...overrides
+  };
+}
+
+/**
+ * Create the loan account creation journey
+ *
+ * Step names match the LoanAccountCreationHelper methods, so they can be used
+ * with JourneyRunner.run({ from }) and deriveJourney({ skip }).
+ * Reference IDs of skipped steps are left out of the final submission.
+ *
+ * @param testData - Requests and expected responses for every step
+ */
+export function createLoanAccountCreationJourney(
+  testData: LoanAccountTestData = loanAccountData
+): JourneyDefinition<LoanAccountJourneyContext, LoanAccountCreationHelper> {
+  const polling = testData.common.polling;
+  /** Expectation shared by utility responses tied to the opportunity */
+  const utilityExpectation = (
+    expected: { statusCode: number; status: string; subStatus?: string; schema?: string },
+    extraFields: Record<string, any> = {}
+  ) => (context: LoanAccountJourneyContext) => ({
+    statusCode: expected.statusCode,
+    schema: expected.schema,
+    fields: {
+      opportunityId: context.opportunityId,
+      status: expected.status,
+      ...(expected.subStatus !== undefined ? { subStatus: expected.subStatus } : {}),
+      ...extraFields
+    }
+  });
+  const steps: LoanAccountJourneyStep[] = [
+    {
+      name: 'generateOffer',
+      title: 'Generate offer with PAN and assets',
+      run: (helper, context) => helper.generateOffer(
+        { pan: context.pan, ...testData.generateOffer.request },
+        context.sourcingChannelCode
+      ),
+      expect: testData.generateOffer.expectedResponse
+    },
+    {
+      name: 'clientDedupeCheck',
+      title: 'Check client dedupe with PAN',
+      run: (helper, context) => helper.clientDedupeCheck(
+        { pan: context.pan, ...testData.clientDedupeCheck.request },
+        context.sourcingChannelCode
+      ),
+      expect: {
+        statusCode: testData.clientDedupeCheck.expectedResponse.statusCode,
+        schema: testData.clientDedupeCheck.expectedResponse.schema,
+        fields: {
+          isDuplicate: testData.clientDedupeCheck.expectedResponse.isDuplicate,
+          message: testData.clientDedupeCheck.expectedResponse.message
+        }
+      }
+    },
+    {
+      name: 'createOpportunity',
+      title: 'Create opportunity for loan creation',
+      run: (helper, context) => helper.createOpportunity(
+        { pan: context.pan, phoneNumber: context.phone, ...testData.createOpportunity.request },
+        context.sourcingChannelCode
+      ),
+      expect: testData.createOpportunity.expectedResponse,
+      capture: response => ({ opportunityId: response.body.opportunityId })
+    },
+    {
+      name: 'kycUtilityInit',
+      title: 'Initialize KYC utility',
+      run: (helper, context) => helper.kycUtilityInit(
+        { opportunityId: requireValue(context, 'opportunityId'), ...testData.kycUtilityInit.request },
+        context.sourcingChannelCode
+      ),
+      expect: utilityExpectation(testData.kycUtilityInit.expectedResponse),
+      capture: response => ({ kycReferenceId: response.body.utilityReferenceId })
+    },
+    {
+      name: 'getKycUtility',
+      title: 'Get KYC utility status',
+      run: (helper, context) => helper.waitForUtilityStatus(
+        () => helper.getKycUtility(
+          requireValue(context, 'kycReferenceId'),
+          testData.getKycUtility.request.imageType,
+          context.sourcingChannelCode
+        ),
+        { status: testData.getKycUtility.expectedResponse.status },
+        polling
+      ),
+      expect: context => ({
+        statusCode: testData.getKycUtility.expectedResponse.statusCode,
+        schema: testData.getKycUtility.expectedResponse.schema,
+        fields: {
+          opportunityId: context.opportunityId,
+          utilityReferenceId: context.kycReferenceId,
+          status: testData.getKycUtility.expectedResponse.status
+        }
+      })
+    },
+    {
+      name: 'initPhotoVerification',
+      title: 'Initialize photo verification',
+      run: (helper, context) => helper.initPhotoVerification(
+        {
+          opportunityId: requireValue(context, 'opportunityId'),
+          userImage: loadTestAsset(testData.initPhotoVerification.request.userImagePath, 'base64'),
+          customerConsent: testData.initPhotoVerification.request.customerConsent
+        },
+        context.sourcingChannelCode
+      ),
+      expect: utilityExpectation(testData.initPhotoVerification.expectedResponse, { fenixLoanAccountId: null }),
+      capture: response => ({ photoVerificationReferenceId: response.body.utilityReferenceId })
+    },
+    {
+      name: 'getPhotoVerification',
+      title: 'Get photo verification status',
+      run: (helper, context) => helper.getPhotoVerification(
+        requireValue(context, 'photoVerificationReferenceId'),
+        context.sourcingChannelCode
+      ),
+      expect: context => utilityExpectation(testData.getPhotoVerification.expectedResponse, {
+        utilityReferenceId: context.photoVerificationReferenceId,
+        fenixLoanAccountId: null
+      })(context)
+    },
+    {
+      name: 'saveAdditionalData',
+      title: 'Save additional data for opportunity',
+      run: (helper, context) => helper.saveAdditionalData(
+        { opportunityId: requireValue(context, 'opportunityId'), ...testData.saveAdditionalData.request },
+        context.sourcingChannelCode
+      ),
+      expect: context => ({
+        statusCode: testData.saveAdditionalData.expectedResponse.statusCode,
+        schema: testData.saveAdditionalData.expectedResponse.schema,
+        fields: { opportunityId: context.opportunityId }
+      }),
+      capture: response => ({ additionalDataReferenceId: response.body.utilityReferenceId })
+    },
+    {
+      name: 'getAdditionalData',
+      title: 'Get additional data',
+      run: (helper, context) => helper.getAdditionalData(
+        requireValue(context, 'additionalDataReferenceId'),
+        context.sourcingChannelCode
+      ),
+      expect: context => utilityExpectation(testData.getAdditionalData.expectedResponse, {
+        utilityReferenceId: context.additionalDataReferenceId
+      })(context)
+    },
+    {
+      name: 'bankUtilityInit',
+      title: 'Initialize bank verification',
+      run: (helper, context) => helper.bankUtilityInit(
+        { opportunityId: requireValue(context, 'opportunityId'), ...context.bankAccount },
+        context.sourcingChannelCode
+      ),
+      expect: utilityExpectation(testData.bankUtilityInit.expectedResponse, { fenixLoanAccountId: null }),
+      capture: response => ({ bankUtilityReferenceId: response.body.utilityReferenceId })
+    },
+    {
+      name: 'getBankUtility',
+      title: 'Get bank utility status',
+      run: (helper, context) => helper.waitForUtilityStatus(
+        () => helper.getBankUtility(requireValue(context, 'bankUtilityReferenceId'), context.sourcingChannelCode),
+        testData.getBankUtility.expectedResponse,
+        polling
+      ),
+      expect: context => utilityExpectation(testData.getBankUtility.expectedResponse, {
+        utilityReferenceId: context.bankUtilityReferenceId,
+        fenixLoanAccountId: null
+      })(context)
+    },
+    {
+      name: 'createMandate',
+      title: 'Create mandate for bank account',
+      run: (helper, context) => helper.createMandate(
+        {
+          opportunityId: requireValue(context, 'opportunityId'),
+          bankAccountVerificationId: requireValue(context, 'bankUtilityReferenceId'),
+          ...testData.createMandate.request
+        },
+        context.sourcingChannelCode
+      ),
+      expect: utilityExpectation(testData.createMandate.expectedResponse, { fenixLoanAccountId: null }),
+      capture: response => ({ mandateReferenceId: response.body.utilityReferenceId })
+    },
+    {
+      name: 'getMandate',
+      title: 'Get mandate status',
+      run: (helper, context) => helper.waitForUtilityStatus(
+        () => helper.getMandate(requireValue(context, 'mandateReferenceId'), context.sourcingChannelCode),
+        testData.getMandate.expectedResponse,
+        polling
+      ),
+      expect: context => utilityExpectation(testData.getMandate.expectedResponse, {
+        utilityReferenceId: context.mandateReferenceId,
+        fenixLoanAccountId: null
+      })(context)
+    },
+    {
+      name: 'createVerificationLogEmail',
+      title: 'Create email verification log',
+      run: (helper, context) => helper.createVerificationLogEmail(
+        { opportunityId: requireValue(context, 'opportunityId'), ...testData.createVerificationLogEmail.request },
+        context.sourcingChannelCode
+      ),
+      expect: utilityExpectation(testData.createVerificationLogEmail.expectedResponse, { fenixLoanAccountId: null }),
+      capture: response => ({ emailVerificationLogReferenceId: response.body.utilityReferenceId })
+    },
+    {
+      name: 'getVerificationLog',
+      title: 'Get verification log status',
+      run: (helper, context) => helper.getVerificationLog(
+        requireValue(context, 'emailVerificationLogReferenceId'),
+        context.sourcingChannelCode
+      ),
+      expect: context => utilityExpectation(testData.getVerificationLog.expectedResponse, {
+        utilityReferenceId: context.emailVerificationLogReferenceId,
+        fenixLoanAccountId: null
+      })(context)
+    },
+    {
+      name: 'createVerificationLogMobile',
+      title: 'Create mobile verification log',
+      run: (helper, context) => helper.createVerificationLogEmail(
+        {
+          opportunityId: requireValue(context, 'opportunityId'),
+          ...testData.createVerificationLogMobile.request,
+          verifiedValue: context.phone
+        },
+        context.sourcingChannelCode
+      ),
+      expect: utilityExpectation(testData.createVerificationLogMobile.expectedResponse, { fenixLoanAccountId: null }),
+      capture: response => ({ mobileVerificationLogReferenceId: response.body.utilityReferenceId })
+    },
+    {
+      name: 'generateLoanContract',
+      title: 'Generate loan contract',
+      run: (helper, context) => helper.generateLoanContract(
+        requireValue(context, 'opportunityId'),
+        {
+          kfsRequest: {
+            ...testData.generateLoanContract.request.kfsRequest,
+            emailVerificationLogId: context.emailVerificationLogReferenceId
+          },
+          agreementRequest: {
+            kycReferenceId: context.kycReferenceId,
+            additionalUtilityReferenceId: context.additionalDataReferenceId,
+            photoUtilityReferenceId: context.photoVerificationReferenceId,
+            bankAccountReferenceId: context.bankUtilityReferenceId
+          },
+          redirectionUrl: testData.generateLoanContract.request.redirectionUrl
+        },
+        context.sourcingChannelCode
+      ),
+      expect: utilityExpectation(testData.generateLoanContract.expectedResponse),
+      capture: response => {
+        const contractSteps: LoanContractStep[] = Array.isArray(response.body.steps) ? response.body.steps : [];
+        return {
+          contractAgreementReferenceId: contractSteps.find(s => s.utilityType === 'AGREEMENT_SIGN')?.utilityReferenceId,
+          contractKfsReferenceId: contractSteps.find(s => s.utilityType === 'KFS')?.utilityReferenceId
+        };
+      }
+    },
+    {
+      name: 'approveKfs',
+      title: 'Approve KFS',
+      run: (helper, context) => helper.approveKfs(
+        {
+          opportunityId: requireValue(context, 'opportunityId'),
+          ...testData.approveKfs.request,
+          emailVerificationLogId: context.emailVerificationLogReferenceId
+        },
+        context.sourcingChannelCode
+      ),
+      expect: testData.approveKfs.expectedResponse,
+      capture: response => ({ kfsReferenceId: response.body.utilityReferenceId })
+    },
+    {
+      name: 'kfsConsent',
+      title: 'Submit KFS consent',
+      run: (helper, context) => helper.kfsConsent(
+        requireValue(context, 'kfsReferenceId'),
+        { ...testData.kfsConsent.request },
+        context.sourcingChannelCode
+      ),
+      expect: testData.kfsConsent.expectedResponse
+    },
+    {
+      name: 'approveAgreement',
+      title: 'Approve Agreement',
+      run: (helper, context) => helper.approveAgreement(
+        {
+          opportunityId: requireValue(context, 'opportunityId'),
+          kycReferenceId: context.kycReferenceId,
+          additionalUtilityReferenceId: context.additionalDataReferenceId,
+          bankAccountReferenceId: context.bankUtilityReferenceId,
+          kfsReferenceId: context.kfsReferenceId,
+          photoUtilityReferenceId: context.photoVerificationReferenceId
+        },
+        context.sourcingChannelCode
+      ),
+      expect: testData.approveAgreement.expectedResponse,
+      capture: response => ({ agreementReferenceId: response.body.utilityReferenceId })
+    },
+    {
+      name: 'agreementConsent',
+      title: 'Submit Agreement consent',
+      run: (helper, context) => helper.agreementConsent(
+        requireValue(context, 'agreementReferenceId'),
+        {},
+        context.sourcingChannelCode
+      ),
+      expect: testData.agreementConsent.expectedResponse
+    },
+    {
+      name: 'submitOpportunity',
+      title: 'Submit opportunity with all reference IDs',
+      run: (helper, context) => {
+        const submittedDataList: { dataType: SubmittedDataType; referenceId?: string }[] = [
+          { dataType: 'BANK_ACCOUNT', referenceId: context.bankUtilityReferenceId },
+          { dataType: 'AGREEMENT', referenceId: context.agreementReferenceId },
+          { dataType: 'KFS', referenceId: context.kfsReferenceId },
+          { dataType: 'MANDATE', referenceId: context.mandateReferenceId },
+          { dataType: 'ADDITIONAL_DATA', referenceId: context.additionalDataReferenceId },
+          { dataType: 'KYC', referenceId: context.kycReferenceId },
+          { dataType: 'PHOTO_VERIFICATION', referenceId: context.photoVerificationReferenceId },
+          { dataType: 'MOBILE_VERIFICATION_LOG', referenceId: context.mobileVerificationLogReferenceId },
+          { dataType: 'EMAIL_VERIFICATION_LOG', referenceId: context.emailVerificationLogReferenceId }
+        ];
+        return helper.submitOpportunity(
+          requireValue(context, 'opportunityId'),
+          { submittedDataList: submittedDataList.filter((entry): entry is SubmittedData => Boolean(entry.referenceId)) },
+          context.sourcingChannelCode
+        );
+      },
+      expect: testData.submitOpportunity.expectedResponse
+    }
+  ];
+  return { name: 'Loan Account Creation', steps };
+}
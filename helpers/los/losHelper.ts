@@ -1,8 +1,8 @@
 import { APIRequestContext } from '@playwright/test';
 import { BaseHelper } from '../base/baseHelper';
-import endpoints from '../../config/endpoints.json';
-import creds from '../../config/creds.json';
-import { LoginResponse, ApiResponse } from '../../types/api.types';
+import { endpointRegistry } from '../../config/endpointRegistry';
+import { getSecret } from '../../utils/secrets';
+import { LoginResponse, ApiResponse, QueryParams } from '../../types/api.types';
 /**
  * LOS Helper class for Loan Origination System API operations
  * 
@@ -27,7 +27,7 @@ export class LOSHelper extends BaseHelper {
    * Step 2: Verify OTP and receive JWT token (POST)
    * Step 3: Fetch user data using JWT token (POST)
    * 
-   * Authenticates using LOS credentials and stores the authentication token
+   * Authenticates with LOS_PHONE_NO and LOS_OTP from the secrets provider and stores the authentication token
    * for use in subsequent API requests.
    * 
    * @throws Error if any step of login fails with status code and response body
@@ -35,7 +35,7 @@ export class LOSHelper extends BaseHelper {
    * Requirements: 6.3 - Provides login method for LOS authentication
    */
   async login(): Promise<void> {
-    const credentials = creds.los;
+    const credentials = { phoneNo: getSecret('LOS_PHONE_NO'), otp: getSecret('LOS_OTP') };
     // Hardcoded custom headers for Volt Money API
     const customHeaders = {
       'Accept': 'application/json, text/plain, */*',
@@ -52,11 +52,9 @@ export class LOSHelper extends BaseHelper {
     try {
       // Step 1: Request OTP (GET)
       this.logger.info('Step 1: Requesting OTP...');
-      const requestOtpEndpoint = this.replacePathParams(
-        endpoints.los.auth.requestOtp, 
-        { phoneNo: credentials.phoneNo }
-      );
-      const otpResponse = await this.makeRequest('GET', `${requestOtpEndpoint}?enableWhatsapp=true`, {
+      const otpResponse = await this.callEndpoint(endpointRegistry.los.auth.requestOtp, {
+        pathParams: { phoneNo: credentials.phoneNo },
+        query: { enableWhatsapp: true },
         headers: customHeaders
       });
       if (!otpResponse.ok) {
@@ -65,8 +63,7 @@ export class LOSHelper extends BaseHelper {
       this.logger.info('OTP requested successfully');
       // Step 2: Verify OTP and get JWT token (POST)
       this.logger.info('Step 2: Verifying OTP...');
-      const verifyOtpEndpoint = endpoints.los.auth.verifyOtp;
-      const verifyResponse = await this.makeRequest('POST', verifyOtpEndpoint, {
+      const verifyResponse = await this.callEndpoint(endpointRegistry.los.auth.verifyOtp, {
         data: {
           otp: credentials.otp,
           phoneNo: credentials.phoneNo
@@ -85,8 +82,7 @@ export class LOSHelper extends BaseHelper {
       this.logger.info('OTP verified successfully, JWT token received');
       // Step 3: Fetch user data (POST)
       this.logger.info('Step 3: Fetching user data...');
-      const getUserDataEndpoint = endpoints.los.auth.getUserData;
-      const userDataResponse = await this.makeRequest('POST', getUserDataEndpoint, {
+      const userDataResponse = await this.callEndpoint(endpointRegistry.los.auth.getUserData, {
         data: {
           onboardingPartnerCode: ""
         },
@@ -109,8 +105,7 @@ export class LOSHelper extends BaseHelper {
    * @returns ApiResponse with created loan data including ID
    */
   async createLoan(loanData: any): Promise<ApiResponse> {
-    const endpoint = endpoints.los.loans.create;
-    return await this.makeRequest('POST', endpoint, { data: loanData });
+    return await this.callEndpoint(endpointRegistry.los.loans.create, { data: loanData });
   }
   /**
    * Get loan by ID
@@ -119,8 +114,7 @@ export class LOSHelper extends BaseHelper {
    * @returns ApiResponse with loan data
    */
   async getLoanById(loanId: string): Promise<ApiResponse> {
-    const endpoint = this.replacePathParams(endpoints.los.loans.getById, { id: loanId });
-    return await this.makeRequest('GET', endpoint);
+    return await this.callEndpoint(endpointRegistry.los.loans.getById, { pathParams: { id: loanId } });
   }
   /**
    * Update an existing loan
@@ -130,8 +124,7 @@ export class LOSHelper extends BaseHelper {
    * @returns ApiResponse with updated loan data
    */
   async updateLoan(loanId: string, loanData: any): Promise<ApiResponse> {
-    const endpoint = this.replacePathParams(endpoints.los.loans.update, { id: loanId });
-    return await this.makeRequest('PUT', endpoint, { data: loanData });
+    return await this.callEndpoint(endpointRegistry.los.loans.update, { pathParams: { id: loanId }, data: loanData });
   }
   /**
    * Delete a loan
@@ -140,8 +133,7 @@ export class LOSHelper extends BaseHelper {
    * @returns ApiResponse with deletion confirmation
    */
   async deleteLoan(loanId: string): Promise<ApiResponse> {
-    const endpoint = this.replacePathParams(endpoints.los.loans.delete, { id: loanId });
-    return await this.makeRequest('DELETE', endpoint);
+    return await this.callEndpoint(endpointRegistry.los.loans.delete, { pathParams: { id: loanId } });
   }
   /**
    * List all loans with optional query parameters
@@ -149,9 +141,8 @@ export class LOSHelper extends BaseHelper {
    * @param params - Optional query parameters for filtering/pagination
    * @returns ApiResponse with array of loans
    */
-  async listLoans(params?: Record<string, string>): Promise<ApiResponse> {
-    const endpoint = endpoints.los.loans.list;
-    return await this.makeRequest('GET', endpoint, { params });
+  async listLoans(params?: QueryParams): Promise<ApiResponse> {
+    return await this.callEndpoint(endpointRegistry.los.loans.list, { query: params });
   }
   /**
    * Create a new loan application
@@ -160,8 +151,7 @@ export class LOSHelper extends BaseHelper {
    * @returns ApiResponse with created application data including ID
    */
   async createApplication(applicationData: any): Promise<ApiResponse> {
-    const endpoint = endpoints.los.applications.create;
-    return await this.makeRequest('POST', endpoint, { data: applicationData });
+    return await this.callEndpoint(endpointRegistry.los.applications.create, { data: applicationData });
   }
   /**
    * Get application by ID
@@ -170,8 +160,7 @@ export class LOSHelper extends BaseHelper {
    * @returns ApiResponse with application data
    */
   async getApplicationById(applicationId: string): Promise<ApiResponse> {
-    const endpoint = this.replacePathParams(endpoints.los.applications.getById, { id: applicationId });
-    return await this.makeRequest('GET', endpoint);
+    return await this.callEndpoint(endpointRegistry.los.applications.getById, { pathParams: { id: applicationId } });
   }
   /**
    * Submit an application
@@ -180,8 +169,7 @@ export class LOSHelper extends BaseHelper {
    * @returns ApiResponse with submission confirmation
    */
   async submitApplication(applicationId: string): Promise<ApiResponse> {
-    const endpoint = this.replacePathParams(endpoints.los.applications.submit, { id: applicationId });
-    return await this.makeRequest('POST', endpoint);
+    return await this.callEndpoint(endpointRegistry.los.applications.submit, { pathParams: { id: applicationId } });
   }
   /**
    * Logout from LOS API
@@ -189,8 +177,7 @@ export class LOSHelper extends BaseHelper {
    * Clears the authentication token after logging out.
    */
   async logout(): Promise<void> {
-    const endpoint = endpoints.los.auth.logout;
-    await this.makeRequest('POST', endpoint);
+    await this.callEndpoint(endpointRegistry.los.auth.logout);
     this.setAuthToken('');
     this.logger.info('LOS logout successful');
   }
@@ -215,8 +202,9 @@ export class LOSHelper extends BaseHelper {
         'x-devicetype': 'MobileWeb',
         'x-entitytype': 'BORROWER'
       };
-      const endpoint = this.replacePathParams(endpoints.los.auth.requestOtp, { phoneNo });
-      return await this.makeRequest('GET', `${endpoint}?enableWhatsapp=${enableWhatsapp}`, {
+      return await this.callEndpoint(endpointRegistry.los.auth.requestOtp, {
+        pathParams: { phoneNo },
+        query: { enableWhatsapp },
         headers: customHeaders
       });
     } catch (error: any) {
@@ -246,8 +234,7 @@ export class LOSHelper extends BaseHelper {
         'x-devicetype': 'MobileWeb',
         'x-entitytype': 'BORROWER'
       };
-      const endpoint = endpoints.los.auth.verifyOtp;
-      return await this.makeRequest('POST', endpoint, {
+      return await this.callEndpoint(endpointRegistry.los.auth.verifyOtp, {
         data: {
           otp,
           phoneNo
@@ -280,8 +267,7 @@ export class LOSHelper extends BaseHelper {
         'x-devicetype': 'MobileWeb',
         'x-entitytype': 'BORROWER'
       };
-      const endpoint = endpoints.los.auth.getUserData;
-      return await this.makeRequest('POST', endpoint, {
+      return await this.callEndpoint(endpointRegistry.los.auth.getUserData, {
         data: {
           onboardingPartnerCode
         },
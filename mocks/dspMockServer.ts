@@ -0,0 +1,460 @@
+import * as crypto from 'crypto';
+import endpoints from '../config/endpoints.json';
+import { buildCanonicalString, signCanonicalString } from '../utils/dspAuth';
+import { HttpMethod } from '../types/api.types';
+import { SecretName } from '../types/secrets.types';
+import { MockRequest, MockResponse, MockServer } from './mockServer';
+/**
+ * DSP Mock Server
+ *
+ * In-process stand-in for the DSP loan account creation APIs:
+ * - Implements every route under endpoints.los.loanAccountCreation
+ * - Verifies X-Timestamp/X-Signature with the canonical string rules of utils/dspAuth.ts
+ * - Keeps opportunity and utility state, including asynchronous status transitions
+ *   (KYC and mandate report IN_PROGRESS for `pendingPolls` reads before turning APPROVED)
+ */
+
+/**
+ * Options for the DSP mock server
+ */
+export interface DspMockServerOptions {
+  /** Secret used to verify signatures (defaults to DSP_MOCK_SECRET_KEY) */
+  secretKey?: string;
+
+  /** Maximum difference between X-Timestamp and server time */
+  maxClockSkewMs?: number;
+
+  /** Number of status reads that still report IN_PROGRESS for asynchronous utilities */
+  pendingPolls?: number;
+
+  /** PANs reported as duplicates by the dedupe check */
+  duplicatePans?: string[];
+}
+
+/**
+ * Opportunity state kept by the mock
+ */
+export interface MockOpportunity {
+  opportunityId: string;
+  pan: string;
+  phoneNumber: string;
+  product: string;
+  opportunityType: string;
+  status: string;
+}
+
+/**
+ * Utility state kept by the mock
+ */
+export interface MockUtility {
+  utilityReferenceId: string;
+  opportunityId: string;
+  utilityType: string;
+  status: string;
+  subStatus: string;
+  /** Status reads left before the pending transition applies */
+  pendingPolls: number;
+  /** Status and subStatus reported once pendingPolls reaches zero */
+  transition?: { status: string; subStatus: string };
+  data: Record<string, any>;
+}
+
+type DspRouteName = keyof typeof endpoints.los.loanAccountCreation;
+
+/** Header names of the DSP authentication scheme */
+const TIMESTAMP_HEADER = 'x-timestamp';
+const SIGNATURE_HEADER = 'x-signature';
+const SOURCING_CHANNEL_HEADER = 'x-sourcingchannelcode';
+
+/**
+ * Build a DSP style error response
+ */
+function dspError(status: number, errorCode: string, message: string): MockResponse {
+  return { status, body: { errorCode, message } };
+}
+
+/**
+ * Parse a yyyyMMddHHmmss UTC timestamp
+ *
+ * @returns Epoch milliseconds, or undefined if the format is invalid
+ */
+function parseDspTimestamp(value: string): number | undefined {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+  if (!match) {
+    return undefined;
+  }
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+  const time = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/** Mock-only DSP HMAC secret; the fixtures export it as DSP_SECRET_KEY for the request signer */
+export const DSP_MOCK_SECRET_KEY = 'dsp-mock-secret-key';
+
+/**
+ * Mock DSP server with signature verification and stateful utilities
+ */
+export class DspMockServer extends MockServer {
+  private secretKey: string;
+  private maxClockSkewMs: number;
+  private pendingPolls: number;
+  private duplicatePans: Set<string>;
+  private opportunities = new Map<string, MockOpportunity>();
+  private utilities = new Map<string, MockUtility>();
+  private sequence = 0;
+  /**
+   * Constructor for DspMockServer
+   *
+   * @param options - Secret, clock skew, polling and dedupe behaviour
+   */
+  constructor(options: DspMockServerOptions = {}) {
+    super('dsp-mock');
+    this.secretKey = options.secretKey ?? DSP_MOCK_SECRET_KEY;
+    this.maxClockSkewMs = options.maxClockSkewMs ?? 5 * 60 * 1000;
+    this.pendingPolls = options.pendingPolls ?? 1;
+    this.duplicatePans = new Set(options.duplicatePans || []);
+    this.use(request => this.verifySignature(request));
+    this.use(request => request.headers[SOURCING_CHANNEL_HEADER]
+      ? undefined
+      : dspError(400, 'MISSING_HEADER', 'X-SourcingChannelCode header is required'));
+    this.registerRoutes();
+  }
+  /**
+   * The secret signatures are verified with, as DSP_SECRET_KEY
+   */
+  getCredentials(): Partial<Record<SecretName, string>> {
+    return { DSP_SECRET_KEY: this.secretKey };
+  }
+  /**
+   * Forget all opportunities, utilities and recorded requests
+   */
+  reset(): void {
+    super.reset();
+    this.opportunities.clear();
+    this.utilities.clear();
+    this.sequence = 0;
+  }
+  /**
+   * Get an opportunity by ID
+   */
+  getOpportunity(opportunityId: string): MockOpportunity | undefined {
+    return this.opportunities.get(opportunityId);
+  }
+  /**
+   * Get a utility by reference ID
+   */
+  getUtility(utilityReferenceId: string): MockUtility | undefined {
+    return this.utilities.get(utilityReferenceId);
+  }
+  /**
+   * Verify X-Timestamp/X-Signature against the raw request body
+   *
+   * @returns 401 response if the headers are missing, stale or do not match
+   */
+  private verifySignature(request: MockRequest): MockResponse | void {
+    const timestamp = request.headers[TIMESTAMP_HEADER];
+    const signature = request.headers[SIGNATURE_HEADER];
+    if (!timestamp || !signature) {
+      return dspError(401, 'UNAUTHORIZED', 'Missing X-Timestamp or X-Signature header');
+    }
+    const time = parseDspTimestamp(timestamp);
+    if (time === undefined) {
+      return dspError(401, 'INVALID_TIMESTAMP', 'X-Timestamp must be in yyyyMMddHHmmss format (UTC)');
+    }
+    if (Math.abs(Date.now() - time) > this.maxClockSkewMs) {
+      return dspError(401, 'TIMESTAMP_EXPIRED', 'X-Timestamp is outside the allowed window');
+    }
+    const expected = Buffer.from(signCanonicalString(buildCanonicalString(timestamp, request.rawBody), this.secretKey));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return dspError(401, 'INVALID_SIGNATURE', 'Signature verification failed');
+    }
+  }
+  /**
+   * Register a handler for every loan account creation route
+   */
+  private registerRoutes(): void {
+    const handlers: Record<DspRouteName, [HttpMethod, (request: MockRequest) => MockResponse]> = {
+      generateOffer: ['POST', request => this.generateOffer(request)],
+      clientDedupeCheck: ['POST', request => this.clientDedupeCheck(request)],
+      createOpportunity: ['POST', request => this.createOpportunity(request)],
+      kycUtilityInit: ['POST', request => this.initUtility(request, 'KYC', 'IN_PROGRESS', 'VALIDATION_PENDING',
+        { status: 'APPROVED', subStatus: 'VALIDATION_PENDING' })],
+      getKycUtility: ['GET', request => this.getUtilityStatus(request, 'KYC')],
+      initPhotoVerification: ['POST', request => this.initUtility(request, 'PHOTO_VERIFICATION', 'APPROVED',
+        'PHOTO_VERIFICATION_SUCCESS', undefined, ['userImage'])],
+      getPhotoVerification: ['GET', request => this.getUtilityStatus(request, 'PHOTO_VERIFICATION')],
+      saveAdditionalData: ['POST', request => this.initUtility(request, 'ADDITIONAL_DATA', 'APPROVED', 'APPROVED',
+        undefined, ['additionalData'])],
+      getAdditionalData: ['GET', request => this.getUtilityStatus(request, 'ADDITIONAL_DATA')],
+      bankUtilityInit: ['POST', request => this.initUtility(request, 'BANK_ACCOUNT', 'APPROVED',
+        'BANK_ACCOUNT_VERIFICATION_SUCCESSFUL', undefined, ['bankAccountNumber', 'ifscCode'])],
+      getBankUtility: ['GET', request => this.getUtilityStatus(request, 'BANK_ACCOUNT')],
+      createMandate: ['POST', request => this.createMandate(request)],
+      getMandate: ['GET', request => this.getUtilityStatus(request, 'MANDATE')],
+      createVerificationLogEmail: ['POST', request => this.initUtility(request, 'VERIFICATION_LOG', 'APPROVED', 'APPROVED',
+        undefined, ['verificationMethod'])],
+      getVerificationLog: ['GET', request => this.getUtilityStatus(request, 'VERIFICATION_LOG')],
+      generateLoanContract: ['POST', request => this.generateLoanContract(request)],
+      approveKfs: ['POST', request => this.initUtility(request, 'KFS', 'IN_PROGRESS', 'CONSENT_PENDING')],
+      kfsConsent: ['POST', request => this.giveConsent(request, request.params.kfsReferenceId, 'KFS', 'KFS_ACCEPTED')],
+      approveAgreement: ['POST', request => this.approveAgreement(request)],
+      agreementConsent: ['POST', request => this.giveConsent(request, request.params.agreementReferenceId, 'AGREEMENT',
+        'AGREEMENT_SIGNED')],
+      submitOpportunity: ['POST', request => this.submitOpportunity(request)]
+    };
+    for (const [name, [method, handler]] of Object.entries(handlers)) {
+      this.route(method, endpoints.los.loanAccountCreation[name as DspRouteName], handler);
+    }
+  }
+  /**
+   * Generate a sequential ID with a prefix
+   */
+  private nextId(prefix: string): string {
+    this.sequence++;
+    return `${prefix}${String(this.sequence).padStart(8, '0')}`;
+  }
+  /**
+   * Check that the body has the given fields
+   *
+   * @returns 400 response naming the first missing field
+   */
+  private requireFields(request: MockRequest, fields: string[]): MockResponse | undefined {
+    const missing = fields.find(field => request.body?.[field] === undefined || request.body?.[field] === '');
+    return missing ? dspError(400, 'VALIDATION_ERROR', `${missing} is required`) : undefined;
+  }
+  /**
+   * Look up the opportunity named in the body or path
+   */
+  private findOpportunity(opportunityId: string | undefined): MockOpportunity | MockResponse {
+    const opportunity = opportunityId ? this.opportunities.get(opportunityId) : undefined;
+    return opportunity || dspError(404, 'OPPORTUNITY_NOT_FOUND', `Opportunity ${opportunityId} not found`);
+  }
+  /**
+   * Render a utility as returned by the DSP APIs
+   */
+  private utilityBody(utility: MockUtility): Record<string, any> {
+    return {
+      opportunityId: utility.opportunityId,
+      utilityReferenceId: utility.utilityReferenceId,
+      utilityType: utility.utilityType,
+      status: utility.status,
+      subStatus: utility.subStatus,
+      data: utility.data,
+      verifierData: {},
+      webUrl: utility.utilityType === 'KYC' ? `https://kyc.mock.dspfin.local/${utility.utilityReferenceId}` : null,
+      fenixLoanAccountId: null
+    };
+  }
+  private generateOffer(request: MockRequest): MockResponse {
+    const invalid = this.requireFields(request, ['pan', 'assets']);
+    if (invalid) {
+      return invalid;
+    }
+    const assets = (request.body.assets as any[]).map(asset => ({
+      ...asset,
+      assetCategory: 'MUTUAL_FUNDS',
+      nav: 100,
+      assetValue: Math.round(asset.assetUnits * 100 * 100) / 100,
+      ltv: 0.45
+    }));
+    const totalAssetValue = assets.reduce((sum, asset) => sum + asset.assetValue, 0);
+    return {
+      status: 200,
+      body: {
+        dedupeResponse: { isDuplicate: this.duplicatePans.has(request.body.pan) },
+        assets,
+        totalAssetValue,
+        totalAssetLtv: Math.round(totalAssetValue * 0.45 * 100) / 100,
+        feeConfig: { processingFee: 1299.0, renewalFee: 999.0 },
+        interestConfig: { interestRate: 10.49 },
+        tenureConfig: { tenureInMonths: 36 }
+      }
+    };
+  }
+  private clientDedupeCheck(request: MockRequest): MockResponse {
+    const invalid = this.requireFields(request, ['pan']);
+    if (invalid) {
+      return invalid;
+    }
+    const isDuplicate = this.duplicatePans.has(request.body.pan);
+    return {
+      status: 200,
+      body: {
+        isDuplicate,
+        message: isDuplicate ? 'Client is duplicate' : 'Client is not duplicate',
+        availableAssetCategories: isDuplicate ? [] : ['MUTUAL_FUNDS']
+      }
+    };
+  }
+  private createOpportunity(request: MockRequest): MockResponse {
+    const invalid = this.requireFields(request, ['pan', 'phoneNumber', 'product']);
+    if (invalid) {
+      return invalid;
+    }
+    const opportunity: MockOpportunity = {
+      opportunityId: this.nextId('OPP'),
+      pan: request.body.pan,
+      phoneNumber: request.body.phoneNumber,
+      product: request.body.product,
+      opportunityType: request.body.opportunityType || 'LOAN_CREATION',
+      status: 'CREATED'
+    };
+    this.opportunities.set(opportunity.opportunityId, opportunity);
+    return { status: 200, body: { ...opportunity } };
+  }
+  /**
+   * Create a utility for the opportunity named in the body
+   */
+  private initUtility(
+    request: MockRequest,
+    utilityType: string,
+    status: string,
+    subStatus: string,
+    transition?: { status: string; subStatus: string },
+    requiredFields: string[] = []
+  ): MockResponse {
+    const invalid = this.requireFields(request, ['opportunityId', ...requiredFields]);
+    if (invalid) {
+      return invalid;
+    }
+    const opportunity = this.findOpportunity(request.body.opportunityId);
+    if (!('opportunityId' in opportunity)) {
+      return opportunity;
+    }
+    const utility = this.createUtility(request.body.opportunityId, utilityType, status, subStatus, transition);
+    return { status: 200, body: this.utilityBody(utility) };
+  }
+  /**
+   * Store a new utility
+   */
+  private createUtility(
+    opportunityId: string,
+    utilityType: string,
+    status: string,
+    subStatus: string,
+    transition?: { status: string; subStatus: string }
+  ): MockUtility {
+    const utility: MockUtility = {
+      utilityReferenceId: this.nextId('UTL'),
+      opportunityId,
+      utilityType,
+      status,
+      subStatus,
+      pendingPolls: transition ? this.pendingPolls : 0,
+      transition,
+      data: {}
+    };
+    this.utilities.set(utility.utilityReferenceId, utility);
+    return utility;
+  }
+  /**
+   * Look up a utility of the given type
+   */
+  private findUtility(utilityReferenceId: string | undefined, utilityType: string): MockUtility | MockResponse {
+    const utility = utilityReferenceId ? this.utilities.get(utilityReferenceId) : undefined;
+    if (!utility || utility.utilityType !== utilityType) {
+      return dspError(404, 'UTILITY_NOT_FOUND', `${utilityType} utility ${utilityReferenceId} not found`);
+    }
+    return utility;
+  }
+  /**
+   * Return the utility status, applying a pending transition once enough reads happened
+   */
+  private getUtilityStatus(request: MockRequest, utilityType: string): MockResponse {
+    const utility = this.findUtility(request.params.utilityReferenceId, utilityType);
+    if (!('utilityReferenceId' in utility)) {
+      return utility;
+    }
+    if (utility.transition) {
+      if (utility.pendingPolls > 0) {
+        utility.pendingPolls--;
+      } else {
+        utility.status = utility.transition.status;
+        utility.subStatus = utility.transition.subStatus;
+        utility.transition = undefined;
+      }
+    }
+    return { status: 200, body: this.utilityBody(utility) };
+  }
+  private createMandate(request: MockRequest): MockResponse {
+    const invalid = this.requireFields(request, ['opportunityId', 'bankAccountVerificationId']);
+    if (invalid) {
+      return invalid;
+    }
+    const bank = this.findUtility(request.body.bankAccountVerificationId, 'BANK_ACCOUNT');
+    if (!('utilityReferenceId' in bank)) {
+      return bank;
+    }
+    if (bank.opportunityId !== request.body.opportunityId || bank.status !== 'APPROVED') {
+      return dspError(400, 'INVALID_BANK_ACCOUNT', 'Bank account is not verified for this opportunity');
+    }
+    return this.initUtility(request, 'MANDATE', 'IN_PROGRESS', 'IN_PROGRESS',
+      { status: 'APPROVED', subStatus: 'MANDATE_SUCCESS' });
+  }
+  private generateLoanContract(request: MockRequest): MockResponse {
+    const opportunity = this.findOpportunity(request.params.opportunityId);
+    if (!('opportunityId' in opportunity)) {
+      return opportunity;
+    }
+    const kfs = this.createUtility(opportunity.opportunityId, 'KFS', 'IN_PROGRESS', 'CONSENT_PENDING');
+    const agreement = this.createUtility(opportunity.opportunityId, 'AGREEMENT', 'IN_PROGRESS', 'CONSENT_PENDING');
+    opportunity.status = 'IN_PROGRESS';
+    return {
+      status: 200,
+      body: {
+        opportunityId: opportunity.opportunityId,
+        status: 'IN_PROGRESS',
+        steps: [
+          { utilityType: 'KFS', utilityReferenceId: kfs.utilityReferenceId, status: kfs.status },
+          { utilityType: 'AGREEMENT_SIGN', utilityReferenceId: agreement.utilityReferenceId, status: agreement.status }
+        ]
+      }
+    };
+  }
+  private approveAgreement(request: MockRequest): MockResponse {
+    const invalid = this.requireFields(request, ['opportunityId', 'kfsReferenceId']);
+    if (invalid) {
+      return invalid;
+    }
+    const kfs = this.findUtility(request.body.kfsReferenceId, 'KFS');
+    if (!('utilityReferenceId' in kfs)) {
+      return kfs;
+    }
+    if (kfs.status !== 'APPROVED') {
+      return dspError(409, 'KFS_CONSENT_PENDING', `KFS ${kfs.utilityReferenceId} has not been accepted`);
+    }
+    return this.initUtility(request, 'AGREEMENT', 'IN_PROGRESS', 'CONSENT_PENDING');
+  }
+  /**
+   * Record customer consent on a KFS or agreement utility
+   */
+  private giveConsent(request: MockRequest, utilityReferenceId: string, utilityType: string, acceptedSubStatus: string): MockResponse {
+    const utility = this.findUtility(utilityReferenceId, utilityType);
+    if (!('utilityReferenceId' in utility)) {
+      return utility;
+    }
+    const rejected = request.body?.consentStatus === 'REJECTED';
+    utility.status = rejected ? 'REJECTED' : 'APPROVED';
+    utility.subStatus = rejected ? 'CONSENT_REJECTED' : acceptedSubStatus;
+    return { status: 200, body: this.utilityBody(utility) };
+  }
+  private submitOpportunity(request: MockRequest): MockResponse {
+    const opportunity = this.findOpportunity(request.params.opportunityId);
+    if (!('opportunityId' in opportunity)) {
+      return opportunity;
+    }
+    const invalid = this.requireFields(request, ['submittedDataList']);
+    if (invalid) {
+      return invalid;
+    }
+    for (const entry of request.body.submittedDataList as { dataType: string; referenceId: string }[]) {
+      const utility = this.utilities.get(entry.referenceId);
+      if (!utility || utility.opportunityId !== opportunity.opportunityId) {
+        return dspError(400, 'INVALID_REFERENCE', `${entry.dataType} reference ${entry.referenceId} does not belong to opportunity ${opportunity.opportunityId}`);
+      }
+    }
+    opportunity.status = 'SUBMITTED';
+    return { status: 200, body: { opportunityId: opportunity.opportunityId, status: opportunity.status } };
+  }
+}
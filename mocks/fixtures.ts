@@ -0,0 +1,138 @@
+import * as path from 'path';
+import { test as base } from '@playwright/test';
+import { Cassette, createCassetteInterceptor, getCassetteMode, toCassetteName } from '../helpers/base/cassette';
+import { ContractRecorder, MOCK_CONTRACT_TARGET, createContractInterceptor, getContractMode } from '../helpers/base/contract';
+import { registerGlobalInterceptor } from '../helpers/base/interceptors';
+import { CassetteMatchOptions } from '../types/cassette.types';
+import { DspMockServer } from './dspMockServer';
+import { MockServer, overrideEnv } from './mockServer';
+import { VoltAuthMockServer } from './voltAuthMockServer';
+/**
+ * Mock Server Fixtures
+ *
+ * Playwright test object with worker-scoped mock servers. Specs that import
+ * `test` from here run against the mocks when the matching option is enabled,
+ * either with test.use({ mockDsp: true }) / MOCK_DSP=true or
+ * test.use({ mockVoltAuth: true }) / MOCK_VOLT_AUTH=true. While a mock runs, its
+ * mock-only credentials replace the real secrets, so no secret is needed offline.
+ *
+ * With VCR_MODE=record or VCR_MODE=replay every test also gets a cassette
+ * under testdata/cassettes/<spec>/<title>.json applied to all helpers.
+ *
+ * With CONTRACT_MODE=record the registry calls of every passing test are merged
+ * into the contracts under testdata/contracts, marked as recorded against "mock"
+ * for the providers a mock stands in for; recording needs a single worker.
+ */
+
+/**
+ * Test-scoped cassette option and fixture
+ */
+export interface CassetteTestFixtures {
+  /** Matching overrides for the test's cassette */
+  cassetteMatch: Partial<CassetteMatchOptions>;
+
+  /** Cassette of the current test (undefined when VCR_MODE is off) */
+  cassette: Cassette | undefined;
+}
+
+/**
+ * Test-scoped contract recorder
+ */
+export interface ContractTestFixtures {
+  /** Recorder of the current test; declare provider states with contract?.given() (undefined when CONTRACT_MODE is off) */
+  contract: ContractRecorder | undefined;
+}
+
+/**
+ * Worker-scoped options and mock servers
+ */
+export interface MockWorkerFixtures {
+  /** Start the DSP mock server and point getDspBaseUrl() and getDspSecretKey() at it */
+  mockDsp: boolean;
+
+  /** Running DSP mock server (undefined when mockDsp is off) */
+  dspMockServer: DspMockServer | undefined;
+
+  /** Start the Volt auth mock server and point getBaseUrl(), LOS_PHONE_NO and LOS_OTP at it */
+  mockVoltAuth: boolean;
+
+  /** Running Volt auth mock server (undefined when mockVoltAuth is off) */
+  voltAuthMockServer: VoltAuthMockServer | undefined;
+}
+
+/**
+ * Start a mock server, expose its URL and mock credentials through environment variables while in use, then stop it
+ */
+async function runWithMockServer<T extends MockServer>(
+  server: T,
+  envVariable: string,
+  use: (server: T) => Promise<void>
+): Promise<void> {
+  const restoreEnv = overrideEnv({ [envVariable]: await server.start(), ...server.getCredentials() });
+  try {
+    await use(server);
+  } finally {
+    restoreEnv();
+    await server.stop();
+  }
+}
+
+export const test = base.extend<CassetteTestFixtures & ContractTestFixtures, MockWorkerFixtures>({
+  cassetteMatch: [{}, { option: true }],
+  cassette: [async ({ cassetteMatch }, use, testInfo) => {
+    const mode = getCassetteMode();
+    if (mode === 'off') {
+      await use(undefined);
+      return;
+    }
+    const specPath = path.relative(testInfo.project.testDir, testInfo.file);
+    const cassette = new Cassette(toCassetteName([specPath, ...testInfo.titlePath.slice(1)]), mode, cassetteMatch);
+    const unregister = registerGlobalInterceptor(createCassetteInterceptor(cassette));
+    try {
+      await use(cassette);
+    } finally {
+      unregister();
+      cassette.save();
+    }
+  }, { auto: true }],
+  contract: [async ({ mockDsp, mockVoltAuth }, use, testInfo) => {
+    if (getContractMode() === 'off') {
+      await use(undefined);
+      return;
+    }
+    if (testInfo.config.workers > 1) {
+      throw new Error(`CONTRACT_MODE=record needs a single worker, got ${testInfo.config.workers} (drop --workers or pass --workers=1)`);
+    }
+    const recorder = new ContractRecorder({
+      targets: { ...(mockDsp && { dsp: MOCK_CONTRACT_TARGET }), ...(mockVoltAuth && { volt: MOCK_CONTRACT_TARGET }) }
+    });
+    const unregister = registerGlobalInterceptor(createContractInterceptor(recorder));
+    try {
+      await use(recorder);
+    } finally {
+      unregister();
+      // Interactions of a failing test are not what the consumer expects
+      if (testInfo.status === testInfo.expectedStatus) {
+        recorder.save();
+      }
+    }
+  }, { auto: true }],
+  mockDsp: [process.env.MOCK_DSP === 'true', { option: true, scope: 'worker' }],
+  dspMockServer: [async ({ mockDsp }, use) => {
+    if (!mockDsp) {
+      await use(undefined);
+      return;
+    }
+    await runWithMockServer(new DspMockServer(), 'DSP_BASE_URL', use);
+  }, { scope: 'worker', auto: true }],
+  mockVoltAuth: [process.env.MOCK_VOLT_AUTH === 'true', { option: true, scope: 'worker' }],
+  voltAuthMockServer: [async ({ mockVoltAuth }, use) => {
+    if (!mockVoltAuth) {
+      await use(undefined);
+      return;
+    }
+    await runWithMockServer(new VoltAuthMockServer(), 'VOLT_BASE_URL', use);
+  }, { scope: 'worker', auto: true }]
+});
+
+export { expect } from '../utils/apiMatchers';
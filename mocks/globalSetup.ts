@@ -0,0 +1,28 @@
+import { assertSecretSources } from '../utils/secrets';
+import { LmsMockServer } from './lmsMockServer';
+import { overrideEnv } from './mockServer';
+/**
+ * Playwright Global Setup
+ *
+ * With MOCK_LMS=true, starts the mock LMS server for the whole run and points
+ * LMS_BASE_URL, LMS_EMAIL and LMS_PASSWORD at it, so the LMS suite runs without
+ * network access or real credentials. Otherwise
+ * LMS calls go to the environment's LMS (or LMS_BASE_URL).
+ *
+ * Before anything starts, the run is refused for prod if any secret would be
+ * read from a committed file.
+ *
+ * @returns Teardown function stopping the mock server
+ */
+export default async function globalSetup(): Promise<(() => Promise<void>) | void> {
+  assertSecretSources();
+  if (process.env.MOCK_LMS !== 'true') {
+    return;
+  }
+  const server = new LmsMockServer();
+  const restoreEnv = overrideEnv({ LMS_BASE_URL: await server.start(), ...server.getCredentials() });
+  return async () => {
+    await server.stop();
+    restoreEnv();
+  };
+}
@@ -0,0 +1,320 @@
+import * as crypto from 'crypto';
+import endpoints from '../config/endpoints.json';
+import { SecretName } from '../types/secrets.types';
+import { MockRequest, MockResponse, MockServer } from './mockServer';
+/**
+ * LMS Mock Server
+ *
+ * Stateful in-process stand-in for the LMS APIs used by LMSHelper:
+ * - Email/password login issuing bearer tokens, logout revoking them
+ * - Payment create/get/list with pagination (page, pageSize) and filters
+ * - Account get/update with field validation
+ * - Seeded ACC-12345 account used by tests/lms/lms.spec.ts
+ */
+
+/**
+ * Options for the LMS mock server
+ */
+export interface LmsMockServerOptions {
+  /** Email accepted by login (defaults to LMS_MOCK_EMAIL) */
+  email?: string;
+
+  /** Password accepted by login (defaults to LMS_MOCK_PASSWORD) */
+  password?: string;
+
+  /** Lifetime of issued tokens in seconds */
+  tokenTtlSeconds?: number;
+}
+
+/**
+ * Payment kept by the mock
+ */
+export interface MockPayment {
+  id: string;
+  accountId: string;
+  amount: number;
+  paymentDate: string;
+  paymentMethod: string;
+  status: string;
+  createdAt: string;
+}
+
+/**
+ * Account kept by the mock
+ */
+export interface MockAccount {
+  id: string;
+  customerName: string;
+  status: string;
+  contactEmail: string;
+  outstandingBalance: number;
+  currency: string;
+  updatedAt: string;
+}
+
+/** Validation failure of a single field */
+interface FieldError {
+  field: string;
+  message: string;
+}
+
+/** Mock-only login email; global setup exports it as LMS_EMAIL */
+export const LMS_MOCK_EMAIL = 'lms.mock@example.com';
+
+/** Mock-only login password; global setup exports it as LMS_PASSWORD */
+export const LMS_MOCK_PASSWORD = 'lms-mock-password';
+
+/** Accounts present after start and reset */
+export const SEEDED_LMS_ACCOUNTS: MockAccount[] = [
+  {
+    id: 'ACC-12345',
+    customerName: 'LMS Test Customer',
+    status: 'active',
+    contactEmail: 'customer@example.com',
+    outstandingBalance: 250000,
+    currency: 'INR',
+    updatedAt: '2024-01-01T00:00:00.000Z'
+  }
+];
+
+const PAYMENT_METHODS = ['ACH', 'NEFT', 'RTGS', 'IMPS', 'UPI', 'CARD'];
+const ACCOUNT_STATUSES = ['active', 'inactive', 'suspended', 'closed'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+/** User ID returned by login */
+const LMS_MOCK_USER_ID = 'lms_test_user';
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Build an LMS style error response
+ */
+function lmsError(status: number, code: string, error: string, details?: FieldError[]): MockResponse {
+  return { status, body: { error, code, ...(details ? { details } : {}) } };
+}
+
+/**
+ * Build a 400 response listing every invalid field
+ */
+function validationError(details: FieldError[]): MockResponse {
+  return lmsError(400, 'VALIDATION_ERROR', 'Validation failed', details);
+}
+
+/**
+ * Mock LMS server with token auth, payments and accounts
+ */
+export class LmsMockServer extends MockServer {
+  private email: string;
+  private password: string;
+  private tokenTtlSeconds: number;
+  private tokens = new Map<string, number>();
+  private payments = new Map<string, MockPayment>();
+  private accounts = new Map<string, MockAccount>();
+  private paymentSequence = 0;
+  /**
+   * Constructor for LmsMockServer
+   *
+   * @param options - Accepted credentials and token lifetime
+   */
+  constructor(options: LmsMockServerOptions = {}) {
+    super('lms-mock');
+    this.email = options.email ?? LMS_MOCK_EMAIL;
+    this.password = options.password ?? LMS_MOCK_PASSWORD;
+    this.tokenTtlSeconds = options.tokenTtlSeconds ?? 3600;
+    this.seedAccounts();
+    this.use(request => this.authenticate(request));
+    this.route('POST', endpoints.lms.auth.login, request => this.login(request));
+    this.route('POST', endpoints.lms.auth.logout, request => this.logout(request));
+    this.route('POST', endpoints.lms.payments.create, request => this.createPayment(request));
+    this.route('GET', endpoints.lms.payments.list, request => this.listPayments(request));
+    this.route('GET', endpoints.lms.payments.getById, request => this.fetchPayment(request));
+    this.route('GET', endpoints.lms.accounts.getById, request => this.fetchAccount(request));
+    this.route('PUT', endpoints.lms.accounts.update, request => this.updateAccount(request));
+  }
+  /**
+   * The accepted login, as LMS_EMAIL and LMS_PASSWORD
+   */
+  getCredentials(): Partial<Record<SecretName, string>> {
+    return { LMS_EMAIL: this.email, LMS_PASSWORD: this.password };
+  }
+  /**
+   * Forget tokens, payments and recorded requests, and restore the seeded accounts
+   */
+  reset(): void {
+    super.reset();
+    this.tokens.clear();
+    this.payments.clear();
+    this.paymentSequence = 0;
+    this.seedAccounts();
+  }
+  /**
+   * Get an account by ID
+   */
+  getAccount(accountId: string): MockAccount | undefined {
+    return this.accounts.get(accountId);
+  }
+  /**
+   * Get a payment by ID
+   */
+  getPayment(paymentId: string): MockPayment | undefined {
+    return this.payments.get(paymentId);
+  }
+  private seedAccounts(): void {
+    this.accounts.clear();
+    for (const account of SEEDED_LMS_ACCOUNTS) {
+      this.accounts.set(account.id, { ...account });
+    }
+  }
+  /**
+   * Require a valid bearer token on every route except login
+   */
+  private authenticate(request: MockRequest): MockResponse | void {
+    if (request.path === endpoints.lms.auth.login) {
+      return;
+    }
+    const token = request.headers['authorization']?.replace(/^Bearer\s+/i, '');
+    const expiresAt = token ? this.tokens.get(token) : undefined;
+    if (!expiresAt || expiresAt <= Date.now()) {
+      return lmsError(401, 'UNAUTHORIZED', 'Missing or invalid token');
+    }
+  }
+  private login(request: MockRequest): MockResponse {
+    const { email, password } = request.body || {};
+    if (email !== this.email || password !== this.password) {
+      return lmsError(401, 'AUTH_FAILED', 'Invalid credentials');
+    }
+    const token = crypto.randomBytes(24).toString('hex');
+    this.tokens.set(token, Date.now() + this.tokenTtlSeconds * 1000);
+    return { status: 200, body: { token, userId: LMS_MOCK_USER_ID, expiresIn: this.tokenTtlSeconds } };
+  }
+  private logout(request: MockRequest): MockResponse {
+    this.tokens.delete(request.headers['authorization'].replace(/^Bearer\s+/i, ''));
+    return { status: 204 };
+  }
+  private createPayment(request: MockRequest): MockResponse {
+    const body = request.body || {};
+    const errors: FieldError[] = [];
+    if (!body.accountId) {
+      errors.push({ field: 'accountId', message: 'accountId is required' });
+    } else if (!this.accounts.has(body.accountId)) {
+      errors.push({ field: 'accountId', message: `Account ${body.accountId} does not exist` });
+    }
+    if (typeof body.amount !== 'number' || !(body.amount > 0)) {
+      errors.push({ field: 'amount', message: 'amount must be a positive number' });
+    }
+    if (typeof body.paymentDate !== 'string' || !DATE_PATTERN.test(body.paymentDate)) {
+      errors.push({ field: 'paymentDate', message: 'paymentDate must be in YYYY-MM-DD format' });
+    }
+    if (!PAYMENT_METHODS.includes(body.paymentMethod)) {
+      errors.push({ field: 'paymentMethod', message: `paymentMethod must be one of ${PAYMENT_METHODS.join(', ')}` });
+    }
+    if (errors.length > 0) {
+      return validationError(errors);
+    }
+    const account = this.accounts.get(body.accountId)!;
+    if (account.status !== 'active') {
+      return lmsError(409, 'ACCOUNT_NOT_ACTIVE', `Account ${account.id} is ${account.status}`);
+    }
+    this.paymentSequence++;
+    const payment: MockPayment = {
+      id: `PAY-${String(this.paymentSequence).padStart(6, '0')}`,
+      accountId: body.accountId,
+      amount: body.amount,
+      paymentDate: body.paymentDate,
+      paymentMethod: body.paymentMethod,
+      status: 'COMPLETED',
+      createdAt: new Date().toISOString()
+    };
+    this.payments.set(payment.id, payment);
+    account.outstandingBalance = Math.round((account.outstandingBalance - payment.amount) * 100) / 100;
+    return { status: 201, body: { ...payment } };
+  }
+  private fetchPayment(request: MockRequest): MockResponse {
+    const payment = this.payments.get(request.params.id);
+    return payment
+      ? { status: 200, body: { ...payment } }
+      : lmsError(404, 'PAYMENT_NOT_FOUND', `Payment ${request.params.id} not found`);
+  }
+  /**
+   * List payments, newest last, filtered by accountId, paymentMethod, status,
+   * fromDate/toDate (paymentDate) and minAmount/maxAmount
+   *
+   * Returns the page as an array; totals are sent in X-Total-Count, X-Page and X-Page-Size.
+   */
+  private listPayments(request: MockRequest): MockResponse {
+    const query = request.query;
+    const errors: FieldError[] = [];
+    const page = query.page === undefined ? 1 : Number(query.page);
+    const pageSize = query.pageSize === undefined ? DEFAULT_PAGE_SIZE : Number(query.pageSize);
+    if (!Number.isInteger(page) || page < 1) {
+      errors.push({ field: 'page', message: 'page must be a positive integer' });
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      errors.push({ field: 'pageSize', message: `pageSize must be between 1 and ${MAX_PAGE_SIZE}` });
+    }
+    for (const field of ['fromDate', 'toDate']) {
+      if (query[field] !== undefined && !DATE_PATTERN.test(query[field])) {
+        errors.push({ field, message: `${field} must be in YYYY-MM-DD format` });
+      }
+    }
+    for (const field of ['minAmount', 'maxAmount']) {
+      if (query[field] !== undefined && Number.isNaN(Number(query[field]))) {
+        errors.push({ field, message: `${field} must be a number` });
+      }
+    }
+    if (errors.length > 0) {
+      return validationError(errors);
+    }
+    const matches = [...this.payments.values()].filter(payment =>
+      (query.accountId === undefined || payment.accountId === query.accountId)
+      && (query.paymentMethod === undefined || payment.paymentMethod === query.paymentMethod)
+      && (query.status === undefined || payment.status === query.status)
+      && (query.fromDate === undefined || payment.paymentDate >= query.fromDate)
+      && (query.toDate === undefined || payment.paymentDate <= query.toDate)
+      && (query.minAmount === undefined || payment.amount >= Number(query.minAmount))
+      && (query.maxAmount === undefined || payment.amount <= Number(query.maxAmount)));
+    const start = (page - 1) * pageSize;
+    return {
+      status: 200,
+      body: matches.slice(start, start + pageSize).map(payment => ({ ...payment })),
+      headers: {
+        'X-Total-Count': String(matches.length),
+        'X-Page': String(page),
+        'X-Page-Size': String(pageSize)
+      }
+    };
+  }
+  private fetchAccount(request: MockRequest): MockResponse {
+    const account = this.accounts.get(request.params.id);
+    return account
+      ? { status: 200, body: { ...account } }
+      : lmsError(404, 'ACCOUNT_NOT_FOUND', `Account ${request.params.id} not found`);
+  }
+  private updateAccount(request: MockRequest): MockResponse {
+    const account = this.accounts.get(request.params.id);
+    if (!account) {
+      return lmsError(404, 'ACCOUNT_NOT_FOUND', `Account ${request.params.id} not found`);
+    }
+    const body = request.body || {};
+    const errors: FieldError[] = [];
+    for (const field of Object.keys(body)) {
+      if (!['status', 'contactEmail', 'customerName'].includes(field)) {
+        errors.push({ field, message: `${field} cannot be updated` });
+      }
+    }
+    if (body.status !== undefined && !ACCOUNT_STATUSES.includes(body.status)) {
+      errors.push({ field: 'status', message: `status must be one of ${ACCOUNT_STATUSES.join(', ')}` });
+    }
+    if (body.contactEmail !== undefined && !EMAIL_PATTERN.test(body.contactEmail)) {
+      errors.push({ field: 'contactEmail', message: 'contactEmail must be a valid email address' });
+    }
+    if (body.customerName !== undefined && (typeof body.customerName !== 'string' || !body.customerName.trim())) {
+      errors.push({ field: 'customerName', message: 'customerName must not be empty' });
+    }
+    if (errors.length > 0) {
+      return validationError(errors);
+    }
+    Object.assign(account, body, { updatedAt: new Date().toISOString() });
+    return { status: 200, body: { ...account } };
+  }
+}
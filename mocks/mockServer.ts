@@ -0,0 +1,269 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { HttpMethod } from '../types/api.types';
+import { SecretName } from '../types/secrets.types';
+import { Logger } from '../utils/logger';
+/**
+ * Mock Server
+ *
+ * Minimal in-process HTTP server used to stand in for pod services:
+ * - Routes are registered with endpoints.json style path templates ({param})
+ * - JSON bodies are parsed, the raw body is kept for signature checks
+ * - Middleware can short-circuit a request (e.g. authentication)
+ * - Every handled request is recorded for assertions
+ */
+
+/**
+ * Request as seen by a mock route handler
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  rawBody: string;
+  body: any;
+}
+
+/**
+ * Response returned by a mock route handler
+ */
+export interface MockResponse {
+  status: number;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+/** Route handler; receives the request with path params filled in */
+export type MockHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+/** Middleware; returning a response stops the request before the route handler */
+export type MockMiddleware = (request: MockRequest) => MockResponse | void | Promise<MockResponse | void>;
+
+interface MockRoute {
+  method: string;
+  template: string;
+  pattern: RegExp;
+  paramNames: string[];
+  handler: MockHandler;
+}
+
+/**
+ * Base class for in-process mock servers
+ */
+export class MockServer {
+  /** Logger instance for mock server activity */
+  protected logger: Logger;
+  private server?: http.Server;
+  private routes: MockRoute[] = [];
+  private middleware: MockMiddleware[] = [];
+  private requests: MockRequest[] = [];
+  /**
+   * Constructor for MockServer
+   *
+   * @param name - Name used in logs and error bodies
+   */
+  constructor(protected readonly name: string) {
+    this.logger = new Logger(name);
+  }
+  /**
+   * Start listening on localhost
+   *
+   * @param port - Port to listen on (0 picks a free port)
+   * @returns Base URL of the server, e.g. http://127.0.0.1:53211
+   */
+  async start(port: number = 0): Promise<string> {
+    if (this.server) {
+      return this.getUrl();
+    }
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        this.logger.error(`${this.name}: handler failed for ${req.method} ${req.url}`, error);
+        this.send(res, { status: 500, body: { errorCode: 'INTERNAL_ERROR', message: error.message } });
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.logger.info(`${this.name} listening on ${this.getUrl()}`);
+    return this.getUrl();
+  }
+  /**
+   * Stop the server and close open connections
+   */
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    const server = this.server;
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    this.logger.info(`${this.name} stopped`);
+  }
+  /**
+   * Get the base URL of the running server
+   *
+   * @throws Error if the server has not been started
+   */
+  getUrl(): string {
+    if (!this.server) {
+      throw new Error(`${this.name} is not running`);
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+  /**
+   * Get the requests handled so far
+   */
+  getRequests(): MockRequest[] {
+    return [...this.requests];
+  }
+  /**
+   * Mock-only credentials the helpers need to talk to this server
+   *
+   * Fixtures export them as environment variables while the server runs, so the
+   * secrets provider hands them to the helpers instead of the real secrets.
+   */
+  getCredentials(): Partial<Record<SecretName, string>> {
+    return {};
+  }
+  /**
+   * Forget recorded requests (subclasses also clear their state)
+   */
+  reset(): void {
+    this.requests = [];
+  }
+  /**
+   * Register a route
+   *
+   * @param method - HTTP method
+   * @param template - Path template with {param} placeholders
+   * @param handler - Route handler
+   */
+  protected route(method: HttpMethod, template: string, handler: MockHandler): void {
+    const paramNames: string[] = [];
+    const source = template
+      .split(/(\{[^}]+\})/)
+      .map(part => {
+        const match = part.match(/^\{([^}]+)\}$/);
+        if (match) {
+          paramNames.push(match[1]);
+          return '([^/]+)';
+        }
+        return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    this.routes.push({ method, template, pattern: new RegExp(`^${source}/?$`), paramNames, handler });
+  }
+  /**
+   * Register middleware run before every route handler
+   *
+   * @param middleware - Returns a response to stop the request
+   */
+  protected use(middleware: MockMiddleware): void {
+    this.middleware.push(middleware);
+  }
+  /**
+   * Parse, route and answer one request
+   */
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const rawBody = await this.readBody(req);
+    const request: MockRequest = {
+      method: (req.method || 'GET').toUpperCase(),
+      path: url.pathname,
+      params: {},
+      query: Object.fromEntries(url.searchParams.entries()),
+      headers: Object.fromEntries(
+        Object.entries(req.headers).map(([key, value]) => [key.toLowerCase(), Array.isArray(value) ? value.join(', ') : value || ''])
+      ),
+      rawBody,
+      body: undefined
+    };
+    if (rawBody) {
+      try {
+        request.body = JSON.parse(rawBody);
+      } catch {
+        this.requests.push(request);
+        this.send(res, { status: 400, body: { errorCode: 'MALFORMED_REQUEST', message: 'Request body is not valid JSON' } });
+        return;
+      }
+    }
+    this.requests.push(request);
+    const route = this.routes.find(candidate => candidate.method === request.method && candidate.pattern.test(request.path));
+    if (!route) {
+      const pathExists = this.routes.some(candidate => candidate.pattern.test(request.path));
+      this.send(res, pathExists
+        ? { status: 405, body: { errorCode: 'METHOD_NOT_ALLOWED', message: `Method ${request.method} not allowed for ${request.path}` } }
+        : { status: 404, body: { errorCode: 'NOT_FOUND', message: `No route for ${request.method} ${request.path}` } });
+      return;
+    }
+    const values = route.pattern.exec(request.path)!.slice(1);
+    route.paramNames.forEach((name, index) => {
+      request.params[name] = this.decodeParam(values[index]);
+    });
+    for (const middleware of this.middleware) {
+      const blocked = await middleware(request);
+      if (blocked) {
+        this.send(res, blocked);
+        return;
+      }
+    }
+    this.send(res, await route.handler(request));
+  }
+  /**
+   * Decode a path parameter, keeping it as sent if it is not valid percent-encoding
+   */
+  private decodeParam(value: string): string {
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  }
+  /**
+   * Read the full request body as UTF-8 text
+   */
+  private readBody(req: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      req.on('error', reject);
+    });
+  }
+  /**
+   * Write a mock response as JSON (or an empty body)
+   */
+  private send(res: http.ServerResponse, response: MockResponse): void {
+    const payload = response.body === undefined ? '' : JSON.stringify(response.body);
+    res.writeHead(response.status, {
+      ...(payload ? { 'Content-Type': 'application/json' } : {}),
+      ...response.headers
+    });
+    res.end(payload);
+  }
+}
+
+/**
+ * Set environment variables
+ *
+ * @param values - Values by variable name
+ * @returns Function restoring the previous values (deleting variables that were unset)
+ */
+export function overrideEnv(values: Record<string, string>): () => void {
+  const previous = Object.fromEntries(Object.keys(values).map(name => [name, process.env[name]]));
+  Object.assign(process.env, values);
+  return () => {
+    for (const [name, value] of Object.entries(previous)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  };
+}
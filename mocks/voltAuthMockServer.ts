@@ -0,0 +1,258 @@
+import * as crypto from 'crypto';
+import endpoints from '../config/endpoints.json';
+import { SecretName } from '../types/secrets.types';
+import { MockRequest, MockResponse, MockServer } from './mockServer';
+/**
+ * Volt Auth Mock Server
+ *
+ * In-process stand-in for the Volt OTP login flow used by LOSHelper.login:
+ * - requestOtp issues an OTP challenge (validity and attempt limits are configurable)
+ * - verifyOtp returns an HS256 signed JWT
+ * - getUserData returns the user and linkedBorrowerAccounts payload
+ * - logout revokes the token
+ * Requests with a missing, tampered, expired or revoked token get 403.
+ */
+
+/**
+ * Options for the Volt auth mock server
+ */
+export interface VoltAuthMockServerOptions {
+  /** OTP accepted by verifyOtp (defaults to VOLT_MOCK_OTP) */
+  otp?: string;
+
+  /** How long an issued OTP stays valid */
+  otpValidityMs?: number;
+
+  /** Wrong OTP submissions allowed before the challenge is discarded */
+  maxOtpAttempts?: number;
+
+  /** Lifetime of issued JWTs */
+  tokenTtlMs?: number;
+
+  /** Secret used to sign JWTs (random by default) */
+  jwtSecret?: string;
+}
+
+/**
+ * Borrower known to the mock
+ */
+export interface MockVoltUser {
+  userId: string;
+  phoneNumber: string;
+  accountId: string;
+}
+
+interface OtpChallenge {
+  otp: string;
+  expiresAt: number;
+  attemptsLeft: number;
+}
+
+/** Mock-only login phone number; the fixtures export it as LOS_PHONE_NO */
+export const VOLT_MOCK_PHONE_NO = '+919999999999';
+
+/** Mock-only OTP; the fixtures export it as LOS_OTP */
+export const VOLT_MOCK_OTP = '123456';
+
+/** Phone numbers accepted by requestOtp: optional +, 10 to 15 digits */
+const PHONE_PATTERN = /^\+?\d{10,15}$/;
+
+/**
+ * Encode a value as base64url
+ */
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Mock Volt auth server issuing and verifying JWTs
+ */
+export class VoltAuthMockServer extends MockServer {
+  private otp: string;
+  private otpValidityMs: number;
+  private maxOtpAttempts: number;
+  private tokenTtlMs: number;
+  private jwtSecret: string;
+  private challenges = new Map<string, OtpChallenge>();
+  private users = new Map<string, MockVoltUser>();
+  private revokedTokenIds = new Set<string>();
+  /**
+   * Constructor for VoltAuthMockServer
+   *
+   * @param options - OTP, expiry, attempt limit and token settings
+   */
+  constructor(options: VoltAuthMockServerOptions = {}) {
+    super('volt-auth-mock');
+    this.otp = options.otp ?? VOLT_MOCK_OTP;
+    this.otpValidityMs = options.otpValidityMs ?? 5 * 60 * 1000;
+    this.maxOtpAttempts = options.maxOtpAttempts ?? 3;
+    this.tokenTtlMs = options.tokenTtlMs ?? 60 * 60 * 1000;
+    this.jwtSecret = options.jwtSecret ?? crypto.randomBytes(32).toString('hex');
+    this.route('GET', endpoints.los.auth.requestOtp, request => this.requestOtp(request));
+    this.route('POST', endpoints.los.auth.verifyOtp, request => this.verifyOtp(request));
+    this.route('POST', endpoints.los.auth.getUserData, request => this.getUserData(request));
+    this.route('POST', endpoints.los.auth.logout, request => this.logout(request));
+  }
+  /**
+   * The mock login phone number and accepted OTP, as LOS_PHONE_NO and LOS_OTP
+   */
+  getCredentials(): Partial<Record<SecretName, string>> {
+    return { LOS_PHONE_NO: VOLT_MOCK_PHONE_NO, LOS_OTP: this.otp };
+  }
+  /**
+   * Forget OTP challenges, users, revoked tokens and recorded requests
+   */
+  reset(): void {
+    super.reset();
+    this.challenges.clear();
+    this.users.clear();
+    this.revokedTokenIds.clear();
+  }
+  /**
+   * Issue a signed JWT for a phone number (as verifyOtp would)
+   *
+   * @param phoneNumber - Phone number of the borrower
+   * @param ttlMs - Token lifetime (negative values produce an expired token)
+   */
+  issueToken(phoneNumber: string, ttlMs: number = this.tokenTtlMs): string {
+    const user = this.getOrCreateUser(phoneNumber);
+    const now = Date.now();
+    const header = base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64Url(JSON.stringify({
+      sub: user.userId,
+      phoneNumber,
+      jti: crypto.randomUUID(),
+      iat: Math.floor(now / 1000),
+      exp: Math.floor((now + ttlMs) / 1000)
+    }));
+    return `${header}.${payload}.${this.sign(`${header}.${payload}`)}`;
+  }
+  /**
+   * Compute the HS256 signature of a JWT signing input
+   */
+  private sign(input: string): string {
+    return base64Url(crypto.createHmac('sha256', this.jwtSecret).update(input).digest());
+  }
+  /**
+   * Verify the Bearer token of a request
+   *
+   * @returns Token claims, or undefined if the token is missing, tampered, expired or revoked
+   */
+  private verifyToken(request: MockRequest): { sub: string; phoneNumber: string; jti: string; exp: number } | undefined {
+    const token = request.headers['authorization']?.replace(/^Bearer\s+/i, '');
+    const parts = token?.split('.') || [];
+    if (parts.length !== 3) {
+      return undefined;
+    }
+    const expected = Buffer.from(this.sign(`${parts[0]}.${parts[1]}`));
+    const actual = Buffer.from(parts[2]);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return undefined;
+    }
+    try {
+      const claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+      if (claims.exp * 1000 <= Date.now() || this.revokedTokenIds.has(claims.jti)) {
+        return undefined;
+      }
+      return claims;
+    } catch {
+      return undefined;
+    }
+  }
+  /**
+   * Build the 403 response returned for invalid tokens
+   */
+  private forbidden(request: MockRequest): MockResponse {
+    return {
+      status: 403,
+      body: { status: 403, error: 'Forbidden', message: 'Access Denied', path: request.path }
+    };
+  }
+  /**
+   * Build an OTP flow failure response
+   */
+  private failure(status: number, message: string): MockResponse {
+    return { status, body: { status: 'FAILURE', message } };
+  }
+  /**
+   * Get the user for a phone number, registering it on first login
+   */
+  private getOrCreateUser(phoneNumber: string): MockVoltUser {
+    let user = this.users.get(phoneNumber);
+    if (!user) {
+      const suffix = crypto.createHash('sha256').update(phoneNumber).digest('hex').slice(0, 12);
+      user = { userId: `USR-${suffix}`, phoneNumber, accountId: `ACC-${suffix}` };
+      this.users.set(phoneNumber, user);
+    }
+    return user;
+  }
+  private requestOtp(request: MockRequest): MockResponse {
+    const phoneNo = request.params.phoneNo;
+    if (!PHONE_PATTERN.test(phoneNo)) {
+      return this.failure(400, 'Invalid phone number');
+    }
+    this.challenges.set(phoneNo, {
+      otp: this.otp,
+      expiresAt: Date.now() + this.otpValidityMs,
+      attemptsLeft: this.maxOtpAttempts
+    });
+    return { status: 200, body: { status: 'SUCCESS', message: 'Otp sent successfully', noOfDigits: this.otp.length } };
+  }
+  private verifyOtp(request: MockRequest): MockResponse {
+    const { phoneNo, otp } = request.body || {};
+    if (!phoneNo || !otp) {
+      return this.failure(400, 'phoneNo and otp are required');
+    }
+    const challenge = this.challenges.get(phoneNo);
+    if (!challenge) {
+      return this.failure(400, 'Otp not requested');
+    }
+    if (challenge.expiresAt <= Date.now()) {
+      this.challenges.delete(phoneNo);
+      return this.failure(400, 'Otp expired');
+    }
+    if (otp !== challenge.otp) {
+      challenge.attemptsLeft--;
+      if (challenge.attemptsLeft <= 0) {
+        this.challenges.delete(phoneNo);
+        return this.failure(429, 'Maximum otp attempts exceeded');
+      }
+      return this.failure(400, `Invalid otp, ${challenge.attemptsLeft} attempt(s) left`);
+    }
+    this.challenges.delete(phoneNo);
+    return { status: 200, body: { status: 'SUCCESS', message: 'Otp verified successfully', jwt: this.issueToken(phoneNo) } };
+  }
+  private getUserData(request: MockRequest): MockResponse {
+    const claims = this.verifyToken(request);
+    if (!claims) {
+      return this.forbidden(request);
+    }
+    const user = this.getOrCreateUser(claims.phoneNumber);
+    return {
+      status: 200,
+      body: {
+        isLoggedIn: true,
+        user: {
+          userId: user.userId,
+          phoneNumber: user.phoneNumber,
+          state: 'ACTIVE'
+        },
+        linkedBorrowerAccounts: [
+          {
+            accountId: user.accountId,
+            accountState: 'ACTIVE',
+            accountHolderPhoneNumber: user.phoneNumber
+          }
+        ]
+      }
+    };
+  }
+  private logout(request: MockRequest): MockResponse {
+    const claims = this.verifyToken(request);
+    if (!claims) {
+      return this.forbidden(request);
+    }
+    this.revokedTokenIds.add(claims.jti);
+    return { status: 200, body: { status: 'SUCCESS', message: 'Logged out successfully' } };
+  }
+}
@@ -1,10 +1,17 @@
 import { defineConfig } from '@playwright/test';
+
+// Body snapshots are recorded per target: the in-process DSP mock answers differently from a real environment
+const snapshotTarget = process.env.MOCK_DSP === 'true' ? 'mock' : process.env.TEST_ENV || 'dev';
+
 export default defineConfig({
   testDir: './tests',
+  snapshotPathTemplate: `{testDir}/{testFilePath}-snapshots/${snapshotTarget}/{arg}{ext}`,
+  globalSetup: './mocks/globalSetup.ts',
   fullyParallel: true,
   forbidOnly: !!process.env.CI,
   retries: process.env.CI ? 2 : 0,
-  workers: process.env.CI ? 2 : undefined,
+  // Contract recording merges into shared files without locking, so it runs in one worker
+  workers: process.env.CONTRACT_MODE === 'record' ? 1 : process.env.CI ? 2 : undefined,
   reporter: [
     ['list'],
     ['html'],
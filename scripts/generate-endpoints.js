@@ -0,0 +1,43 @@
+/**
+ * Generate config/endpoints.generated.ts from config/endpoints.json
+ *
+ * JSON imports are typed as plain strings, so the endpoint registry needs the
+ * paths as literal types to infer their {placeholders}. Run after editing
+ * endpoints.json: npm run generate:endpoints
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const root = path.resolve(__dirname, '..');
+const source = path.join(root, 'config', 'endpoints.json');
+const target = path.join(root, 'config', 'endpoints.generated.ts');
+
+/**
+ * Render a JSON value as a TypeScript literal in the repository style
+ */
+function render(value, indent) {
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+  const padding = '  '.repeat(indent + 1);
+  const entries = Object.entries(value).map(([key, child]) => {
+    const name = /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`;
+    return `${padding}${name}: ${render(child, indent + 1)}`;
+  });
+  return `{\n${entries.join(',\n')}\n${'  '.repeat(indent)}}`;
+}
+
+const endpoints = JSON.parse(fs.readFileSync(source, 'utf-8'));
+const content = `/**
+ * Endpoint Paths
+ *
+ * GENERATED from config/endpoints.json by scripts/generate-endpoints.js - do not edit.
+ * Run \`npm run generate:endpoints\` after changing endpoints.json.
+ */
+
+export const ENDPOINT_PATHS = ${render(endpoints, 0)} as const;
+`;
+
+fs.writeFileSync(target, content);
+console.log(`Generated ${path.relative(root, target)}`);
@@ -1,22 +1,26 @@
-import { test, expect } from '@playwright/test';
+import { test, request as playwrightRequest, APIRequestContext } from '@playwright/test';
 import { LMSHelper } from '../../helpers/lms/lmsHelper';
-import { ResponseValidator } from '../../utils/validators';
+import { assertResponse } from '../../utils/responseAssertions';
 import lmsTestData from '../../testdata/lms/testdata.json';
 test.describe('LMS API Tests', () => {
   let lmsHelper: LMSHelper;
-  test.beforeAll(async ({ request }) => {
-    lmsHelper = new LMSHelper(request);
+  let apiContext: APIRequestContext;
+  test.beforeAll(async () => {
+    apiContext = await playwrightRequest.newContext();
+    lmsHelper = new LMSHelper(apiContext);
     await lmsHelper.login();
   });
   test.afterAll(async () => {
     await lmsHelper.logout();
+    await apiContext.dispose();
   });
   test('should create a new payment', async () => {
     const paymentData = lmsTestData.payloads.validPayment;
     const response = await lmsHelper.createPayment(paymentData);
-    ResponseValidator.validateStatusOk(response);
-    ResponseValidator.validateField(response, 'amount', paymentData.amount);
-    expect(response.body).toHaveProperty('id');
+    await assertResponse(response, 'created payment')
+      .ok()
+      .field('amount').equals(paymentData.amount)
+      .field('id').exists();
   });
   test('should retrieve payment by ID', async () => {
     // Create payment first
@@ -24,25 +28,27 @@ test.describe('LMS API Tests', () => {
     const paymentId = createResponse.body.id;
     // Retrieve payment
     const response = await lmsHelper.getPaymentById(paymentId);
-    ResponseValidator.validateStatusOk(response);
-    ResponseValidator.validateField(response, 'id', paymentId);
+    await assertResponse(response, 'payment').ok().field('id').equals(paymentId);
   });
   test('should list all payments', async () => {
     const response = await lmsHelper.listPayments();
-    ResponseValidator.validateStatusOk(response);
-    expect(Array.isArray(response.body)).toBeTruthy();
+    await assertResponse(response, 'payment list')
+      .ok()
+      .check('body is an array', ({ body }) => {
+        if (!Array.isArray(body)) {
+          throw new Error(`Expected an array, but got ${typeof body}`);
+        }
+      });
   });
   test('should retrieve account by ID', async () => {
     const accountId = 'ACC-12345';
     const response = await lmsHelper.getAccountById(accountId);
-    ResponseValidator.validateStatusOk(response);
-    ResponseValidator.validateField(response, 'id', accountId);
+    await assertResponse(response, 'account').ok().field('id').equals(accountId);
   });
   test('should update account information', async () => {
     const accountId = 'ACC-12345';
     const updateData = lmsTestData.payloads.accountUpdate;
     const response = await lmsHelper.updateAccount(accountId, updateData);
-    ResponseValidator.validateStatusOk(response);
-    ResponseValidator.validateField(response, 'status', updateData.status);
+    await assertResponse(response, 'updated account').ok().field('status').equals(updateData.status);
   });
 });
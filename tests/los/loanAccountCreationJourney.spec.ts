@@ -0,0 +1,45 @@
+import { request as playwrightRequest, APIRequestContext } from '@playwright/test';
+import { test, expect } from '../../mocks/fixtures';
+import { LoanAccountCreationHelper } from '../../helpers/los/loanAccountCreationHelper';
+import {
+  createLoanAccountCreationJourney,
+  createLoanAccountJourneyContext
+} from '../../helpers/los/loanAccountCreationJourney';
+import { JourneyRunner, deriveJourney } from '../../helpers/base/journeyRunner';
+import loanAccountData from '../../testdata/los/loanAccountCreation.json';
+import { setFeature, setStory, setSeverity } from '../../utils/allureHelper';
+test.describe('Loan Account Creation Journey (declarative)', { tag: '@LoanAccountCreation' }, () => {
+  let apiContext: APIRequestContext;
+  let loanHelper: LoanAccountCreationHelper;
+  const journey = createLoanAccountCreationJourney();
+  test.beforeEach(async () => {
+    apiContext = await playwrightRequest.newContext();
+    loanHelper = new LoanAccountCreationHelper(apiContext);
+    setFeature('Loan Account Creation');
+    setSeverity('critical');
+  });
+  test.afterEach(async () => {
+    await apiContext.dispose();
+  });
+  test('Full journey - Submits opportunity', async () => {
+    setStory('Declarative Loan Account Creation Journey');
+    const runner = new JourneyRunner(journey, loanHelper, createLoanAccountJourneyContext());
+    const context = await runner.run();
+    expect(runner.getCompletedSteps()).toHaveLength(journey.steps.length);
+    expect(context.opportunityId).toBeDefined();
+  });
+  test('Variant: without photo verification - Submits opportunity', async () => {
+    setStory('Declarative Loan Account Creation Journey - Variants');
+    const variant = deriveJourney(journey, {
+      name: 'Loan Account Creation without photo verification',
+      skip: ['initPhotoVerification', 'getPhotoVerification']
+    });
+    const runner = new JourneyRunner(
+      variant,
+      loanHelper,
+      createLoanAccountJourneyContext(loanAccountData.userDetails.testUserOne)
+    );
+    const context = await runner.run();
+    expect(context.photoVerificationReferenceId).toBeUndefined();
+  });
+});
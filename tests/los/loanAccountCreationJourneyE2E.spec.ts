@@ -1,7 +1,10 @@
-import { test, expect, request as playwrightRequest } from '@playwright/test';
+import { request as playwrightRequest } from '@playwright/test';
+import { test, expect } from '../../mocks/fixtures';
 import { LoanAccountCreationHelper } from '../../helpers/los/loanAccountCreationHelper';
 import loanAccountData from '../../testdata/los/loanAccountCreation.json';
 import { setFeature, setStory, setSeverity, step } from '../../utils/allureHelper';
+import { loadTestAsset } from '../../utils/testDataLoader';
+import { SubmitOpportunityRequest } from '../../types/loanAccountCreation.types';
 test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCreation' }, () => {
   let loanHelper: LoanAccountCreationHelper;
   let apiContext: any;
@@ -38,11 +41,11 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
         },
         loanAccountData.common.sourcingChannelCode
       );
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      testData.expectedResponse.requiredFields.forEach(field => {
-        expect(response.body).toHaveProperty(field);
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
+      // Valuations follow the daily NAV; the fee, interest and tenure configs are the contract under watch
+      expect(response).toMatchBodySnapshot('generateOffer', {
+        mask: ['$.assets[*].nav', '$.assets[*].assetValue', '$.totalAssetValue', '$.totalAssetLtv']
       });
       console.log('Generate Offer Response:', JSON.stringify(response.body, null, 2));
     });
@@ -60,14 +63,10 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
         },
         loanAccountData.common.sourcingChannelCode
       );
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      testData.expectedResponse.requiredFields.forEach(field => {
-        expect(response.body).toHaveProperty(field);
-      });
-      expect(response.body.isDuplicate).toBe(testData.expectedResponse.isDuplicate);
-      expect(response.body.message).toBe(testData.expectedResponse.message);
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
+      expect(response).toHaveJsonPath('isDuplicate', testData.expectedResponse.isDuplicate);
+      expect(response).toHaveJsonPath('message', testData.expectedResponse.message);
       expect(Array.isArray(response.body.availableAssetCategories)).toBe(true);
       testData.expectedResponse.availableAssetCategories.forEach(category => {
         expect(response.body.availableAssetCategories).toContain(category);
@@ -89,14 +88,10 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
         },
         loanAccountData.common.sourcingChannelCode
       );
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      testData.expectedResponse.requiredFields.forEach(field => {
-        expect(response.body).toHaveProperty(field);
-      });
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
       opportunityId = response.body.opportunityId;
-      expect(opportunityId).toBeDefined();
+      expect(response).toHaveJsonPath('opportunityId');
       console.log('Create Opportunity Response:', JSON.stringify(response.body, null, 2));
       console.log('Captured opportunityId:', opportunityId);
     });
@@ -114,44 +109,41 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
         },
         loanAccountData.common.sourcingChannelCode
       );
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      testData.expectedResponse.requiredFields.forEach(field => {
-        expect(response.body).toHaveProperty(field);
-      });
-      expect(response.body.status).toBe(testData.expectedResponse.status);
-      expect(response.body.subStatus).toBe(testData.expectedResponse.subStatus);
-      expect(response.body.opportunityId).toBe(opportunityId);
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
+      expect(response).toHaveUtilityStatus(testData.expectedResponse.status, testData.expectedResponse.subStatus);
+      expect(response).toHaveJsonPath('opportunityId', opportunityId);
       utilityReferenceId = response.body.utilityReferenceId;
-      expect(utilityReferenceId).toBeDefined();
+      expect(response).toHaveJsonPath('utilityReferenceId');
+      expect(response).toMatchBodySnapshot('kycUtilityInit');
       console.log('KYC Utility Init Response:', JSON.stringify(response.body, null, 2));
       console.log('Captured utilityReferenceId:', utilityReferenceId);
     });
   });
-  test('Step 5: Get KYC Utility - Returns 200', async () => {
+  test('Step 5: Get KYC Utility - Returns 200', async ({ contract }) => {
     setFeature('Loan Account Creation');
     setStory('E2E Loan Account Creation Journey');
     setSeverity('critical');
+    contract?.given('the KYC utility is approved', { utilityReferenceId });
     await step('Get KYC utility status', async () => {
       const testData = loanAccountData.getKycUtility;
-      const response = await loanHelper.getKycUtility(
-        utilityReferenceId,
-        testData.request.imageType,
-        loanAccountData.common.sourcingChannelCode
+      const response = await loanHelper.waitForUtilityStatus(
+        () => loanHelper.getKycUtility(
+          utilityReferenceId,
+          testData.request.imageType,
+          loanAccountData.common.sourcingChannelCode
+        ),
+        { status: testData.expectedResponse.status },
+        loanAccountData.common.polling
       );
       console.log('Get KYC Utility Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
       console.log('KYC Status:', response.body.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      testData.expectedResponse.requiredFields.forEach(field => {
-        expect(response.body).toHaveProperty(field);
-      });
-      expect(response.body.status).toBe(testData.expectedResponse.status);
-      expect(response.body.opportunityId).toBe(opportunityId);
-      expect(response.body.utilityReferenceId).toBe(utilityReferenceId);
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
+      expect(response).toHaveUtilityStatus(testData.expectedResponse.status);
+      expect(response).toHaveJsonPath('opportunityId', opportunityId);
+      expect(response).toHaveJsonPath('utilityReferenceId', utilityReferenceId);
     });
   });
   test('Step 6: Init Photo Verification - Returns 200', async () => {
@@ -160,15 +152,7 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
     setSeverity('critical');
     await step('Initialize photo verification', async () => {
       const testData = loanAccountData.initPhotoVerification;
-      const fs = require('fs');
-      const path = require('path');
-      const imagePath = path.join(process.cwd(), testData.request.userImagePath);
-      let userImage = fs.readFileSync(imagePath, 'utf-8').trim();
-      if (userImage.startsWith('url(data:image/png;base64,')) {
-        userImage = userImage.replace('url(data:image/png;base64,', '').replace(')', '');
-      } else if (userImage.startsWith('data:image/png;base64,')) {
-        userImage = userImage.replace('data:image/png;base64,', '');
-      }
+      const userImage = loadTestAsset(testData.request.userImagePath, 'base64');
       console.log('Sending photo verification request for opportunityId:', opportunityId);
       console.log('Base64 image length:', userImage.length);
       const response = await loanHelper.initPhotoVerification(
@@ -181,16 +165,14 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
       );
       console.log('Init Photo Verification Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      expect(response.body.opportunityId).toBe(opportunityId);
-      expect(response.body.utilityReferenceId).toBeDefined();
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
+      expect(response).toHaveJsonPath('opportunityId', opportunityId);
+      expect(response).toHaveJsonPath('utilityReferenceId');
       photoVerificationReferenceId = response.body.utilityReferenceId;
       console.log('Captured photoVerificationReferenceId:', photoVerificationReferenceId);
-      expect(response.body.status).toBe(testData.expectedResponse.status);
-      expect(response.body.subStatus).toBe(testData.expectedResponse.subStatus);
-      expect(response.body.fenixLoanAccountId).toBeNull();
+      expect(response).toHaveUtilityStatus(testData.expectedResponse.status, testData.expectedResponse.subStatus);
+      expect(response).toHaveJsonPath('fenixLoanAccountId', null);
     });
   });
   test('Step 6.1: Get Photo Verification - Returns 200', async () => {
@@ -206,14 +188,12 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
       );
       console.log('Get Photo Verification Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      expect(response.body.opportunityId).toBe(opportunityId);
-      expect(response.body.utilityReferenceId).toBe(photoVerificationReferenceId);
-      expect(response.body.status).toBe(testData.expectedResponse.status);
-      expect(response.body.subStatus).toBe(testData.expectedResponse.subStatus);
-      expect(response.body.fenixLoanAccountId).toBeNull();
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
+      expect(response).toHaveJsonPath('opportunityId', opportunityId);
+      expect(response).toHaveJsonPath('utilityReferenceId', photoVerificationReferenceId);
+      expect(response).toHaveUtilityStatus(testData.expectedResponse.status, testData.expectedResponse.subStatus);
+      expect(response).toHaveJsonPath('fenixLoanAccountId', null);
     });
   });
   test('Step 7: Save Additional Data - Returns 200', async () => {
@@ -232,13 +212,9 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
       );
       console.log('Save Additional Data Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      testData.expectedResponse.requiredFields.forEach(field => {
-        expect(response.body).toHaveProperty(field);
-      });
-      expect(response.body.opportunityId).toBe(opportunityId);
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
+      expect(response).toHaveJsonPath('opportunityId', opportunityId);
       if (response.body.utilityReferenceId) {
         additionalDataReferenceId = response.body.utilityReferenceId;
         console.log('Captured additionalDataReferenceId:', additionalDataReferenceId);
@@ -258,13 +234,11 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
       );
       console.log('Get Additional Data Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      expect(response.body.opportunityId).toBe(opportunityId);
-      expect(response.body.utilityReferenceId).toBe(additionalDataReferenceId);
-      expect(response.body.status).toBe(testData.expectedResponse.status);
-      expect(response.body.subStatus).toBe(testData.expectedResponse.subStatus);
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
+      expect(response).toHaveJsonPath('opportunityId', opportunityId);
+      expect(response).toHaveJsonPath('utilityReferenceId', additionalDataReferenceId);
+      expect(response).toHaveUtilityStatus(testData.expectedResponse.status, testData.expectedResponse.subStatus);
     });
   });
   test('Step 9: Bank Utility Init - Returns 200', async () => {
@@ -283,16 +257,14 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
       );
       console.log('Bank Utility Init Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      expect(response.body.opportunityId).toBe(opportunityId);
-      expect(response.body.utilityReferenceId).toBeDefined();
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
+      expect(response).toHaveJsonPath('opportunityId', opportunityId);
+      expect(response).toHaveJsonPath('utilityReferenceId');
       bankUtilityReferenceId = response.body.utilityReferenceId;
       console.log('Captured bankUtilityReferenceId:', bankUtilityReferenceId);
-      expect(response.body.status).toBe(testData.expectedResponse.status);
-      expect(response.body.subStatus).toBe(testData.expectedResponse.subStatus);
-      expect(response.body.fenixLoanAccountId).toBeNull();
+      expect(response).toHaveUtilityStatus(testData.expectedResponse.status, testData.expectedResponse.subStatus);
+      expect(response).toHaveJsonPath('fenixLoanAccountId', null);
     });
   });
   test('Step 10: Get Bank Utility - Returns 200', async () => {
@@ -302,20 +274,22 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
     await step('Get bank utility status', async () => {
       const testData = loanAccountData.getBankUtility;
       console.log('Getting bank utility for utilityReferenceId:', bankUtilityReferenceId);
-      const response = await loanHelper.getBankUtility(
-        bankUtilityReferenceId,
-        loanAccountData.common.sourcingChannelCode
+      const response = await loanHelper.waitForUtilityStatus(
+        () => loanHelper.getBankUtility(
+          bankUtilityReferenceId,
+          loanAccountData.common.sourcingChannelCode
+        ),
+        { status: testData.expectedResponse.status, subStatus: testData.expectedResponse.subStatus },
+        loanAccountData.common.polling
       );
       console.log('Get Bank Utility Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      expect(response.body.opportunityId).toBe(opportunityId);
-      expect(response.body.utilityReferenceId).toBe(bankUtilityReferenceId);
-      expect(response.body.status).toBe(testData.expectedResponse.status);
-      expect(response.body.subStatus).toBe(testData.expectedResponse.subStatus);
-      expect(response.body.fenixLoanAccountId).toBeNull();
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
+      expect(response).toHaveJsonPath('opportunityId', opportunityId);
+      expect(response).toHaveJsonPath('utilityReferenceId', bankUtilityReferenceId);
+      expect(response).toHaveUtilityStatus(testData.expectedResponse.status, testData.expectedResponse.subStatus);
+      expect(response).toHaveJsonPath('fenixLoanAccountId', null);
     });
   });
   test('Step 11: Create Mandate - Returns 200', async () => {
@@ -336,39 +310,40 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
       );
       console.log('Create Mandate Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      expect(response.body.opportunityId).toBe(opportunityId);
-      expect(response.body.utilityReferenceId).toBeDefined();
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
+      expect(response).toHaveJsonPath('opportunityId', opportunityId);
+      expect(response).toHaveJsonPath('utilityReferenceId');
       mandateReferenceId = response.body.utilityReferenceId;
       console.log('Captured mandateReferenceId:', mandateReferenceId);
-      expect(response.body.status).toBe(testData.expectedResponse.status);
-      expect(response.body.subStatus).toBe(testData.expectedResponse.subStatus);
-      expect(response.body.fenixLoanAccountId).toBeNull();
+      expect(response).toHaveUtilityStatus(testData.expectedResponse.status, testData.expectedResponse.subStatus);
+      expect(response).toHaveJsonPath('fenixLoanAccountId', null);
     });
   });
-  test('Step 12: Get Mandate - Returns 200', async () => {
+  test('Step 12: Get Mandate - Returns 200', async ({ contract }) => {
     setFeature('Loan Account Creation');
     setStory('E2E Loan Account Creation Journey');
     setSeverity('critical');
+    contract?.given('the mandate is approved', { utilityReferenceId: mandateReferenceId });
     await step('Get mandate status', async () => {
       const testData = loanAccountData.getMandate;
       console.log('Getting mandate for utilityReferenceId:', mandateReferenceId);
-      const response = await loanHelper.getMandate(
-        mandateReferenceId,
-        loanAccountData.common.sourcingChannelCode
+      const response = await loanHelper.waitForUtilityStatus(
+        () => loanHelper.getMandate(
+          mandateReferenceId,
+          loanAccountData.common.sourcingChannelCode
+        ),
+        { status: testData.expectedResponse.status, subStatus: testData.expectedResponse.subStatus },
+        loanAccountData.common.polling
       );
       console.log('Get Mandate Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      expect(response.body.opportunityId).toBe(opportunityId);
-      expect(response.body.utilityReferenceId).toBe(mandateReferenceId);
-      expect(response.body.status).toBe(testData.expectedResponse.status);
-      expect(response.body.subStatus).toBe(testData.expectedResponse.subStatus);
-      expect(response.body.fenixLoanAccountId).toBeNull();
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
+      expect(response).toHaveJsonPath('opportunityId', opportunityId);
+      expect(response).toHaveJsonPath('utilityReferenceId', mandateReferenceId);
+      expect(response).toHaveUtilityStatus(testData.expectedResponse.status, testData.expectedResponse.subStatus);
+      expect(response).toHaveJsonPath('fenixLoanAccountId', null);
     });
   });
   test('Step 13: Create Verification Log Email - Returns 200', async () => {
@@ -387,15 +362,14 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
       );
       console.log('Create Verification Log Email Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      expect(response.body.opportunityId).toBe(opportunityId);
-      expect(response.body.utilityReferenceId).toBeDefined();
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
+      expect(response).toHaveJsonPath('opportunityId', opportunityId);
+      expect(response).toHaveJsonPath('utilityReferenceId');
       verificationLogReferenceId = response.body.utilityReferenceId;
       console.log('Captured verificationLogReferenceId:', verificationLogReferenceId);
-      expect(response.body.status).toBe(testData.expectedResponse.status);
-      expect(response.body.fenixLoanAccountId).toBeNull();
+      expect(response).toHaveUtilityStatus(testData.expectedResponse.status);
+      expect(response).toHaveJsonPath('fenixLoanAccountId', null);
     });
   });
   test('Step 14: Get Verification Log Email - Returns 200', async () => {
@@ -411,19 +385,19 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
       );
       console.log('Get Verification Log Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      expect(response.body.opportunityId).toBe(opportunityId);
-      expect(response.body.utilityReferenceId).toBe(verificationLogReferenceId);
-      expect(response.body.status).toBe(testData.expectedResponse.status);
-      expect(response.body.fenixLoanAccountId).toBeNull();
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
+      expect(response).toHaveJsonPath('opportunityId', opportunityId);
+      expect(response).toHaveJsonPath('utilityReferenceId', verificationLogReferenceId);
+      expect(response).toHaveUtilityStatus(testData.expectedResponse.status);
+      expect(response).toHaveJsonPath('fenixLoanAccountId', null);
     });
   });
-  test('Step 14.1: Create Verification Log Mobile - Returns 200', async () => {
+  test('Step 14.1: Create Verification Log Mobile - Returns 200', async ({ contract }) => {
     setFeature('Loan Account Creation');
     setStory('E2E Loan Account Creation Journey');
     setSeverity('critical');
+    contract?.uponReceiving('los.loanAccountCreation.createVerificationLogEmail for a mobile number');
     await step('Create mobile verification log', async () => {
       const testData = loanAccountData.createVerificationLogMobile;
       console.log('Creating mobile verification log for opportunityId:', opportunityId);
@@ -438,15 +412,14 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
       );
       console.log('Create Verification Log Mobile Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      expect(response.body.opportunityId).toBe(opportunityId);
-      expect(response.body.utilityReferenceId).toBeDefined();
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
+      expect(response).toHaveJsonPath('opportunityId', opportunityId);
+      expect(response).toHaveJsonPath('utilityReferenceId');
       mobileVerificationLogReferenceId = response.body.utilityReferenceId;
       console.log('Captured mobileVerificationLogReferenceId:', mobileVerificationLogReferenceId);
-      expect(response.body.status).toBe(testData.expectedResponse.status);
-      expect(response.body.fenixLoanAccountId).toBeNull();
+      expect(response).toHaveUtilityStatus(testData.expectedResponse.status);
+      expect(response).toHaveJsonPath('fenixLoanAccountId', null);
     });
   });
   test('Step 15: Generate Loan Contract - Returns 200', async () => {
@@ -483,14 +456,13 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
       );
       console.log('Generate Loan Contract Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
-      expect(response.body.opportunityId).toBe(opportunityId);
-      expect(response.body.status).toBe(testData.expectedResponse.status);
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
+      expect(response).toMatchJsonSchema(testData.expectedResponse.schema);
+      expect(response).toHaveJsonPath('opportunityId', opportunityId);
+      expect(response).toHaveJsonPath('status', testData.expectedResponse.status);
       if (response.body.steps && Array.isArray(response.body.steps)) {
-        const agreementStep = response.body.steps.find((step: any) => step.utilityType === 'AGREEMENT_SIGN');
-        const kfsStep = response.body.steps.find((step: any) => step.utilityType === 'KFS');
+        const agreementStep = response.body.steps.find((step) => step.utilityType === 'AGREEMENT_SIGN');
+        const kfsStep = response.body.steps.find((step) => step.utilityType === 'KFS');
         if (agreementStep && agreementStep.utilityReferenceId) {
           agreementReferenceId = agreementStep.utilityReferenceId;
           console.log('Captured agreementReferenceId:', agreementReferenceId);
@@ -523,9 +495,7 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
       );
       console.log('Approve KFS Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
       if (response.body.utilityReferenceId) {
         newKfsReferenceId = response.body.utilityReferenceId;
         console.log('Captured NEW KFS Reference ID from Step 15.1:', newKfsReferenceId);
@@ -551,9 +521,7 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
       );
       console.log('KFS Consent Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
     });
   });
   test('Step 15.3: Approve Agreement - Returns 200', async () => {
@@ -584,9 +552,7 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
       );
       console.log('Approve Agreement Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
       if (response.body.utilityReferenceId) {
         newAgreementReferenceId = response.body.utilityReferenceId;
         console.log('Captured NEW AGREEMENT Reference ID from Step 15.3:', newAgreementReferenceId);
@@ -610,9 +576,7 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
       );
       console.log('Agreement Consent Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
     });
   });
   test('Step 16: Submit Opportunity - Returns 200', async () => {
@@ -632,7 +596,7 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
       console.log('photoVerificationReferenceId (from Step 6):', photoVerificationReferenceId);
       console.log('mobileVerificationLogReferenceId (from Step 14.1):', mobileVerificationLogReferenceId);
       console.log('verificationLogReferenceId/emailVerificationLogId (from Step 13):', verificationLogReferenceId);
-      const requestBody = {
+      const requestBody: SubmitOpportunityRequest = {
         submittedDataList: [
           {
             dataType: 'BANK_ACCOUNT',
@@ -680,9 +644,7 @@ test.describe.serial('Loan Account Creation Journey E2E', { tag: '@LoanAccountCr
       );
       console.log('Submit Opportunity Response:', JSON.stringify(response.body, null, 2));
       console.log('Response Status Code:', response.status);
-      expect(response.status).toBe(testData.expectedResponse.statusCode);
-      expect(response.ok).toBe(true);
-      expect(response.body).toBeDefined();
+      expect(response).toHaveStatus(testData.expectedResponse.statusCode);
     });
   });
 });
@@ -1,8 +1,9 @@
-import { test, expect, request as playwrightRequest } from '@playwright/test';
+import { request as playwrightRequest } from '@playwright/test';
+import { test, expect } from '../../mocks/fixtures';
 import { LOSHelper } from '../../helpers/los/losHelper';
 import { ResponseValidator } from '../../utils/validators';
 import { setFeature, setStory, setSeverity, step } from '../../utils/allureHelper';
-import creds from '../../config/creds.json';
+import { getSecret } from '../../utils/secrets';
 test.describe.serial('LOS Login Flow', { tag: '@LoginTests' }, () => {
   let losHelper: LOSHelper;
   let jwtToken: string; 
@@ -14,7 +15,7 @@ test.describe.serial('LOS Login Flow', { tag: '@LoginTests' }, () => {
     setFeature('Authentication');
     setStory('OTP Login Flow');
     setSeverity('critical');
-    const phoneNo = creds.los.phoneNo;
+    const phoneNo = getSecret('LOS_PHONE_NO');
     await step('Request OTP for phone number', async () => {
       const response = await losHelper.requestOtp(phoneNo, true);
       ResponseValidator.validateStatusOk(response);
@@ -26,12 +27,13 @@ test.describe.serial('LOS Login Flow', { tag: '@LoginTests' }, () => {
       console.log('✅ Step 1: OTP requested successfully for:', phoneNo);
     });
   });
-  test('Step 2: Verify OTP - Returns 200 (when OTP is valid)', async () => {
+  test('Step 2: Verify OTP - Returns 200 (when OTP is valid)', async ({ contract }) => {
     setFeature('Authentication');
     setStory('OTP Login Flow');
     setSeverity('critical');
-    const phoneNo = creds.los.phoneNo;
-    const otp = creds.los.otp;
+    const phoneNo = getSecret('LOS_PHONE_NO');
+    contract?.given('an OTP was requested for the phone number', { phoneNo });
+    const otp = getSecret('LOS_OTP');
     await step('Verify OTP and capture JWT token', async () => {
       const response = await losHelper.verifyOtp(phoneNo, otp);
       ResponseValidator.validateStatusOk(response);
@@ -48,10 +50,11 @@ test.describe.serial('LOS Login Flow', { tag: '@LoginTests' }, () => {
       console.log('JWT Token:', jwtToken);
     });
   });
-  test('Step 3: Fetch User Data - Returns 200', async () => {
+  test('Step 3: Fetch User Data - Returns 200', async ({ contract }) => {
     setFeature('Authentication');
     setStory('OTP Login Flow');
     setSeverity('critical');
+    contract?.given('the borrower is logged in', { phoneNo: getSecret('LOS_PHONE_NO') });
     await step('Set JWT token and fetch user data', async () => {
       if (!jwtToken) {
         throw new Error('No JWT token available from Step 2');
@@ -62,18 +65,14 @@ test.describe.serial('LOS Login Flow', { tag: '@LoginTests' }, () => {
       expect(response.ok).toBe(true);
       expect(response.status).toBe(200);
       expect(response.body).toBeDefined();
-      expect(response.body.isLoggedIn).toBe(true);
-      expect(response.body.user).toBeDefined();
-      expect(response.body.user.phoneNumber).toBe(creds.los.phoneNo);
+      ResponseValidator.validateField(response, 'isLoggedIn', true);
+      ResponseValidator.validateField(response, 'user', { phoneNumber: getSecret('LOS_PHONE_NO'), state: 'ACTIVE' }, { match: 'partial' });
       expect(response.body.user.userId).toBeTruthy();
-      expect(response.body.user.state).toBe('ACTIVE');
-      expect(response.body.linkedBorrowerAccounts).toBeDefined();
-      expect(Array.isArray(response.body.linkedBorrowerAccounts)).toBe(true);
-      expect(response.body.linkedBorrowerAccounts.length).toBeGreaterThan(0);
-      const firstAccount = response.body.linkedBorrowerAccounts[0];
-      expect(firstAccount.accountId).toBeTruthy();
-      expect(firstAccount.accountState).toBe('ACTIVE');
-      expect(firstAccount.accountHolderPhoneNumber).toBe(creds.los.phoneNo);
+      ResponseValidator.validateField(response, 'linkedBorrowerAccounts[0]', {
+        accountState: 'ACTIVE',
+        accountHolderPhoneNumber: getSecret('LOS_PHONE_NO')
+      }, { match: 'partial' });
+      expect(response.body.linkedBorrowerAccounts[0].accountId).toBeTruthy();
       console.log('✅ Step 3: User data fetched successfully!');
       console.log('User data:', JSON.stringify(response.body, null, 2));
     });
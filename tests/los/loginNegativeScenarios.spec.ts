@@ -1,4 +1,5 @@
-import { test, expect, request as playwrightRequest } from '@playwright/test';
+import { request as playwrightRequest } from '@playwright/test';
+import { test, expect } from '../../mocks/fixtures';
 import { LOSHelper } from '../../helpers/los/losHelper';
 import { setFeature, setStory, setSeverity, step } from '../../utils/allureHelper';
 test.describe('LOS Login - Negative Tests', { tag: '@LoginTests' }, () => {
@@ -112,7 +112,8 @@ test.describe('JSON Response Parsing Properties', { tag: '@FrameworkCheckTests'
   test('should return text for non-JSON content types', async () => {
     await fc.assert(
       fc.asyncProperty(
-        fc.string(),
+        // Empty bodies parse to undefined whatever the content type
+        fc.string({ minLength: 1 }),
         fc.constantFrom('text/plain', 'text/html', 'text/xml', 'application/xml'),
         async (textData, contentType) => {
           const mockResponse = new MockResponse(contentType, textData);
@@ -228,7 +229,7 @@ test.describe('JSON Response Parsing Properties', { tag: '@FrameworkCheckTests'
   test('should handle missing content-type header', async () => {
     await fc.assert(
       fc.asyncProperty(
-        fc.string(),
+        fc.string({ minLength: 1 }),
         async (textData) => {
           // Mock response with no content-type header
           const mockResponse = {
@@ -3,12 +3,19 @@
  * 
  * Tests Property 8: Path Parameters Are Correctly Replaced
  * Validates: Requirements 5.4
+ *
+ * Also covers the strict template rules: RFC 3986 encoding, repeated placeholders,
+ * unknown and unfilled params, and optional {name?} segments.
  */
 
 import { test, expect } from '@playwright/test';
 import fc from 'fast-check';
 import { APIRequestContext } from '@playwright/test';
 import { BaseHelper } from '../../helpers/base/baseHelper';
+import { PathParamValue } from '../../helpers/base/pathTemplate';
+
+/** Characters RFC 3986 allows unencoded in a path param value */
+const UNRESERVED = /^[A-Za-z0-9\-._~]$/;
 
 /**
  * Concrete implementation of BaseHelper for testing purposes
@@ -25,7 +32,7 @@ class TestHelper extends BaseHelper {
   /**
    * Expose replacePathParams for testing
    */
-  public testReplacePathParams(endpoint: string, params: Record<string, string>): string {
+  public testReplacePathParams(endpoint: string, params: Record<string, PathParamValue>): string {
     return this.replacePathParams(endpoint, params);
   }
 }
@@ -41,13 +48,13 @@ test.describe('Path Parameter Replacement Properties', { tag: '@FrameworkCheckTe
   test('should replace all path parameters with their corresponding values', async () => {
     await fc.assert(
       fc.asyncProperty(
-        // Generate parameter names and values together
-        fc.array(
+        // Generate parameter names and values together (names are unique, so each maps to one value)
+        fc.uniqueArray(
           fc.record({
             name: fc.stringMatching(/^[a-z]+$/),
             value: fc.stringMatching(/^[a-zA-Z0-9_-]+$/)
           }),
-          { minLength: 1, maxLength: 5 }
+          { minLength: 1, maxLength: 5, selector: pair => pair.name }
         ),
         async (paramPairs) => {
           // Build the endpoint with placeholders
@@ -132,7 +139,7 @@ test.describe('Path Parameter Replacement Properties', { tag: '@FrameworkCheckTe
     );
   });
 
-  test('should handle empty params object gracefully', async () => {
+  test('should reject placeholders left without a value', async () => {
     await fc.assert(
       fc.asyncProperty(
         fc.stringMatching(/^[a-z]+$/),
@@ -140,10 +147,76 @@ test.describe('Path Parameter Replacement Properties', { tag: '@FrameworkCheckTe
           const endpoint = `/api/resource/{${paramName}}`;
           const params = {};
 
-          const result = testHelper.testReplacePathParams(endpoint, params);
+          expect(() => testHelper.testReplacePathParams(endpoint, params))
+            .toThrow(`Invalid path params for ${endpoint}: missing ${paramName}`);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
 
-          // Should leave placeholder unchanged if no matching param
-          expect(result).toBe(endpoint);
+  test('should encode values per RFC 3986 so they round-trip as a single segment', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.string({ unit: 'grapheme', minLength: 1 }).filter(value => !['.', '..'].includes(value)),
+        async (value) => {
+          const result = testHelper.testReplacePathParams('/api/resource/{id}/details', { id: value });
+          const segment = result.split('/')[3];
+
+          expect(result.split('/')).toHaveLength(5);
+          expect(decodeURIComponent(segment)).toBe(value);
+          // Only unreserved characters and %XX escapes remain
+          expect(segment.replace(/%[0-9A-F]{2}/g, '').split('').every(char => UNRESERVED.test(char))).toBe(true);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('should replace every occurrence of a repeated placeholder', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.stringMatching(/^[a-z]+$/),
+        fc.stringMatching(/^[a-zA-Z0-9_-]+$/),
+        fc.integer({ min: 2, max: 5 }),
+        async (paramName, paramValue, repeats) => {
+          const endpoint = `/api${`/{${paramName}}`.repeat(repeats)}`;
+
+          const result = testHelper.testReplacePathParams(endpoint, { [paramName]: paramValue });
+
+          expect(result).toBe(`/api${`/${paramValue}`.repeat(repeats)}`);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('should reject params that are not in the template', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.stringMatching(/^[a-z]+$/),
+        fc.stringMatching(/^[A-Z][a-z]*$/),
+        async (paramName, unknownName) => {
+          const endpoint = `/api/resource/{${paramName}}`;
+          const params = { [paramName]: 'value', [unknownName]: 'value' };
+
+          expect(() => testHelper.testReplacePathParams(endpoint, params))
+            .toThrow(`Invalid path params for ${endpoint}: unknown ${unknownName} (template has ${paramName})`);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('should drop optional segments without a value and fill those with one', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.stringMatching(/^[a-zA-Z0-9_-]+$/),
+        fc.option(fc.stringMatching(/^[a-zA-Z0-9_-]+$/), { nil: undefined }),
+        async (folder, name) => {
+          const result = testHelper.testReplacePathParams('/api/files/{folder}/{name?}', { folder, name });
+
+          expect(result).toBe(name === undefined ? `/api/files/${folder}` : `/api/files/${folder}/${name}`);
         }
       ),
       { numRuns: 100 }
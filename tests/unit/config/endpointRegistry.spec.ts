@@ -0,0 +1,83 @@
+/**
+ * Unit Tests for the typed endpoint registry
+ *
+ * Tests the generated paths, path param inference and BaseHelper.callEndpoint
+ */
+
+import { test, expect, APIRequestContext } from '@playwright/test';
+import endpoints from '../../../config/endpoints.json';
+import { ENDPOINT_PATHS } from '../../../config/endpoints.generated';
+import { buildEndpointPath, endpointRegistry } from '../../../config/endpointRegistry';
+import { getDspBaseUrl } from '../../../config/envconfig';
+import { BaseHelper, EndpointCallArgs } from '../../../helpers/base/baseHelper';
+import { EndpointDefinition } from '../../../types/endpoint.types';
+import { createFakeRequest } from '../support/fakeRequest';
+
+/**
+ * Concrete implementation of BaseHelper for testing purposes
+ */
+class TestHelper extends BaseHelper {
+  constructor(request: APIRequestContext) {
+    super(request, 'lms');
+  }
+
+  async login(): Promise<void> {
+    // No-op for testing
+  }
+
+  public async testCallEndpoint<E extends EndpointDefinition>(endpoint: E, ...args: EndpointCallArgs<E>) {
+    return this.callEndpoint(endpoint, ...args);
+  }
+}
+
+test.describe('Endpoint Registry', { tag: '@FrameworkCheckTests' }, () => {
+  test('should be generated from the current endpoints.json', () => {
+    // Run `npm run generate:endpoints` if this fails after editing endpoints.json
+    expect(ENDPOINT_PATHS).toEqual(endpoints);
+  });
+
+  test('should describe every route with its method, path params, query params and base', () => {
+    expect(endpointRegistry.los.loanAccountCreation.getKycUtility).toEqual({
+      name: 'los.loanAccountCreation.getKycUtility',
+      method: 'GET',
+      path: endpoints.los.loanAccountCreation.getKycUtility,
+      pathParams: ['utilityReferenceId'],
+      query: ['imageType'],
+      base: 'dsp'
+    });
+    expect(endpointRegistry.lms.payments.create).toMatchObject({ method: 'POST', pathParams: [], base: 'volt' });
+    expect(endpointRegistry.los.auth.requestOtp).toMatchObject({ pathParams: ['phoneNo'], query: ['enableWhatsapp'] });
+  });
+
+  test('should fill path params and reject missing ones', () => {
+    expect(buildEndpointPath(endpointRegistry.lms.payments.getById, { id: 'PAY-1' })).toBe('/api/lms/payments/PAY-1');
+
+    // @ts-expect-error - misspelled path param
+    expect(() => buildEndpointPath(endpointRegistry.lms.payments.getById, { paymentId: 'PAY-1' }))
+      .toThrow(`Invalid path params for lms.payments.getById (${endpoints.lms.payments.getById}): missing id; unknown paymentId`);
+  });
+
+  test('should send calls with the route method, query and base URL', async () => {
+    const { request, calls } = createFakeRequest();
+    const helper = new TestHelper(request);
+
+    await helper.testCallEndpoint(endpointRegistry.lms.payments.list, { query: { status: 'SUCCESS', page: undefined } });
+    await helper.testCallEndpoint(endpointRegistry.lms.accounts.update, { pathParams: { id: 'ACC-1' }, data: { status: 'ACTIVE' } });
+    await helper.testCallEndpoint(endpointRegistry.los.loanAccountCreation.getKycUtility, {
+      pathParams: { utilityReferenceId: 'UTIL-1' },
+      query: { imageType: 'base64' }
+    });
+    // @ts-expect-error - path params are required for routes with placeholders
+    await helper.testCallEndpoint(endpointRegistry.lms.payments.getById, {}).catch(() => undefined);
+    // @ts-expect-error - query params must be declared for the route
+    await helper.testCallEndpoint(endpointRegistry.lms.payments.list, { query: { sort: 'asc' } });
+
+    expect(calls[0].method).toBe('GET');
+    expect(calls[0].url).toMatch(/\/api\/lms\/payments\?status=SUCCESS$/);
+    expect(calls[1]).toMatchObject({ method: 'PUT', options: { data: { status: 'ACTIVE' } } });
+    expect(calls[1].url).toMatch(/\/api\/lms\/accounts\/ACC-1$/);
+    expect(calls[2].method).toBe('GET');
+    expect(calls[2].url).toBe(`${getDspBaseUrl()}/los/api/v1/utility/kyc/UTIL-1?imageType=base64`);
+    expect(calls).toHaveLength(4);
+  });
+});
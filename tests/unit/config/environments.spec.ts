@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { test, expect } from '@playwright/test';
+import { loadEnvironments, resolveEnvironments, validateEnvironmentDefinition } from '../../../config/environments';
+import { envConfig, getDspBaseUrl, getPodBaseUrl } from '../../../config/envconfig';
+
+test.describe('Environment Definitions', { tag: '@FrameworkCheckTests' }, () => {
+  let directory: string;
+
+  /**
+   * Write environment files into the temporary directory
+   */
+  function writeEnvironments(files: Record<string, string | object>): void {
+    for (const [file, content] of Object.entries(files)) {
+      fs.writeFileSync(path.join(directory, file), typeof content === 'string' ? content : JSON.stringify(content));
+    }
+  }
+
+  test.beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'environments-'));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('should inherit from the parent environment and merge pod URLs', () => {
+    writeEnvironments({
+      'staging.json': { baseUrl: 'https://staging.test', dspBaseUrl: 'https://dsp.staging.test', pods: { lms: 'https://lms.staging.test' } },
+      'qa2.json': { extends: 'staging', baseUrl: 'https://qa2.test', pods: { collections: 'https://collections.qa2.test' } }
+    });
+
+    const environments = loadEnvironments(directory);
+
+    expect(environments.qa2).toEqual({
+      name: 'qa2',
+      chain: ['qa2', 'staging'],
+      baseUrl: 'https://qa2.test',
+      dspBaseUrl: 'https://dsp.staging.test',
+      pods: { lms: 'https://lms.staging.test', collections: 'https://collections.qa2.test' }
+    });
+  });
+
+  test('should report every schema violation across files', () => {
+    writeEnvironments({
+      'dev.json': { baseUrl: 'ftp://dev.test', dspBaseUrl: 'https://dsp.dev.test', region: 'eu' },
+      'broken.json': '{ "baseUrl": ',
+      'Preview_1.json': { baseUrl: 'https://preview.test', dspBaseUrl: 'https://dsp.preview.test' },
+      'pods.json': { baseUrl: 'https://pods.test', dspBaseUrl: 'https://dsp.pods.test', pods: { lms: 'not a url' } },
+      'safe.json': { baseUrl: 'https://safe.test', dspBaseUrl: 'https://dsp.safe.test', safety: { allowedMethods: ['FETCH'], allowedCategories: [] } }
+    });
+
+    let message = '';
+    try {
+      loadEnvironments(directory);
+    } catch (error) {
+      message = (error as Error).message;
+    }
+
+    expect(message).toContain('Preview_1.json: environment names may only contain');
+    expect(message).toContain('broken.json: invalid JSON');
+    expect(message).toContain('dev.json: baseUrl must be an http(s) URL');
+    expect(message).toContain('dev.json: region is not a known field');
+    expect(message).toContain('pods.json: pods must map pods to http(s) URLs (invalid: lms)');
+    expect(message).toContain('safe.json: safety allowedMethods must be an array of GET, POST, PUT, DELETE, PATCH');
+  });
+
+  test('should reject unknown parents, cycles and missing URLs', () => {
+    expect(() => resolveEnvironments({
+      a: { extends: 'b', baseUrl: 'https://a.test', dspBaseUrl: 'https://dsp.a.test' },
+      b: { extends: 'a' },
+      c: { extends: 'missing' },
+      d: { baseUrl: 'https://d.test' }
+    })).toThrow(/a: inheritance cycle a -> b -> a[\s\S]*c: extends unknown environment "missing"[\s\S]*d: missing dspBaseUrl/);
+    expect(validateEnvironmentDefinition([])).toEqual(['must be a JSON object']);
+  });
+
+  test('should load the repository environments including qa2', () => {
+    expect(Object.keys(envConfig)).toEqual(expect.arrayContaining(['dev', 'staging', 'prod', 'qa2']));
+    expect(envConfig.qa2.chain).toEqual(['qa2', 'staging']);
+    expect(getDspBaseUrl('qa2')).toBe(envConfig.staging.dspBaseUrl);
+    expect(() => getDspBaseUrl('preview')).toThrow('Invalid environment: preview (defined in config/environments:');
+  });
+
+  test('should let <POD>_BASE_URL override pod URLs', () => {
+    const original = process.env.COLLECTIONS_BASE_URL;
+    process.env.COLLECTIONS_BASE_URL = 'http://127.0.0.1:4010';
+    try {
+      expect(getPodBaseUrl('collections', 'qa2')).toBe('http://127.0.0.1:4010');
+    } finally {
+      delete process.env.COLLECTIONS_BASE_URL;
+      if (original !== undefined) {
+        process.env.COLLECTIONS_BASE_URL = original;
+      }
+    }
+    expect(getPodBaseUrl('collections', 'qa2')).toBe(process.env.VOLT_BASE_URL || envConfig.qa2.baseUrl);
+  });
+});
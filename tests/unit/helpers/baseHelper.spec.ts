@@ -8,6 +8,8 @@
 import { test, expect } from '@playwright/test';
 import { APIRequestContext } from '@playwright/test';
 import { BaseHelper } from '../../../helpers/base/baseHelper';
+import { HttpMethod, QueryParams, RequestSigner } from '../../../types/api.types';
+import { createFakeRequest } from '../support/fakeRequest';
 
 /**
  * Concrete implementation of BaseHelper for testing purposes
@@ -22,8 +24,8 @@ class TestHelper extends BaseHelper {
   }
 
   // Expose protected methods for testing
-  public testBuildUrl(endpoint: string, params?: Record<string, string>): string {
-    return this.buildUrl(endpoint, params);
+  public testBuildUrl(endpoint: string, params?: QueryParams, baseUrl?: string): string {
+    return this.buildUrl(endpoint, params, baseUrl);
   }
 
   public testBuildHeaders(additionalHeaders?: Record<string, string>): Record<string, string> {
@@ -37,6 +39,10 @@ class TestHelper extends BaseHelper {
   public async testParseResponse(response: any): Promise<any> {
     return this.parseResponse(response);
   }
+
+  public async testMakeRequest(method: HttpMethod, endpoint: string, options: any = {}) {
+    return this.makeRequest(method, endpoint, options);
+  }
 }
 
 test.describe('BaseHelper - buildUrl', { tag: '@FrameworkCheckTests' }, () => {
@@ -82,8 +88,13 @@ test.describe('BaseHelper - buildUrl', { tag: '@FrameworkCheckTests' }, () => {
     const result = testHelper.testBuildUrl(endpoint, params);
     
     expect(result).toContain(endpoint);
-    // Empty params object still adds '?' but no parameters
-    // This is acceptable behavior from URLSearchParams
+    expect(result).not.toContain('?');
+  });
+
+  test('should merge params into a query string already in the endpoint', async () => {
+    const result = testHelper.testBuildUrl('/api/users?page=1&sort=name', { page: 2, active: true }, 'https://other.example.com');
+    
+    expect(result).toBe('https://other.example.com/api/users?sort=name&page=2&active=true');
   });
 
   test('should URL encode special characters in query parameters', async () => {
@@ -95,6 +106,12 @@ test.describe('BaseHelper - buildUrl', { tag: '@FrameworkCheckTests' }, () => {
     expect(result).toContain('query=hello+world');
     expect(result).toContain('filter=type%3Duser');
   });
+
+  test('should use base URL override when provided', async () => {
+    const result = testHelper.testBuildUrl('/api/users', { page: '1' }, 'https://other.example.com');
+    
+    expect(result).toBe('https://other.example.com/api/users?page=1');
+  });
 });
 
 test.describe('BaseHelper - buildHeaders', { tag: '@FrameworkCheckTests' }, () => {
@@ -196,12 +213,25 @@ test.describe('BaseHelper - replacePathParams', { tag: '@FrameworkCheckTests' },
     expect(result).toBe('/api/users');
   });
 
-  test('should leave unreplaced parameters if not in params object', async () => {
+  test('should reject parameters missing from params object', async () => {
     const endpoint = '/api/users/{userId}/posts/{postId}';
     const params = { userId: '123' };
+    
+    expect(() => testHelper.testReplacePathParams(endpoint, params))
+      .toThrow('Invalid path params for /api/users/{userId}/posts/{postId}: missing postId');
+  });
+
+  test('should not take values from Object.prototype', async () => {
+    expect(() => testHelper.testReplacePathParams('/api/{constructor}', {}))
+      .toThrow('Invalid path params for /api/{constructor}: missing constructor');
+  });
+
+  test('should encode values and replace repeated parameters', async () => {
+    const endpoint = '/api/client/auth/requestOtp/v2/{phoneNo}/{phoneNo}';
+    const params = { phoneNo: '+91 83/44' };
     const result = testHelper.testReplacePathParams(endpoint, params);
     
-    expect(result).toBe('/api/users/123/posts/{postId}');
+    expect(result).toBe('/api/client/auth/requestOtp/v2/%2B91%2083%2F44/%2B91%2083%2F44');
   });
 
   test('should handle numeric parameter values', async () => {
@@ -358,3 +388,80 @@ test.describe('BaseHelper - parseResponse', { tag: '@FrameworkCheckTests' }, ()
     expect(Array.isArray(result)).toBe(true);
   });
 });
+
+test.describe('BaseHelper - makeRequest', { tag: '@FrameworkCheckTests' }, () => {
+  test('should send request to base URL override', async () => {
+    const { request, calls } = createFakeRequest({ body: { received: true } });
+    const testHelper = new TestHelper(request);
+
+    const response = await testHelper.testMakeRequest('GET', '/api/items', {
+      baseUrl: 'https://dsp.example.com'
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ received: true });
+    expect(calls).toHaveLength(1);
+    expect(calls[0].url).toBe('https://dsp.example.com/api/items');
+  });
+
+  test('should merge signer headers into the outgoing request', async () => {
+    const { request, calls } = createFakeRequest({ body: { received: true } });
+    const testHelper = new TestHelper(request);
+    const seen: any[] = [];
+    const signer: RequestSigner = (req) => {
+      seen.push(req);
+      return { 'X-Signature': `signed:${JSON.stringify(req.data)}` };
+    };
+
+    await testHelper.testMakeRequest('POST', '/api/items', {
+      data: { id: 1 },
+      headers: { 'X-Custom': 'value' },
+      signer
+    });
+
+    expect(seen).toHaveLength(1);
+    expect(seen[0].method).toBe('POST');
+    expect(seen[0].url).toContain('/api/items');
+    expect(seen[0].headers['X-Custom']).toBe('value');
+    expect(calls[0].options.headers['X-Signature']).toBe('signed:{"id":1}');
+    expect(calls[0].options.headers['X-Custom']).toBe('value');
+  });
+
+  test('should pass undefined body to signer for GET requests', async () => {
+    const { request } = createFakeRequest({ body: { received: true } });
+    const testHelper = new TestHelper(request);
+    let signedData: any = 'not-called';
+
+    await testHelper.testMakeRequest('GET', '/api/items', {
+      signer: (req: any) => {
+        signedData = req.data;
+        return {};
+      }
+    });
+
+    expect(signedData).toBeUndefined();
+  });
+
+  test('should capture timing and payload sizes', async () => {
+    const { request } = createFakeRequest({ body: { received: true } });
+    const testHelper = new TestHelper(request);
+
+    const response = await testHelper.testMakeRequest('POST', '/api/items', { data: { id: 1 } });
+
+    expect(response.timing).toBeDefined();
+    expect(response.timing!.durationMs).toBeGreaterThanOrEqual(0);
+    expect(response.timing!.requestSizeBytes).toBe(JSON.stringify({ id: 1 }).length);
+    expect(response.timing!.responseSizeBytes).toBe('{"received":true}'.length);
+  });
+
+  test('should pass per-request timeout to the request context', async () => {
+    const { request, calls } = createFakeRequest({ body: { received: true } });
+    const testHelper = new TestHelper(request);
+
+    await testHelper.testMakeRequest('GET', '/api/items', { timeout: 1234 });
+    await testHelper.testMakeRequest('GET', '/api/items');
+
+    expect(calls[0].options.timeout).toBe(1234);
+    expect(calls[1].options.timeout).toBeUndefined();
+  });
+});
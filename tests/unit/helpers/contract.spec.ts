@@ -0,0 +1,290 @@
+/**
+ * Unit Tests for consumer-driven contracts
+ *
+ * Tests route matching, recording with provider states and generators, matching rules,
+ * merging into contract files, linking reused IDs and verifying the DSP mock against a
+ * recorded contract
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { test, expect } from '../../../mocks/fixtures';
+import { REDACTED_JWT } from '../../../helpers/base/cassette';
+import {
+  ContractRecorder,
+  MOCK_CONTRACT_TARGET,
+  buildMatchingRules,
+  createContractInterceptor,
+  getContractMode,
+  linkCapturedValues,
+  matchContractBody,
+  matchEndpoint
+} from '../../../helpers/base/contract';
+import { ContractVerifier } from '../../../helpers/base/contractVerifier';
+import { LoanAccountCreationHelper } from '../../../helpers/los/loanAccountCreationHelper';
+import { overrideEnv } from '../../../mocks/mockServer';
+import { ApiRequest, ApiResponse } from '../../../types/api.types';
+import loanAccountData from '../../../testdata/los/loanAccountCreation.json';
+
+test.use({ mockDsp: true });
+
+const BASE = 'https://api.staging.dspfin.com';
+
+function apiResponse(body: any, status: number = 200): ApiResponse {
+  return { status, headers: { 'content-type': 'application/json; charset=utf-8' }, body, ok: status < 300 };
+}
+
+test.describe('matchEndpoint', { tag: '@FrameworkCheckTests' }, () => {
+  test('should find registry routes with decoded path params', () => {
+    const otp = matchEndpoint('GET', 'https://api.voltmoney.in/api/client/auth/requestOtp/v2/%2B919876543210?enableWhatsapp=true');
+    expect(otp?.endpoint.name).toBe('los.auth.requestOtp');
+    expect(otp?.pathParams).toEqual({ phoneNo: '+919876543210' });
+
+    expect(matchEndpoint('GET', `${BASE}/los/api/v1/utility/kyc/UTL00000002`)?.endpoint.name).toBe('los.loanAccountCreation.getKycUtility');
+    expect(matchEndpoint('POST', 'https://api.voltmoney.in/api/client/auth/verifyOtp/')?.endpoint.name).toBe('los.auth.verifyOtp');
+    expect(matchEndpoint('DELETE', 'https://api.voltmoney.in/api/client/auth/verifyOtp/')).toBeUndefined();
+    expect(matchEndpoint('GET', 'https://api.voltmoney.in/api/lms/payments/PAY1', ['los'])).toBeUndefined();
+  });
+});
+
+test.describe('ContractRecorder', { tag: '@FrameworkCheckTests' }, () => {
+  test('should record request shape, provider states, generators and matching rules', () => {
+    const recorder = new ContractRecorder();
+    const request: ApiRequest = {
+      method: 'POST',
+      url: 'https://api.voltmoney.in/api/client/auth/verifyOtp/',
+      headers: { 'Content-Type': 'application/json', 'X-Signature': 'abc', 'Authorization': 'Bearer x', 'x-appmode': 'INVESTOR_VIEW' },
+      data: { phoneNo: '+919876543210', otp: '222222', selfie: 'A'.repeat(2000) }
+    };
+    recorder.given('an OTP was requested for the phone number', { phoneNo: '+919876543210' });
+    recorder.record(request, apiResponse({ status: 'SUCCESS', jwt: 'eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.c2ln' }));
+
+    const [contract] = recorder.getContracts();
+    expect(contract.provider.name).toBe('volt-api');
+    const [interaction] = contract.interactions;
+    expect(interaction.description).toBe('los.auth.verifyOtp returns 200');
+    expect(interaction.providerStates).toEqual([{ name: 'an OTP was requested for the phone number', params: { phoneNo: '+919876543210' } }]);
+    expect(interaction.request.headers).toEqual({ 'Content-Type': 'application/json', 'x-appmode': 'INVESTOR_VIEW' });
+    expect(interaction.request.body).toEqual({ phoneNo: '+919876543210', otp: '[REDACTED]', selfie: '[OMITTED: 2000 characters]' });
+    expect(interaction.request.generators?.body).toEqual({
+      '$.otp': { type: 'ProviderState', expression: '${otp}' },
+      '$.selfie': { type: 'ProviderState', expression: '${selfie}' }
+    });
+    expect(interaction.response.headers).toEqual({ 'Content-Type': 'application/json' });
+    expect(interaction.response.body.jwt).toBe(REDACTED_JWT);
+    expect(interaction.response.matchingRules?.body).toEqual({
+      '$.status': { matchers: [{ match: 'equality' }] },
+      '$.jwt': { matchers: [{ match: 'regex', regex: '^[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+\\.[A-Za-z0-9_-]+$' }] }
+    });
+  });
+
+  test('should keep secrets out of paths, bodies, provider states and responses', () => {
+    const restoreEnv = overrideEnv({ LOS_PHONE_NO: '+919000000001' });
+    try {
+      const recorder = new ContractRecorder();
+      recorder.record(
+        { method: 'GET', url: 'https://api.voltmoney.in/api/client/auth/requestOtp/v2/%2B919000000001?enableWhatsapp=true', headers: {} },
+        apiResponse({ status: 'SUCCESS' })
+      );
+      recorder.given('the borrower is logged in', { phoneNo: '+919000000001' });
+      recorder.record(
+        { method: 'POST', url: 'https://api.voltmoney.in/app/borrower/user', headers: {}, data: { phoneNo: '+919000000001' } },
+        apiResponse({ user: { phoneNumber: '+919000000001', state: 'ACTIVE' } })
+      );
+
+      const [requestOtp, getUserData] = recorder.getContracts()[0].interactions;
+      expect(JSON.stringify([requestOtp, getUserData])).not.toContain('9000000001');
+      expect(requestOtp.request.path).toBe('/api/client/auth/requestOtp/v2/%5BREDACTED%5D');
+      expect(requestOtp.request.generators?.path?.expression).toBe('/api/client/auth/requestOtp/v2/${LOS_PHONE_NO}');
+      expect(getUserData.providerStates).toEqual([{ name: 'the borrower is logged in', params: { phoneNo: '${LOS_PHONE_NO}' } }]);
+      expect(getUserData.request.body).toEqual({ phoneNo: '[REDACTED]' });
+      expect(getUserData.request.generators?.body).toEqual({ '$.phoneNo': { type: 'ProviderState', expression: '${LOS_PHONE_NO}' } });
+      expect(getUserData.response.body.user.phoneNumber).toBe('[REDACTED]');
+    } finally {
+      restoreEnv();
+    }
+  });
+
+  test('should keep the last response of a polled route and separate described variants', () => {
+    const recorder = new ContractRecorder();
+    const interceptor = createContractInterceptor(recorder);
+    const get: ApiRequest = { method: 'GET', url: `${BASE}/los/api/v1/utility/kyc/UTL00000002?imageType=base64`, headers: {} };
+    interceptor.onResponse!(apiResponse({ status: 'IN_PROGRESS' }), get);
+    interceptor.onResponse!(apiResponse({ status: 'APPROVED' }), get);
+    recorder.uponReceiving('a KYC utility read for an unknown reference');
+    interceptor.onResponse!(apiResponse({ errorCode: 'UTILITY_NOT_FOUND' }, 404), get);
+    interceptor.onResponse!(apiResponse({}), { method: 'GET', url: 'https://example.com/health', headers: {} });
+
+    const [contract] = recorder.getContracts();
+    expect(contract.provider.name).toBe('dsp-api');
+    expect(contract.interactions.map(interaction => interaction.description)).toEqual([
+      'los.loanAccountCreation.getKycUtility returns 200',
+      'a KYC utility read for an unknown reference returns 404'
+    ]);
+    expect(contract.interactions[0].response.body).toEqual({ status: 'APPROVED' });
+    expect(contract.interactions[0].request).toMatchObject({
+      path: '/los/api/v1/utility/kyc/UTL00000002',
+      query: { imageType: ['base64'] },
+      generators: { path: { type: 'ProviderState', expression: '/los/api/v1/utility/kyc/${utilityReferenceId}' } }
+    });
+  });
+
+  test('should merge recorded interactions into existing contract files', () => {
+    const directory = test.info().outputPath('contracts');
+    const record = (status: string, description?: string) => {
+      const recorder = new ContractRecorder({ directory });
+      if (description) {
+        recorder.uponReceiving(description);
+      }
+      recorder.record({ method: 'GET', url: `${BASE}/los/api/v1/utility/kyc/UTL1`, headers: {} }, apiResponse({ status }));
+      return recorder.save();
+    };
+
+    const [filePath] = record('IN_PROGRESS');
+    record('APPROVED');
+    record('IN_PROGRESS', 'a second read');
+
+    expect(path.basename(filePath)).toBe('playwright-api-framework-dsp-api.json');
+    const contract = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    expect(contract.metadata.pactSpecification.version).toBe('3.0.0');
+    expect(contract.interactions.map((interaction: any) => [interaction.description, interaction.response.body.status])).toEqual([
+      ['los.loanAccountCreation.getKycUtility returns 200', 'APPROVED'],
+      ['a second read returns 200', 'IN_PROGRESS']
+    ]);
+  });
+
+  test('should record where a contract comes from and not mix targets in one file', () => {
+    const directory = test.info().outputPath('contracts');
+    const record = (targets: Record<string, string>) => {
+      const recorder = new ContractRecorder({ directory, targets });
+      recorder.record({ method: 'GET', url: `${BASE}/los/api/v1/utility/kyc/UTL1`, headers: {} }, apiResponse({ status: 'APPROVED' }));
+      return recorder.save();
+    };
+
+    const [filePath] = record({ dsp: MOCK_CONTRACT_TARGET });
+
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf8')).metadata.recordedAgainst).toBe('mock');
+    expect(() => record({ dsp: 'staging' })).toThrow(`${filePath} was recorded against mock, not staging; delete it to re-record the whole contract`);
+  });
+});
+
+test.describe('linkCapturedValues', { tag: '@FrameworkCheckTests' }, () => {
+  test('should capture IDs that later requests reuse and fill them in through generators', () => {
+    const recorder = new ContractRecorder();
+    const post = (route: string, data: any): ApiRequest => ({ method: 'POST', url: `${BASE}/los/api/v1/${route}`, headers: {}, data });
+    recorder.record(post('opportunity', { pan: 'ABCDE1234F' }), apiResponse({ opportunityId: 'OPP1' }));
+    recorder.record(post('utility/kyc/init', { opportunityId: 'OPP1' }), apiResponse({ opportunityId: 'OPP1', utilityReferenceId: 'UTL2' }));
+    recorder.record({ method: 'GET', url: `${BASE}/los/api/v1/utility/kyc/UTL2`, headers: {} }, apiResponse({ utilityReferenceId: 'UTL2' }));
+    recorder.record(post('opportunity/OPP1/submit', { submittedDataList: [{ referenceId: 'UTL2' }, { referenceId: 'UTL9' }] }), apiResponse({}));
+
+    const linked = linkCapturedValues(recorder.getContracts()[0].interactions);
+    expect(linked.map(interaction => interaction.response.captures)).toEqual([
+      { 'createOpportunity.opportunityId': '$.opportunityId' },
+      { 'kycUtilityInit.utilityReferenceId': '$.utilityReferenceId' },
+      undefined,
+      undefined
+    ]);
+    expect(linked[1].request.generators).toEqual({ body: { '$.opportunityId': { type: 'ProviderState', expression: '${createOpportunity.opportunityId}' } } });
+    expect(linked[2].request.generators?.path?.expression).toBe('/los/api/v1/utility/kyc/${kycUtilityInit.utilityReferenceId}');
+    expect(linked[3].request.generators).toEqual({
+      path: { type: 'ProviderState', expression: '/los/api/v1/opportunity/${createOpportunity.opportunityId}/submit', dataType: 'STRING' },
+      body: { '$.submittedDataList[0].referenceId': { type: 'ProviderState', expression: '${kycUtilityInit.utilityReferenceId}' } }
+    });
+    expect(linkCapturedValues(linked)).toEqual(linked);
+  });
+});
+
+test.describe('matchContractBody', { tag: '@FrameworkCheckTests' }, () => {
+  test('should match by type, number, pattern and equality and report every mismatch path', () => {
+    const example = {
+      status: 'APPROVED',
+      createdAt: '2026-10-19T10:15:30Z',
+      totalAssetValue: 1349999.7,
+      assets: [{ isin: 'INF178L01020', nav: 100 }],
+      fenixLoanAccountId: null
+    };
+    const rules = buildMatchingRules(example);
+    expect(rules['$.assets']).toEqual({ matchers: [{ match: 'type', min: 1 }] });
+    expect(rules['$.assets[*].nav']).toEqual({ matchers: [{ match: 'number' }] });
+
+    const conforming = { ...example, createdAt: '2027-01-01T00:00:00.000Z', totalAssetValue: 5, extra: true,
+      assets: [{ isin: 'X', nav: 1.5 }, { isin: 'Y', nav: 2 }] };
+    expect(matchContractBody(example, conforming, rules)).toEqual([]);
+
+    const broken = { status: 'REJECTED', createdAt: 'yesterday', totalAssetValue: '5', assets: [{ isin: 'X', nav: 1 }, { nav: 2 }], fenixLoanAccountId: 'F1' };
+    expect(matchContractBody(example, broken, rules)).toEqual([
+      '$.status: expected "APPROVED", got "REJECTED"',
+      '$.createdAt: expected a string matching /^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}:\\d{2}(\\.\\d+)?(Z|[+-]\\d{2}:?\\d{2})?$/, got "yesterday"',
+      '$.totalAssetValue: expected a number, got "5"',
+      '$.assets[1].isin: missing',
+      '$.fenixLoanAccountId: expected null, got "F1"'
+    ]);
+    expect(matchContractBody(example, { ...example, assets: [] }, rules)).toEqual(['$.assets: expected at least 1 item(s), got 0']);
+  });
+});
+
+test.describe('getContractMode', { tag: '@FrameworkCheckTests' }, () => {
+  test('should default to off and reject unknown modes', () => {
+    expect(getContractMode(undefined)).toBe('off');
+    expect(getContractMode('RECORD')).toBe('record');
+    expect(() => getContractMode('replay')).toThrow('Invalid CONTRACT_MODE: replay (expected off or record)');
+  });
+});
+
+test.describe('ContractVerifier', { tag: '@FrameworkCheckTests' }, () => {
+  test('should pass against the provider it was recorded from and report drift', async ({ request, dspMockServer }) => {
+    const recorder = new ContractRecorder();
+    const loanHelper = new LoanAccountCreationHelper(request);
+    loanHelper.addInterceptor(createContractInterceptor(recorder));
+    const channel = loanAccountData.common.sourcingChannelCode;
+    const user = loanAccountData.userDetails.automationMockUser;
+    await loanHelper.clientDedupeCheck({ pan: user.pan, ...loanAccountData.clientDedupeCheck.request }, channel);
+    const opportunity = await loanHelper.createOpportunity(
+      { pan: user.pan, phoneNumber: user.phone, ...loanAccountData.createOpportunity.request }, channel);
+    const kyc = await loanHelper.kycUtilityInit(
+      { opportunityId: opportunity.body.opportunityId, ...loanAccountData.kycUtilityInit.request }, channel);
+    recorder.given('the KYC utility exists', { utilityReferenceId: kyc.body.utilityReferenceId });
+    await loanHelper.getKycUtility(kyc.body.utilityReferenceId, 'base64', channel);
+    const [contract] = recorder.getContracts();
+
+    dspMockServer!.reset();
+    const verifier = new ContractVerifier(request);
+    const report = await verifier.verify(contract);
+    expect(report.results.map(result => result.mismatches)).toEqual([[], [], [], []]);
+    expect(report).toMatchObject({ consumer: 'playwright-api-framework', provider: 'dsp-api', passed: true, baseUrl: dspMockServer!.getUrl() });
+
+    const drifted = JSON.parse(JSON.stringify(contract));
+    drifted.interactions[0].response.body.isDuplicate = 'no';
+    drifted.interactions[3].providerStates[0].params.utilityReferenceId = 'UTL-UNKNOWN';
+    const driftReport = await verifier.verify(drifted);
+    expect(driftReport.passed).toBe(false);
+    expect(driftReport.results[0].mismatches).toEqual(['$.isDuplicate: expected string, got boolean false']);
+    expect(driftReport.results[3].mismatches).toEqual(['status: expected 200, got 404']);
+  });
+
+  test('should replay reused IDs with the ones the provider returns', async ({ request, dspMockServer }) => {
+    const recorder = new ContractRecorder();
+    const loanHelper = new LoanAccountCreationHelper(request);
+    loanHelper.addInterceptor(createContractInterceptor(recorder));
+    const channel = loanAccountData.common.sourcingChannelCode;
+    const user = loanAccountData.userDetails.automationMockUser;
+    const createOpportunity = () => loanHelper.createOpportunity(
+      { pan: user.pan, phoneNumber: user.phone, ...loanAccountData.createOpportunity.request }, channel);
+    const opportunity = await createOpportunity();
+    const kyc = await loanHelper.kycUtilityInit(
+      { opportunityId: opportunity.body.opportunityId, ...loanAccountData.kycUtilityInit.request }, channel);
+    recorder.given('the KYC utility exists', { utilityReferenceId: kyc.body.utilityReferenceId });
+    await loanHelper.getKycUtility(kyc.body.utilityReferenceId, 'base64', channel);
+    const contract = { ...recorder.getContracts()[0] };
+    contract.interactions = linkCapturedValues(contract.interactions);
+
+    // The provider hands out other IDs than the recorded ones
+    dspMockServer!.reset();
+    await createOpportunity();
+    const stateParams: Record<string, any>[] = [];
+    const verifier = new ContractVerifier(request, { stateHandlers: { 'the KYC utility exists': params => { stateParams.push(params); } } });
+    const report = await verifier.verify(contract);
+    expect(report.results.map(result => result.mismatches)).toEqual([[], [], []]);
+    expect(stateParams).toEqual([{ utilityReferenceId: expect.not.stringMatching(`^${kyc.body.utilityReferenceId}$`) }]);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Unit Tests for the interceptor chain
+ *
+ * Tests ordering, short-circuiting, error recovery and the built-in interceptors
+ */
+
+import { test, expect } from '@playwright/test';
+import { APIRequestContext } from '@playwright/test';
+import { BaseHelper } from '../../../helpers/base/baseHelper';
+import {
+  registerGlobalInterceptor,
+  clearGlobalInterceptors,
+  createCorrelationIdInterceptor,
+  createMaskingInterceptor
+} from '../../../helpers/base/interceptors';
+import { ApiRequest, HttpMethod, Interceptor } from '../../../types/api.types';
+import { createFakeRequest } from '../support/fakeRequest';
+
+/**
+ * Concrete implementation of BaseHelper for testing purposes
+ */
+class TestHelper extends BaseHelper {
+  constructor(request: APIRequestContext) {
+    super(request, 'test');
+  }
+
+  async login(): Promise<void> {
+    // No-op for testing
+  }
+
+  public async testMakeRequest(method: HttpMethod, endpoint: string, options: any = {}) {
+    return this.makeRequest(method, endpoint, options);
+  }
+}
+
+/** Body returned by the fake request context */
+const KYC_BODY = { pan: 'ABCDE1234F', status: 'APPROVED' };
+
+test.describe('BaseHelper - interceptors', { tag: '@FrameworkCheckTests' }, () => {
+  test.afterEach(() => {
+    clearGlobalInterceptors();
+  });
+
+  test('should run onRequest in registration order and onResponse in reverse', async () => {
+    const { request } = createFakeRequest({ body: KYC_BODY });
+    const helper = new TestHelper(request);
+    const order: string[] = [];
+    const track = (name: string): Interceptor => ({
+      name,
+      onRequest: () => { order.push(`${name}:request`); },
+      onResponse: () => { order.push(`${name}:response`); }
+    });
+
+    registerGlobalInterceptor(track('global'));
+    helper.addInterceptor(track('first'));
+    helper.addInterceptor(track('second'));
+    await helper.testMakeRequest('GET', '/api/items');
+
+    expect(order).toEqual([
+      'global:request', 'first:request', 'second:request',
+      'second:response', 'first:response', 'global:response'
+    ]);
+  });
+
+  test('should send the request returned by onRequest', async () => {
+    const { request, calls } = createFakeRequest({ body: KYC_BODY });
+    const helper = new TestHelper(request);
+    helper.addInterceptor({
+      onRequest: (req: ApiRequest) => ({ ...req, headers: { ...req.headers, 'X-Injected': 'yes' } })
+    });
+
+    await helper.testMakeRequest('POST', '/api/items', { data: { id: 1 } });
+
+    expect(calls[0].options.headers['X-Injected']).toBe('yes');
+  });
+
+  test('should short-circuit with a synthetic response', async () => {
+    const { request, calls } = createFakeRequest({ body: KYC_BODY });
+    const helper = new TestHelper(request);
+    helper.addInterceptor({
+      name: 'fault',
+      onRequest: () => ({ status: 503, headers: {}, body: { error: 'Service Unavailable' }, ok: false })
+    });
+
+    const response = await helper.testMakeRequest('GET', '/api/items');
+
+    expect(calls).toHaveLength(0);
+    expect(response.status).toBe(503);
+    expect(response.body).toEqual({ error: 'Service Unavailable' });
+  });
+
+  test('should let onResponse replace the response', async () => {
+    const { request } = createFakeRequest({ body: KYC_BODY });
+    const helper = new TestHelper(request);
+    helper.addInterceptor({
+      onResponse: (res) => ({ ...res, body: { ...res.body, patched: true } })
+    });
+
+    const response = await helper.testMakeRequest('GET', '/api/items');
+
+    expect(response.body.patched).toBe(true);
+    expect(response.body.status).toBe('APPROVED');
+  });
+
+  test('should rethrow errors not handled by onError', async () => {
+    const { request } = createFakeRequest({ fail: true });
+    const helper = new TestHelper(request);
+    const seen: string[] = [];
+    helper.addInterceptor({ onError: (error) => { seen.push(error.message); } });
+
+    await expect(helper.testMakeRequest('GET', '/api/items')).rejects.toThrow('ECONNREFUSED');
+    expect(seen).toEqual(['connect ECONNREFUSED']);
+  });
+
+  test('should recover when onError returns a response', async () => {
+    const { request } = createFakeRequest({ fail: true });
+    const helper = new TestHelper(request);
+    helper.addInterceptor({
+      onError: () => ({ status: 599, headers: {}, body: null, ok: false })
+    });
+
+    const response = await helper.testMakeRequest('GET', '/api/items');
+
+    expect(response.status).toBe(599);
+  });
+
+  test('should stop applying an interceptor once removed', async () => {
+    const { request, calls } = createFakeRequest({ body: KYC_BODY });
+    const helper = new TestHelper(request);
+    const remove = helper.addInterceptor(createCorrelationIdInterceptor('X-Correlation-Id', () => 'corr-1'));
+
+    await helper.testMakeRequest('GET', '/api/items');
+    remove();
+    await helper.testMakeRequest('GET', '/api/items');
+
+    expect(calls[0].options.headers['X-Correlation-Id']).toBe('corr-1');
+    expect(calls[1].options.headers['X-Correlation-Id']).toBeUndefined();
+  });
+});
+
+test.describe('Built-in interceptors', { tag: '@FrameworkCheckTests' }, () => {
+  const baseRequest: ApiRequest = {
+    method: 'POST',
+    url: 'https://example.com/api/items',
+    headers: { 'Content-Type': 'application/json' },
+    data: { pan: 'ABCDE1234F', nested: { PAN: 'ABCDE1234F', name: 'Test' } }
+  };
+
+  test('correlation ID interceptor should keep an existing header', async () => {
+    const interceptor = createCorrelationIdInterceptor('X-Correlation-Id', () => 'generated');
+    const pinned = { ...baseRequest, headers: { 'X-Correlation-Id': 'pinned' } };
+
+    const result = await interceptor.onRequest!(pinned) as ApiRequest;
+
+    expect(result.headers['X-Correlation-Id']).toBe('pinned');
+  });
+
+  test('masking interceptor should mask keys at any depth without mutating the input', () => {
+    const interceptor = createMaskingInterceptor(['pan', 'Content-Type']);
+
+    const entry = interceptor.onReport!({
+      request: baseRequest,
+      response: { status: 200, headers: {}, body: [{ pan: 'X' }], ok: true }
+    })!;
+
+    expect(entry.request.data).toEqual({ pan: '***', nested: { PAN: '***', name: 'Test' } });
+    expect(entry.request.headers['Content-Type']).toBe('***');
+    expect(entry.response!.body).toEqual([{ pan: '***' }]);
+    expect(baseRequest.data.pan).toBe('ABCDE1234F');
+  });
+});
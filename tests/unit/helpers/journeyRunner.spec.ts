@@ -0,0 +1,173 @@
+/**
+ * Unit Tests for JourneyRunner
+ *
+ * Tests step ordering, context capture, expectations, stop-on-failure,
+ * resuming from a named step and derived variants
+ */
+
+import { test, expect } from '@playwright/test';
+import { JourneyRunner, deriveJourney } from '../../../helpers/base/journeyRunner';
+import { ApiResponse } from '../../../types/api.types';
+import { JourneyDefinition } from '../../../types/journey.types';
+
+interface OrderContext {
+  customer: string;
+  orderId?: string;
+  paymentId?: string;
+}
+
+/**
+ * Helper stand-in recording the calls made by the journey
+ */
+class FakeOrderHelper {
+  calls: string[] = [];
+  failPayment = false;
+
+  async createOrder(customer: string): Promise<ApiResponse> {
+    this.calls.push(`createOrder:${customer}`);
+    return { status: 200, headers: {}, body: { orderId: 'ORD-1', status: 'CREATED' }, ok: true };
+  }
+
+  async pay(orderId: string): Promise<ApiResponse> {
+    this.calls.push(`pay:${orderId}`);
+    if (this.failPayment) {
+      return { status: 502, headers: {}, body: { message: 'Gateway down' }, ok: false };
+    }
+    return { status: 200, headers: {}, body: { paymentId: 'PAY-1', orderId, status: 'PAID' }, ok: true };
+  }
+
+  async ship(orderId: string, paymentId: string): Promise<ApiResponse> {
+    this.calls.push(`ship:${orderId}:${paymentId}`);
+    return { status: 200, headers: {}, body: { status: 'SHIPPED' }, ok: true };
+  }
+}
+
+const orderJourney: JourneyDefinition<OrderContext, FakeOrderHelper> = {
+  name: 'Order',
+  steps: [
+    {
+      name: 'createOrder',
+      run: (helper, context) => helper.createOrder(context.customer),
+      expect: { statusCode: 200, requiredFields: ['orderId'], fields: { status: 'CREATED' } },
+      capture: response => ({ orderId: response.body.orderId })
+    },
+    {
+      name: 'pay',
+      run: (helper, context) => helper.pay(context.orderId!),
+      expect: context => ({ statusCode: 200, fields: { orderId: context.orderId, status: 'PAID' } }),
+      capture: response => ({ paymentId: response.body.paymentId })
+    },
+    {
+      name: 'ship',
+      run: (helper, context) => helper.ship(context.orderId!, context.paymentId!),
+      expect: { statusCode: 200, fields: { status: 'SHIPPED' } }
+    }
+  ]
+};
+
+test.describe('JourneyRunner', { tag: '@FrameworkCheckTests' }, () => {
+  test('should run steps in order and capture values into the context', async () => {
+    const helper = new FakeOrderHelper();
+    const runner = new JourneyRunner(orderJourney, helper, { customer: 'alice' });
+
+    const context = await runner.run();
+
+    expect(helper.calls).toEqual(['createOrder:alice', 'pay:ORD-1', 'ship:ORD-1:PAY-1']);
+    expect(context).toEqual({ customer: 'alice', orderId: 'ORD-1', paymentId: 'PAY-1' });
+    expect(runner.getCompletedSteps()).toEqual(['createOrder', 'pay', 'ship']);
+    expect(runner.getResponse('ship')?.body.status).toBe('SHIPPED');
+  });
+
+  test('should stop at the first failing step and name it', async () => {
+    const helper = new FakeOrderHelper();
+    helper.failPayment = true;
+    const runner = new JourneyRunner(orderJourney, helper, { customer: 'alice' });
+
+    await expect(runner.run()).rejects.toThrow(
+      'Journey "Order" failed at step "pay": Expected status 200, but got 502'
+    );
+    expect(helper.calls).toEqual(['createOrder:alice', 'pay:ORD-1']);
+    expect(runner.getCompletedSteps()).toEqual(['createOrder']);
+    expect(runner.getContext().paymentId).toBeUndefined();
+  });
+
+  test('should resume from a named step with the context captured so far', async () => {
+    const helper = new FakeOrderHelper();
+    helper.failPayment = true;
+    const runner = new JourneyRunner(orderJourney, helper, { customer: 'alice' });
+    await runner.run().catch(() => undefined);
+
+    helper.failPayment = false;
+    await runner.run({ from: 'pay' });
+
+    expect(helper.calls).toEqual(['createOrder:alice', 'pay:ORD-1', 'pay:ORD-1', 'ship:ORD-1:PAY-1']);
+    expect(runner.getCompletedSteps()).toEqual(['createOrder', 'pay', 'ship']);
+  });
+
+  test('should resume a new runner from a provided context', async () => {
+    const helper = new FakeOrderHelper();
+    const runner = new JourneyRunner(orderJourney, helper, { customer: 'bob', orderId: 'ORD-9' });
+
+    await runner.run({ from: 'pay', until: 'pay' });
+
+    expect(helper.calls).toEqual(['pay:ORD-9']);
+    expect(runner.getContext().paymentId).toBe('PAY-1');
+  });
+
+  test('should fail a step when a custom verification throws', async () => {
+    const journey = deriveJourney(orderJourney, {
+      steps: {
+        ship: {
+          verify: () => {
+            throw new Error('Tracking number missing');
+          }
+        }
+      }
+    });
+    const runner = new JourneyRunner(journey, new FakeOrderHelper(), { customer: 'alice' });
+
+    await expect(runner.run()).rejects.toThrow('failed at step "ship": Tracking number missing');
+  });
+
+  test('should reject unknown step names', async () => {
+    const runner = new JourneyRunner(orderJourney, new FakeOrderHelper(), { customer: 'alice' });
+
+    await expect(runner.run({ from: 'refund' })).rejects.toThrow('Unknown step "refund" in journey "Order"');
+  });
+
+  test('should reject a from step after the until step', async () => {
+    const helper = new FakeOrderHelper();
+    const runner = new JourneyRunner(orderJourney, helper, { customer: 'alice' });
+
+    await expect(runner.run({ from: 'ship', until: 'pay' })).rejects.toThrow('Step "ship" comes after step "pay" in journey "Order"');
+    expect(helper.calls).toEqual([]);
+  });
+});
+
+test.describe('deriveJourney', { tag: '@FrameworkCheckTests' }, () => {
+  test('should skip steps without modifying the base journey', async () => {
+    const helper = new FakeOrderHelper();
+    const variant = deriveJourney(orderJourney, { name: 'Order without shipping', skip: ['ship'] });
+
+    await new JourneyRunner(variant, helper, { customer: 'alice' }).run();
+
+    expect(variant.name).toBe('Order without shipping');
+    expect(helper.calls).toEqual(['createOrder:alice', 'pay:ORD-1']);
+    expect(orderJourney.steps).toHaveLength(3);
+  });
+
+  test('should override step properties by name', async () => {
+    const helper = new FakeOrderHelper();
+    const variant = deriveJourney(orderJourney, {
+      steps: { createOrder: { run: h => h.createOrder('carol') } }
+    });
+
+    await new JourneyRunner(variant, helper, { customer: 'alice' }).run({ until: 'createOrder' });
+
+    expect(helper.calls).toEqual(['createOrder:carol']);
+  });
+
+  test('should reject variants naming unknown steps', () => {
+    expect(() => deriveJourney(orderJourney, { skip: ['refund'] })).toThrow('Unknown step "refund" in journey "Order"');
+  });
+});
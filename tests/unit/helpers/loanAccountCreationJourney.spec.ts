@@ -0,0 +1,100 @@
+/**
+ * Unit Tests for the loan account creation journey definition
+ *
+ * Tests step naming, variants and the final submission built from the context
+ */
+
+import { test, expect } from '@playwright/test';
+import { JourneyRunner, deriveJourney } from '../../../helpers/base/journeyRunner';
+import {
+  createLoanAccountCreationJourney,
+  createLoanAccountJourneyContext
+} from '../../../helpers/los/loanAccountCreationJourney';
+import { LoanAccountCreationHelper } from '../../../helpers/los/loanAccountCreationHelper';
+import loanAccountData from '../../../testdata/los/loanAccountCreation.json';
+
+/**
+ * LoanAccountCreationHelper stand-in recording submitOpportunity and bankUtilityInit payloads
+ */
+function createRecordingHelper() {
+  const payloads: Record<string, any> = {};
+  const helper = {
+    submitOpportunity: async (opportunityId: string, submitData: any) => {
+      payloads.submitOpportunity = { opportunityId, ...submitData };
+      return { status: 200, headers: {}, body: { opportunityId, status: 'SUBMITTED' }, ok: true };
+    },
+    bankUtilityInit: async (bankData: any) => {
+      payloads.bankUtilityInit = bankData;
+      return {
+        status: 200,
+        headers: {},
+        body: {
+          opportunityId: bankData.opportunityId,
+          utilityReferenceId: 'BANK-1',
+          status: 'APPROVED',
+          subStatus: 'BANK_ACCOUNT_VERIFICATION_SUCCESSFUL',
+          data: {},
+          verifierData: {},
+          webUrl: null,
+          fenixLoanAccountId: null
+        },
+        ok: true
+      };
+    }
+  } as unknown as LoanAccountCreationHelper;
+  return { helper, payloads };
+}
+
+test.describe('Loan account creation journey', { tag: '@FrameworkCheckTests' }, () => {
+  const journey = createLoanAccountCreationJourney();
+
+  test('should declare uniquely named steps in journey order', () => {
+    const names = journey.steps.map(step => step.name);
+
+    expect(new Set(names).size).toBe(names.length);
+    expect(names[0]).toBe('generateOffer');
+    expect(names[names.length - 1]).toBe('submitOpportunity');
+  });
+
+  test('should leave skipped utilities out of the submission', async () => {
+    const { helper, payloads } = createRecordingHelper();
+    const variant = deriveJourney(journey, { skip: ['initPhotoVerification', 'getPhotoVerification'] });
+    const context = createLoanAccountJourneyContext(undefined, {
+      opportunityId: 'OPP-1',
+      kycReferenceId: 'KYC-1',
+      bankUtilityReferenceId: 'BANK-1'
+    });
+
+    await new JourneyRunner(variant, helper, context).run({ from: 'submitOpportunity' });
+
+    expect(payloads.submitOpportunity.opportunityId).toBe('OPP-1');
+    expect(payloads.submitOpportunity.submittedDataList).toEqual([
+      { dataType: 'BANK_ACCOUNT', referenceId: 'BANK-1' },
+      { dataType: 'KYC', referenceId: 'KYC-1' }
+    ]);
+  });
+
+  test('should verify the bank account given in the context', async () => {
+    const { helper, payloads } = createRecordingHelper();
+    const otherBank = { ...loanAccountData.bankUtilityInit.request, bankAccountNumber: '000111222333', ifscCode: 'HDFC0000001' };
+    const runner = new JourneyRunner(
+      journey,
+      helper,
+      createLoanAccountJourneyContext(undefined, { opportunityId: 'OPP-1', bankAccount: otherBank })
+    );
+
+    await runner.run({ from: 'bankUtilityInit', until: 'bankUtilityInit' });
+
+    expect(payloads.bankUtilityInit).toEqual({ opportunityId: 'OPP-1', ...otherBank });
+    expect(runner.getContext().bankUtilityReferenceId).toBe('BANK-1');
+  });
+
+  test('should fail with the missing context value when resuming too late', async () => {
+    const { helper } = createRecordingHelper();
+    const runner = new JourneyRunner(journey, helper, createLoanAccountJourneyContext());
+
+    await expect(runner.run({ from: 'submitOpportunity' })).rejects.toThrow(
+      'failed at step "submitOpportunity": Journey context is missing opportunityId'
+    );
+  });
+});
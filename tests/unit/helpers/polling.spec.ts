@@ -0,0 +1,103 @@
+/**
+ * Unit Tests for pollUntil
+ *
+ * Tests success, terminal failure states, timeout history and backoff
+ */
+
+import { test, expect } from '@playwright/test';
+import { pollUntil, formatPollHistory } from '../../../helpers/base/polling';
+import { ApiResponse } from '../../../types/api.types';
+
+/**
+ * Fetcher returning a scripted sequence of utility statuses
+ */
+function createStatusFetcher(statuses: { status: string; subStatus?: string }[]) {
+  let calls = 0;
+  const fetcher = async (): Promise<ApiResponse> => {
+    const next = statuses[Math.min(calls, statuses.length - 1)];
+    calls++;
+    return { status: 200, headers: {}, body: { ...next }, ok: true };
+  };
+  return { fetcher, getCalls: () => calls };
+}
+
+test.describe('pollUntil', { tag: '@FrameworkCheckTests' }, () => {
+  test('should return immediately when the first response satisfies the predicate', async () => {
+    const { fetcher, getCalls } = createStatusFetcher([{ status: 'APPROVED' }]);
+
+    const response = await pollUntil(fetcher, res => res.body.status === 'APPROVED', { intervalMs: 1 });
+
+    expect(response.body.status).toBe('APPROVED');
+    expect(getCalls()).toBe(1);
+  });
+
+  test('should keep polling until the status transitions', async () => {
+    const { fetcher, getCalls } = createStatusFetcher([
+      { status: 'IN_PROGRESS', subStatus: 'IN_PROGRESS' },
+      { status: 'IN_PROGRESS', subStatus: 'IN_PROGRESS' },
+      { status: 'APPROVED', subStatus: 'MANDATE_SUCCESS' }
+    ]);
+
+    const response = await pollUntil(fetcher, res => res.body.status === 'APPROVED', { intervalMs: 1 });
+
+    expect(response.body.subStatus).toBe('MANDATE_SUCCESS');
+    expect(getCalls()).toBe(3);
+  });
+
+  test('should fail fast on a terminal failure state', async () => {
+    const { fetcher, getCalls } = createStatusFetcher([
+      { status: 'IN_PROGRESS' },
+      { status: 'REJECTED', subStatus: 'KYC_FAILED' },
+      { status: 'APPROVED' }
+    ]);
+
+    await expect(
+      pollUntil(fetcher, res => res.body.status === 'APPROVED', {
+        intervalMs: 1,
+        failureStates: ['REJECTED'],
+        description: 'KYC utility'
+      })
+    ).rejects.toThrow(/Polling for KYC utility reached failure state REJECTED after 2 poll\(s\)/);
+    expect(getCalls()).toBe(2);
+  });
+
+  test('should time out with the full status history', async () => {
+    const { fetcher } = createStatusFetcher([{ status: 'IN_PROGRESS', subStatus: 'VALIDATION_PENDING' }]);
+
+    const error = await pollUntil(fetcher, res => res.body.status === 'APPROVED', {
+      timeoutMs: 50,
+      intervalMs: 10
+    }).catch(e => e);
+
+    expect(error.message).toMatch(/Polling for condition timed out after \d+ms/);
+    expect(error.message).toContain('#1 ');
+    expect(error.message).toContain('status=IN_PROGRESS subStatus=VALIDATION_PENDING');
+  });
+
+  test('should grow the interval by the backoff factor', async () => {
+    const timestamps: number[] = [];
+    const fetcher = async (): Promise<ApiResponse> => {
+      timestamps.push(Date.now());
+      return { status: 200, headers: {}, body: { status: 'IN_PROGRESS' }, ok: true };
+    };
+
+    await pollUntil(fetcher, () => timestamps.length === 3, { intervalMs: 20, backoffFactor: 3 });
+
+    expect(timestamps[1] - timestamps[0]).toBeGreaterThanOrEqual(15);
+    expect(timestamps[2] - timestamps[1]).toBeGreaterThanOrEqual(50);
+  });
+});
+
+test.describe('formatPollHistory', { tag: '@FrameworkCheckTests' }, () => {
+  test('should render one line per observation', () => {
+    const text = formatPollHistory([
+      { attempt: 1, elapsedMs: 0, httpStatus: 200, status: 'IN_PROGRESS' },
+      { attempt: 2, elapsedMs: 1000, httpStatus: 503 }
+    ]);
+
+    expect(text.split('\n')).toEqual([
+      '  #1 +0ms HTTP 200 status=IN_PROGRESS subStatus=-',
+      '  #2 +1000ms HTTP 503 status=- subStatus=-'
+    ]);
+  });
+});
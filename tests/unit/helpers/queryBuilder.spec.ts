@@ -0,0 +1,31 @@
+/**
+ * Unit Tests for the query builder
+ *
+ * Tests value stringification, array formats, skipped values and merging with existing query strings
+ */
+
+import { test, expect } from '@playwright/test';
+import { appendQuery, buildQueryString } from '../../../helpers/base/queryBuilder';
+
+test.describe('Query builder', { tag: '@FrameworkCheckTests' }, () => {
+  test('should stringify numbers and booleans and skip undefined and null', () => {
+    expect(buildQueryString({ page: 2, enableWhatsapp: true, draft: false, status: undefined, sort: null }))
+      .toBe('page=2&enableWhatsapp=true&draft=false');
+    expect(buildQueryString({})).toBe('');
+  });
+
+  test('should write arrays as repeated keys or comma-separated values', () => {
+    expect(buildQueryString({ status: ['SUCCESS', 'FAILED'], page: 1 })).toBe('status=SUCCESS&status=FAILED&page=1');
+    expect(buildQueryString({ status: ['SUCCESS', 'FAILED'], ids: [1, 2] }, 'comma')).toBe('status=SUCCESS,FAILED&ids=1,2');
+    expect(buildQueryString({ tags: ['a,b', 'c d'] }, 'comma')).toBe('tags=a%2Cb,c+d');
+    expect(buildQueryString({ status: [] })).toBe('');
+  });
+
+  test('should merge with an existing query string, replacing keys it sets', () => {
+    expect(appendQuery('/api/items?page=1&sort=name', { page: 2, limit: 10 })).toBe('/api/items?sort=name&page=2&limit=10');
+    expect(appendQuery('/api/items?filter=a%20b&page=1', { page: undefined })).toBe('/api/items?filter=a%20b&page=1');
+    expect(appendQuery('/api/items?status=A&status=B', { status: ['C'] })).toBe('/api/items?status=C');
+    expect(appendQuery('/api/items#top', { q: 'x y' })).toBe('/api/items?q=x+y#top');
+    expect(appendQuery('/api/items?', {})).toBe('/api/items');
+  });
+});
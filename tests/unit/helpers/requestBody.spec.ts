@@ -0,0 +1,89 @@
+/**
+ * Unit Tests for request body encoding
+ *
+ * Tests form, multipart and binary bodies, their Content-Type in BaseHelper.makeRequest
+ * and loading images/documents from testdata/
+ */
+
+import { test, expect, APIRequestContext } from '@playwright/test';
+import { BaseHelper } from '../../../helpers/base/baseHelper';
+import { encodeMultipart, encodeRequestBody } from '../../../helpers/base/requestBody';
+import { loadTestAsset } from '../../../utils/testDataLoader';
+import { HttpMethod } from '../../../types/api.types';
+import { createFakeRequest } from '../support/fakeRequest';
+
+/**
+ * Concrete implementation of BaseHelper for testing purposes
+ */
+class TestHelper extends BaseHelper {
+  constructor(request: APIRequestContext) {
+    super(request, 'test');
+  }
+
+  async login(): Promise<void> {
+    // No-op for testing
+  }
+
+  public async testMakeRequest(method: HttpMethod, endpoint: string, options: any = {}) {
+    return this.makeRequest(method, endpoint, options);
+  }
+}
+
+test.describe('Request body encoding', { tag: '@FrameworkCheckTests' }, () => {
+  test('should encode form bodies and reject more than one body option', () => {
+    expect(encodeRequestBody({ form: { grant_type: 'password', scope: ['read', 'write'], remember: true } })).toEqual({
+      data: 'grant_type=password&scope=read&scope=write&remember=true',
+      contentType: 'application/x-www-form-urlencoded'
+    });
+    expect(encodeRequestBody({ data: { a: 1 } })).toEqual({ data: { a: 1 }, contentType: 'application/json' });
+    expect(() => encodeRequestBody({ data: { a: 1 }, form: { a: 1 } }))
+      .toThrow('Only one of data, form, multipart and binary may be set (got data, form)');
+  });
+
+  test('should encode multipart fields and file parts from disk and Buffer', () => {
+    const { data, contentType } = encodeMultipart({
+      opportunityId: 'OPP-1',
+      consent: true,
+      skipped: undefined,
+      document: { path: 'testdata/lms/testdata.json' },
+      photo: { buffer: Buffer.from([0x89, 0x50, 0x4e, 0x47]), name: 'user "photo".png' }
+    }, 'BOUNDARY');
+    const body = (data as Buffer).toString('latin1');
+
+    expect(contentType).toBe('multipart/form-data; boundary=BOUNDARY');
+    expect(body.startsWith('--BOUNDARY\r\nContent-Disposition: form-data; name="opportunityId"\r\n\r\nOPP-1\r\n')).toBe(true);
+    expect(body).toContain('name="consent"\r\n\r\ntrue\r\n');
+    expect(body).not.toContain('skipped');
+    expect(body).toContain('name="document"; filename="testdata.json"\r\nContent-Type: application/json\r\n\r\n{');
+    expect(body).toContain('name="photo"; filename="user %22photo%22.png"\r\nContent-Type: image/png\r\n\r\n\x89PNG\r\n');
+    expect(body.endsWith('--BOUNDARY--\r\n')).toBe(true);
+  });
+
+  test('should send each body type with its Content-Type', async () => {
+    const { request, calls } = createFakeRequest();
+    const helper = new TestHelper(request);
+
+    await helper.testMakeRequest('POST', '/api/form', { form: { a: 'b c' } });
+    await helper.testMakeRequest('POST', '/api/upload', { multipart: { file: { buffer: Buffer.from('x'), name: 'a.pdf' } } });
+    await helper.testMakeRequest('PUT', '/api/binary', { binary: Buffer.from([1, 2, 3]) });
+    await helper.testMakeRequest('PUT', '/api/image', { binary: Buffer.from([1]), headers: { 'content-type': 'image/png' } });
+
+    expect(calls[0].options).toMatchObject({ data: 'a=b+c', headers: { 'Content-Type': 'application/x-www-form-urlencoded' } });
+    expect(calls[1].options.headers['Content-Type']).toMatch(/^multipart\/form-data; boundary=\S+$/);
+    expect(calls[1].options.data.toString()).toContain('Content-Type: application/pdf');
+    expect(calls[2].options).toMatchObject({ data: Buffer.from([1, 2, 3]), headers: { 'Content-Type': 'application/octet-stream' } });
+    expect(calls[3].options.headers).toEqual(expect.objectContaining({ 'content-type': 'image/png' }));
+    expect(calls[3].options.headers['Content-Type']).toBeUndefined();
+  });
+
+  test('should load test assets as base64 or bytes', () => {
+    const base64 = loadTestAsset('testdata/los/base64Image.txt', 'base64');
+    const bytes = loadTestAsset('los/base64Image.txt', 'bytes');
+
+    expect(base64).not.toMatch(/^(url\()?data:/);
+    expect(bytes.subarray(0, 4)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    expect(bytes.toString('base64')).toBe(base64);
+    expect(loadTestAsset('lms/testdata.json', 'bytes').toString('utf-8')).toContain('{');
+    expect(() => loadTestAsset('../package.json', 'bytes')).toThrow('is outside');
+  });
+});
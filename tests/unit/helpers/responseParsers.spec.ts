@@ -0,0 +1,91 @@
+/**
+ * Unit Tests for the response parser registry
+ *
+ * Tests media type lookup, vendor JSON types, binary and empty bodies and malformed JSON errors
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  ResponseParseError,
+  getMediaType,
+  parseResponseBody,
+  readResponseBody,
+  registerResponseParser
+} from '../../../helpers/base/responseParsers';
+
+/**
+ * Fake APIResponse with a content type and raw body
+ */
+function fakeResponse(contentType: string | undefined, raw: string | Buffer, status: number = 200) {
+  const bytes = Buffer.isBuffer(raw) ? raw : Buffer.from(raw, 'utf8');
+  return {
+    headers: (): Record<string, string> => (contentType === undefined ? {} : { 'content-type': contentType }),
+    text: async () => bytes.toString('utf8'),
+    body: async () => bytes,
+    status: () => status
+  };
+}
+
+test.describe('Response parsers', { tag: '@FrameworkCheckTests' }, () => {
+  test('should parse JSON, vendor +json and problem+json bodies', async () => {
+    expect(getMediaType('Application/Problem+JSON; charset=utf-8')).toBe('application/problem+json');
+    expect(await parseResponseBody(fakeResponse('application/json; charset=utf-8', '{"id":1}'))).toEqual({ id: 1 });
+    expect(await parseResponseBody(fakeResponse('application/vnd.volt.loan.v2+json', '{"status":"ACTIVE"}')))
+      .toEqual({ status: 'ACTIVE' });
+    expect(await parseResponseBody(fakeResponse('application/problem+json', '{"title":"Not Found","status":404}', 404)))
+      .toEqual({ title: 'Not Found', status: 404 });
+  });
+
+  test('should return XML and unknown types as text and PDFs and images as Buffers', async () => {
+    const pdf = Buffer.from([0x25, 0x50, 0x44, 0x46, 0x2d, 0xe2, 0xe3]);
+
+    expect(await parseResponseBody(fakeResponse('application/xml', '<kfs id="1"/>'))).toBe('<kfs id="1"/>');
+    expect(await parseResponseBody(fakeResponse('application/atom+xml', '<feed/>'))).toBe('<feed/>');
+    expect(await parseResponseBody(fakeResponse(undefined, 'plain'))).toBe('plain');
+    expect(await parseResponseBody(fakeResponse('application/pdf', pdf))).toEqual(pdf);
+    expect(Buffer.isBuffer(await parseResponseBody(fakeResponse('image/png', pdf)))).toBe(true);
+  });
+
+  test('should handle empty 204 bodies without throwing', async () => {
+    expect(await parseResponseBody(fakeResponse('application/json', '', 204))).toBeUndefined();
+    expect(await parseResponseBody(fakeResponse(undefined, '', 204))).toBeUndefined();
+    expect(await parseResponseBody(fakeResponse('text/plain', ''))).toBeUndefined();
+    expect(await parseResponseBody(fakeResponse('application/pdf', Buffer.alloc(0)))).toBeUndefined();
+  });
+
+  test('should report malformed JSON with the raw text', async () => {
+    const error = await parseResponseBody(fakeResponse('application/json', '<html>Bad Gateway</html>', 502))
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ResponseParseError);
+    expect(error).toMatchObject({ mediaType: 'application/json', rawText: '<html>Bad Gateway</html>', status: 502 });
+    expect(error.message).toMatch(/^Malformed JSON in application\/json response \(status 502\): .+\n<html>Bad Gateway<\/html>$/);
+  });
+
+  test('should read the raw body once and report its size', async () => {
+    const response = fakeResponse('application/json', '{"name":"Zoë"}');
+    let reads = 0;
+    const counted = {
+      ...response,
+      body: async () => {
+        reads++;
+        return await response.body();
+      },
+      text: async () => {
+        reads++;
+        return await response.text();
+      }
+    };
+
+    expect(await readResponseBody(counted)).toEqual({ body: { name: 'Zoë' }, sizeBytes: 15 });
+    expect(reads).toBe(1);
+    expect(await readResponseBody({ headers: () => ({}), text: async () => 'ü' })).toEqual({ body: 'ü', sizeBytes: 2 });
+  });
+
+  test('should use registered parsers for custom media types', async () => {
+    registerResponseParser('text/csv', async response => (await response.text()).split('\n').map(line => line.split(',')));
+
+    expect(await parseResponseBody(fakeResponse('text/csv', 'id,amount\nPAY-1,100')))
+      .toEqual([['id', 'amount'], ['PAY-1', '100']]);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Unit Tests for the retry policy
+ *
+ * Tests policy resolution, backoff computation and retries inside makeRequest
+ */
+
+import { test, expect } from '@playwright/test';
+import { APIRequestContext } from '@playwright/test';
+import { BaseHelper } from '../../../helpers/base/baseHelper';
+import {
+  DEFAULT_RETRY_POLICY,
+  computeRetryDelay,
+  getEffectiveRetryPolicy,
+  parseRetryAfter,
+  resolveRetryPolicy
+} from '../../../helpers/base/retryPolicy';
+import { ResponseParseError } from '../../../helpers/base/responseParsers';
+import { getPodConfig } from '../../../utils/testDataLoader';
+import { HttpMethod } from '../../../types/api.types';
+import { createFakeRequest } from '../support/fakeRequest';
+
+/**
+ * Concrete implementation of BaseHelper for testing purposes
+ */
+class TestHelper extends BaseHelper {
+  constructor(request: APIRequestContext) {
+    super(request, 'test');
+  }
+
+  async login(): Promise<void> {
+    // No-op for testing
+  }
+
+  public async testMakeRequest(method: HttpMethod, endpoint: string, options: any = {}) {
+    return this.makeRequest(method, endpoint, options);
+  }
+}
+
+test.describe('Retry policy resolution', { tag: '@FrameworkCheckTests' }, () => {
+  test('should derive max attempts from pod test data retries', () => {
+    const policy = resolveRetryPolicy(getPodConfig('los'));
+
+    expect(policy.maxAttempts).toBe(3);
+    expect(policy.retryableStatuses).toEqual(DEFAULT_RETRY_POLICY.retryableStatuses);
+  });
+
+  test('should disable retries when pod has no test data', () => {
+    expect(resolveRetryPolicy(getPodConfig('unknown-pod')).maxAttempts).toBe(1);
+  });
+
+  test('should apply retryPolicy overrides from config', () => {
+    const policy = resolveRetryPolicy({ timeout: 1000, retries: 1, retryPolicy: { retryableStatuses: [500] } });
+
+    expect(policy.maxAttempts).toBe(2);
+    expect(policy.retryableStatuses).toEqual([500]);
+  });
+
+  test('should not retry POST unless explicitly allowed', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, maxAttempts: 3 };
+
+    expect(getEffectiveRetryPolicy('POST', policy).maxAttempts).toBe(1);
+    expect(getEffectiveRetryPolicy('PATCH', policy).maxAttempts).toBe(1);
+    expect(getEffectiveRetryPolicy('GET', policy).maxAttempts).toBe(3);
+    expect(getEffectiveRetryPolicy('POST', policy, { retryNonIdempotent: true }).maxAttempts).toBe(3);
+    expect(getEffectiveRetryPolicy('GET', policy, false).maxAttempts).toBe(1);
+  });
+});
+
+test.describe('Retry delay computation', { tag: '@FrameworkCheckTests' }, () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 1000, jitter: 0.5 };
+
+  test('should grow exponentially and respect the maximum', () => {
+    const noJitter = () => 0;
+
+    expect(computeRetryDelay(policy, 1, undefined, noJitter)).toBe(100);
+    expect(computeRetryDelay(policy, 2, undefined, noJitter)).toBe(200);
+    expect(computeRetryDelay(policy, 3, undefined, noJitter)).toBe(400);
+    expect(computeRetryDelay(policy, 10, undefined, noJitter)).toBe(1000);
+  });
+
+  test('should apply jitter within the configured fraction', () => {
+    expect(computeRetryDelay(policy, 2, undefined, () => 0.999)).toBeGreaterThanOrEqual(100);
+    expect(computeRetryDelay(policy, 2, undefined, () => 0.999)).toBeLessThan(200);
+  });
+
+  test('should honour Retry-After seconds and cap it', () => {
+    const response = (value: string) => ({ status: 429, headers: { 'retry-after': value }, body: null, ok: false });
+
+    expect(computeRetryDelay(policy, 1, response('2'))).toBe(2000);
+    expect(computeRetryDelay(policy, 1, response('120'))).toBe(policy.maxRetryAfterMs);
+  });
+
+  test('should parse Retry-After HTTP dates', () => {
+    const now = Date.parse('2024-01-15T10:00:00Z');
+
+    expect(parseRetryAfter('Mon, 15 Jan 2024 10:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('not a date', now)).toBeUndefined();
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+  });
+});
+
+test.describe('BaseHelper - makeRequest retries', { tag: '@FrameworkCheckTests' }, () => {
+  test('should retry retryable statuses until success', async () => {
+    const { request, calls } = createFakeRequest({ script: [{ status: 503 }, { status: 502 }, { status: 200 }] });
+    const helper = new TestHelper(request);
+    helper.setRetryPolicy({ maxAttempts: 3, baseDelayMs: 1 });
+
+    const response = await helper.testMakeRequest('GET', '/api/items');
+
+    expect(response.status).toBe(200);
+    expect(calls.length).toBe(3);
+  });
+
+  test('should return the last response once attempts are exhausted', async () => {
+    const { request, calls } = createFakeRequest({ script: [{ status: 503 }] });
+    const helper = new TestHelper(request);
+    helper.setRetryPolicy({ maxAttempts: 2, baseDelayMs: 1 });
+
+    const response = await helper.testMakeRequest('GET', '/api/items');
+
+    expect(response.status).toBe(503);
+    expect(calls.length).toBe(2);
+  });
+
+  test('should retry network errors', async () => {
+    const { request, calls } = createFakeRequest({ script: ['error', { status: 200 }] });
+    const helper = new TestHelper(request);
+    helper.setRetryPolicy({ maxAttempts: 2, baseDelayMs: 1 });
+
+    const response = await helper.testMakeRequest('GET', '/api/items');
+
+    expect(response.status).toBe(200);
+    expect(calls.length).toBe(2);
+  });
+
+  test('should not retry errors that are not transport failures', async () => {
+    const malformed = createFakeRequest({ script: [{ raw: '{"attempt":' }, { status: 200 }] });
+    const parsing = new TestHelper(malformed.request);
+    parsing.setRetryPolicy({ maxAttempts: 3, baseDelayMs: 1 });
+    await expect(parsing.testMakeRequest('GET', '/api/items')).rejects.toThrow(ResponseParseError);
+    expect(malformed.calls.length).toBe(1);
+
+    const scripted = createFakeRequest({ script: [{ status: 200 }] });
+    const intercepted = new TestHelper(scripted.request);
+    intercepted.setRetryPolicy({ maxAttempts: 3, baseDelayMs: 1 });
+    let interceptorCalls = 0;
+    intercepted.addInterceptor({
+      onRequest: () => {
+        interceptorCalls++;
+        throw new Error('No cassette interaction matches GET /api/items');
+      }
+    });
+    await expect(intercepted.testMakeRequest('GET', '/api/items')).rejects.toThrow('No cassette interaction matches');
+    expect(interceptorCalls).toBe(1);
+  });
+
+  test('should not retry non-retryable statuses', async () => {
+    const { request, calls } = createFakeRequest({ script: [{ status: 400 }, { status: 200 }] });
+    const helper = new TestHelper(request);
+    helper.setRetryPolicy({ maxAttempts: 3, baseDelayMs: 1 });
+
+    const response = await helper.testMakeRequest('GET', '/api/items');
+
+    expect(response.status).toBe(400);
+    expect(calls.length).toBe(1);
+  });
+
+  test('should only retry POST when the request allows it', async () => {
+    const first = createFakeRequest({ script: [{ status: 503 }, { status: 200 }] });
+    const guarded = new TestHelper(first.request);
+    guarded.setRetryPolicy({ maxAttempts: 2, baseDelayMs: 1 });
+    expect((await guarded.testMakeRequest('POST', '/api/items', { data: {} })).status).toBe(503);
+
+    const second = createFakeRequest({ script: [{ status: 503 }, { status: 200 }] });
+    const allowed = new TestHelper(second.request);
+    allowed.setRetryPolicy({ maxAttempts: 2, baseDelayMs: 1 });
+    const response = await allowed.testMakeRequest('POST', '/api/items', {
+      data: {},
+      retry: { retryNonIdempotent: true }
+    });
+    expect(response.status).toBe(200);
+  });
+
+  test('should re-run the signer for every attempt', async () => {
+    const { request } = createFakeRequest({ script: [{ status: 503 }, { status: 200 }] });
+    const helper = new TestHelper(request);
+    helper.setRetryPolicy({ maxAttempts: 2, baseDelayMs: 1 });
+    let signatures = 0;
+
+    await helper.testMakeRequest('GET', '/api/items', {
+      signer: () => ({ 'X-Signature': String(++signatures) })
+    });
+
+    expect(signatures).toBe(2);
+  });
+});
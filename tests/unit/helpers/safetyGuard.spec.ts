@@ -0,0 +1,94 @@
+/**
+ * Unit Tests for the environment safety guard
+ *
+ * Tests endpoint categories, policy decisions and blocking in BaseHelper.makeRequest
+ */
+
+import { test, expect, APIRequestContext } from '@playwright/test';
+import { BaseHelper } from '../../../helpers/base/baseHelper';
+import { PROD_SAFE_TAG, evaluateSafety, resolveEndpointCategory } from '../../../helpers/base/safetyGuard';
+import { envConfig } from '../../../config/envconfig';
+import { HttpMethod } from '../../../types/api.types';
+import { createFakeRequest } from '../support/fakeRequest';
+
+/**
+ * Concrete implementation of BaseHelper for testing purposes
+ */
+class TestHelper extends BaseHelper {
+  constructor(request: APIRequestContext) {
+    super(request, 'test');
+  }
+
+  async login(): Promise<void> {
+    // No-op for testing
+  }
+
+  public async testMakeRequest(method: HttpMethod, endpoint: string, options: any = {}) {
+    return this.makeRequest(method, endpoint, options);
+  }
+}
+
+test.describe('Safety guard', { tag: '@FrameworkCheckTests' }, () => {
+  const prod = envConfig.prod;
+
+  test('should resolve endpoint categories from endpoints.json', () => {
+    expect(resolveEndpointCategory('https://api.example.com/api/lms/payments/PAY-1')).toBe('lms.payments');
+    expect(resolveEndpointCategory('https://api.example.com/api/client/auth/verifyOtp')).toBe('los.auth');
+    expect(resolveEndpointCategory('https://api.example.com/api/los/loans/L-1?expand=true')).toBe('los.loans');
+    expect(resolveEndpointCategory('https://api.example.com/api/unknown')).toBeUndefined();
+  });
+
+  test('should keep prod read-only apart from login', () => {
+    expect(evaluateSafety('GET', 'https://api.example.com/api/lms/payments', prod)).toMatchObject({ allowed: true });
+    expect(evaluateSafety('POST', 'https://api.example.com/api/lms/auth/login', prod, 'lms'))
+      .toMatchObject({ allowed: true, category: 'lms.auth' });
+    expect(evaluateSafety('DELETE', 'https://api.example.com/api/los/loans/L-1', prod, 'los')).toEqual({
+      allowed: false,
+      category: 'los.loans',
+      reason: 'DELETE /api/los/loans/L-1 (los.loans) is not allowed in prod (allowed methods: GET; '
+        + `allowed categories: los.auth, lms.auth). Tag the test ${PROD_SAFE_TAG} to opt in`
+    });
+    expect(evaluateSafety('DELETE', 'https://api.example.com/api/los/loans/L-1', prod, 'los', [PROD_SAFE_TAG]))
+      .toMatchObject({ allowed: true, reason: `DELETE /api/los/loans/L-1 (los.loans): test is tagged ${PROD_SAFE_TAG}` });
+    expect(evaluateSafety('DELETE', 'https://api.example.com/api/los/loans/L-1', envConfig.dev))
+      .toMatchObject({ allowed: true, reason: 'DELETE /api/los/loans/L-1 (los.loans): no safety policy for dev' });
+  });
+
+  test.describe('in prod', () => {
+    let originalEnv: string | undefined;
+
+    test.beforeEach(() => {
+      originalEnv = process.env.TEST_ENV;
+      process.env.TEST_ENV = 'prod';
+    });
+
+    test.afterEach(() => {
+      if (originalEnv === undefined) {
+        delete process.env.TEST_ENV;
+      } else {
+        process.env.TEST_ENV = originalEnv;
+      }
+    });
+
+    test('should block writes before they are sent', async () => {
+      const { request, calls } = createFakeRequest({ status: 201, body: { id: 'PAY-000001' } });
+      const helper = new TestHelper(request);
+
+      await expect(helper.testMakeRequest('POST', '/api/lms/payments', { data: { amount: 1 } }))
+        .rejects.toThrow('Blocked by safety guard: POST /api/lms/payments (lms.payments) is not allowed in prod');
+      await helper.testMakeRequest('GET', '/api/lms/payments');
+
+      expect(calls).toHaveLength(1);
+    });
+
+    test('should let tests tagged @prod-safe opt in', { tag: PROD_SAFE_TAG }, async () => {
+      const { request, calls } = createFakeRequest({ status: 201, body: { id: 'PAY-000001' } });
+      const helper = new TestHelper(request);
+
+      const response = await helper.testMakeRequest('POST', '/api/lms/payments', { data: { amount: 1 } });
+
+      expect(response.status).toBe(201);
+      expect(calls).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Unit Tests for DspMockServer
+ *
+ * Tests signature verification, stateful utility transitions and the full
+ * loan account creation journey against the mock
+ */
+
+import { test, expect } from '../../../mocks/fixtures';
+import { DSP_MOCK_SECRET_KEY, DspMockServer } from '../../../mocks/dspMockServer';
+import { LoanAccountCreationHelper } from '../../../helpers/los/loanAccountCreationHelper';
+import { JourneyRunner } from '../../../helpers/base/journeyRunner';
+import {
+  createLoanAccountCreationJourney,
+  createLoanAccountJourneyContext
+} from '../../../helpers/los/loanAccountCreationJourney';
+import { generateDspAuthHeaders, generateSignature } from '../../../utils/dspAuth';
+import { CreateOpportunityRequest } from '../../../types/loanAccountCreation.types';
+import { getDspSecretKey } from '../../../config/envconfig';
+import endpoints from '../../../config/endpoints.json';
+import loanAccountData from '../../../testdata/los/loanAccountCreation.json';
+
+test.use({ mockDsp: true });
+
+const routes = endpoints.los.loanAccountCreation;
+
+/**
+ * Headers for a correctly signed DSP request
+ */
+function signedHeaders(body?: any): Record<string, string> {
+  return { ...generateDspAuthHeaders(DSP_MOCK_SECRET_KEY, body), 'X-SourcingChannelCode': 'DSP-UAT' };
+}
+
+test.describe('DspMockServer - signature verification', { tag: '@FrameworkCheckTests' }, () => {
+  test('should accept correctly signed POST and GET requests', async ({ request, dspMockServer }) => {
+    const body = { pan: 'DGFPG2249H', productShortName: 'LAS' };
+    const post = await request.post(`${dspMockServer!.getUrl()}${routes.clientDedupeCheck}`, {
+      data: body,
+      headers: signedHeaders(body)
+    });
+    expect(post.status()).toBe(200);
+    expect((await post.json()).isDuplicate).toBe(false);
+
+    const get = await request.get(`${dspMockServer!.getUrl()}/los/api/v1/utility/kyc/UNKNOWN`, {
+      headers: signedHeaders()
+    });
+    expect(get.status()).toBe(404);
+    expect((await get.json()).errorCode).toBe('UTILITY_NOT_FOUND');
+  });
+
+  test('should reject a signature computed over a different body', async ({ request, dspMockServer }) => {
+    const response = await request.post(`${dspMockServer!.getUrl()}${routes.clientDedupeCheck}`, {
+      data: { pan: 'DGFPG2249H' },
+      headers: signedHeaders({ pan: 'EIWPK5700B' })
+    });
+
+    expect(response.status()).toBe(401);
+    expect(await response.json()).toEqual({
+      errorCode: 'INVALID_SIGNATURE',
+      message: 'Signature verification failed'
+    });
+  });
+
+  test('should reject missing and stale authentication headers', async ({ request, dspMockServer }) => {
+    const url = `${dspMockServer!.getUrl()}${routes.clientDedupeCheck}`;
+    const body = { pan: 'DGFPG2249H' };
+
+    const missing = await request.post(url, { data: body, headers: { 'X-SourcingChannelCode': 'DSP-UAT' } });
+    expect(missing.status()).toBe(401);
+    expect((await missing.json()).errorCode).toBe('UNAUTHORIZED');
+
+    const staleTimestamp = '20200101000000';
+    const stale = await request.post(url, {
+      data: body,
+      headers: {
+        'X-Timestamp': staleTimestamp,
+        'X-Signature': generateSignature(staleTimestamp, DSP_MOCK_SECRET_KEY, body),
+        'X-SourcingChannelCode': 'DSP-UAT'
+      }
+    });
+    expect(stale.status()).toBe(401);
+    expect((await stale.json()).errorCode).toBe('TIMESTAMP_EXPIRED');
+  });
+
+  test('should export its secret as DSP_SECRET_KEY while running', async ({ dspMockServer }) => {
+    expect(getDspSecretKey()).toBe(DSP_MOCK_SECRET_KEY);
+    expect(dspMockServer!.getCredentials()).toEqual({ DSP_SECRET_KEY: DSP_MOCK_SECRET_KEY });
+  });
+
+  test('should reject signatures made with another secret', async ({ request }) => {
+    const server = new DspMockServer({ secretKey: 'another-secret' });
+    const url = await server.start();
+    try {
+      const body = { pan: 'DGFPG2249H' };
+      const response = await request.post(`${url}${routes.clientDedupeCheck}`, { data: body, headers: signedHeaders(body) });
+      expect(response.status()).toBe(401);
+    } finally {
+      await server.stop();
+    }
+  });
+});
+
+test.describe('DspMockServer - state', { tag: '@FrameworkCheckTests' }, () => {
+  test('should move KYC from IN_PROGRESS to APPROVED after pending polls', async ({ request, dspMockServer }) => {
+    const helper = new LoanAccountCreationHelper(request);
+    const opportunity = await helper.createOpportunity({ pan: 'DGFPG2249H', phoneNumber: '7583042531', product: 'LAS' });
+    const init = await helper.kycUtilityInit({ opportunityId: opportunity.body.opportunityId, redirectionUrl: 'https://www.voltmoney.in' });
+    expect(init.body.status).toBe('IN_PROGRESS');
+
+    const first = await helper.getKycUtility(init.body.utilityReferenceId);
+    const second = await helper.getKycUtility(init.body.utilityReferenceId);
+
+    expect(first.body.status).toBe('IN_PROGRESS');
+    expect(second.body.status).toBe('APPROVED');
+    expect(dspMockServer!.getUtility(init.body.utilityReferenceId)?.status).toBe('APPROVED');
+  });
+
+  test('should return validation and not-found errors', async ({ request }) => {
+    const helper = new LoanAccountCreationHelper(request);
+
+    const invalid = await helper.createOpportunity({ pan: 'DGFPG2249H' } as CreateOpportunityRequest);
+    expect(invalid.status).toBe(400);
+    expect(invalid.body).toEqual({ errorCode: 'VALIDATION_ERROR', message: 'phoneNumber is required' });
+
+    const unknown = await helper.kycUtilityInit({ opportunityId: 'OPP-UNKNOWN', redirectionUrl: 'https://www.voltmoney.in' });
+    expect(unknown.status).toBe(404);
+    expect(unknown.body).toMatchObject({ errorCode: 'OPPORTUNITY_NOT_FOUND' });
+  });
+
+  test('should complete the loan account creation journey offline', async ({ request, dspMockServer }) => {
+    const journey = createLoanAccountCreationJourney({
+      ...loanAccountData,
+      common: { ...loanAccountData.common, polling: { ...loanAccountData.common.polling, intervalMs: 10 } }
+    });
+    const runner = new JourneyRunner(journey, new LoanAccountCreationHelper(request), createLoanAccountJourneyContext());
+
+    const context = await runner.run();
+
+    expect(runner.getCompletedSteps()).toHaveLength(journey.steps.length);
+    expect(dspMockServer!.getOpportunity(context.opportunityId!)?.status).toBe('SUBMITTED');
+  });
+});
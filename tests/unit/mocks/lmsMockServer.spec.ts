@@ -0,0 +1,119 @@
+/**
+ * Unit Tests for LmsMockServer
+ *
+ * Tests token auth, payment pagination and filters, and account validation
+ */
+
+import { test, expect, APIRequestContext } from '@playwright/test';
+import { LMS_MOCK_EMAIL, LMS_MOCK_PASSWORD, LmsMockServer } from '../../../mocks/lmsMockServer';
+
+test.describe('LmsMockServer', { tag: '@FrameworkCheckTests' }, () => {
+  let server: LmsMockServer;
+  let url: string;
+  let headers: Record<string, string>;
+
+  /**
+   * Create a payment and return its ID
+   */
+  async function createPayment(request: APIRequestContext, overrides: Record<string, any> = {}): Promise<string> {
+    const response = await request.post(`${url}/api/lms/payments`, {
+      headers,
+      data: { accountId: 'ACC-12345', amount: 100, paymentDate: '2024-01-15', paymentMethod: 'ACH', ...overrides }
+    });
+    expect(response.status()).toBe(201);
+    return (await response.json()).id;
+  }
+
+  test.beforeEach(async ({ request }) => {
+    server = new LmsMockServer();
+    url = await server.start();
+    const login = await request.post(`${url}/api/lms/auth/login`, {
+      data: { email: LMS_MOCK_EMAIL, password: LMS_MOCK_PASSWORD }
+    });
+    headers = { Authorization: `Bearer ${(await login.json()).token}` };
+  });
+
+  test.afterEach(async () => {
+    await server?.stop();
+  });
+
+  test('should reject wrong credentials and requests without a valid token', async ({ request }) => {
+    const login = await request.post(`${url}/api/lms/auth/login`, { data: { email: LMS_MOCK_EMAIL, password: 'wrong' } });
+    expect(login.status()).toBe(401);
+    expect(await login.json()).toEqual({ error: 'Invalid credentials', code: 'AUTH_FAILED' });
+
+    expect((await request.get(`${url}/api/lms/accounts/ACC-12345`)).status()).toBe(401);
+
+    await request.post(`${url}/api/lms/auth/logout`, { headers });
+    expect((await request.get(`${url}/api/lms/accounts/ACC-12345`, { headers })).status()).toBe(401);
+  });
+
+  test('should store payments and reduce the account balance', async ({ request }) => {
+    const id = await createPayment(request, { amount: 1500 });
+
+    const response = await request.get(`${url}/api/lms/payments/${id}`, { headers });
+
+    expect(response.status()).toBe(200);
+    expect((await response.json()).amount).toBe(1500);
+    expect(server.getAccount('ACC-12345')?.outstandingBalance).toBe(248500);
+    expect((await request.get(`${url}/api/lms/payments/PAY-999999`, { headers })).status()).toBe(404);
+  });
+
+  test('should list every invalid payment field', async ({ request }) => {
+    const response = await request.post(`${url}/api/lms/payments`, {
+      headers,
+      data: { accountId: 'ACC-00000', amount: -5, paymentDate: '15/01/2024', paymentMethod: 'CASH' }
+    });
+
+    expect(response.status()).toBe(400);
+    expect((await response.json()).details.map((detail: any) => detail.field))
+      .toEqual(['accountId', 'amount', 'paymentDate', 'paymentMethod']);
+  });
+
+  test('should paginate and filter payments', async ({ request }) => {
+    await createPayment(request, { amount: 100, paymentMethod: 'ACH' });
+    await createPayment(request, { amount: 200, paymentMethod: 'UPI' });
+    await createPayment(request, { amount: 300, paymentMethod: 'ACH', paymentDate: '2024-02-01' });
+
+    const page = await request.get(`${url}/api/lms/payments?page=2&pageSize=2`, { headers });
+    expect(await page.json()).toHaveLength(1);
+    expect(page.headers()['x-total-count']).toBe('3');
+
+    const filtered = await request.get(`${url}/api/lms/payments?paymentMethod=ACH&minAmount=150`, { headers });
+    expect((await filtered.json()).map((payment: any) => payment.amount)).toEqual([300]);
+
+    const byDate = await request.get(`${url}/api/lms/payments?toDate=2024-01-31`, { headers });
+    expect(await byDate.json()).toHaveLength(2);
+
+    expect((await request.get(`${url}/api/lms/payments?pageSize=500`, { headers })).status()).toBe(400);
+  });
+
+  test('should validate account updates', async ({ request }) => {
+    const invalid = await request.put(`${url}/api/lms/accounts/ACC-12345`, {
+      headers,
+      data: { status: 'archived', contactEmail: 'not-an-email', id: 'ACC-1' }
+    });
+    expect(invalid.status()).toBe(400);
+    expect((await invalid.json()).details).toHaveLength(3);
+
+    const valid = await request.put(`${url}/api/lms/accounts/ACC-12345`, {
+      headers,
+      data: { status: 'suspended', contactEmail: 'updated@example.com' }
+    });
+    expect((await valid.json()).status).toBe('suspended');
+
+    const payment = await request.post(`${url}/api/lms/payments`, {
+      headers,
+      data: { accountId: 'ACC-12345', amount: 10, paymentDate: '2024-01-15', paymentMethod: 'ACH' }
+    });
+    expect(payment.status()).toBe(409);
+  });
+
+  test('should restore the seeded account on reset', async ({ request }) => {
+    await request.put(`${url}/api/lms/accounts/ACC-12345`, { headers, data: { status: 'closed' } });
+
+    server.reset();
+
+    expect(server.getAccount('ACC-12345')?.status).toBe('active');
+  });
+});
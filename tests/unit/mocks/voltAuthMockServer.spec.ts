@@ -0,0 +1,111 @@
+/**
+ * Unit Tests for VoltAuthMockServer
+ *
+ * Tests the OTP login flow, OTP expiry and attempt limits, and token checks
+ */
+
+import { test, expect } from '../../../mocks/fixtures';
+import { VOLT_MOCK_OTP, VOLT_MOCK_PHONE_NO, VoltAuthMockServer } from '../../../mocks/voltAuthMockServer';
+import { LOSHelper } from '../../../helpers/los/losHelper';
+import { getSecret } from '../../../utils/secrets';
+
+test.use({ mockVoltAuth: true });
+
+test.describe('VoltAuthMockServer - login flow', { tag: '@FrameworkCheckTests' }, () => {
+  test('should complete LOSHelper.login against the mock', async ({ request }) => {
+    const helper = new LOSHelper(request);
+
+    await helper.login();
+
+    expect(helper.getAuthToken().split('.')).toHaveLength(3);
+  });
+
+  test('should export its phone number and OTP as LOS_PHONE_NO and LOS_OTP while running', async () => {
+    expect(getSecret('LOS_PHONE_NO')).toBe(VOLT_MOCK_PHONE_NO);
+    expect(getSecret('LOS_OTP')).toBe(VOLT_MOCK_OTP);
+  });
+
+  test('should return the linked borrower accounts for the logged in user', async ({ request }) => {
+    const helper = new LOSHelper(request);
+    await helper.requestOtp(VOLT_MOCK_PHONE_NO);
+    const verify = await helper.verifyOtp(VOLT_MOCK_PHONE_NO, VOLT_MOCK_OTP);
+    helper.setAuthToken(verify.body.jwt);
+
+    const response = await helper.getUserData();
+
+    expect(response.status).toBe(200);
+    expect(response.body.isLoggedIn).toBe(true);
+    expect(response.body.user.phoneNumber).toBe(VOLT_MOCK_PHONE_NO);
+    expect(response.body.user.state).toBe('ACTIVE');
+    expect(response.body.linkedBorrowerAccounts[0]).toMatchObject({
+      accountState: 'ACTIVE',
+      accountHolderPhoneNumber: VOLT_MOCK_PHONE_NO
+    });
+  });
+
+  test('should reject malformed phone numbers', async ({ request }) => {
+    const response = await new LOSHelper(request).requestOtp('INVALID_PHONE');
+
+    expect(response.status).toBe(400);
+    expect(response.body.status).toBe('FAILURE');
+  });
+});
+
+test.describe('VoltAuthMockServer - tokens', { tag: '@FrameworkCheckTests' }, () => {
+  test('should return 403 for tampered, expired and revoked tokens', async ({ request, voltAuthMockServer }) => {
+    const helper = new LOSHelper(request);
+
+    helper.setAuthToken('eyJhbGciOiJIUzI1NiJ9.INVALID_TOKEN.qHm-wWBtMIIm3tnPHZM6OxL-ZIDyVynf_SaF_-INVALID');
+    expect((await helper.getUserData()).status).toBe(403);
+
+    helper.setAuthToken(voltAuthMockServer!.issueToken(VOLT_MOCK_PHONE_NO, -1000));
+    expect((await helper.getUserData()).status).toBe(403);
+
+    const token = voltAuthMockServer!.issueToken(VOLT_MOCK_PHONE_NO);
+    helper.setAuthToken(token);
+    expect((await helper.getUserData()).status).toBe(200);
+    await helper.logout();
+    helper.setAuthToken(token);
+    const revoked = await helper.getUserData();
+    expect(revoked.status).toBe(403);
+    expect(revoked.body.error).toBe('Forbidden');
+  });
+});
+
+test.describe('VoltAuthMockServer - OTP limits', { tag: '@FrameworkCheckTests' }, () => {
+  let server: VoltAuthMockServer;
+  let url: string;
+
+  test.afterEach(async () => {
+    await server?.stop();
+  });
+
+  test('should discard the OTP after the attempt limit', async ({ request }) => {
+    server = new VoltAuthMockServer({ maxOtpAttempts: 2 });
+    url = await server.start();
+    const phoneNo = VOLT_MOCK_PHONE_NO;
+    await request.get(`${url}/api/client/auth/requestOtp/v2/${phoneNo}`);
+
+    const first = await request.post(`${url}/api/client/auth/verifyOtp/`, { data: { phoneNo, otp: '000000' } });
+    const second = await request.post(`${url}/api/client/auth/verifyOtp/`, { data: { phoneNo, otp: '000000' } });
+    const third = await request.post(`${url}/api/client/auth/verifyOtp/`, { data: { phoneNo, otp: VOLT_MOCK_OTP } });
+
+    expect(first.status()).toBe(400);
+    expect((await first.json()).message).toBe('Invalid otp, 1 attempt(s) left');
+    expect(second.status()).toBe(429);
+    expect((await third.json()).message).toBe('Otp not requested');
+  });
+
+  test('should reject an expired OTP', async ({ request }) => {
+    server = new VoltAuthMockServer({ otpValidityMs: 1 });
+    url = await server.start();
+    const phoneNo = VOLT_MOCK_PHONE_NO;
+    await request.get(`${url}/api/client/auth/requestOtp/v2/${phoneNo}`);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const response = await request.post(`${url}/api/client/auth/verifyOtp/`, { data: { phoneNo, otp: VOLT_MOCK_OTP } });
+
+    expect(response.status()).toBe(400);
+    expect(await response.json()).toEqual({ status: 'FAILURE', message: 'Otp expired' });
+  });
+});
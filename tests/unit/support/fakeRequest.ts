@@ -0,0 +1,90 @@
+import { APIRequestContext } from '@playwright/test';
+import { HttpMethod } from '../../../types/api.types';
+/**
+ * Fake APIRequestContext
+ *
+ * Shared stand-in for Playwright's request context in unit tests: records every
+ * call and answers with a fixed JSON response, a scripted sequence of responses
+ * or a network error.
+ */
+
+/**
+ * Response the fake answers with
+ */
+export interface FakeResponse {
+  /** Status code (default 200) */
+  status?: number;
+
+  /** Response headers (default application/json) */
+  headers?: Record<string, string>;
+
+  /** JSON body (default {}) */
+  body?: any;
+
+  /** Raw body text sent instead of the JSON body (e.g. malformed JSON) */
+  raw?: string;
+}
+
+/**
+ * Options of createFakeRequest
+ */
+export interface FakeRequestOptions extends FakeResponse {
+  /** Throw a network error instead of responding; a string replaces the default message */
+  fail?: boolean | string;
+
+  /** Responses per call, the last one repeating; 'error' throws a network error */
+  script?: (FakeResponse | 'error')[];
+}
+
+/**
+ * Call received by the fake
+ */
+export interface FakeRequestCall {
+  method: HttpMethod;
+  url: string;
+
+  /** Options passed to the request context (data, headers, timeout) */
+  options: any;
+}
+
+/** Message of simulated network errors */
+const NETWORK_ERROR_MESSAGE = 'connect ECONNREFUSED';
+
+/**
+ * Create a fake request context
+ *
+ * @param options - Response, failure or script (default: 200 with {})
+ * @returns The request context and the calls it received
+ *
+ * @example
+ * const { request, calls } = createFakeRequest({ body: { status: 'APPROVED' } });
+ * const { request } = createFakeRequest({ script: [{ status: 503 }, 'error', { status: 200 }] });
+ */
+export function createFakeRequest(options: FakeRequestOptions = {}): { request: APIRequestContext; calls: FakeRequestCall[] } {
+  const calls: FakeRequestCall[] = [];
+  const respond = (method: HttpMethod) => async (url: string, requestOptions: any = {}) => {
+    const next = options.script ? options.script[Math.min(calls.length, options.script.length - 1)] : options;
+    calls.push({ method, url, options: requestOptions });
+    if (options.fail || next === 'error') {
+      throw new Error(typeof options.fail === 'string' ? options.fail : NETWORK_ERROR_MESSAGE);
+    }
+    const status = next.status ?? 200;
+    const text = next.raw ?? JSON.stringify(next.body ?? {});
+    return {
+      status: () => status,
+      headers: () => next.headers ?? { 'content-type': 'application/json' },
+      ok: () => status >= 200 && status < 300,
+      json: async () => JSON.parse(text),
+      text: async () => text,
+      body: async () => Buffer.from(text)
+    };
+  };
+  const request = {
+    get: respond('GET'),
+    post: respond('POST'),
+    put: respond('PUT'),
+    patch: respond('PATCH'),
+    delete: respond('DELETE')
+  } as unknown as APIRequestContext;
+  return { request, calls };
+}
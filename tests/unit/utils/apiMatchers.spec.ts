@@ -0,0 +1,87 @@
+/**
+ * Unit Tests for the API matchers
+ *
+ * Tests passing and failing matchers, negation and the body/curl footer of failure messages
+ */
+
+import { test } from '@playwright/test';
+import { expect } from '../../../utils/apiMatchers';
+import { ApiResponse } from '../../../types/api.types';
+
+const utilityResponse: ApiResponse = {
+  status: 200,
+  headers: { 'Content-Type': 'application/json' },
+  body: {
+    opportunityId: 'OPP00000001',
+    utilityReferenceId: 'UTL00000002',
+    status: 'APPROVED',
+    subStatus: 'VALIDATION_PENDING',
+    data: { attempts: 0 },
+    verifierData: {},
+    webUrl: null,
+    fenixLoanAccountId: null
+  },
+  ok: true,
+  timing: { durationMs: 120, requestSizeBytes: 0, responseSizeBytes: 200 },
+  request: {
+    method: 'GET',
+    url: 'https://dsp.example.com/api/v1/utility/UTL00000002',
+    headers: { 'X-Source-Channel': 'VOLT' }
+  }
+};
+
+/**
+ * Run an assertion that is expected to fail and return its message
+ */
+function failureOf(assertion: () => void): string {
+  try {
+    assertion();
+  } catch (error: any) {
+    return error.message;
+  }
+  throw new Error('Expected the assertion to fail');
+}
+
+test.describe('API matchers', { tag: '@FrameworkCheckTests' }, () => {
+  test('should pass for a matching response', () => {
+    expect(utilityResponse).toHaveStatus(200);
+    expect(utilityResponse).toBeSuccessful();
+    expect(utilityResponse).toHaveJsonPath('utilityReferenceId');
+    expect(utilityResponse).toHaveJsonPath('data.attempts', 0);
+    expect(utilityResponse).toHaveJsonPath('webUrl', null);
+    expect(utilityResponse).toMatchJsonSchema('los/schemas/kycUtility.json');
+    expect(utilityResponse).toHaveHeader('content-type', /json/);
+    expect(utilityResponse).toRespondWithin(1000);
+    expect(utilityResponse).toHaveUtilityStatus('APPROVED', 'VALIDATION_PENDING');
+    expect(utilityResponse).not.toHaveStatus(500);
+    expect(utilityResponse).not.toHaveJsonPath('missing');
+    expect(utilityResponse).not.toHaveHeader('x-trace-id');
+  });
+
+  test('should include the body and a curl reproduction line in failure messages', () => {
+    const message = failureOf(() => expect(utilityResponse).toHaveStatus(201));
+
+    expect(message).toContain('toHaveStatus');
+    expect(message).toContain('"utilityReferenceId": "UTL00000002"');
+    expect(message).toContain('Reproduce with:\ncurl -X GET \'https://dsp.example.com/api/v1/utility/UTL00000002\' \\\n  -H \'X-Source-Channel: VOLT\'');
+  });
+
+  test('should diff utility statuses and JSON path values', () => {
+    const statusMessage = failureOf(() => expect(utilityResponse).toHaveUtilityStatus('APPROVED', 'APPROVED'));
+    expect(statusMessage).toMatch(/- +"subStatus": "APPROVED"/);
+    expect(statusMessage).toMatch(/\+ +"subStatus": "VALIDATION_PENDING"/);
+
+    const pathMessage = failureOf(() => expect(utilityResponse).toHaveJsonPath('data', { attempts: 1 }));
+    expect(pathMessage).toMatch(/- +"attempts": 1/);
+    expect(pathMessage).toMatch(/\+ +"attempts": 0/);
+  });
+
+  test('should list schema violations and note responses without a recorded request', () => {
+    const unrecorded: ApiResponse = { ...utilityResponse, body: { ...utilityResponse.body, webUrl: undefined }, request: undefined };
+    const message = failureOf(() => expect(unrecorded).toMatchJsonSchema('los/schemas/kycUtility.json'));
+
+    expect(message).toContain('Response body does not match los/schemas/kycUtility.json (1 violation):');
+    expect(message).toContain('/webUrl: is required');
+    expect(message).toContain('(request not recorded on this response)');
+  });
+});
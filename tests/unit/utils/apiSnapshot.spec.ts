@@ -0,0 +1,101 @@
+/**
+ * Unit Tests for response body snapshots
+ *
+ * Tests masking of volatile fields, the structural diff, the update modes and per-target golden paths
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { test, expect } from '@playwright/test';
+import { compareBodySnapshot, diffJson, maskVolatileFields, DEFAULT_SNAPSHOT_MASKS } from '../../../utils/apiSnapshot';
+
+const offer = {
+  opportunityId: 'OPP00000007',
+  createdAt: '2026-10-19T10:15:30.000Z',
+  webUrl: 'https://kyc.example.com/session/UTL00000002?token=a1b2c3d4e5f6&lang=en',
+  fenixLoanAccountId: null,
+  feeConfig: { processingFee: 1299, renewalFee: 999 },
+  interestConfig: { interestRate: 10.49 },
+  tenureConfig: { tenureInMonths: 36 },
+  assets: [{ isin: 'INF178L01020', nav: 101.2 }, { isin: 'INF277K01Z51', nav: 98.7 }]
+};
+
+test.describe('maskVolatileFields', { tag: '@FrameworkCheckTests' }, () => {
+  test('should mask IDs, timestamps and URL tokens but keep nulls and the input intact', () => {
+    const masked = maskVolatileFields(offer, DEFAULT_SNAPSHOT_MASKS);
+
+    expect(masked).toMatchObject({
+      opportunityId: '<masked>',
+      createdAt: '<masked>',
+      webUrl: 'https://kyc.example.com/session/<masked>?token=<masked>&lang=en',
+      fenixLoanAccountId: null,
+      feeConfig: { processingFee: 1299, renewalFee: 999 }
+    });
+    expect(offer.opportunityId).toBe('OPP00000007');
+  });
+
+  test('should apply custom rules with patterns and replacements', () => {
+    const masked = maskVolatileFields(offer, ['$.assets[*].nav', { path: '$.webUrl', pattern: /lang=\w+/, replacement: 'lang=<any>' }]);
+
+    expect(masked.assets).toEqual([{ isin: 'INF178L01020', nav: '<masked>' }, { isin: 'INF277K01Z51', nav: '<masked>' }]);
+    expect(masked.webUrl).toBe('https://kyc.example.com/session/UTL00000002?token=a1b2c3d4e5f6&lang=<any>');
+  });
+});
+
+test.describe('diffJson', { tag: '@FrameworkCheckTests' }, () => {
+  test('should list added, removed and changed values with their paths', () => {
+    const changed = {
+      ...offer,
+      feeConfig: { processingFee: 1499 },
+      interestConfig: { interestRate: 10.49, penalRate: 2 },
+      tenureConfig: { tenureInMonths: '36' },
+      assets: [offer.assets[0]]
+    };
+
+    expect(diffJson(offer, changed)).toEqual([
+      '- $.assets[1]: {"isin":"INF277K01Z51","nav":98.7}',
+      '~ $.feeConfig.processingFee: 1299 → 1499',
+      '- $.feeConfig.renewalFee: 999',
+      '+ $.interestConfig.penalRate: 2',
+      '~ $.tenureConfig.tenureInMonths: 36 → "36"'
+    ]);
+    expect(diffJson(offer, { ...offer })).toEqual([]);
+  });
+});
+
+test.describe('compareBodySnapshot', { tag: '@FrameworkCheckTests' }, () => {
+  test('should write missing snapshots according to the update mode', () => {
+    const snapshotPath = test.info().outputPath('offer.json');
+
+    expect(compareBodySnapshot(offer, snapshotPath, 'none').pass).toBe(false);
+    expect(fs.existsSync(snapshotPath)).toBe(false);
+
+    const written = compareBodySnapshot(offer, snapshotPath, 'missing');
+    expect(written.pass).toBe(false);
+    expect(written.message).toContain('did not exist, writing actual');
+    expect(JSON.parse(fs.readFileSync(snapshotPath, 'utf8')).opportunityId).toBe('<masked>');
+
+    expect(compareBodySnapshot({ ...offer, opportunityId: 'OPP00000099' }, snapshotPath, 'none').pass).toBe(true);
+  });
+
+  test('should report a structural diff and update only when asked to', () => {
+    const snapshotPath = test.info().outputPath('offer.json');
+    compareBodySnapshot(offer, snapshotPath, 'all');
+    const changed = { ...offer, feeConfig: { processingFee: 1499, renewalFee: 999 } };
+
+    const mismatch = compareBodySnapshot(changed, snapshotPath, 'missing');
+    expect(mismatch.pass).toBe(false);
+    expect(mismatch.message).toMatch(/^Response body does not match snapshot .*offer\.json \(1 difference\):\n {2}~ \$\.feeConfig\.processingFee: 1299 → 1499\nRun with --update-snapshots/);
+
+    const updated = compareBodySnapshot(changed, snapshotPath, 'changed');
+    expect(updated.pass).toBe(true);
+    expect(updated.message).toContain('updated (1 difference)');
+    expect(compareBodySnapshot(changed, snapshotPath, 'none').pass).toBe(true);
+  });
+
+  test('should keep golden files apart for the mock and each environment', () => {
+    const target = process.env.MOCK_DSP === 'true' ? 'mock' : process.env.TEST_ENV || 'dev';
+
+    expect(test.info().snapshotPath('offer.json')).toBe(path.join(__dirname, 'apiSnapshot.spec.ts-snapshots', target, 'offer.json'));
+  });
+});
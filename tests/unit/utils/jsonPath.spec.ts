@@ -0,0 +1,79 @@
+/**
+ * Unit Tests for the JSONPath evaluator
+ *
+ * Tests every selector kind, filters, normalized match paths and syntax errors
+ */
+
+import { test, expect } from '@playwright/test';
+import { isDefinitePath, queryJsonPath } from '../../../utils/jsonPath';
+
+const portfolio = {
+  'config.version': 2,
+  owner: { name: 'Asha', address: { city: 'Pune' } },
+  assets: [
+    { isin: 'INF209K01YN0', type: 'MF', units: 120.5, lien: { marked: true } },
+    { isin: 'INE002A01018', type: 'EQUITY', units: 4 },
+    { isin: 'INF179K01BB8', type: 'MF', units: 0 }
+  ]
+};
+
+const values = (path: string) => queryJsonPath(portfolio, path).map(match => match.value);
+
+test.describe('queryJsonPath', { tag: '@FrameworkCheckTests' }, () => {
+  test('should select names, indices and quoted keys with or without the leading $', () => {
+    expect(values('owner.address.city')).toEqual(['Pune']);
+    expect(values('$.owner.address.city')).toEqual(['Pune']);
+    expect(values('assets[1].isin')).toEqual(['INE002A01018']);
+    expect(values('assets.0.type')).toEqual(['MF']);
+    expect(values('assets[-1].units')).toEqual([0]);
+    expect(values("$['config.version']")).toEqual([2]);
+    expect(values('$["owner"]["name"]')).toEqual(['Asha']);
+    expect(values('owner.email')).toEqual([]);
+    expect(values('assets[3]')).toEqual([]);
+  });
+
+  test('should select wildcards, slices, unions and descendants', () => {
+    expect(values('assets[*].isin')).toEqual(['INF209K01YN0', 'INE002A01018', 'INF179K01BB8']);
+    expect(values('owner.*')).toEqual(['Asha', { city: 'Pune' }]);
+    expect(values('assets[0:2].units')).toEqual([120.5, 4]);
+    expect(values('assets[::-1].units')).toEqual([0, 4, 120.5]);
+    expect(values('assets[0,2].isin')).toEqual(['INF209K01YN0', 'INF179K01BB8']);
+    expect(values('$..marked')).toEqual([true]);
+    expect(values('$..city')).toEqual(['Pune']);
+  });
+
+  test('should filter with comparisons, regexes, existence and boolean operators', () => {
+    expect(values("assets[?(@.type == 'MF')].isin")).toEqual(['INF209K01YN0', 'INF179K01BB8']);
+    expect(values("assets[?(@.type == 'MF' && @.units > 0)].isin")).toEqual(['INF209K01YN0']);
+    expect(values('assets[?(@.units < 1 || @.units >= 100)].units')).toEqual([120.5, 0]);
+    expect(values('assets[?(@.isin =~ /^INE/)].type')).toEqual(['EQUITY']);
+    expect(values('assets[?(@.lien)].isin')).toEqual(['INF209K01YN0']);
+    expect(values('assets[?(!@.lien)].isin')).toEqual(['INE002A01018', 'INF179K01BB8']);
+    expect(values("assets[?(@.type != $.assets[0].type)].isin")).toEqual(['INE002A01018']);
+    expect(values("assets[?(@.units > '1')]")).toEqual([]);
+  });
+
+  test('should return normalized paths and read only own properties', () => {
+    expect(queryJsonPath(portfolio, "assets[?(@.type == 'MF')].isin").map(match => match.path))
+      .toEqual(['$.assets[0].isin', '$.assets[2].isin']);
+    expect(queryJsonPath(portfolio, "$['config.version']")[0].path).toBe("$['config.version']");
+    expect(values('owner.constructor')).toEqual([]);
+  });
+
+  test('should report syntax errors with their position', () => {
+    expect(() => queryJsonPath(portfolio, 'assets[0')).toThrow("Invalid JSONPath 'assets[0': expected ']' at position 8");
+    expect(() => queryJsonPath(portfolio, 'assets[?(@.units >)]')).toThrow(/Invalid JSONPath .*: expected @, \$, a string/);
+    expect(() => queryJsonPath(portfolio, 'assets[::0]')).toThrow('slice step cannot be 0');
+  });
+});
+
+test.describe('isDefinitePath', { tag: '@FrameworkCheckTests' }, () => {
+  test('should only accept paths made of names and indices', () => {
+    expect(isDefinitePath('owner.address.city')).toBe(true);
+    expect(isDefinitePath("$.assets[0]['isin']")).toBe(true);
+    expect(isDefinitePath('assets[*].isin')).toBe(false);
+    expect(isDefinitePath('assets[0,1]')).toBe(false);
+    expect(isDefinitePath('$..isin')).toBe(false);
+    expect(isDefinitePath('assets[?(@.units)]')).toBe(false);
+  });
+});
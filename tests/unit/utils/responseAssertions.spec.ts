@@ -0,0 +1,73 @@
+/**
+ * Unit Tests for the fluent response assertions
+ *
+ * Tests chaining, aggregation of every failure and the individual checks
+ */
+
+import { test, expect } from '@playwright/test';
+import { ResponseAssertionError, assertResponse } from '../../../utils/responseAssertions';
+import { ApiResponse } from '../../../types/api.types';
+
+const utilityResponse: ApiResponse = {
+  status: 200,
+  headers: { 'Content-Type': 'application/json', 'x-request-id': 'req-1' },
+  body: {
+    opportunityId: 'OPP00000001',
+    utilityReferenceId: 'UTL00000002',
+    status: 'APPROVED',
+    subStatus: 'VALIDATION_PENDING',
+    data: { attempts: 0 },
+    verifierData: {},
+    webUrl: null,
+    fenixLoanAccountId: null
+  },
+  ok: true,
+  timing: { durationMs: 120, requestSizeBytes: 0, responseSizeBytes: 200 }
+};
+
+test.describe('assertResponse', { tag: '@FrameworkCheckTests' }, () => {
+  test('should pass and return the response when every check passes', async () => {
+    const response = await assertResponse(utilityResponse, 'KYC utility')
+      .status(200)
+      .ok()
+      .header('content-type', /json/)
+      .respondsWithin(1000)
+      .field('status').equals('APPROVED')
+      .field('utilityReferenceId').matches(/^UTL\d{8}$/)
+      .field('subStatus').oneOf(['VALIDATION_PENDING', 'APPROVED'])
+      .field('data').equals({ attempts: 0 })
+      .field('fenixLoanAccountId').exists()
+      .field('data.attempts').satisfies('is not negative', value => value >= 0)
+      .matchesSchema('los/schemas/kycUtility.json');
+
+    expect(response).toBe(utilityResponse);
+  });
+
+  test('should run every check and report all failures together', async () => {
+    const error = await assertResponse(utilityResponse, 'KYC utility')
+      .status(201)
+      .field('status').equals('REJECTED')
+      .field('opportunityId').exists()
+      .field('missing').matches(/x/)
+      .header('x-trace-id')
+      .verify()
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ResponseAssertionError);
+    expect(error.failures).toHaveLength(4);
+    expect(error.message.split('\n')).toEqual([
+      '4 of 5 assertions on KYC utility failed:',
+      expect.stringMatching(/^ {2}✗ status is 201: Expected status 201, but got 200\. Body: /),
+      '  ✗ field \'status\' equals "REJECTED": Expected field \'status\' to be "REJECTED", but got "APPROVED"',
+      '  ✗ field \'missing\' matches /x/: Field \'missing\' not found in response',
+      '  ✗ header \'x-trace-id\' is present: Header \'x-trace-id\' not found in response'
+    ]);
+  });
+
+  test('should report schema violations and slow responses', async () => {
+    const slow: ApiResponse = { ...utilityResponse, body: { ...utilityResponse.body, status: 7 }, timing: { ...utilityResponse.timing!, durationMs: 2500 } };
+
+    await expect(assertResponse(slow).respondsWithin(2000).matchesSchema('los/schemas/kycUtility.json').verify())
+      .rejects.toThrow(/2 of 2 assertions on response failed:\n {2}✗ responds within 2000ms: Expected response within 2000ms, but it took 2500ms\n {2}✗ body matches los\/schemas\/kycUtility\.json: .*\n {2}\/status: must be string/);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit Tests for the secrets provider
+ *
+ * Tests backend priority, dotenv parsing, encrypted files, missing-secret errors
+ * and the prod check against committed secret sources
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { test, expect } from '@playwright/test';
+import {
+  DotenvSecretBackend,
+  EncryptedFileSecretBackend,
+  EnvSecretBackend,
+  SecretsProvider,
+  createSecretsProvider,
+  SECRETS_DIR,
+  SECRET_NAMES,
+  encryptSecrets,
+  isCommittedFile,
+  parseDotenv
+} from '../../../utils/secrets';
+import { SecretBackend, SecretName } from '../../../types/secrets.types';
+
+/**
+ * In-memory backend standing in for a file
+ */
+function createStaticBackend(values: Partial<Record<SecretName, string>>, committed: boolean): SecretBackend {
+  return { name: 'static', location: 'memory', committed, get: name => values[name] };
+}
+
+test.describe('Secrets provider', { tag: '@FrameworkCheckTests' }, () => {
+  let directory: string;
+
+  test.beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'secrets-'));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    delete process.env.LOS_OTP;
+  });
+
+  test('should use the first backend that has the secret', () => {
+    process.env.LOS_OTP = '999999';
+    const provider = new SecretsProvider('dev', [
+      new EnvSecretBackend(),
+      createStaticBackend({ LOS_OTP: '111111', LMS_EMAIL: 'file@example.com' }, false)
+    ]);
+
+    expect(provider.get('LOS_OTP')).toBe('999999');
+    expect(provider.resolve('LMS_EMAIL')).toMatchObject({ value: 'file@example.com', backend: 'static' });
+  });
+
+  test('should name the secret, environment and checked backends when missing', () => {
+    const provider = new SecretsProvider('staging', [new EnvSecretBackend(), createStaticBackend({}, false)]);
+
+    expect(() => provider.get('DSP_SECRET_KEY'))
+      .toThrow('Missing secret DSP_SECRET_KEY for environment staging; checked: env (environment variables), static (memory)');
+  });
+
+  test('should parse dotenv files', () => {
+    const content = '# comment\nexport LOS_OTP="123 456"\nLMS_EMAIL=user@example.com # inline\n\nLMS_PASSWORD=\'p#ss\'\nnot a line\n';
+    expect(parseDotenv(content)).toEqual({ LOS_OTP: '123 456', LMS_EMAIL: 'user@example.com', LMS_PASSWORD: 'p#ss' });
+
+    const filePath = path.join(directory, '.env.dev');
+    fs.writeFileSync(filePath, content);
+    const backend = new DotenvSecretBackend(filePath);
+    expect(backend.get('LOS_OTP')).toBe('123 456');
+    expect(backend.committed).toBe(false);
+    expect(new DotenvSecretBackend(path.join(directory, '.env.missing')).get('LOS_OTP')).toBeUndefined();
+  });
+
+  test('should unlock encrypted files only with the right passphrase', () => {
+    const filePath = path.join(directory, 'prod.enc.json');
+    fs.writeFileSync(filePath, JSON.stringify(encryptSecrets({ DSP_SECRET_KEY: 'prod-key' }, 'correct horse')));
+
+    expect(fs.readFileSync(filePath, 'utf-8')).not.toContain('prod-key');
+    expect(new EncryptedFileSecretBackend(filePath, 'correct horse').get('DSP_SECRET_KEY')).toBe('prod-key');
+    expect(() => new EncryptedFileSecretBackend(filePath, 'wrong').get('DSP_SECRET_KEY'))
+      .toThrow('Cannot decrypt secrets: wrong passphrase or corrupted file');
+    expect(() => new EncryptedFileSecretBackend(filePath, undefined).get('DSP_SECRET_KEY'))
+      .toThrow('set SECRETS_PASSPHRASE to unlock it');
+  });
+
+  test('should refuse committed secret sources for prod only', () => {
+    const committed = createStaticBackend({ LOS_OTP: '111111' }, true);
+
+    expect(() => new SecretsProvider('dev', [committed]).assertSafeSources()).not.toThrow();
+    expect(() => new SecretsProvider('prod', [committed]).assertSafeSources())
+      .toThrow('Refusing to run against prod: secrets come from committed files: LOS_OTP (memory)');
+
+    process.env.LOS_OTP = '999999';
+    expect(() => new SecretsProvider('prod', [new EnvSecretBackend(), committed]).assertSafeSources()).not.toThrow();
+  });
+
+  test('should not read secrets from committed files', () => {
+    for (const env of ['dev', 'staging', 'prod']) {
+      const provider = createSecretsProvider(env);
+      for (const name of SECRET_NAMES) {
+        expect(provider.resolve(name)?.committed ?? false).toBe(false);
+      }
+    }
+    expect(isCommittedFile(path.join(SECRETS_DIR, '.env.dev'))).toBe(false);
+    expect(isCommittedFile(path.join(SECRETS_DIR, '.env.example'))).toBe(true);
+  });
+});
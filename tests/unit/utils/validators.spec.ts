@@ -145,6 +145,36 @@ test.describe('ResponseValidator', { tag: '@FrameworkCheckTests' }, () => {
     });
   });
 
+  test.describe('validateResponseTime', () => {
+    const timedResponse = (durationMs: number): ApiResponse => ({
+      status: 200,
+      headers: {},
+      body: {},
+      ok: true,
+      timing: { durationMs, requestSizeBytes: 0, responseSizeBytes: 2 }
+    });
+
+    test('should not throw when response is within the limit', () => {
+      expect(() => {
+        ResponseValidator.validateResponseTime(timedResponse(1500), 2000);
+      }).not.toThrow();
+    });
+
+    test('should throw when response exceeds the limit', () => {
+      expect(() => {
+        ResponseValidator.validateResponseTime(timedResponse(2500), 2000);
+      }).toThrow('Expected response within 2000ms, but it took 2500ms');
+    });
+
+    test('should throw when response has no timing data', () => {
+      const response: ApiResponse = { status: 200, headers: {}, body: {}, ok: true };
+
+      expect(() => {
+        ResponseValidator.validateResponseTime(response, 2000);
+      }).toThrow('Response has no timing data');
+    });
+  });
+
   test.describe('validateField', () => {
     test('should not throw when field exists', () => {
       const response: ApiResponse = {
@@ -322,6 +352,120 @@ test.describe('ResponseValidator', { tag: '@FrameworkCheckTests' }, () => {
         ResponseValidator.validateField(response, 'users');
       }).not.toThrow();
     });
+
+    test('should select array elements, keys with dots and filtered values with JSONPath', () => {
+      const response: ApiResponse = {
+        status: 200,
+        headers: {},
+        body: {
+          'config.version': 2,
+          linkedBorrowerAccounts: [
+            { accountId: 'ACC-1', accountState: 'ACTIVE' },
+            { accountId: 'ACC-2', accountState: 'CLOSED' }
+          ]
+        },
+        ok: true
+      };
+
+      expect(() => {
+        ResponseValidator.validateField(response, 'linkedBorrowerAccounts[0].accountId', 'ACC-1');
+        ResponseValidator.validateField(response, '$.linkedBorrowerAccounts[-1].accountState', 'CLOSED');
+        ResponseValidator.validateField(response, "$['config.version']", 2);
+        ResponseValidator.validateField(response, "linkedBorrowerAccounts[?(@.accountState == 'CLOSED')].accountId", 'ACC-2');
+      }).not.toThrow();
+
+      expect(() => {
+        ResponseValidator.validateField(response, "linkedBorrowerAccounts[?(@.accountState == 'FROZEN')]");
+      }).toThrow("Field 'linkedBorrowerAccounts[?(@.accountState == 'FROZEN')]' not found in response");
+    });
+
+    test('should compare objects and arrays with deep equality', () => {
+      const response: ApiResponse = {
+        status: 200,
+        headers: {},
+        body: { user: { name: 'Asha', roles: ['admin', 'ops'] } },
+        ok: true
+      };
+
+      expect(() => {
+        ResponseValidator.validateField(response, 'user', { name: 'Asha', roles: ['admin', 'ops'] });
+        ResponseValidator.validateField(response, 'user.roles', ['admin', 'ops']);
+      }).not.toThrow();
+
+      expect(() => {
+        ResponseValidator.validateField(response, 'user', { name: 'Asha' });
+      }).toThrow('Expected field \'user\' to be {"name":"Asha"}, but got {"name":"Asha","roles":["admin","ops"]}');
+    });
+
+    test('should match objects partially when asked to', () => {
+      const response: ApiResponse = {
+        status: 200,
+        headers: {},
+        body: { user: { userId: 'U-42', state: 'ACTIVE', roles: [{ name: 'admin', scope: 'all' }] } },
+        ok: true
+      };
+
+      expect(() => {
+        ResponseValidator.validateField(response, 'user', { state: 'ACTIVE', userId: /^U-\d+$/ }, { match: 'partial' });
+        ResponseValidator.validateField(response, 'user.roles', [{ name: 'admin' }], { match: 'partial' });
+      }).not.toThrow();
+
+      expect(() => {
+        ResponseValidator.validateField(response, 'user', { state: 'CLOSED' }, { match: 'partial' });
+      }).toThrow('Expected field \'user\' to match {"state":"CLOSED"}, but got');
+
+      expect(() => {
+        ResponseValidator.validateField(response, 'user.roles', [], { match: 'partial' });
+      }).toThrow("Expected field 'user.roles' to match [], but got");
+    });
+
+    test('should require every value selected by a wildcard to match', () => {
+      const response: ApiResponse = {
+        status: 200,
+        headers: {},
+        body: {
+          linkedBorrowerAccounts: [
+            { accountId: 'ACC-1', accountState: 'ACTIVE' },
+            { accountId: 'ACC-2', accountState: 'ACTIVE' },
+            { accountId: 'ACC-3', accountState: 'CLOSED' }
+          ]
+        },
+        ok: true
+      };
+
+      expect(() => {
+        ResponseValidator.validateField(response, 'linkedBorrowerAccounts[0:2].accountState', 'ACTIVE');
+        ResponseValidator.validateField(response, 'linkedBorrowerAccounts[*]', { accountId: /^ACC-/ }, { match: 'partial' });
+      }).not.toThrow();
+
+      expect(() => {
+        ResponseValidator.validateField(response, 'linkedBorrowerAccounts[*].accountState', 'ACTIVE');
+      }).toThrow(
+        "Expected field 'linkedBorrowerAccounts[*].accountState' to be 'ACTIVE', but got 'CLOSED' " +
+        'at $.linkedBorrowerAccounts[2].accountState (3 values selected)'
+      );
+    });
+  });
+
+  test.describe('getNestedField', () => {
+    test('should return single values for definite paths and arrays for wildcards', () => {
+      const body = { assets: [{ isin: 'A' }, { isin: 'B' }] };
+
+      expect(ResponseValidator.getNestedField(body, 'assets[1].isin')).toBe('B');
+      expect(ResponseValidator.getNestedField(body, 'assets[*].isin')).toEqual(['A', 'B']);
+      expect(ResponseValidator.getNestedField(body, 'assets[?(@.isin == "C")]')).toBeUndefined();
+      expect(ResponseValidator.getNestedField(body, 'assets.5.isin')).toBeUndefined();
+    });
+  });
+
+  test.describe('getHeader', () => {
+    test('should find headers regardless of the case of their name', () => {
+      const response = { headers: { 'Content-Type': 'application/json; charset=utf-8' } };
+
+      expect(ResponseValidator.getHeader(response, 'content-type')).toBe('application/json; charset=utf-8');
+      expect(ResponseValidator.getHeader(response, 'CONTENT-TYPE')).toBe('application/json; charset=utf-8');
+      expect(ResponseValidator.getHeader(response, 'x-trace-id')).toBeUndefined();
+    });
   });
 
   test.describe('validateSchema', () => {
@@ -363,10 +507,10 @@ test.describe('ResponseValidator', { tag: '@FrameworkCheckTests' }, () => {
 
       expect(() => {
         ResponseValidator.validateSchema(response, schema);
-      }).toThrow("Required field 'email' missing from response");
+      }).toThrow('Response body does not match schema (1 violation):\n  /email: is required');
     });
 
-    test('should throw error for first missing field when multiple fields are missing', () => {
+    test('should list every missing field', () => {
       const response: ApiResponse = {
         status: 200,
         headers: {},
@@ -382,7 +526,7 @@ test.describe('ResponseValidator', { tag: '@FrameworkCheckTests' }, () => {
 
       expect(() => {
         ResponseValidator.validateSchema(response, schema);
-      }).toThrow("Required field 'name' missing from response");
+      }).toThrow('Response body does not match schema (3 violations):\n  /name: is required\n  /email: is required\n  /phone: is required');
     });
 
     test('should not throw when schema has no required fields', () => {
@@ -464,6 +608,230 @@ test.describe('ResponseValidator', { tag: '@FrameworkCheckTests' }, () => {
         ResponseValidator.validateSchema(response, schema);
       }).not.toThrow();
     });
+
+    test('should report every violation with its JSON pointer', () => {
+      const response: ApiResponse = {
+        status: 200,
+        headers: {},
+        body: {
+          pan: 'abcde1234f',
+          email: 'not-an-email',
+          createdAt: '2024-13-01',
+          status: 'DONE',
+          bank: { ifscCode: 'ICIC0000009', accountType: 7 },
+          assets: [{ units: 1 }, { units: -1 }],
+          debug: true
+        },
+        ok: true
+      };
+      const schema = {
+        type: 'object',
+        required: ['pan', 'phone'],
+        properties: {
+          pan: { type: 'string', pattern: '^[A-Z]{5}[0-9]{4}[A-Z]$' },
+          email: { type: 'string', format: 'email' },
+          createdAt: { type: 'string', format: 'date-time' },
+          status: { enum: ['ACTIVE', 'CLOSED'] },
+          bank: {
+            type: 'object',
+            properties: {
+              ifscCode: { type: 'string', pattern: '^[A-Z]{4}0[A-Z0-9]{6}$' },
+              accountType: { type: 'string' }
+            }
+          },
+          assets: { type: 'array', items: { type: 'object', properties: { units: { type: 'number', minimum: 0 } } } }
+        },
+        additionalProperties: false
+      };
+
+      let message = '';
+      try {
+        ResponseValidator.validateSchema(response, schema);
+      } catch (error: any) {
+        message = error.message;
+      }
+
+      expect(message.split('\n')).toEqual([
+        'Response body does not match schema (8 violations):',
+        '  /phone: is required',
+        '  /debug: is not allowed',
+        '  /pan: must match pattern "^[A-Z]{5}[0-9]{4}[A-Z]$" (got "abcde1234f")',
+        '  /email: must match format "email" (got "not-an-email")',
+        '  /createdAt: must match format "date-time" (got "2024-13-01")',
+        '  /status: must be equal to one of the allowed values ["ACTIVE","CLOSED"] (got "DONE")',
+        '  /bank/accountType: must be string (got 7)',
+        '  /assets/1/units: must be >= 0 (got -1)'
+      ]);
+    });
+
+    test('should validate non-object bodies without crashing', () => {
+      const response: ApiResponse = { status: 200, headers: {}, body: 'Plain text response', ok: true };
+
+      expect(() => {
+        ResponseValidator.validateSchema(response, { required: ['id'] });
+      }).not.toThrow();
+      expect(() => {
+        ResponseValidator.validateSchema(response, { type: 'object' });
+      }).toThrow('(root): must be object (got "Plain text response")');
+      expect(() => {
+        ResponseValidator.validateSchema({ ...response, body: null }, { type: ['array', 'null'] });
+      }).not.toThrow();
+    });
+
+    test('should load schemas from testdata/', () => {
+      const response: ApiResponse = {
+        status: 200,
+        headers: {},
+        body: { opportunityId: 'OPP00000001', utilityReferenceId: 'UTL00000002', status: 'APPROVED' },
+        ok: true
+      };
+
+      expect(() => {
+        ResponseValidator.validateSchema(response, 'los/schemas/bankAccount.json');
+      }).toThrow('Response body does not match los/schemas/bankAccount.json (1 violation):\n  /subStatus: is required');
+      expect(() => {
+        ResponseValidator.validateSchema({ ...response, body: { ...response.body, subStatus: 'APPROVED', data: { ifscCode: 'ICIC000009' } } }, 'los/schemas/bankAccount.json');
+      }).toThrow('/data/ifscCode: must match pattern "^[A-Z]{4}0[A-Z0-9]{6}$" (got "ICIC000009")');
+      expect(() => {
+        ResponseValidator.validateSchema(response, 'testdata/los/schemas/missing.json');
+      }).toThrow('Test data file not found');
+    });
+
+    test('should reject utility statuses and types outside the LOS enums', () => {
+      const response: ApiResponse = {
+        status: 200,
+        headers: {},
+        body: {
+          opportunityId: 'OPP00000001',
+          utilityReferenceId: 'UTL00000002',
+          utilityType: 'KYC',
+          status: 'IN_PROGRESS',
+          subStatus: 'VALIDATION_PENDING',
+          data: {},
+          verifierData: {},
+          webUrl: null
+        },
+        ok: true
+      };
+
+      expect(() => {
+        ResponseValidator.validateSchema(response, 'los/schemas/kycUtility.json');
+      }).not.toThrow();
+      expect(() => {
+        ResponseValidator.validateSchema({ ...response, body: { ...response.body, status: 'DONE' } }, 'los/schemas/kycUtility.json');
+      }).toThrow('/status: must be equal to one of the allowed values ["IN_PROGRESS","APPROVED","REJECTED","FAILED"] (got "DONE")');
+      expect(() => {
+        ResponseValidator.validateSchema({ ...response, body: { ...response.body, subStatus: 'PENDING' } }, 'los/schemas/kycUtility.json');
+      }).toThrow('/subStatus: must be equal to one of the allowed values');
+      expect(() => {
+        ResponseValidator.validateSchema({ ...response, body: { ...response.body, utilityType: 'CKYC' } }, 'los/schemas/kycUtility.json');
+      }).toThrow('/utilityType: must be equal to one of the allowed values');
+    });
+
+    test('should reject fields outside the utility response while leaving its data open', () => {
+      const response: ApiResponse = {
+        status: 200,
+        headers: {},
+        body: {
+          opportunityId: 'OPP00000001',
+          utilityReferenceId: 'UTL00000002',
+          status: 'APPROVED',
+          subStatus: 'MANDATE_SUCCESS',
+          data: { mandateAmount: '500000', umrn: 'UMRN0001' }
+        },
+        ok: true
+      };
+
+      expect(() => {
+        ResponseValidator.validateSchema(response, 'los/schemas/mandate.json');
+      }).not.toThrow();
+      expect(() => {
+        ResponseValidator.validateSchema({ ...response, body: { ...response.body, mandateStatus: 'ACTIVE' } }, 'los/schemas/mandate.json');
+      }).toThrow('Response body does not match los/schemas/mandate.json (1 violation):\n  /mandateStatus: is not allowed');
+    });
+
+    test('should reject unknown opportunity statuses and fields', () => {
+      const response: ApiResponse = {
+        status: 200,
+        headers: {},
+        body: {
+          opportunityId: 'OPP00000001',
+          pan: 'ABCDE1234F',
+          phoneNumber: '9876543210',
+          product: 'LAMF',
+          opportunityType: 'NEW_LOAN',
+          status: 'CREATED'
+        },
+        ok: true
+      };
+
+      expect(() => {
+        ResponseValidator.validateSchema(response, 'los/schemas/opportunity.json');
+      }).not.toThrow();
+      expect(() => {
+        ResponseValidator.validateSchema({ ...response, body: { ...response.body, status: 'OPEN' } }, 'los/schemas/opportunity.json');
+      }).toThrow('/status: must be equal to one of the allowed values ["CREATED","IN_PROGRESS","SUBMITTED"] (got "OPEN")');
+      expect(() => {
+        ResponseValidator.validateSchema({ ...response, body: { ...response.body, email: 'a@b.com' } }, 'los/schemas/opportunity.json');
+      }).toThrow('/email: is not allowed');
+    });
+
+    test('should reject unknown loan contract steps and step fields', () => {
+      const response: ApiResponse = {
+        status: 200,
+        headers: {},
+        body: {
+          opportunityId: 'OPP00000001',
+          status: 'IN_PROGRESS',
+          steps: [
+            { utilityType: 'KFS', utilityReferenceId: 'UTL00000003', status: 'IN_PROGRESS' },
+            { utilityType: 'AGREEMENT_SIGN', utilityReferenceId: 'UTL00000004', status: 'IN_PROGRESS' }
+          ]
+        },
+        ok: true
+      };
+      const steps = [
+        { utilityType: 'KFS', utilityReferenceId: 'UTL00000003', status: 'PENDING' },
+        { utilityType: 'ESIGN', utilityReferenceId: 'UTL00000004', status: 'IN_PROGRESS', webUrl: null }
+      ];
+
+      expect(() => {
+        ResponseValidator.validateSchema(response, 'los/schemas/loanContract.json');
+      }).not.toThrow();
+      expect(() => {
+        ResponseValidator.validateSchema({ ...response, body: { ...response.body, steps } }, 'los/schemas/loanContract.json');
+      }).toThrow(/\/steps\/0\/status: must be equal to one of the allowed values[\s\S]*\/steps\/1\/webUrl: is not allowed[\s\S]*\/steps\/1\/utilityType: must be equal to one of the allowed values \["KFS","AGREEMENT_SIGN"\] \(got "ESIGN"\)/);
+    });
+
+    test('should reject unexpected fields in dedupe and offer responses', () => {
+      const dedupe: ApiResponse = {
+        status: 200,
+        headers: {},
+        body: { isDuplicate: false, message: 'Client is not duplicate', availableAssetCategories: ['MUTUAL_FUNDS'], duplicateOf: null },
+        ok: true
+      };
+      const offer: ApiResponse = {
+        status: 200,
+        headers: {},
+        body: {
+          dedupeResponse: { isDuplicate: false },
+          assets: [{ isin: 'INF179K01BB8', folioNumber: '1234567', assetUnits: 10, assetValue: 1000 }],
+          totalAssetValue: 1000,
+          totalAssetLtv: 450,
+          feeConfig: { processingFee: 999, renewalFee: 0, gst: 18 },
+          interestConfig: { interestRate: 10.5 },
+          tenureConfig: { tenureInMonths: 36 }
+        },
+        ok: true
+      };
+
+      expect(() => {
+        ResponseValidator.validateSchema(dedupe, 'los/schemas/clientDedupeCheck.json');
+      }).toThrow('Response body does not match los/schemas/clientDedupeCheck.json (1 violation):\n  /duplicateOf: is not allowed');
+      expect(() => {
+        ResponseValidator.validateSchema(offer, 'los/schemas/generateOffer.json');
+      }).toThrow('Response body does not match los/schemas/generateOffer.json (1 violation):\n  /feeConfig/gst: is not allowed');
+    });
   });
 
   test.describe('edge cases', () => {
@@ -5,6 +5,130 @@
  * These interfaces provide type safety for API interactions across the framework.
  */
 
+/**
+ * HTTP methods supported by BaseHelper.makeRequest
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+/**
+ * Value of a single query parameter
+ * - numbers and booleans are written with String()
+ * - arrays are written in the request's array format
+ * - undefined and null leave the parameter out
+ */
+export type QueryValue = string | number | boolean | null | undefined | readonly (string | number | boolean)[];
+
+/**
+ * Query parameters accepted by BaseHelper.makeRequest
+ */
+export type QueryParams = Record<string, QueryValue>;
+
+/**
+ * How array query parameters are written
+ * - repeat: status=A&status=B
+ * - comma: status=A,B
+ */
+export type QueryArrayFormat = 'repeat' | 'comma';
+
+/**
+ * File part of a multipart body, read from disk (path relative to the working directory) or given as bytes
+ */
+export type MultipartFile =
+  | { path: string; name?: string; mimeType?: string }
+  | { buffer: Buffer; name: string; mimeType?: string };
+
+/**
+ * Value of a multipart field; undefined and null leave the field out
+ */
+export type MultipartValue = string | number | boolean | MultipartFile | null | undefined;
+
+/**
+ * Request body options of BaseHelper.makeRequest (at most one may be set)
+ */
+export interface RequestBodyOptions {
+  /** JSON body */
+  data?: any;
+  /** URL-encoded form body (application/x-www-form-urlencoded) */
+  form?: QueryParams;
+  /** Multipart body (multipart/form-data with a generated boundary) */
+  multipart?: Record<string, MultipartValue>;
+  /** Raw binary body (application/octet-stream unless a Content-Type header is given) */
+  binary?: Buffer;
+}
+
+/**
+ * Outgoing API request as seen by signers and interceptors
+ * 
+ * Contains the fully built request just before it is attached and sent.
+ */
+export interface ApiRequest {
+  /** HTTP method of the request */
+  method: HttpMethod;
+  
+  /** Complete request URL including query string */
+  url: string;
+  
+  /** Request headers built so far */
+  headers: Record<string, string>;
+  
+  /** Request body: JSON value, encoded form string or multipart/binary Buffer (undefined when no body is sent) */
+  data?: any;
+}
+
+/**
+ * Request signing hook
+ * 
+ * Returns headers (e.g. X-Timestamp, X-Signature) that are merged into the
+ * request headers before the request is logged, attached and sent.
+ */
+export type RequestSigner = (request: ApiRequest) => Record<string, string>;
+
+/**
+ * Value that may be returned directly or through a Promise
+ */
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Request/response pair written to logs and Allure attachments
+ */
+export interface ReportEntry {
+  /** Request as it was sent */
+  request: ApiRequest;
+  
+  /** Response (absent while the request is being reported) */
+  response?: ApiResponse;
+}
+
+/**
+ * Request/response interceptor for BaseHelper.makeRequest
+ * 
+ * All hooks are optional. onRequest hooks run in registration order (global
+ * interceptors first); onResponse and onError hooks run in reverse order.
+ */
+export interface Interceptor {
+  /** Name used in log messages */
+  name?: string;
+  
+  /**
+   * Inspect or replace the outgoing request.
+   * Return a modified ApiRequest to replace it, or an ApiResponse to short-circuit
+   * the call with a synthetic response (the onResponse chain still runs).
+   */
+  onRequest?: (request: ApiRequest) => MaybePromise<ApiRequest | ApiResponse | void>;
+  
+  /** Inspect or replace the response. Return a new ApiResponse to replace it. */
+  onResponse?: (response: ApiResponse, request: ApiRequest) => MaybePromise<ApiResponse | void>;
+  
+  /** Handle a failed request. Return an ApiResponse to recover instead of throwing. */
+  onError?: (error: Error, request: ApiRequest) => MaybePromise<ApiResponse | void>;
+  
+  /**
+   * Transform the copy written to logs and Allure attachments (e.g. PII masking).
+   * Must return new objects rather than mutating the entry.
+   */
+  onReport?: (entry: ReportEntry) => ReportEntry | void;
+}
+
 /**
  * Generic API response wrapper
  * 
@@ -22,6 +146,145 @@ export interface ApiResponse<T = any> {
   
   /** Whether the response status indicates success (2xx) */
   ok: boolean;
+  
+  /** Timing and size data (absent for synthetic responses) */
+  timing?: ResponseTiming;
+  
+  /** Request that produced the response, as reported (after onReport masking); used for curl reproduction lines */
+  request?: ApiRequest;
+}
+
+/**
+ * JSON Schema (draft 2020-12) used to validate response bodies
+ */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Value selected by a JSONPath expression
+ */
+export interface JsonPathMatch {
+  /** Normalized path of the value (e.g. $.assets[1].isin) */
+  path: string;
+  
+  /** Selected value */
+  value: any;
+}
+
+/**
+ * How ResponseValidator.validateField compares a field with the expected value
+ */
+export interface FieldMatchOptions {
+  /**
+   * equal (default): deep equality
+   * partial: expected objects only need a subset of the actual keys, arrays are compared
+   * element by element and RegExp values match strings
+   */
+  match?: 'equal' | 'partial';
+}
+
+/**
+ * Latency and payload size captured for a request
+ *
+ * Playwright hands over the response only once its body is buffered, so there is no
+ * separate time-to-first-byte; durationMs is the latency to assert on.
+ */
+export interface ResponseTiming {
+  /** Total time from sending the request until the body was parsed, in milliseconds */
+  durationMs: number;
+  
+  /** Size of the serialized request body in bytes */
+  requestSizeBytes: number;
+  
+  /** Size of the raw response body in bytes */
+  responseSizeBytes: number;
+}
+
+/**
+ * Outcome of the environment safety guard for one request
+ */
+export interface SafetyDecision {
+  allowed: boolean;
+
+  /** Why the request was allowed or blocked */
+  reason: string;
+
+  /** Endpoint category (pod.category) the URL matched, if any */
+  category?: string;
+}
+
+/**
+ * Retry policy applied by BaseHelper.makeRequest
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one (1 disables retries) */
+  maxAttempts: number;
+  
+  /** Delay before the first retry in milliseconds; doubles on each further retry */
+  baseDelayMs: number;
+  
+  /** Upper bound for the computed backoff delay in milliseconds */
+  maxDelayMs: number;
+  
+  /** Fraction of the backoff delay randomised away (0 = no jitter, 1 = full jitter) */
+  jitter: number;
+  
+  /** Response status codes that trigger a retry */
+  retryableStatuses: number[];
+  
+  /** Whether network-level failures (timeouts, connection resets) trigger a retry */
+  retryOnNetworkError: boolean;
+  
+  /** Whether non-idempotent methods (POST, PATCH) may be retried */
+  retryNonIdempotent: boolean;
+  
+  /** Whether a Retry-After response header overrides the computed backoff */
+  respectRetryAfter: boolean;
+  
+  /** Upper bound for a Retry-After delay in milliseconds */
+  maxRetryAfterMs: number;
+}
+
+/**
+ * Options for polling an endpoint until a condition is met
+ */
+export interface PollOptions {
+  /** Maximum total time to poll in milliseconds (default: 30000) */
+  timeoutMs?: number;
+  
+  /** Delay before the second poll in milliseconds (default: 1000) */
+  intervalMs?: number;
+  
+  /** Factor applied to the interval after every poll (default: 1, i.e. fixed interval) */
+  backoffFactor?: number;
+  
+  /** Upper bound for the interval in milliseconds (default: 10000) */
+  maxIntervalMs?: number;
+  
+  /** Body status/subStatus values that end polling with a failure (e.g. REJECTED) */
+  failureStates?: string[];
+  
+  /** Description used in log messages, Allure steps and errors */
+  description?: string;
+}
+
+/**
+ * One observation recorded while polling
+ */
+export interface PollHistoryEntry {
+  /** Poll number (1-based) */
+  attempt: number;
+  
+  /** Milliseconds since polling started */
+  elapsedMs: number;
+  
+  /** HTTP status code of the response */
+  httpStatus: number;
+  
+  /** Value of body.status, if present */
+  status?: string;
+  
+  /** Value of body.subStatus, if present */
+  subStatus?: string;
 }
 
 /**
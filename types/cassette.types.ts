@@ -0,0 +1,101 @@
+/**
+ * Cassette Type Definitions
+ *
+ * Type definitions for record/replay (VCR) cassettes: recorded request/response
+ * pairs, how requests are matched on replay and what is redacted before saving.
+ */
+
+import { HttpMethod } from './api.types';
+
+/**
+ * Cassette mode
+ * - off: requests go to the network
+ * - record: requests go to the network and every pair is written to the cassette
+ * - replay: responses are served from the cassette; unmatched requests fail
+ */
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+/**
+ * How a request is matched against recorded interactions
+ */
+export interface CassetteMatchOptions {
+  /** Compare HTTP methods */
+  method: boolean;
+
+  /** Compare URL paths (the host is never compared) */
+  path: boolean;
+
+  /** Compare query strings */
+  query: boolean;
+
+  /** Compare SHA-256 hashes of the (redacted) request bodies */
+  bodyHash: boolean;
+
+  /** Compare request headers (except ignoreHeaders) */
+  headers: boolean;
+
+  /** Header names left out of header matching (case-insensitive) */
+  ignoreHeaders: string[];
+}
+
+/**
+ * What is redacted from cassettes before they are written
+ */
+export interface CassetteRedactionOptions {
+  /** Header names whose values are replaced (case-insensitive) */
+  headers: string[];
+
+  /** Body and query keys whose values are replaced, at any depth (case-insensitive) */
+  bodyKeys: string[];
+
+  /** Literal secret values replaced wherever they appear in strings */
+  secretValues: string[];
+
+  /** Replace anything shaped like a JWT with a placeholder token */
+  jwt: boolean;
+}
+
+/**
+ * Binary (Buffer) body as stored in a cassette
+ */
+export interface CassetteBinaryBody {
+  /** Body bytes, base64 encoded */
+  $base64: string;
+}
+
+/**
+ * Recorded request
+ */
+export interface CassetteRequest {
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  body?: any;
+  bodyHash?: string;
+}
+
+/**
+ * Recorded response
+ */
+export interface CassetteResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: any;
+}
+
+/**
+ * Single recorded request/response pair
+ */
+export interface CassetteInteraction {
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+/**
+ * Cassette file contents
+ */
+export interface CassetteFile {
+  name: string;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
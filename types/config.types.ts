@@ -8,6 +8,8 @@
  * Requirements: 10.1, 10.2
  */
 
+import { HttpMethod } from './api.types';
+
 /**
  * Credentials for a single pod
  * Contains authentication information required to access a pod's API
@@ -58,3 +60,55 @@ export interface PodEndpoints {
 export interface EndpointsConfig {
   [podName: string]: PodEndpoints;
 }
+
+/**
+ * Environment definition as written in config/environments/<name>.json
+ * Fields missing here are inherited from the environment named in `extends`
+ */
+export interface EnvironmentDefinition {
+  /** Name of the environment to inherit from (e.g. qa2 extends staging) */
+  extends?: string;
+
+  /** Volt base URL, used by every pod without its own entry in pods */
+  baseUrl?: string;
+
+  /** DSP base URL for loan account creation APIs */
+  dspBaseUrl?: string;
+
+  /** Base URLs per pod (e.g. { "lms": "https://lms.example.com" }), merged with the parent's */
+  pods?: Record<string, string>;
+
+  /** Calls allowed by the safety guard; replaces the parent's policy (omit to allow everything) */
+  safety?: SafetyPolicy;
+}
+
+/**
+ * Fully resolved environment (inheritance applied)
+ */
+export interface EnvironmentSettings {
+  /** Environment name (the file name without .json) */
+  name: string;
+
+  /** Names of the environment and its ancestors, nearest first */
+  chain: string[];
+
+  baseUrl: string;
+
+  dspBaseUrl: string;
+
+  pods: Record<string, string>;
+
+  safety?: SafetyPolicy;
+}
+
+/**
+ * Calls BaseHelper may send in an environment (e.g. prod is read-only)
+ * A call is allowed if its method or its endpoint category is listed
+ */
+export interface SafetyPolicy {
+  /** HTTP methods allowed for every endpoint (e.g. ["GET"]) */
+  allowedMethods: HttpMethod[];
+
+  /** Endpoint categories from endpoints.json allowed with any method, as pod.category (e.g. "los.auth") */
+  allowedCategories: string[];
+}
@@ -0,0 +1,228 @@
+/**
+ * Contract Type Definitions
+ *
+ * Type definitions for consumer-driven contracts in the Pact specification v3 format:
+ * recorded interactions with their provider states, response matching rules and
+ * provider-state generators, and the outcome of verifying a provider against them.
+ */
+
+import { HttpMethod, RequestSigner } from './api.types';
+import { EndpointBase } from './endpoint.types';
+
+/**
+ * Contract mode
+ * - off: nothing is recorded
+ * - record: interactions of the registry's routes are recorded and merged into the contract files
+ */
+export type ContractMode = 'off' | 'record';
+
+/**
+ * Single matcher of a matching rule
+ * - equality: deep-equal to the example
+ * - type: same JSON type as the example (arrays: at least min items, each like the first example)
+ * - number / integer / decimal: numeric values
+ * - regex: string matching the pattern
+ */
+export interface ContractMatcher {
+  match: 'equality' | 'type' | 'number' | 'integer' | 'decimal' | 'regex';
+
+  /** Pattern for regex matchers */
+  regex?: string;
+
+  /** Minimum array length for type matchers */
+  min?: number;
+}
+
+/**
+ * Matchers applied to one JSONPath; all of them must pass
+ */
+export interface ContractMatchingRule {
+  matchers: ContractMatcher[];
+  combine?: 'AND';
+}
+
+/**
+ * Matching rules by category; body keys are JSONPaths where [*] stands for every array item
+ */
+export interface ContractMatchingRules {
+  body?: Record<string, ContractMatchingRule>;
+}
+
+/**
+ * Value filled in by the verifier from provider state values
+ */
+export interface ContractGenerator {
+  type: 'ProviderState';
+
+  /** Template with ${name} placeholders of provider state values or captures (e.g. /los/api/v1/utility/kyc/${kycUtilityInit.utilityReferenceId}) */
+  expression: string;
+
+  dataType?: 'STRING';
+}
+
+/**
+ * Generators by category; body keys are JSONPaths of redacted or omitted request values
+ */
+export interface ContractGenerators {
+  path?: ContractGenerator;
+  body?: Record<string, ContractGenerator>;
+}
+
+/**
+ * State the provider must be in before an interaction is replayed
+ */
+export interface ProviderState {
+  /** Description shared with the provider team (e.g. "the KYC utility is approved") */
+  name: string;
+
+  /** Values the state refers to, including the path params of the request */
+  params?: Record<string, any>;
+}
+
+/**
+ * Request the consumer sends
+ */
+export interface ContractRequest {
+  method: HttpMethod;
+
+  /** Path relative to the provider's base URL, with the recorded path params */
+  path: string;
+
+  query?: Record<string, string[]>;
+
+  /** Headers the consumer sends, without auth, signature and transport headers */
+  headers?: Record<string, string>;
+
+  /** Request body with secrets redacted */
+  body?: any;
+
+  generators?: ContractGenerators;
+}
+
+/**
+ * Response the consumer expects
+ */
+export interface ContractResponse {
+  status: number;
+  headers?: Record<string, string>;
+
+  /** Example body; values without a matching rule must be equal */
+  body?: any;
+
+  matchingRules?: ContractMatchingRules;
+
+  /** Values later requests reuse, by capture name (e.g. createOpportunity.opportunityId): JSONPath in the body */
+  captures?: Record<string, string>;
+}
+
+/**
+ * Single expected request/response pair
+ */
+export interface ContractInteraction {
+  /** Registry route and status (e.g. "los.loanAccountCreation.getKycUtility returns 200") */
+  description: string;
+
+  providerStates?: ProviderState[];
+  request: ContractRequest;
+  response: ContractResponse;
+}
+
+/**
+ * Contract file contents, one file per consumer and provider
+ */
+export interface ContractFile {
+  consumer: { name: string };
+  provider: { name: string };
+  interactions: ContractInteraction[];
+  metadata: {
+    pactSpecification: { version: string };
+
+    /** Where the interactions were recorded: "mock" (the in-process mock server) or the TEST_ENV */
+    recordedAgainst?: string;
+  };
+}
+
+/**
+ * Options of a ContractRecorder
+ */
+export interface ContractRecorderOptions {
+  /** Consumer name written to the contracts */
+  consumer: string;
+
+  /** Directory the contract files are merged into */
+  directory: string;
+
+  /** Pods whose registry routes are recorded */
+  pods: string[];
+
+  /** Response body keys matched by value instead of type (e.g. status) */
+  equalityKeys: string[];
+
+  /** Longer request body strings (e.g. base64 images) are replaced by a placeholder and a generator */
+  maxExampleLength: number;
+
+  /** Top-level response keys whose values later requests may reuse (e.g. opportunityId) */
+  captureKeys: string[];
+
+  /** Where the requests of each base URL go, written to the contract metadata (default: the TEST_ENV) */
+  targets: Partial<Record<EndpointBase, string>>;
+}
+
+/**
+ * What a provider state handler set up
+ */
+export interface ProviderStateSetup {
+  /** Values for generator expressions, merged over the state params */
+  values?: Record<string, any>;
+
+  /** Headers added to the replayed request (e.g. Authorization) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Puts the provider into a state before an interaction is replayed
+ */
+export type ProviderStateHandler = (params: Record<string, any>) => Promise<ProviderStateSetup | void> | ProviderStateSetup | void;
+
+/**
+ * Options of a ContractVerifier
+ */
+export interface ContractVerifierOptions {
+  /** Provider base URL (default: the environment's URL for the contract's provider) */
+  baseUrl?: string;
+
+  /** Request signer (default: DSP signature headers for the DSP provider) */
+  signer?: RequestSigner;
+
+  /** Handlers by provider state name; states without a handler only contribute their params */
+  stateHandlers?: Record<string, ProviderStateHandler>;
+
+  /** Headers added to every replayed request */
+  headers?: Record<string, string>;
+
+  /** Generator values used by every interaction, overridden by provider state values (e.g. an image for an omitted body value) */
+  values?: Record<string, any>;
+}
+
+/**
+ * Outcome of replaying one interaction
+ */
+export interface ContractInteractionResult {
+  description: string;
+  providerStates: string[];
+  passed: boolean;
+
+  /** What did not match, one line per difference (empty when passed) */
+  mismatches: string[];
+}
+
+/**
+ * Outcome of verifying a provider against a contract
+ */
+export interface ContractVerificationReport {
+  consumer: string;
+  provider: string;
+  baseUrl: string;
+  passed: boolean;
+  results: ContractInteractionResult[];
+}
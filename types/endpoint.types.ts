@@ -0,0 +1,84 @@
+/**
+ * Endpoint Type Definitions
+ *
+ * Type definitions for the typed endpoint registry: path parameters inferred
+ * from {placeholders}, declared query parameters and the base URL of each route.
+ */
+
+import { HttpMethod, QueryValue } from './api.types';
+
+/**
+ * Base URL a route is served from
+ * - volt: the pod's base URL (Volt API, or the pod's own entry in the environment)
+ * - dsp: the DSP base URL (requests are signed by the DSP helper)
+ */
+export type EndpointBase = 'volt' | 'dsp';
+
+/**
+ * Raw {placeholders} of a path template, optional ones still ending in ?
+ */
+type Placeholders<Path extends string> =
+  Path extends `${string}{${infer Param}}${infer Rest}` ? Param | Placeholders<Rest> : never;
+
+/**
+ * Names of the {placeholders} in a path template
+ *
+ * @example PathParamNames<'/opportunity/{opportunityId}/submit'> = 'opportunityId'
+ */
+export type PathParamNames<Path extends string> = StripOptional<Placeholders<Path>>;
+
+/** Placeholder name without the ? of an optional segment */
+type StripOptional<Param extends string> = Param extends `${infer Name}?` ? Name : Param;
+
+/**
+ * Names of the {placeholders} that must have a value (all but {optional?} ones)
+ */
+export type RequiredPathParamNames<Path extends string> = Exclude<Placeholders<Path>, `${string}?`>;
+
+/**
+ * Values for the placeholders of a path template ({optional?} ones may be left out)
+ */
+export type PathParams<Path extends string> =
+  { [Name in RequiredPathParamNames<Path>]: string } & { [Name in Exclude<PathParamNames<Path>, RequiredPathParamNames<Path>>]?: string };
+
+/**
+ * Method, base URL and query parameters of a route, declared next to its path
+ */
+export interface EndpointMetadata {
+  method: HttpMethod;
+
+  base: EndpointBase;
+
+  /** Query parameters the route accepts (any are accepted when omitted) */
+  query?: readonly string[];
+}
+
+/**
+ * Registry entry for a single route
+ */
+export interface EndpointDefinition<
+  Path extends string = string,
+  Method extends HttpMethod = HttpMethod,
+  Query extends string = string
+> {
+  /** Dotted registry name (e.g. los.loanAccountCreation.getKycUtility) */
+  name: string;
+
+  method: Method;
+
+  /** Path template from endpoints.json */
+  path: Path;
+
+  /** Placeholder names in path order */
+  pathParams: PathParamNames<Path>[];
+
+  /** Declared query parameters (empty when any are accepted) */
+  query: readonly Query[];
+
+  base: EndpointBase;
+}
+
+/**
+ * Query parameters accepted by a registry entry
+ */
+export type EndpointQuery<E extends EndpointDefinition> = Partial<Record<E['query'][number], QueryValue>>;
@@ -0,0 +1,87 @@
+/**
+ * Journey Type Definitions
+ *
+ * Type definitions for declarative API journeys: ordered steps that call a helper,
+ * check the response and capture values into a typed context for later steps.
+ */
+
+import { ApiResponse, JsonSchema } from './api.types';
+
+/**
+ * Expected outcome of a journey step
+ */
+export interface StepExpectation {
+  /** Expected HTTP status code */
+  statusCode?: number;
+
+  /** Fields that must be present in the response body (JSONPath or dot notation) */
+  requiredFields?: string[];
+
+  /** JSON Schema the response body must match, or its path under testdata/ */
+  schema?: JsonSchema | string;
+
+  /** Fields that must deep-equal the given values (JSONPath or dot notation) */
+  fields?: Record<string, any>;
+}
+
+/**
+ * Single step of a journey
+ *
+ * @template TContext - Shape of the values passed between steps
+ * @template THelper - Helper used to make the requests
+ */
+export interface JourneyStep<TContext, THelper> {
+  /** Unique step name, used for resuming and variants */
+  name: string;
+
+  /** Title shown in Allure (defaults to name) */
+  title?: string;
+
+  /** Build the request from the context and send it through the helper */
+  run: (helper: THelper, context: TContext) => Promise<ApiResponse>;
+
+  /** Expected outcome, static or derived from the context */
+  expect?: StepExpectation | ((context: TContext) => StepExpectation);
+
+  /** Additional assertions; throw to fail the step */
+  verify?: (response: ApiResponse, context: TContext) => void | Promise<void>;
+
+  /** Values to merge into the context once the step passed */
+  capture?: (response: ApiResponse, context: TContext) => Partial<TContext>;
+}
+
+/**
+ * Ordered list of steps forming a journey
+ */
+export interface JourneyDefinition<TContext, THelper> {
+  /** Journey name (used in logs and errors) */
+  name: string;
+
+  /** Steps in execution order */
+  steps: JourneyStep<TContext, THelper>[];
+}
+
+/**
+ * Options for running a journey
+ */
+export interface JourneyRunOptions {
+  /** Name of the step to start from (earlier steps are skipped) */
+  from?: string;
+
+  /** Name of the last step to run */
+  until?: string;
+}
+
+/**
+ * Changes applied to a journey to derive a variant
+ */
+export interface JourneyVariant<TContext, THelper> {
+  /** Name of the derived journey */
+  name?: string;
+
+  /** Names of steps to leave out */
+  skip?: string[];
+
+  /** Per-step property overrides, keyed by step name */
+  steps?: Record<string, Partial<Omit<JourneyStep<TContext, THelper>, 'name'>>>;
+}
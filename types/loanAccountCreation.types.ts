@@ -0,0 +1,451 @@
+/**
+ * Loan Account Creation Types
+ *
+ * Request and response bodies of the DSP loan account creation APIs
+ * (endpoints.los.loanAccountCreation), as used by LoanAccountCreationHelper.
+ * Status values returned by the APIs are typed as unions; codes sent in requests
+ * (product, consent status, verification method, ...) are plain strings so the
+ * JSON test data in testdata/los/loanAccountCreation.json can be passed through as is.
+ */
+
+/**
+ * Status of a utility (KYC, photo verification, bank account, mandate, KFS, agreement, ...)
+ */
+export type UtilityStatus = 'IN_PROGRESS' | 'APPROVED' | 'REJECTED' | 'FAILED';
+
+/**
+ * Detailed status of a utility
+ */
+export type UtilitySubStatus =
+  | 'IN_PROGRESS'
+  | 'APPROVED'
+  | 'VALIDATION_PENDING'
+  | 'PHOTO_VERIFICATION_SUCCESS'
+  | 'BANK_ACCOUNT_VERIFICATION_SUCCESSFUL'
+  | 'MANDATE_SUCCESS'
+  | 'CONSENT_PENDING'
+  | 'CONSENT_REJECTED'
+  | 'KFS_ACCEPTED'
+  | 'AGREEMENT_SIGNED';
+
+/**
+ * Kind of utility created for an opportunity
+ */
+export type UtilityType =
+  | 'KYC'
+  | 'PHOTO_VERIFICATION'
+  | 'ADDITIONAL_DATA'
+  | 'BANK_ACCOUNT'
+  | 'MANDATE'
+  | 'VERIFICATION_LOG'
+  | 'KFS'
+  | 'AGREEMENT';
+
+/**
+ * Status of an opportunity
+ */
+export type OpportunityStatus = 'CREATED' | 'IN_PROGRESS' | 'SUBMITTED';
+
+/**
+ * Data types referenced when submitting an opportunity
+ */
+export type SubmittedDataType =
+  | 'BANK_ACCOUNT'
+  | 'AGREEMENT'
+  | 'KFS'
+  | 'MANDATE'
+  | 'ADDITIONAL_DATA'
+  | 'KYC'
+  | 'PHOTO_VERIFICATION'
+  | 'MOBILE_VERIFICATION_LOG'
+  | 'EMAIL_VERIFICATION_LOG';
+
+/**
+ * Error body returned by the DSP APIs for 4xx responses
+ */
+export interface DspErrorResponse {
+  /** Machine readable code (e.g. VALIDATION_ERROR, OPPORTUNITY_NOT_FOUND) */
+  errorCode: string;
+
+  /** Human readable description */
+  message: string;
+}
+
+/**
+ * Customer consent attached to utility and verification requests
+ */
+export interface CustomerConsent {
+  /** APPROVED or REJECTED */
+  consentStatus: string;
+
+  /** IP address the consent was given from */
+  ipAddress: string;
+
+  /** When consent was given (ISO date string or epoch milliseconds) */
+  approvalTimestamp: string | number;
+
+  /** Consent text, if captured */
+  consent?: string | null;
+}
+
+/**
+ * Mutual fund holding offered as collateral
+ */
+export interface OfferAsset {
+  isin: string;
+  folioNumber: string;
+  assetUnits: number;
+}
+
+/**
+ * Request body of generateOffer
+ */
+export interface GenerateOfferRequest {
+  pan: string;
+
+  /** Product code (e.g. LAS) */
+  productShortName: string;
+
+  assets: OfferAsset[];
+}
+
+/**
+ * Collateral asset valued by generateOffer
+ */
+export interface ValuedAsset extends OfferAsset {
+  assetCategory: string;
+  nav: number;
+  assetValue: number;
+
+  /** Loan-to-value ratio applied to the asset (0-1) */
+  ltv: number;
+}
+
+/**
+ * Response body of generateOffer
+ */
+export interface GenerateOfferResponse {
+  dedupeResponse: { isDuplicate: boolean };
+  assets: ValuedAsset[];
+  totalAssetValue: number;
+
+  /** Eligible credit limit across all assets */
+  totalAssetLtv: number;
+
+  feeConfig: { processingFee: number; renewalFee: number };
+  interestConfig: { interestRate: number };
+  tenureConfig: { tenureInMonths: number };
+}
+
+/**
+ * Request body of clientDedupeCheck
+ */
+export interface ClientDedupeCheckRequest {
+  pan: string;
+  productShortName: string;
+}
+
+/**
+ * Response body of clientDedupeCheck
+ */
+export interface ClientDedupeCheckResponse {
+  isDuplicate: boolean;
+  message: string;
+
+  /** Asset categories the client may still pledge (empty for duplicates) */
+  availableAssetCategories: string[];
+}
+
+/**
+ * Request body of createOpportunity
+ */
+export interface CreateOpportunityRequest {
+  pan: string;
+  phoneNumber: string;
+
+  /** Product code (e.g. LAS) */
+  product: string;
+
+  /** Defaults to LOAN_CREATION */
+  opportunityType?: string;
+}
+
+/**
+ * Response body of createOpportunity
+ */
+export interface OpportunityResponse {
+  opportunityId: string;
+  pan: string;
+  phoneNumber: string;
+  product: string;
+  opportunityType: string;
+  status: OpportunityStatus;
+}
+
+/**
+ * Utility as returned by every utility init, getter and consent endpoint
+ */
+export interface UtilityResponse {
+  opportunityId: string;
+  utilityReferenceId: string;
+  utilityType?: UtilityType;
+  status: UtilityStatus;
+  subStatus: UtilitySubStatus;
+
+  /** Utility specific data captured so far */
+  data: Record<string, any>;
+
+  /** Data reported by the verifier (e.g. KYC agency) */
+  verifierData: Record<string, any>;
+
+  /** Page the customer completes the utility on (KYC, mandate), null otherwise */
+  webUrl: string | null;
+
+  /** Loan account ID, set once the loan is booked */
+  fenixLoanAccountId: string | null;
+}
+
+/**
+ * Request body of kycUtilityInit
+ */
+export interface KycUtilityInitRequest {
+  opportunityId: string;
+
+  /** Where the customer is sent after completing KYC */
+  redirectionUrl: string;
+}
+
+/**
+ * Request body of initPhotoVerification
+ */
+export interface PhotoVerificationRequest {
+  opportunityId: string;
+
+  /** Base64 encoded photo (without a data: URL prefix) */
+  userImage: string;
+
+  customerConsent: CustomerConsent;
+}
+
+/**
+ * Borrower details collected by saveAdditionalData
+ */
+export interface AdditionalData {
+  /** Purpose of the loan (e.g. PERSONAL) */
+  endUse: string;
+
+  /** Income bracket (e.g. ANNUAL_3_10_LAKHS) */
+  incomeRange: string;
+
+  fathersFirstName: string;
+  fathersMiddleName: string;
+  fathersLastName: string;
+
+  /** Employment status (e.g. SALARIED) */
+  employmentStatus: string;
+
+  residentIndianStatus: boolean;
+  currentAddressSameAsPermanent: boolean;
+}
+
+/**
+ * Request body of saveAdditionalData
+ */
+export interface SaveAdditionalDataRequest {
+  opportunityId: string;
+  additionalData: AdditionalData;
+  customerConsent: CustomerConsent;
+}
+
+/**
+ * Request body of bankUtilityInit
+ */
+export interface BankUtilityInitRequest {
+  opportunityId: string;
+  bankAccountNumber: string;
+  ifscCode: string;
+  bankName: string;
+
+  /** Account type (e.g. SAVINGS_ACCOUNT) */
+  bankAccountType: string;
+}
+
+/**
+ * Request body of createMandate
+ */
+export interface CreateMandateRequest {
+  opportunityId: string;
+
+  /** utilityReferenceId of the approved bank account utility */
+  bankAccountVerificationId: string;
+
+  /** Last date the mandate can be presented (yyyy-MM-dd) */
+  endDate: string;
+
+  /** Mandate type (e.g. API_MANDATE) */
+  mandateType: string;
+
+  /** Maximum debit amount, as a decimal string */
+  mandateAmount: string;
+
+  redirectionUrl: string;
+}
+
+/**
+ * Request body of createVerificationLogEmail (used for email and mobile verification logs)
+ */
+export interface VerificationLogRequest {
+  opportunityId: string;
+  customerConsent: CustomerConsent;
+
+  /** How the value was verified (e.g. EMAIL, OTP) */
+  verificationMethod: string;
+
+  verificationRemarks: string;
+
+  /** Outcome of the verification (e.g. SUCCESS) */
+  verificationStatus: string;
+
+  /** Epoch milliseconds */
+  verificationTimestamp: number;
+
+  /** What was verified (e.g. EMAIL, MOBILE) */
+  verificationType: string;
+
+  /** Verified email address or phone number */
+  verifiedValue: string;
+}
+
+/**
+ * Fees shown in the Key Fact Statement
+ */
+export interface FeeDetails {
+  processingFee: number;
+  enhanceLimitFee: number;
+  renewalFee: number;
+  marginPledgeFee: number;
+}
+
+/**
+ * Loan terms shown in the Key Fact Statement (KFS)
+ */
+export interface KfsTerms {
+  creditLimit: number;
+  sanctionLimit: number;
+
+  /** Annual interest rate in percent */
+  interestRate: number;
+
+  /** Tenure in months */
+  tenure: number;
+
+  feeDetails: FeeDetails;
+}
+
+/**
+ * Utility reference IDs the loan agreement is generated from
+ */
+export interface AgreementReferences {
+  kycReferenceId?: string;
+  additionalUtilityReferenceId?: string;
+  photoUtilityReferenceId?: string;
+  bankAccountReferenceId?: string;
+}
+
+/**
+ * Request body of generateLoanContract
+ */
+export interface GenerateLoanContractRequest {
+  kfsRequest: KfsTerms & { emailVerificationLogId?: string };
+  agreementRequest: AgreementReferences;
+  redirectionUrl: string;
+}
+
+/**
+ * KFS or agreement step created by generateLoanContract
+ */
+export interface LoanContractStep {
+  utilityType: 'KFS' | 'AGREEMENT_SIGN';
+  utilityReferenceId: string;
+  status: UtilityStatus;
+}
+
+/**
+ * Response body of generateLoanContract
+ */
+export interface GenerateLoanContractResponse {
+  opportunityId: string;
+  status: OpportunityStatus;
+  steps: LoanContractStep[];
+}
+
+/**
+ * Lending service provider details printed on the KFS
+ */
+export interface LspRequestDetails {
+  lspDetails: { name: string; address: string };
+  grievanceOfficer: {
+    name: string;
+    designation: string;
+    address: string;
+    phoneNumber: string;
+    emailID: string;
+  };
+}
+
+/**
+ * Request body of approveKfs
+ */
+export interface ApproveKfsRequest extends KfsTerms {
+  opportunityId: string;
+  productName: string;
+  lspRequestDetails: LspRequestDetails;
+
+  /** Sourcing channel approving the KFS, also sent as the requester header */
+  requester: string;
+
+  emailVerificationLogId?: string;
+}
+
+/**
+ * Request body of kfsConsent and agreementConsent
+ */
+export interface ConsentRequest {
+  /** APPROVED (default) or REJECTED */
+  consentStatus?: string;
+
+  ipAddress?: string;
+}
+
+/**
+ * Request body of approveAgreement
+ */
+export interface ApproveAgreementRequest extends AgreementReferences {
+  opportunityId: string;
+
+  /** utilityReferenceId of the accepted KFS */
+  kfsReferenceId?: string;
+}
+
+/**
+ * Utility reference included in an opportunity submission
+ */
+export interface SubmittedData {
+  dataType: SubmittedDataType;
+  referenceId: string;
+}
+
+/**
+ * Request body of submitOpportunity
+ */
+export interface SubmitOpportunityRequest {
+  submittedDataList: SubmittedData[];
+}
+
+/**
+ * Response body of submitOpportunity
+ */
+export interface SubmitOpportunityResponse {
+  opportunityId: string;
+  status: OpportunityStatus;
+}
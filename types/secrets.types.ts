@@ -0,0 +1,65 @@
+/**
+ * Secrets Type Definitions
+ *
+ * Type definitions for the secrets provider: the secrets the framework needs,
+ * the backends they are read from and the encrypted secrets file format.
+ */
+
+/**
+ * Secrets used by helpers and mock servers
+ * - DSP_SECRET_KEY: HMAC key for DSP request signatures
+ * - LOS_PHONE_NO / LOS_OTP: OTP login for LOSHelper
+ * - LMS_EMAIL / LMS_PASSWORD: LMSHelper login
+ */
+export type SecretName = 'DSP_SECRET_KEY' | 'LOS_PHONE_NO' | 'LOS_OTP' | 'LMS_EMAIL' | 'LMS_PASSWORD';
+
+/**
+ * Source of secret values
+ */
+export interface SecretBackend {
+  /** Short backend name used in logs and errors (e.g. env, dotenv) */
+  readonly name: string;
+
+  /** Where the backend reads from (e.g. a file path) */
+  readonly location: string;
+
+  /** True if the values come from a file committed to the repository */
+  readonly committed: boolean;
+
+  /**
+   * Get a secret value
+   *
+   * @returns The value, or undefined if this backend does not have it
+   */
+  get(name: SecretName): string | undefined;
+}
+
+/**
+ * Secret value together with the backend it came from
+ */
+export interface ResolvedSecret {
+  name: SecretName;
+  value: string;
+  backend: string;
+  location: string;
+  committed: boolean;
+}
+
+/**
+ * Contents of an encrypted secrets file (AES-256-GCM, key derived with scrypt)
+ */
+export interface EncryptedSecretsFile {
+  version: 1;
+
+  /** Base64 scrypt salt */
+  salt: string;
+
+  /** Base64 GCM initialization vector */
+  iv: string;
+
+  /** Base64 GCM authentication tag */
+  authTag: string;
+
+  /** Base64 ciphertext of the JSON secret map */
+  ciphertext: string;
+}
@@ -0,0 +1,60 @@
+/**
+ * Snapshot Type Definitions
+ *
+ * Type definitions for response body snapshots: which volatile values are masked
+ * before a body is compared with its golden file, and the outcome of a comparison.
+ */
+
+/**
+ * Masking rule with a pattern or custom replacement
+ */
+export interface SnapshotMask {
+  /** JSONPath of the values to mask (e.g. $..utilityReferenceId) */
+  path: string;
+
+  /** Mask only the parts of string values matching this pattern (e.g. a token inside a URL) */
+  pattern?: RegExp;
+
+  /** Replacement value (default: "<masked>") */
+  replacement?: string;
+}
+
+/**
+ * Masking rule: a JSONPath whose values are replaced whole, or a SnapshotMask
+ */
+export type SnapshotMaskRule = string | SnapshotMask;
+
+/**
+ * When golden files are written; same values as Playwright's updateSnapshots
+ * - all / changed: write missing and mismatching snapshots
+ * - missing: write missing snapshots (the assertion still fails)
+ * - none: never write
+ */
+export type SnapshotUpdateMode = 'all' | 'changed' | 'missing' | 'none';
+
+/**
+ * Options of a body snapshot assertion
+ */
+export interface SnapshotOptions {
+  /** Extra masking rules, applied after the defaults */
+  mask?: SnapshotMaskRule[];
+
+  /** Apply DEFAULT_SNAPSHOT_MASKS (default: true) */
+  defaultMasks?: boolean;
+}
+
+/**
+ * Outcome of comparing a body with its golden file
+ */
+export interface SnapshotResult {
+  pass: boolean;
+
+  /** What happened: written, updated, or the structural diff */
+  message: string;
+
+  /** Absolute path of the golden file */
+  snapshotPath: string;
+
+  /** Structural differences (empty when the body matches) */
+  differences: string[];
+}
@@ -8,6 +8,8 @@
  * Requirements: 10.2
  */
 
+import { RetryPolicy } from './api.types';
+
 /**
  * HTTP headers used in test data
  * Contains standard headers like Content-Type and Accept, plus any custom headers
@@ -39,6 +41,9 @@ export interface PodTestData {
     /** Number of retry attempts for failed requests */
     retries: number;
     
+    /** Optional overrides for the request retry policy (backoff, retryable statuses, ...) */
+    retryPolicy?: Partial<RetryPolicy>;
+    
     /** Additional configuration properties */
     [key: string]: any;
   };
@@ -48,3 +53,10 @@ export interface PodTestData {
     [key: string]: any;
   };
 }
+
+/**
+ * How loadTestAsset returns a file from testdata/
+ * - base64: base64 string (data URL wrappers removed)
+ * - bytes: Buffer
+ */
+export type TestAssetEncoding = 'base64' | 'bytes';
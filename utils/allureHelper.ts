@@ -9,6 +9,7 @@
  */
 
 import { allure } from 'allure-playwright';
+import { ResponseTiming } from '../types/api.types';
 
 /**
  * Attach API request details to Allure report
@@ -44,14 +45,17 @@ export function attachRequest(
  * @param status - Response status code
  * @param headers - Response headers
  * @param body - Response body
+ * @param timing - Latency and size data (optional)
  */
 export function attachResponse(
   status: number,
   headers: Record<string, string>,
-  body: any
+  body: any,
+  timing?: ResponseTiming
 ): void {
   const responseData = {
     status,
+    ...(timing && { timing }),
     headers,
     body
   };
@@ -64,19 +68,20 @@ export function attachResponse(
 }
 
 /**
- * Attach curl command for reproducing the request
+ * Build a curl command reproducing a request
  * 
  * @param method - HTTP method
  * @param url - Request URL
  * @param headers - Request headers
  * @param body - Request body (optional)
+ * @returns Multi-line curl command
  */
-export function attachCurlCommand(
+export function buildCurlCommand(
   method: string,
   url: string,
   headers: Record<string, string>,
   body?: any
-): void {
+): string {
   let curlCommand = `curl -X ${method} '${url}'`;
   
   // Add headers
@@ -89,7 +94,34 @@ export function attachCurlCommand(
     curlCommand += ` \\\n  --data '${JSON.stringify(body)}'`;
   }
   
-  allure.attachment('Curl Command', curlCommand, 'text/plain');
+  return curlCommand;
+}
+
+/**
+ * Attach curl command for reproducing the request
+ * 
+ * @param method - HTTP method
+ * @param url - Request URL
+ * @param headers - Request headers
+ * @param body - Request body (optional)
+ */
+export function attachCurlCommand(
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body?: any
+): void {
+  allure.attachment('Curl Command', buildCurlCommand(method, url, headers, body), 'text/plain');
+}
+
+/**
+ * Attach plain text (e.g. a polling history) to Allure report
+ * 
+ * @param name - Attachment name
+ * @param content - Text content
+ */
+export function attachText(name: string, content: string): void {
+  allure.attachment(name, content, 'text/plain');
 }
 
 /**
@@ -0,0 +1,181 @@
+import { expect as baseExpect, ExpectMatcherState } from '@playwright/test';
+import { isDeepStrictEqual } from 'util';
+import { ApiResponse, JsonSchema } from '../types/api.types';
+import { UtilityStatus, UtilitySubStatus } from '../types/loanAccountCreation.types';
+import { SnapshotOptions } from '../types/snapshot.types';
+import { describeBody } from '../helpers/base/requestBody';
+import { buildCurlCommand } from './allureHelper';
+import { matchBodySnapshot } from './apiSnapshot';
+import { ResponseValidator } from './validators';
+
+/**
+ * API Matchers
+ *
+ * ApiResponse-aware matchers registered through expect.extend:
+ *
+ *   await expect(response).toHaveStatus(200);
+ *   expect(response).toMatchJsonSchema('los/schemas/kycUtility.json');
+ *   expect(response).toHaveUtilityStatus('APPROVED', 'VALIDATION_PENDING');
+ *   expect(response).toHaveJsonPath('opportunityId', opportunityId);
+ *   expect(response).toMatchBodySnapshot('generateOffer');
+ *
+ * Every failure message ends with the pretty-printed body and a curl command reproducing
+ * the request (taken from response.request, which BaseHelper fills in).
+ */
+
+/** Longest pretty-printed body included in a failure message */
+const MAX_BODY_LENGTH = 2000;
+
+type MatcherResult = { message: () => string; pass: boolean };
+
+/**
+ * Body and curl reproduction line appended to every failure message
+ */
+function describeResponse(response: ApiResponse): string {
+  const body = JSON.stringify(response.body, null, 2) ?? String(response.body);
+  const printed = body.length > MAX_BODY_LENGTH ? `${body.slice(0, MAX_BODY_LENGTH)}\n... (${body.length - MAX_BODY_LENGTH} more characters)` : body;
+  const request = response.request;
+  const reproduce = request
+    ? buildCurlCommand(request.method, request.url, request.headers, describeBody(request.data))
+    : '(request not recorded on this response)';
+  return `\n\nResponse body (status ${response.status}):\n${printed}\n\nReproduce with:\n${reproduce}`;
+}
+
+/**
+ * Build a matcher result whose message is the matcher hint, the details and the response footer
+ */
+function result(
+  state: ExpectMatcherState,
+  name: string,
+  response: ApiResponse,
+  pass: boolean,
+  expected: string,
+  details: () => string
+): MatcherResult {
+  const hint = state.utils.matcherHint(name, 'response', expected, { isNot: state.isNot, promise: state.promise });
+  return { pass, message: () => `${hint}\n\n${details()}${describeResponse(response)}` };
+}
+
+/**
+ * Expected/received lines, with a diff when the values are objects
+ */
+function compare(state: ExpectMatcherState, expected: any, received: any): string {
+  if (state.isNot) {
+    return `Expected: not ${state.utils.printExpected(expected)}`;
+  }
+  return state.utils.printDiffOrStringify(expected, received, 'Expected', 'Received', true);
+}
+
+/**
+ * Matchers for expect.extend; the received value is always an ApiResponse
+ */
+export const apiMatchers = {
+  /**
+   * The status code equals the expected one
+   */
+  toHaveStatus(this: ExpectMatcherState, response: ApiResponse, expectedStatus: number): MatcherResult {
+    return result(this, 'toHaveStatus', response, response.status === expectedStatus, 'status',
+      () => compare(this, expectedStatus, response.status));
+  },
+
+  /**
+   * The status code is 2xx
+   */
+  toBeSuccessful(this: ExpectMatcherState, response: ApiResponse): MatcherResult {
+    return result(this, 'toBeSuccessful', response, response.ok, '',
+      () => `Expected status: ${this.isNot ? 'not ' : ''}2xx\nReceived status: ${this.utils.printReceived(response.status)}`);
+  },
+
+  /**
+   * A body field exists (JSONPath or dot notation), optionally deep-equal to a value
+   *
+   * Without a value the field only has to be present; null counts as present.
+   */
+  toHaveJsonPath(this: ExpectMatcherState, response: ApiResponse, path: string, ...expected: [any?]): MatcherResult {
+    const actual = ResponseValidator.getNestedField(response.body, path);
+    const found = actual !== undefined;
+    if (expected.length === 0 || !found) {
+      const pass = found && expected.length === 0;
+      return result(this, 'toHaveJsonPath', response, pass, 'path',
+        () => `Path: ${this.utils.printExpected(path)}\n` +
+          (found ? `Received value: ${this.utils.printReceived(actual)}` : 'Not found in response body'));
+    }
+    return result(this, 'toHaveJsonPath', response, isDeepStrictEqual(actual, expected[0]), 'path, value',
+      () => `Path: ${this.utils.printExpected(path)}\n\n${compare(this, expected[0], actual)}`);
+  },
+
+  /**
+   * The body matches a JSON Schema (object, or path under testdata/)
+   */
+  toMatchJsonSchema(this: ExpectMatcherState, response: ApiResponse, schema: JsonSchema | string): MatcherResult {
+    let violations = '';
+    try {
+      ResponseValidator.validateSchema(response, schema);
+    } catch (error: any) {
+      violations = error.message;
+    }
+    const name = typeof schema === 'string' ? schema : schema.$id || 'schema';
+    return result(this, 'toMatchJsonSchema', response, violations === '', 'schema',
+      () => violations || `Expected response body not to match ${name}`);
+  },
+
+  /**
+   * A response header is present, optionally with a value (exact or pattern); names are case-insensitive
+   */
+  toHaveHeader(this: ExpectMatcherState, response: ApiResponse, name: string, expected?: string | RegExp): MatcherResult {
+    const actual = ResponseValidator.getHeader(response, name);
+    const pass = actual !== undefined &&
+      (expected === undefined || (expected instanceof RegExp ? expected.test(actual) : actual === expected));
+    return result(this, 'toHaveHeader', response, pass, expected === undefined ? 'name' : 'name, value',
+      () => `Header: ${this.utils.printExpected(name)}\n` +
+        (expected === undefined ? '' : `Expected value: ${this.isNot ? 'not ' : ''}${this.utils.printExpected(expected)}\n`) +
+        (actual === undefined ? 'Not found in response headers' : `Received value: ${this.utils.printReceived(actual)}`));
+  },
+
+  /**
+   * The response was received within a time budget
+   */
+  toRespondWithin(this: ExpectMatcherState, response: ApiResponse, maxDurationMs: number): MatcherResult {
+    const duration = response.timing?.durationMs;
+    return result(this, 'toRespondWithin', response, duration !== undefined && duration <= maxDurationMs, 'ms',
+      () => duration === undefined
+        ? 'Response has no timing data'
+        : `Expected duration: ${this.isNot ? '> ' : '<= '}${this.utils.printExpected(maxDurationMs)}ms\n` +
+          `Received duration: ${this.utils.printReceived(duration)}ms`);
+  },
+
+  /**
+   * A DSP utility response has the expected status and, when given, sub-status
+   */
+  toHaveUtilityStatus(
+    this: ExpectMatcherState,
+    response: ApiResponse,
+    status: UtilityStatus | string,
+    subStatus?: UtilitySubStatus | string
+  ): MatcherResult {
+    const expected = subStatus === undefined ? { status } : { status, subStatus };
+    const actual = subStatus === undefined
+      ? { status: response.body?.status }
+      : { status: response.body?.status, subStatus: response.body?.subStatus };
+    return result(this, 'toHaveUtilityStatus', response, isDeepStrictEqual(actual, expected),
+      subStatus === undefined ? 'status' : 'status, subStatus', () => compare(this, expected, actual));
+  },
+
+  /**
+   * The body, with volatile values masked, matches <name>.json in the test's snapshot directory
+   *
+   * See utils/apiSnapshot.ts for the default masks; --update-snapshots writes new golden files.
+   */
+  toMatchBodySnapshot(this: ExpectMatcherState, response: ApiResponse, name: string, options?: SnapshotOptions): MatcherResult {
+    if (this.isNot) {
+      throw new Error('toMatchBodySnapshot cannot be negated');
+    }
+    const outcome = matchBodySnapshot(response.body, name, options);
+    return result(this, 'toMatchBodySnapshot', response, outcome.pass, 'name', () => outcome.message);
+  }
+};
+
+/**
+ * Playwright expect with the API matchers registered
+ */
+export const expect = baseExpect.extend(apiMatchers);
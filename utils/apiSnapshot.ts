@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { test } from '@playwright/test';
+import { isDeepStrictEqual } from 'util';
+import { SnapshotMaskRule, SnapshotOptions, SnapshotResult, SnapshotUpdateMode } from '../types/snapshot.types';
+import { attachText } from './allureHelper';
+import { childPath, replaceJsonPath } from './jsonPath';
+
+/**
+ * API Snapshots
+ *
+ * Compares response bodies with golden JSON files resolved through snapshotPathTemplate
+ * (<spec>-snapshots/<target>/<name>.json next to the spec, the target being "mock" or TEST_ENV):
+ *
+ *   expect(response).toMatchBodySnapshot('generateOffer', { mask: ['$.totalAssetValue'] });
+ *
+ * Volatile values (IDs, timestamps, URL tokens) are masked through JSONPath rules before the
+ * body is compared or written, keys are sorted, and a mismatch is reported as a structural diff.
+ * Run with --update-snapshots (-u) to write new golden files.
+ */
+
+/** Replacement for masked values */
+export const MASKED = '<masked>';
+
+/** Longest value quoted in a difference or mismatch */
+const MAX_QUOTED_VALUE = 80;
+
+/**
+ * Masks applied to every snapshot unless defaultMasks is false
+ */
+export const DEFAULT_SNAPSHOT_MASKS: SnapshotMaskRule[] = [
+  // DSP reference IDs
+  '$..opportunityId',
+  '$..utilityReferenceId',
+  '$..referenceId',
+  '$..fenixLoanAccountId',
+  // Generic IDs
+  '$..id',
+  '$..requestId',
+  // ISO-8601 timestamps anywhere in the body
+  '$..[?(@ =~ /^\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}/)]',
+  // Opaque tokens in URL paths and query strings; host and route stay visible
+  { path: '$..webUrl', pattern: /(?<=[/=])[\w-]{8,}(?=[/?&#]|$)/g }
+];
+
+/**
+ * Copy of a body with masking rules applied
+ *
+ * null values are kept, so a field switching between null and a value still shows up.
+ *
+ * @param body - Response body (not modified)
+ * @param rules - JSONPath masking rules
+ * @returns Masked copy
+ */
+export function maskVolatileFields(body: any, rules: SnapshotMaskRule[]): any {
+  const masked = body === undefined ? null : JSON.parse(JSON.stringify(body));
+  for (const rule of rules) {
+    const { path: jsonPath, pattern, replacement = MASKED } = typeof rule === 'string' ? { path: rule, pattern: undefined } : rule;
+    replaceJsonPath(masked, jsonPath, value => {
+      if (value === null) {
+        return value;
+      }
+      if (pattern) {
+        return typeof value === 'string' ? value.replace(pattern, replacement) : value;
+      }
+      return replacement;
+    });
+  }
+  return masked;
+}
+
+/**
+ * Copy of a value with object keys sorted at every depth, so key order never shows up as a change
+ */
+function sortKeys(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys(value[key])]));
+  }
+  return value;
+}
+
+/**
+ * Render a value as JSON for a difference or mismatch line, shortened to MAX_QUOTED_VALUE characters
+ */
+export function quote(value: any): string {
+  const rendered = JSON.stringify(value) ?? String(value);
+  return rendered.length > MAX_QUOTED_VALUE ? `${rendered.slice(0, MAX_QUOTED_VALUE)}...` : rendered;
+}
+
+/**
+ * Whether a value is a plain JSON object (not null or an array)
+ */
+export function isObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Structural differences between two JSON values
+ *
+ * One line per difference, with the JSONPath of the value:
+ * - "- path: value" - in the snapshot, missing from the body
+ * - "+ path: value" - new in the body
+ * - "~ path: old → new" - changed value (or type)
+ *
+ * @param expected - Golden value
+ * @param actual - Current value
+ * @param at - JSONPath of the compared values
+ */
+export function diffJson(expected: any, actual: any, at: string = '$'): string[] {
+  if (isDeepStrictEqual(expected, actual)) {
+    return [];
+  }
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    return Array.from({ length: Math.max(expected.length, actual.length) }, (_, index) => {
+      const itemPath = childPath(at, index);
+      if (index >= actual.length) {
+        return [`- ${itemPath}: ${quote(expected[index])}`];
+      }
+      if (index >= expected.length) {
+        return [`+ ${itemPath}: ${quote(actual[index])}`];
+      }
+      return diffJson(expected[index], actual[index], itemPath);
+    }).flat();
+  }
+  if (isObject(expected) && isObject(actual)) {
+    const keys = [...new Set([...Object.keys(expected), ...Object.keys(actual)])].sort();
+    return keys.flatMap(key => {
+      const keyPath = childPath(at, key);
+      if (!(key in actual)) {
+        return [`- ${keyPath}: ${quote(expected[key])}`];
+      }
+      if (!(key in expected)) {
+        return [`+ ${keyPath}: ${quote(actual[key])}`];
+      }
+      return diffJson(expected[key], actual[key], keyPath);
+    });
+  }
+  return [`~ ${at}: ${quote(expected)} → ${quote(actual)}`];
+}
+
+/**
+ * Compare a body with a golden file, writing the file as the update mode allows
+ *
+ * @param body - Response body
+ * @param snapshotPath - Golden file path
+ * @param mode - When the golden file may be written
+ * @param options - Masking options
+ * @returns Whether the body matched (or was accepted) and what happened
+ */
+export function compareBodySnapshot(
+  body: any,
+  snapshotPath: string,
+  mode: SnapshotUpdateMode,
+  options: SnapshotOptions = {}
+): SnapshotResult {
+  const rules = [...(options.defaultMasks === false ? [] : DEFAULT_SNAPSHOT_MASKS), ...(options.mask || [])];
+  const actual = sortKeys(maskVolatileFields(body, rules));
+  const name = path.relative(process.cwd(), snapshotPath);
+  const write = () => {
+    fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+    fs.writeFileSync(snapshotPath, `${JSON.stringify(actual, null, 2)}\n`);
+  };
+
+  if (!fs.existsSync(snapshotPath)) {
+    if (mode === 'none') {
+      return { pass: false, message: `Snapshot ${name} does not exist; run with --update-snapshots to write it`, snapshotPath, differences: [] };
+    }
+    write();
+    return { pass: mode !== 'missing', message: `Snapshot ${name} did not exist, writing actual`, snapshotPath, differences: [] };
+  }
+
+  const differences = diffJson(JSON.parse(fs.readFileSync(snapshotPath, 'utf8')), actual);
+  if (differences.length === 0) {
+    return { pass: true, message: `Body matches snapshot ${name}`, snapshotPath, differences };
+  }
+  const summary = `${differences.length} difference${differences.length === 1 ? '' : 's'}`;
+  if (mode === 'all' || mode === 'changed') {
+    write();
+    return { pass: true, message: `Snapshot ${name} updated (${summary})`, snapshotPath, differences };
+  }
+  return {
+    pass: false,
+    message: `Response body does not match snapshot ${name} (${summary}):\n` +
+      differences.map(difference => `  ${difference}`).join('\n') +
+      '\nRun with --update-snapshots to accept the new body',
+    snapshotPath,
+    differences
+  };
+}
+
+/**
+ * Compare a body with <name>.json at the current test's snapshot path
+ *
+ * Follows Playwright's updateSnapshots setting (--update-snapshots / -u) and attaches
+ * the differences to the Allure report.
+ *
+ * @param body - Response body
+ * @param name - Snapshot name; may contain "/" for subdirectories
+ * @param options - Masking options
+ */
+export function matchBodySnapshot(body: any, name: string, options: SnapshotOptions = {}): SnapshotResult {
+  const testInfo = test.info();
+  const snapshotPath = testInfo.snapshotPath(...(name.endsWith('.json') ? name : `${name}.json`).split('/'));
+  const result = compareBodySnapshot(body, snapshotPath, testInfo.config.updateSnapshots, options);
+  if (result.differences.length > 0) {
+    attachText('Snapshot diff', result.differences.join('\n'));
+  }
+  return result;
+}
@@ -1,4 +1,5 @@
 import * as crypto from 'crypto';
+import { RequestSigner } from '../types/api.types';
 /**
  * Generate current timestamp in UTC format: yyyyMMddHHmmss
  */
@@ -12,6 +13,22 @@ export function getCurrentTimestamp(): string {
   const seconds = String(now.getUTCSeconds()).padStart(2, '0');
   return `${year}${month}${day}${hours}${minutes}${seconds}`;
 }
+/**
+ * Build the canonical string that is signed
+ * - With a body string (including "{}"): ${bodyString}.${timestamp}
+ * - Without a body: ${timestamp}
+ */
+export function buildCanonicalString(timestamp: string, bodyString: string = ''): string {
+  return bodyString ? `${bodyString}.${timestamp}` : timestamp;
+}
+/**
+ * Sign a canonical string with HMAC-SHA256, Base64 encoded
+ */
+export function signCanonicalString(canonicalString: string, secretKey: string): string {
+  const hmac = crypto.createHmac('sha256', secretKey);
+  hmac.update(canonicalString, 'utf8');
+  return hmac.digest('base64');
+}
 /**
  * Generate HMAC-SHA256 signature in Base64 format
  * Canonical string format: 
@@ -31,12 +48,7 @@ export function generateSignature(
   if (requestBody !== undefined) {
     bodyString = JSON.stringify(requestBody);
   }
-  // For GET requests (undefined body), use only timestamp
-  // For POST requests (including empty {} which becomes "{}"), use bodyString.timestamp
-  const canonicalString = bodyString ? `${bodyString}.${timestamp}` : timestamp;
-  const hmac = crypto.createHmac('sha256', secretKey);
-  hmac.update(canonicalString, 'utf8');
-  return hmac.digest('base64');
+  return signCanonicalString(buildCanonicalString(timestamp, bodyString), secretKey);
 }
 /**
  * Generate DSP authentication headers (X-Timestamp and X-Signature)
@@ -52,3 +64,10 @@ export function generateDspAuthHeaders(
     'X-Signature': signature
   };
 }
+/**
+ * Create a request signer that adds DSP authentication headers
+ * GET requests (no body) are signed on the timestamp only, others on ${body}.${timestamp}
+ */
+export function createDspRequestSigner(secretKey: string): RequestSigner {
+  return (request) => generateDspAuthHeaders(secretKey, request.data);
+}
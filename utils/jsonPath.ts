@@ -0,0 +1,502 @@
+import { isDeepStrictEqual } from 'util';
+import { JsonPathMatch } from '../types/api.types';
+
+/**
+ * JSONPath
+ *
+ * Selects values from parsed JSON bodies:
+ *
+ *   $.linkedBorrowerAccounts[0].accountId      index (negative indices count from the end)
+ *   $.assets[*].isin                           wildcard (also .*)
+ *   $.assets[1:3], $.assets[::2]               slices
+ *   $['key.with.dots'], $.assets[0,2]          quoted names and unions
+ *   $..isin                                    recursive descent
+ *   $.assets[?(@.units > 10 && @.type == 'MF')].isin
+ *                                              filters: ==, !=, <, <=, >, >=, =~ /regex/, &&, ||, !, existence (@.field)
+ *
+ * The leading "$" is optional, so plain dot notation ("user.address.city", "items.0") keeps working.
+ * Only own properties are read.
+ */
+
+type Selector =
+  | { kind: 'name'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'slice'; start?: number; end?: number; step?: number }
+  | { kind: 'filter'; expression: FilterExpression };
+
+interface Segment {
+  /** Selectors applied to each node (a union when there is more than one) */
+  selectors: Selector[];
+
+  /** Apply the selectors to the node and all of its descendants (..) */
+  descendant: boolean;
+}
+
+type Operand =
+  | { kind: 'literal'; value: any }
+  | { kind: 'query'; relative: boolean; segments: Segment[] };
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | '=~';
+
+type FilterExpression =
+  | { kind: 'or' | 'and'; left: FilterExpression; right: FilterExpression }
+  | { kind: 'not'; operand: FilterExpression }
+  | { kind: 'exists'; query: Operand }
+  | { kind: 'compare'; operator: ComparisonOperator; left: Operand; right: Operand };
+
+/** Comparison operators, longest first so "<=" wins over "<" */
+const OPERATORS: ComparisonOperator[] = ['==', '!=', '<=', '>=', '=~', '<', '>'];
+
+/** Characters that end an unquoted name inside a filter */
+const FILTER_NAME_END = /[\s.[\]()=!<>&|,~]/;
+
+/** Parsed paths by source text */
+const compiledPaths = new Map<string, Segment[]>();
+
+/**
+ * Recursive-descent parser for one JSONPath expression
+ */
+class PathParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  /**
+   * Parse the whole expression
+   */
+  parse(): Segment[] {
+    const segments: Segment[] = [];
+    if (this.peek() === '$' && ['.', '[', undefined].includes(this.source[1])) {
+      this.pos++;
+    } else if (!this.atEnd() && this.peek() !== '.' && this.peek() !== '[') {
+      segments.push({ selectors: [this.parseDotSelector(false)], descendant: false });
+    }
+    while (!this.atEnd()) {
+      segments.push(this.parseSegment(false));
+    }
+    return segments;
+  }
+
+  private parseSegment(inFilter: boolean): Segment {
+    if (this.source.startsWith('..', this.pos)) {
+      this.pos += 2;
+      const selectors = this.peek() === '[' ? this.parseBracket() : [this.parseDotSelector(inFilter)];
+      return { selectors, descendant: true };
+    }
+    if (this.peek() === '.') {
+      this.pos++;
+      return { selectors: [this.parseDotSelector(inFilter)], descendant: false };
+    }
+    if (this.peek() === '[') {
+      return { selectors: this.parseBracket(), descendant: false };
+    }
+    throw this.error(`unexpected '${this.peek()}'`);
+  }
+
+  private parseDotSelector(inFilter: boolean): Selector {
+    if (this.peek() === '*') {
+      this.pos++;
+      return { kind: 'wildcard' };
+    }
+    const start = this.pos;
+    while (!this.atEnd() && this.peek() !== '.' && this.peek() !== '[' && !(inFilter && FILTER_NAME_END.test(this.peek()))) {
+      this.pos++;
+    }
+    if (this.pos === start) {
+      throw this.error('expected a property name');
+    }
+    return { kind: 'name', name: this.source.slice(start, this.pos) };
+  }
+
+  private parseBracket(): Selector[] {
+    this.expect('[');
+    const selectors: Selector[] = [];
+    do {
+      this.skipWhitespace();
+      selectors.push(this.parseBracketSelector());
+      this.skipWhitespace();
+    } while (this.consume(','));
+    this.expect(']');
+    return selectors;
+  }
+
+  private parseBracketSelector(): Selector {
+    const next = this.peek();
+    if (next === '\'' || next === '"') {
+      return { kind: 'name', name: this.parseString() };
+    }
+    if (next === '*') {
+      this.pos++;
+      return { kind: 'wildcard' };
+    }
+    if (next === '?') {
+      this.pos++;
+      return { kind: 'filter', expression: this.parseOr() };
+    }
+    const start = this.parseInteger();
+    if (this.peek() !== ':') {
+      if (start === undefined) {
+        throw this.error('expected a name, index, slice, * or filter');
+      }
+      return { kind: 'index', index: start };
+    }
+    this.pos++;
+    const end = this.parseInteger();
+    const step = this.consume(':') ? this.parseInteger() : undefined;
+    if (step === 0) {
+      throw this.error('slice step cannot be 0');
+    }
+    return { kind: 'slice', start, end, step };
+  }
+
+  private parseOr(): FilterExpression {
+    let left = this.parseAnd();
+    while (this.consume('||')) {
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): FilterExpression {
+    let left = this.parseUnary();
+    while (this.consume('&&')) {
+      left = { kind: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): FilterExpression {
+    this.skipWhitespace();
+    if (this.peek() === '!' && this.source[this.pos + 1] !== '=') {
+      this.pos++;
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+    if (this.consume('(')) {
+      const expression = this.parseOr();
+      this.expect(')');
+      return expression;
+    }
+    const left = this.parseOperand();
+    this.skipWhitespace();
+    const operator = OPERATORS.find(candidate => this.source.startsWith(candidate, this.pos));
+    if (!operator) {
+      if (left.kind !== 'query') {
+        throw this.error('expected a comparison operator');
+      }
+      return { kind: 'exists', query: left };
+    }
+    this.pos += operator.length;
+    return { kind: 'compare', operator, left, right: this.parseOperand() };
+  }
+
+  private parseOperand(): Operand {
+    this.skipWhitespace();
+    const next = this.peek();
+    if (next === '@' || next === '$') {
+      this.pos++;
+      const segments: Segment[] = [];
+      while (this.peek() === '.' || this.peek() === '[') {
+        segments.push(this.parseSegment(true));
+      }
+      return { kind: 'query', relative: next === '@', segments };
+    }
+    if (next === '\'' || next === '"') {
+      return { kind: 'literal', value: this.parseString() };
+    }
+    if (next === '/') {
+      return { kind: 'literal', value: this.parseRegExp() };
+    }
+    for (const [word, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (this.source.startsWith(word, this.pos)) {
+        this.pos += word.length;
+        return { kind: 'literal', value };
+      }
+    }
+    const number = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(this.source.slice(this.pos));
+    if (number) {
+      this.pos += number[0].length;
+      return { kind: 'literal', value: Number(number[0]) };
+    }
+    throw this.error('expected @, $, a string, a number, a regex, true, false or null');
+  }
+
+  private parseString(): string {
+    const quote = this.source[this.pos++];
+    let value = '';
+    while (!this.atEnd() && this.peek() !== quote) {
+      if (this.peek() === '\\') {
+        this.pos++;
+      }
+      value += this.source[this.pos++];
+    }
+    this.expect(quote);
+    return value;
+  }
+
+  private parseRegExp(): RegExp {
+    const match = /^\/((?:\\.|[^/\\])*)\/([a-z]*)/.exec(this.source.slice(this.pos));
+    if (!match) {
+      throw this.error('unterminated regex');
+    }
+    this.pos += match[0].length;
+    // Stateful flags would make repeated tests alternate between true and false
+    return new RegExp(match[1], match[2].replace(/[gy]/g, ''));
+  }
+
+  private parseInteger(): number | undefined {
+    this.skipWhitespace();
+    const match = /^-?\d+/.exec(this.source.slice(this.pos));
+    if (!match) {
+      return undefined;
+    }
+    this.pos += match[0].length;
+    this.skipWhitespace();
+    return Number(match[0]);
+  }
+
+  private peek(): string {
+    return this.source[this.pos];
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.source.length;
+  }
+
+  private skipWhitespace(): void {
+    while (!this.atEnd() && /\s/.test(this.peek())) {
+      this.pos++;
+    }
+  }
+
+  private consume(token: string): boolean {
+    this.skipWhitespace();
+    if (!this.source.startsWith(token, this.pos)) {
+      return false;
+    }
+    this.pos += token.length;
+    return true;
+  }
+
+  private expect(token: string): void {
+    if (!this.consume(token)) {
+      throw this.error(`expected '${token}'`);
+    }
+  }
+
+  private error(reason: string): Error {
+    return new Error(`Invalid JSONPath '${this.source}': ${reason} at position ${this.pos}`);
+  }
+}
+
+/**
+ * Parse a path, reusing earlier parses
+ */
+function compile(path: string): Segment[] {
+  let segments = compiledPaths.get(path);
+  if (!segments) {
+    segments = new PathParser(path).parse();
+    compiledPaths.set(path, segments);
+  }
+  return segments;
+}
+
+/**
+ * Selected value together with its location, so it can be replaced
+ */
+interface JsonPathNode extends JsonPathMatch {
+  /** Object or array holding the value (absent for the root) */
+  parent?: any;
+
+  /** Property name or index of the value in its parent */
+  key?: string | number;
+}
+
+/**
+ * Append a property name or index to a normalized path
+ *
+ * @example
+ * childPath('$.assets', 1);        // $.assets[1]
+ * childPath('$', 'config.version'); // $['config.version']
+ */
+export function childPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${parent}[${key}]`;
+  }
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${parent}.${key}` : `${parent}['${key.replace(/'/g, '\\\'')}']`;
+}
+
+/**
+ * Node for one property or element of a node's value
+ */
+function child(node: JsonPathNode, key: string | number): JsonPathNode {
+  return { path: childPath(node.path, key), value: node.value[key], parent: node.value, key };
+}
+
+/**
+ * Direct children of a node (array elements or own object values)
+ */
+function children(node: JsonPathNode): JsonPathNode[] {
+  const { value } = node;
+  if (Array.isArray(value)) {
+    return value.map((_, index) => child(node, index));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.keys(value).map(key => child(node, key));
+  }
+  return [];
+}
+
+/**
+ * A node followed by all of its descendants, depth first
+ */
+function descendants(node: JsonPathNode): JsonPathNode[] {
+  return [node, ...children(node).flatMap(descendants)];
+}
+
+/**
+ * Indices selected by a slice, Python style
+ */
+function sliceIndices(length: number, slice: { start?: number; end?: number; step?: number }): number[] {
+  const step = slice.step ?? 1;
+  const clamp = (bound: number) => Math.min(Math.max(bound < 0 ? bound + length : bound, step > 0 ? 0 : -1), step > 0 ? length : length - 1);
+  const start = slice.start === undefined ? (step > 0 ? 0 : length - 1) : clamp(slice.start);
+  const end = slice.end === undefined ? (step > 0 ? length : -1) : clamp(slice.end);
+  const indices: number[] = [];
+  for (let index = start; step > 0 ? index < end : index > end; index += step) {
+    indices.push(index);
+  }
+  return indices;
+}
+
+function applySelector(node: JsonPathNode, selector: Selector, root: any): JsonPathNode[] {
+  const { value } = node;
+  switch (selector.kind) {
+    case 'name':
+      if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, selector.name)) {
+        return [];
+      }
+      return [child(node, Array.isArray(value) && /^\d+$/.test(selector.name) ? Number(selector.name) : selector.name)];
+    case 'index': {
+      if (!Array.isArray(value)) {
+        return [];
+      }
+      const index = selector.index < 0 ? selector.index + value.length : selector.index;
+      return index >= 0 && index < value.length ? [child(node, index)] : [];
+    }
+    case 'wildcard':
+      return children(node);
+    case 'slice':
+      return Array.isArray(value) ? sliceIndices(value.length, selector).map(index => child(node, index)) : [];
+    case 'filter':
+      return children(node).filter(selected => evaluateFilter(selector.expression, selected.value, root));
+  }
+}
+
+function evaluate(segments: Segment[], start: JsonPathNode, root: any): JsonPathNode[] {
+  return segments.reduce<JsonPathNode[]>((nodes, segment) => {
+    const targets = segment.descendant ? nodes.flatMap(descendants) : nodes;
+    return targets.flatMap(node => segment.selectors.flatMap(selector => applySelector(node, selector, root)));
+  }, [start]);
+}
+
+function evaluateOperand(operand: Operand, current: any, root: any): JsonPathMatch[] {
+  if (operand.kind === 'literal') {
+    return [{ path: '', value: operand.value }];
+  }
+  return evaluate(operand.segments, { path: operand.relative ? '@' : '$', value: operand.relative ? current : root }, root);
+}
+
+function compare(operator: ComparisonOperator, left: any, right: any): boolean {
+  switch (operator) {
+    case '==':
+      return isDeepStrictEqual(left, right);
+    case '!=':
+      return !isDeepStrictEqual(left, right);
+    case '=~':
+      return typeof left === 'string' && right instanceof RegExp && right.test(left);
+  }
+  const comparable = (typeof left === 'number' && typeof right === 'number') || (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) {
+    return false;
+  }
+  switch (operator) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+  }
+}
+
+function evaluateFilter(expression: FilterExpression, current: any, root: any): boolean {
+  switch (expression.kind) {
+    case 'or':
+      return evaluateFilter(expression.left, current, root) || evaluateFilter(expression.right, current, root);
+    case 'and':
+      return evaluateFilter(expression.left, current, root) && evaluateFilter(expression.right, current, root);
+    case 'not':
+      return !evaluateFilter(expression.operand, current, root);
+    case 'exists':
+      return evaluateOperand(expression.query, current, root).length > 0;
+    case 'compare': {
+      // Comparisons use the first value a query selects; a query that selects nothing compares as undefined
+      const [left] = evaluateOperand(expression.left, current, root);
+      const [right] = evaluateOperand(expression.right, current, root);
+      return compare(expression.operator, left?.value, right?.value);
+    }
+  }
+}
+
+/**
+ * Select every value matching a JSONPath expression
+ *
+ * @param root - Parsed JSON document (e.g. a response body)
+ * @param path - JSONPath expression; the leading "$" is optional
+ * @returns Matches in document order, each with its normalized path (e.g. $.assets[1].isin)
+ * @throws Error if the expression cannot be parsed
+ *
+ * @example
+ * queryJsonPath(body, '$.assets[?(@.units > 10)].isin');
+ * // [{ path: '$.assets[0].isin', value: 'INF209K01YN0' }, ...]
+ */
+export function queryJsonPath(root: any, path: string): JsonPathMatch[] {
+  return evaluate(compile(path), { path: '$', value: root }, root).map(({ path: matchPath, value }) => ({ path: matchPath, value }));
+}
+
+/**
+ * Replace, in place, every value matching a JSONPath expression
+ *
+ * The root itself is never replaced.
+ *
+ * @param root - Parsed JSON document to modify
+ * @param path - JSONPath expression; the leading "$" is optional
+ * @param replace - Returns the new value for a selected value
+ * @returns Number of values replaced
+ * @throws Error if the expression cannot be parsed
+ *
+ * @example
+ * replaceJsonPath(body, '$..utilityReferenceId', () => '<masked>');
+ */
+export function replaceJsonPath(root: any, path: string, replace: (value: any, path: string) => any): number {
+  const nodes = evaluate(compile(path), { path: '$', value: root }, root).filter(node => node.parent !== undefined);
+  for (const node of nodes) {
+    node.parent[node.key!] = replace(node.value, node.path);
+  }
+  return nodes.length;
+}
+
+/**
+ * Whether a path selects at most one value (only names and indices, no wildcards, slices, unions, filters or ..)
+ *
+ * @param path - JSONPath expression
+ * @throws Error if the expression cannot be parsed
+ */
+export function isDefinitePath(path: string): boolean {
+  return compile(path).every(segment =>
+    !segment.descendant && segment.selectors.length === 1 && ['name', 'index'].includes(segment.selectors[0].kind)
+  );
+}
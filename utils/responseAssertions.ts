@@ -0,0 +1,249 @@
+import { isDeepStrictEqual } from 'util';
+import { ApiResponse, JsonSchema } from '../types/api.types';
+import { step } from './allureHelper';
+import { ResponseValidator } from './validators';
+
+/**
+ * Response Assertions
+ *
+ * Fluent assertion builder for ApiResponse:
+ *
+ *   await assertResponse(response, 'KYC utility')
+ *     .status(200)
+ *     .field('status').equals('APPROVED')
+ *     .field('utilityReferenceId').matches(/^UTL\d+$/)
+ *     .matchesSchema('los/schemas/kycUtility.json');
+ *
+ * Checks are collected while chaining and run when the chain is awaited (or verify() is called).
+ * Every check runs, each one is recorded as an Allure step (passed or failed), and all
+ * failures are thrown together as one ResponseAssertionError.
+ */
+
+/**
+ * Thrown when one or more response assertions fail
+ *
+ * Carries every failure message so the whole set can be inspected in tests and reports.
+ */
+export class ResponseAssertionError extends Error {
+  constructor(message: string, public readonly failures: string[]) {
+    super(message);
+    this.name = 'ResponseAssertionError';
+  }
+}
+
+/**
+ * Single collected check
+ */
+interface ResponseCheck {
+  /** Step name shown in Allure and in failure messages */
+  name: string;
+
+  /** Throws if the check fails */
+  run: () => void;
+}
+
+/**
+ * Render an expected or actual value for a message
+ */
+function formatValue(value: any): string {
+  return value instanceof RegExp ? String(value) : JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * Assertions on one body field, returning to the response assertion after each check
+ */
+export class FieldAssertion<T = any> {
+  constructor(private readonly parent: ResponseAssertion<T>, private readonly path: string) {}
+
+  /**
+   * Read the field, failing if it is missing
+   */
+  private read(response: ApiResponse<T>): any {
+    ResponseValidator.validateField(response, this.path);
+    return ResponseValidator.getNestedField(response.body, this.path);
+  }
+
+  /**
+   * The field is present (null and other falsy values count as present)
+   */
+  exists(): ResponseAssertion<T> {
+    return this.parent.check(`field '${this.path}' exists`, response => {
+      this.read(response);
+    });
+  }
+
+  /**
+   * The field is deep-equal to a value
+   */
+  equals(expected: any): ResponseAssertion<T> {
+    return this.parent.check(`field '${this.path}' equals ${formatValue(expected)}`, response => {
+      const actual = ResponseValidator.getNestedField(response.body, this.path);
+      if (!isDeepStrictEqual(actual, expected)) {
+        throw new Error(`Expected field '${this.path}' to be ${formatValue(expected)}, but got ${formatValue(actual)}`);
+      }
+    });
+  }
+
+  /**
+   * The field is a string matching a regular expression
+   */
+  matches(pattern: RegExp): ResponseAssertion<T> {
+    return this.parent.check(`field '${this.path}' matches ${pattern}`, response => {
+      const actual = this.read(response);
+      if (typeof actual !== 'string' || !pattern.test(actual)) {
+        throw new Error(`Expected field '${this.path}' to match ${pattern}, but got ${formatValue(actual)}`);
+      }
+    });
+  }
+
+  /**
+   * The field equals one of the given values
+   */
+  oneOf(allowed: readonly any[]): ResponseAssertion<T> {
+    return this.parent.check(`field '${this.path}' is one of ${formatValue(allowed)}`, response => {
+      const actual = this.read(response);
+      if (!allowed.some(value => isDeepStrictEqual(actual, value))) {
+        throw new Error(`Expected field '${this.path}' to be one of ${formatValue(allowed)}, but got ${formatValue(actual)}`);
+      }
+    });
+  }
+
+  /**
+   * The field passes a custom predicate
+   *
+   * @param description - What the predicate checks (e.g. "is positive")
+   * @param predicate - Returns true if the value is acceptable
+   */
+  satisfies(description: string, predicate: (value: any) => boolean): ResponseAssertion<T> {
+    return this.parent.check(`field '${this.path}' ${description}`, response => {
+      const actual = this.read(response);
+      if (!predicate(actual)) {
+        throw new Error(`Expected field '${this.path}' to satisfy "${description}", but got ${formatValue(actual)}`);
+      }
+    });
+  }
+}
+
+/**
+ * Fluent, aggregating assertions on an ApiResponse
+ *
+ * @template T - The type of the response body
+ */
+export class ResponseAssertion<T = any> implements PromiseLike<ApiResponse<T>> {
+  private checks: ResponseCheck[] = [];
+
+  constructor(private readonly response: ApiResponse<T>, private readonly label: string = 'response') {}
+
+  /**
+   * Add a custom check
+   *
+   * @param name - Step name shown in Allure and in failure messages
+   * @param run - Throws if the check fails
+   */
+  check(name: string, run: (response: ApiResponse<T>) => void): this {
+    this.checks.push({ name, run: () => run(this.response) });
+    return this;
+  }
+
+  /**
+   * The status code equals the expected one
+   */
+  status(expectedStatus: number): this {
+    return this.check(`status is ${expectedStatus}`, response => ResponseValidator.validateStatus(response, expectedStatus));
+  }
+
+  /**
+   * The status code is 2xx
+   */
+  ok(): this {
+    return this.check('status is 2xx', response => ResponseValidator.validateStatusOk(response));
+  }
+
+  /**
+   * A response header is present, optionally with a value (exact or pattern); names are case-insensitive
+   */
+  header(name: string, expected?: string | RegExp): this {
+    const description = expected === undefined ? 'is present' : expected instanceof RegExp ? `matches ${expected}` : `is ${formatValue(expected)}`;
+    return this.check(`header '${name}' ${description}`, response => {
+      const actual = ResponseValidator.getHeader(response, name);
+      if (actual === undefined) {
+        throw new Error(`Header '${name}' not found in response`);
+      }
+      const matched = expected === undefined || (expected instanceof RegExp ? expected.test(actual) : actual === expected);
+      if (!matched) {
+        throw new Error(`Expected header '${name}' ${description}, but got ${formatValue(actual)}`);
+      }
+    });
+  }
+
+  /**
+   * The response was received within a time budget
+   */
+  respondsWithin(maxDurationMs: number): this {
+    return this.check(`responds within ${maxDurationMs}ms`, response => ResponseValidator.validateResponseTime(response, maxDurationMs));
+  }
+
+  /**
+   * The body matches a JSON Schema (object, or path under testdata/)
+   */
+  matchesSchema(schema: JsonSchema | string): this {
+    const name = typeof schema === 'string' ? schema : schema.$id || 'schema';
+    return this.check(`body matches ${name}`, response => ResponseValidator.validateSchema(response, schema));
+  }
+
+  /**
+   * Start assertions on a body field (JSONPath or dot notation; see ResponseValidator.getNestedField)
+   */
+  field(path: string): FieldAssertion<T> {
+    return new FieldAssertion(this, path);
+  }
+
+  /**
+   * Run every collected check
+   *
+   * Each check is recorded as an Allure step inside an "Assert <label>" step.
+   *
+   * @returns The response, for further use
+   * @throws ResponseAssertionError listing every failed check
+   */
+  async verify(): Promise<ApiResponse<T>> {
+    const checks = this.checks;
+    this.checks = [];
+    return await step(`Assert ${this.label}`, async () => {
+      const failures: string[] = [];
+      for (const { name, run } of checks) {
+        await step(name, async () => run()).catch((error: Error) => {
+          failures.push(`${name}: ${error.message}`);
+        });
+      }
+      if (failures.length > 0) {
+        throw new ResponseAssertionError(
+          `${failures.length} of ${checks.length} assertions on ${this.label} failed:\n` +
+          failures.map(failure => `  ✗ ${failure}`).join('\n'),
+          failures
+        );
+      }
+      return this.response;
+    });
+  }
+
+  /**
+   * Run the checks when the chain is awaited
+   */
+  then<TResult1 = ApiResponse<T>, TResult2 = never>(
+    onfulfilled?: ((value: ApiResponse<T>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.verify().then(onfulfilled, onrejected);
+  }
+}
+
+/**
+ * Start fluent assertions on a response
+ *
+ * @param response - Response to check
+ * @param label - Name used for the Allure step and in the error (e.g. "KYC utility")
+ */
+export function assertResponse<T = any>(response: ApiResponse<T>, label?: string): ResponseAssertion<T> {
+  return new ResponseAssertion(response, label);
+}
@@ -0,0 +1,344 @@
+/**
+ * Secrets Provider
+ *
+ * Resolves secrets (DSP secret key, OTP and LMS credentials) per environment
+ * from pluggable backends, first match wins:
+ * 1. Environment variables (DSP_SECRET_KEY, LOS_OTP, ...)
+ * 2. config/secrets/<env>.enc.json, unlocked with SECRETS_PASSPHRASE
+ * 3. config/secrets/.env.<env> (untracked; config/secrets/.env.example is the template)
+ * Environments that extend another (qa2 extends staging) fall back to the
+ * parent's files after their own.
+ *
+ * Secrets read from a committed file are refused for prod by assertSecretSources.
+ */
+
+import * as crypto from 'crypto';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getEnvironments } from '../config/environments';
+import { EncryptedSecretsFile, ResolvedSecret, SecretBackend, SecretName } from '../types/secrets.types';
+import { Logger } from './logger';
+
+/** Directory holding the dotenv and encrypted secrets files */
+export const SECRETS_DIR = path.resolve(__dirname, '..', 'config', 'secrets');
+
+/** Every secret the framework knows about */
+export const SECRET_NAMES: SecretName[] = ['DSP_SECRET_KEY', 'LOS_PHONE_NO', 'LOS_OTP', 'LMS_EMAIL', 'LMS_PASSWORD'];
+
+/** Environments that may only use secrets from uncommitted sources */
+const PROTECTED_ENVIRONMENTS = ['prod'];
+
+const logger = new Logger('secrets');
+
+/**
+ * Check whether a file is (or would be) committed, i.e. not ignored by git
+ *
+ * Outside a git checkout files are treated as local.
+ */
+export function isCommittedFile(filePath: string): boolean {
+  const result = spawnSync('git', ['check-ignore', '-q', filePath], { cwd: path.dirname(filePath) });
+  // 0: ignored, 1: not ignored, anything else: not a git checkout or git missing
+  return result.status === 1;
+}
+
+/**
+ * Parse dotenv content (KEY=value lines, # comments, optional quotes and export prefix)
+ *
+ * @param content - File content
+ * @returns Parsed variables
+ */
+export function parseDotenv(content: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+    const match = line.match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
+    if (!match) {
+      continue;
+    }
+    const [, key, rawValue] = match;
+    const quoted = rawValue.match(/^(['"])(.*)\1$/);
+    variables[key] = quoted ? quoted[2] : rawValue.replace(/\s+#.*$/, '');
+  }
+  return variables;
+}
+
+/**
+ * Derive the AES key for an encrypted secrets file
+ */
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32);
+}
+
+/**
+ * Encrypt a secret map with a passphrase
+ *
+ * @param secrets - Secret values by name
+ * @param passphrase - Passphrase (later supplied as SECRETS_PASSPHRASE)
+ * @returns Contents for a config/secrets/<env>.enc.json file
+ *
+ * @example
+ * fs.writeFileSync('config/secrets/prod.enc.json', JSON.stringify(encryptSecrets({ DSP_SECRET_KEY: '...' }, passphrase)));
+ */
+export function encryptSecrets(secrets: Record<string, string>, passphrase: string): EncryptedSecretsFile {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf8'), cipher.final()]);
+  return {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64')
+  };
+}
+
+/**
+ * Decrypt an encrypted secrets file
+ *
+ * @param file - Encrypted file contents
+ * @param passphrase - Passphrase used for encryption
+ * @returns Secret values by name
+ * @throws Error if the passphrase is wrong or the file was tampered with
+ */
+export function decryptSecrets(file: EncryptedSecretsFile, passphrase: string): Record<string, string> {
+  try {
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      deriveKey(passphrase, Buffer.from(file.salt, 'base64')),
+      Buffer.from(file.iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(file.authTag, 'base64'));
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(file.ciphertext, 'base64')), decipher.final()]);
+    return JSON.parse(plaintext.toString('utf8'));
+  } catch {
+    throw new Error('Cannot decrypt secrets: wrong passphrase or corrupted file');
+  }
+}
+
+/**
+ * Secrets from environment variables named after the secret
+ */
+export class EnvSecretBackend implements SecretBackend {
+  readonly name = 'env';
+  readonly location = 'environment variables';
+  readonly committed = false;
+  get(name: SecretName): string | undefined {
+    return process.env[name] || undefined;
+  }
+}
+
+/**
+ * Secrets from a dotenv file
+ */
+export class DotenvSecretBackend implements SecretBackend {
+  readonly name = 'dotenv';
+  readonly location: string;
+  readonly committed: boolean;
+  private variables: Record<string, string>;
+  /**
+   * Constructor for DotenvSecretBackend
+   *
+   * @param filePath - Dotenv file; a missing file provides no secrets
+   */
+  constructor(filePath: string) {
+    this.location = filePath;
+    const exists = fs.existsSync(filePath);
+    this.variables = exists ? parseDotenv(fs.readFileSync(filePath, 'utf-8')) : {};
+    this.committed = exists && isCommittedFile(filePath);
+  }
+  get(name: SecretName): string | undefined {
+    return this.variables[name] || undefined;
+  }
+}
+
+/**
+ * Secrets from a passphrase-encrypted JSON file, decrypted on first use
+ */
+export class EncryptedFileSecretBackend implements SecretBackend {
+  readonly name = 'encrypted-file';
+  readonly location: string;
+  readonly committed: boolean;
+  private passphrase: string | undefined;
+  private secrets: Record<string, string> | undefined;
+  /**
+   * Constructor for EncryptedFileSecretBackend
+   *
+   * @param filePath - Encrypted secrets file; a missing file provides no secrets
+   * @param passphrase - Passphrase unlocking the file
+   */
+  constructor(filePath: string, passphrase: string | undefined = process.env.SECRETS_PASSPHRASE) {
+    this.location = filePath;
+    this.passphrase = passphrase;
+    this.committed = fs.existsSync(filePath) && isCommittedFile(filePath);
+  }
+  /**
+   * @throws Error if the file exists but no passphrase was given or it does not decrypt
+   */
+  get(name: SecretName): string | undefined {
+    if (!this.secrets) {
+      if (!fs.existsSync(this.location)) {
+        return undefined;
+      }
+      if (!this.passphrase) {
+        throw new Error(`Secrets file ${this.location} is encrypted: set SECRETS_PASSPHRASE to unlock it`);
+      }
+      const file: EncryptedSecretsFile = JSON.parse(fs.readFileSync(this.location, 'utf-8'));
+      try {
+        this.secrets = decryptSecrets(file, this.passphrase);
+      } catch (error) {
+        throw new Error(`${(error as Error).message} (${this.location})`);
+      }
+    }
+    return this.secrets[name] || undefined;
+  }
+}
+
+/**
+ * Resolves secrets for one environment from an ordered list of backends
+ */
+export class SecretsProvider {
+  /** Environment the secrets belong to */
+  readonly env: string;
+  private backends: SecretBackend[];
+  /**
+   * Constructor for SecretsProvider
+   *
+   * @param env - Environment name (e.g. dev, prod)
+   * @param backends - Backends in priority order
+   */
+  constructor(env: string, backends: SecretBackend[]) {
+    this.env = env;
+    this.backends = backends;
+  }
+  /**
+   * Find a secret and the backend providing it
+   *
+   * @returns Resolved secret, or undefined if no backend has it
+   */
+  resolve(name: SecretName): ResolvedSecret | undefined {
+    for (const backend of this.backends) {
+      const value = backend.get(name);
+      if (value !== undefined) {
+        return { name, value, backend: backend.name, location: backend.location, committed: backend.committed };
+      }
+    }
+    return undefined;
+  }
+  /**
+   * Get the values of the secrets some backend has, leaving the missing ones out
+   *
+   * @param names - Secrets to look up (defaults to all)
+   */
+  getAvailable(names: SecretName[] = SECRET_NAMES): Partial<Record<SecretName, string>> {
+    return Object.fromEntries(names.flatMap(name => {
+      const secret = this.resolve(name);
+      return secret ? [[name, secret.value]] : [];
+    }));
+  }
+  /**
+   * Get a secret value
+   *
+   * @throws Error naming the secret, environment and every backend checked if it is missing
+   */
+  get(name: SecretName): string {
+    const secret = this.resolve(name);
+    if (!secret) {
+      const checked = this.backends.map(backend => `${backend.name} (${backend.location})`).join(', ');
+      throw new Error(`Missing secret ${name} for environment ${this.env}; checked: ${checked}`);
+    }
+    return secret.value;
+  }
+  /**
+   * Refuse committed secret sources for protected environments (prod)
+   *
+   * Logs where each available secret comes from, never the value.
+   *
+   * @param names - Secrets to check (defaults to all)
+   * @throws Error if a protected environment would use a secret from a committed file
+   */
+  assertSafeSources(names: SecretName[] = SECRET_NAMES): void {
+    const committed: string[] = [];
+    for (const name of names) {
+      const secret = this.resolve(name);
+      if (!secret) {
+        continue;
+      }
+      logger.info(`Secret ${name} for ${this.env} from ${secret.backend} (${secret.location})`);
+      if (secret.committed) {
+        committed.push(`${name} (${secret.location})`);
+      }
+    }
+    if (PROTECTED_ENVIRONMENTS.includes(this.env) && committed.length > 0) {
+      throw new Error(
+        `Refusing to run against ${this.env}: secrets come from committed files: ${committed.join(', ')}. `
+        + 'Provide them through environment variables or an encrypted secrets file instead'
+      );
+    }
+  }
+}
+
+/**
+ * Create a provider with the default backends for an environment
+ *
+ * @param env - Environment name
+ */
+export function createSecretsProvider(env: string): SecretsProvider {
+  const chain = getEnvironments()[env]?.chain ?? [env];
+  return new SecretsProvider(env, [
+    new EnvSecretBackend(),
+    ...chain.flatMap(name => [
+      new EncryptedFileSecretBackend(path.join(SECRETS_DIR, `${name}.enc.json`)),
+      new DotenvSecretBackend(path.join(SECRETS_DIR, `.env.${name}`))
+    ])
+  ]);
+}
+
+const providers = new Map<string, SecretsProvider>();
+
+/**
+ * Get the (cached) secrets provider for an environment
+ *
+ * @param env - Environment name (defaults to TEST_ENV or dev)
+ */
+export function getSecretsProvider(env: string = process.env.TEST_ENV || 'dev'): SecretsProvider {
+  if (!providers.has(env)) {
+    providers.set(env, createSecretsProvider(env));
+  }
+  return providers.get(env)!;
+}
+
+/**
+ * Replace the secrets provider for an environment (pass undefined to restore the default)
+ */
+export function setSecretsProvider(env: string, provider: SecretsProvider | undefined): void {
+  if (provider) {
+    providers.set(env, provider);
+  } else {
+    providers.delete(env);
+  }
+}
+
+/**
+ * Get a secret for an environment
+ *
+ * @param name - Secret name
+ * @param env - Environment name (defaults to TEST_ENV or dev)
+ * @throws Error if the secret is missing
+ */
+export function getSecret(name: SecretName, env: string = process.env.TEST_ENV || 'dev'): string {
+  return getSecretsProvider(env).get(name);
+}
+
+/**
+ * Startup check: refuse committed secret sources for prod
+ *
+ * @param env - Environment name (defaults to TEST_ENV or dev)
+ */
+export function assertSecretSources(env: string = process.env.TEST_ENV || 'dev'): void {
+  getSecretsProvider(env).assertSafeSources();
+}
@@ -0,0 +1,132 @@
+/**
+ * Test Data Loader
+ *
+ * Loads pod-specific test data files (testdata/<pod>/testdata.json) at runtime,
+ * so framework code can read pod settings without static JSON imports,
+ * JSON Schemas for response validation, and images/documents from testdata/ as base64 or bytes.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { PodTestData, TestAssetEncoding } from '../types/testdata.types';
+import { JsonSchema } from '../types/api.types';
+
+/** Root directory of the test data files */
+export const TEST_DATA_ROOT = path.resolve(__dirname, '..', 'testdata');
+
+/** Loaded test data per pod (null when the pod has no test data file) */
+const cache = new Map<string, PodTestData | null>();
+
+/**
+ * Load the test data file for a pod
+ *
+ * @param podName - Name of the pod (e.g. los, lms)
+ * @returns Parsed test data, or undefined if the pod has no testdata.json
+ * @throws Error if the file exists but is not valid JSON
+ */
+export function loadPodTestData(podName: string): PodTestData | undefined {
+  if (!cache.has(podName)) {
+    const filePath = path.join(TEST_DATA_ROOT, podName, 'testdata.json');
+    if (!fs.existsSync(filePath)) {
+      cache.set(podName, null);
+    } else {
+      try {
+        cache.set(podName, JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+      } catch (error: any) {
+        throw new Error(`Invalid test data file ${filePath}: ${error.message}`);
+      }
+    }
+  }
+  return cache.get(podName) ?? undefined;
+}
+
+/**
+ * Get the execution config (timeout, retries, ...) for a pod
+ *
+ * @param podName - Name of the pod
+ * @returns Config section of the pod's test data, or undefined if not present
+ */
+export function getPodConfig(podName: string): PodTestData['config'] | undefined {
+  return loadPodTestData(podName)?.config;
+}
+
+/** Loaded JSON Schemas by absolute path */
+const schemaCache = new Map<string, JsonSchema>();
+
+/** Test data files holding base64 text (optionally wrapped in a data URL) rather than raw bytes */
+const BASE64_TEXT_EXTENSIONS = ['.txt', '.b64', '.base64'];
+
+/**
+ * Resolve a test data file path
+ *
+ * @param relativePath - Path relative to testdata/ (a leading testdata/ is accepted too)
+ * @returns Absolute path
+ * @throws Error if the path points outside testdata/ or the file does not exist
+ */
+export function resolveTestDataPath(relativePath: string): string {
+  const filePath = path.resolve(TEST_DATA_ROOT, relativePath.replace(/^testdata[\\/]/, ''));
+  if (path.relative(TEST_DATA_ROOT, filePath).startsWith('..')) {
+    throw new Error(`Test data path ${relativePath} is outside ${TEST_DATA_ROOT}`);
+  }
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Test data file not found: ${filePath}`);
+  }
+  return filePath;
+}
+
+/**
+ * Strip a data URL wrapper (data:image/png;base64,... or url(data:...)) and whitespace from base64 text
+ */
+export function stripDataUrl(content: string): string {
+  return content
+    .trim()
+    .replace(/^url\((.*)\)$/s, '$1')
+    .replace(/^data:[^,]*;base64,/, '')
+    .replace(/\s+/g, '');
+}
+
+/**
+ * Load an image or document from testdata/
+ *
+ * Binary files (.png, .pdf, ...) are read as bytes; .txt/.b64/.base64 files are read
+ * as base64 text, with any data URL wrapper removed.
+ *
+ * @param relativePath - Path relative to testdata/ (e.g. los/base64Image.txt)
+ * @param encoding - base64 for a base64 string, bytes for a Buffer
+ * @returns File content in the requested encoding
+ *
+ * @example
+ * const userImage = loadTestAsset('los/base64Image.txt', 'base64');
+ * const pdf = loadTestAsset('los/agreement.pdf', 'bytes');
+ */
+export function loadTestAsset(relativePath: string, encoding: 'base64'): string;
+export function loadTestAsset(relativePath: string, encoding: 'bytes'): Buffer;
+export function loadTestAsset(relativePath: string, encoding: TestAssetEncoding): string | Buffer;
+export function loadTestAsset(relativePath: string, encoding: TestAssetEncoding): string | Buffer {
+  const filePath = resolveTestDataPath(relativePath);
+  const bytes = BASE64_TEXT_EXTENSIONS.includes(path.extname(filePath).toLowerCase())
+    ? Buffer.from(stripDataUrl(fs.readFileSync(filePath, 'utf-8')), 'base64')
+    : fs.readFileSync(filePath);
+  return encoding === 'base64' ? bytes.toString('base64') : bytes;
+}
+
+/**
+ * Load a JSON Schema from testdata/
+ *
+ * Schemas are cached by path, so repeated validations reuse the same compiled schema.
+ *
+ * @param relativePath - Path relative to testdata/ (e.g. los/schemas/kycUtility.json)
+ * @returns Parsed schema
+ * @throws Error if the file is missing, outside testdata/ or not valid JSON
+ */
+export function loadJsonSchema(relativePath: string): JsonSchema {
+  const filePath = resolveTestDataPath(relativePath);
+  if (!schemaCache.has(filePath)) {
+    try {
+      schemaCache.set(filePath, JSON.parse(fs.readFileSync(filePath, 'utf-8')));
+    } catch (error: any) {
+      throw new Error(`Invalid JSON Schema file ${filePath}: ${error.message}`);
+    }
+  }
+  return schemaCache.get(filePath)!;
+}
@@ -1,4 +1,89 @@
-import { ApiResponse } from '../types/api.types';
+import Ajv2020, { ErrorObject, ValidateFunction } from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { isDeepStrictEqual } from 'util';
+import { ApiResponse, FieldMatchOptions, JsonSchema } from '../types/api.types';
+import { isDefinitePath, queryJsonPath } from './jsonPath';
+import { loadJsonSchema } from './testDataLoader';
+
+/**
+ * JSON Schema (draft 2020-12) validator shared by all schema checks
+ * - allErrors: report every violation, not just the first
+ * - verbose: keep the offending value so it can be shown in the error
+ * - formats: date-time, date, email, uri, uuid, ... from ajv-formats
+ */
+const ajv = new Ajv2020({ allErrors: true, verbose: true });
+addFormats(ajv);
+
+/** Longest offending value quoted in a schema violation */
+const MAX_QUOTED_VALUE = 80;
+
+/**
+ * Compile a schema, reusing the compiled validator for schemas with a known $id
+ */
+function compileSchema(schema: JsonSchema): ValidateFunction {
+  return (schema.$id && ajv.getSchema(schema.$id)) || ajv.compile(schema);
+}
+
+/**
+ * Escape a property name for use in a JSON pointer (RFC 6901)
+ */
+function escapePointer(name: string): string {
+  return name.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Describe one schema violation as "<JSON pointer>: <message>"
+ *
+ * Missing and unexpected properties point at the property itself rather than its parent object.
+ */
+function describeSchemaError(error: ErrorObject): string {
+  if (error.keyword === 'required') {
+    return `${error.instancePath}/${escapePointer(error.params.missingProperty)}: is required`;
+  }
+  if (error.keyword === 'additionalProperties') {
+    return `${error.instancePath}/${escapePointer(error.params.additionalProperty)}: is not allowed`;
+  }
+  let message = error.message || error.keyword;
+  if (error.keyword === 'enum') {
+    message += ` ${JSON.stringify(error.params.allowedValues)}`;
+  }
+  const value = JSON.stringify(error.data) ?? String(error.data);
+  const quoted = value.length > MAX_QUOTED_VALUE ? `${value.slice(0, MAX_QUOTED_VALUE)}...` : value;
+  return `${error.instancePath || '(root)'}: ${message} (got ${quoted})`;
+}
+
+/**
+ * Render a field value for a message: primitives quoted, objects and arrays as JSON
+ */
+function quoteValue(value: any): string {
+  if (value instanceof RegExp) {
+    return String(value);
+  }
+  return value !== null && typeof value === 'object' ? JSON.stringify(value) : `'${value}'`;
+}
+
+/**
+ * Whether a value contains everything in the expected value
+ *
+ * Objects may have extra keys, arrays must have the same length and match element by element,
+ * RegExp values match strings and everything else is compared with deep equality.
+ */
+function matchesPartially(actual: any, expected: any): boolean {
+  if (expected instanceof RegExp) {
+    return typeof actual === 'string' && expected.test(actual);
+  }
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && actual.length === expected.length &&
+      expected.every((element, index) => matchesPartially(actual[index], element));
+  }
+  if (expected !== null && typeof expected === 'object') {
+    return actual !== null && typeof actual === 'object' && !Array.isArray(actual) &&
+      Object.keys(expected).every(key =>
+        Object.prototype.hasOwnProperty.call(actual, key) && matchesPartially(actual[key], expected[key])
+      );
+  }
+  return isDeepStrictEqual(actual, expected);
+}
 
 /**
  * Response Validator
@@ -42,15 +127,40 @@ export class ResponseValidator {
     }
   }
 
+  /**
+   * Validates that the response was received within a time budget (SLA)
+   * 
+   * @param response - The API response to validate
+   * @param maxDurationMs - Maximum allowed total duration in milliseconds
+   * @throws Error if the response has no timing data or took longer than allowed
+   * 
+   * @example
+   * ResponseValidator.validateResponseTime(response, 2000);
+   */
+  static validateResponseTime(response: ApiResponse, maxDurationMs: number): void {
+    if (!response.timing) {
+      throw new Error('Response has no timing data');
+    }
+    if (response.timing.durationMs > maxDurationMs) {
+      throw new Error(
+        `Expected response within ${maxDurationMs}ms, but it took ${response.timing.durationMs}ms`
+      );
+    }
+  }
+
   /**
    * Validates that a specific field exists in the response body
    * Optionally validates that the field has an expected value
    * 
-   * Supports nested field paths using dot notation (e.g., "user.address.city")
+   * The path is JSONPath (the leading "$" is optional, so dot notation like "user.address.city"
+   * still works). Values are compared with deep equality, or partially with { match: 'partial' }.
+   * A path that can select several values (wildcards, slices, unions, filters, ..) must select
+   * at least one, and every selected value must match.
    * 
    * @param response - The API response to validate
-   * @param fieldPath - The path to the field (supports dot notation for nested fields)
+   * @param fieldPath - JSONPath or dot-notation path to the field
    * @param expectedValue - Optional expected value for the field
+   * @param options - How the value is compared (default: deep equality)
    * @throws Error if field is not found or value does not match
    * 
    * @example
@@ -62,58 +172,98 @@ export class ResponseValidator {
    * 
    * // Check nested field
    * ResponseValidator.validateField(response, 'user.email', 'test@example.com');
+   * 
+   * // Check array elements, keys containing dots and filtered selections
+   * ResponseValidator.validateField(response, 'linkedBorrowerAccounts[0].accountState', 'ACTIVE');
+   * ResponseValidator.validateField(response, "$['config.version']", 2);
+   * ResponseValidator.validateField(response, '$.assets[?(@.units > 0)].isin', /^INF/, { match: 'partial' });
+   * 
+   * // Check that every element contains some fields
+   * ResponseValidator.validateField(response, 'linkedBorrowerAccounts[*]', { accountState: 'ACTIVE' }, { match: 'partial' });
    */
-  static validateField(response: ApiResponse, fieldPath: string, expectedValue?: any): void {
-    const value = this.getNestedField(response.body, fieldPath);
+  static validateField(response: ApiResponse, fieldPath: string, expectedValue?: any, options: FieldMatchOptions = {}): void {
+    const matches = queryJsonPath(response.body, fieldPath);
     
-    if (value === undefined) {
+    if (matches.length === 0) {
       throw new Error(`Field '${fieldPath}' not found in response`);
     }
 
-    if (expectedValue !== undefined && value !== expectedValue) {
-      throw new Error(
-        `Expected field '${fieldPath}' to be '${expectedValue}', but got '${value}'`
-      );
+    if (expectedValue === undefined) {
+      return;
+    }
+
+    const partial = options.match === 'partial';
+    const definite = isDefinitePath(fieldPath);
+    for (const { path, value } of matches) {
+      const matched = partial ? matchesPartially(value, expectedValue) : isDeepStrictEqual(value, expectedValue);
+      if (!matched) {
+        throw new Error(
+          `Expected field '${fieldPath}' to ${partial ? 'match' : 'be'} ${quoteValue(expectedValue)}, ` +
+          `but got ${quoteValue(value)}${definite ? '' : ` at ${path} (${matches.length} values selected)`}`
+        );
+      }
     }
   }
 
   /**
-   * Validates that the response body contains all required fields defined in a schema
+   * Validates the response body against a JSON Schema (draft 2020-12)
    * 
-   * Basic schema validation - checks for presence of required fields.
-   * Can be extended with more sophisticated validation libraries like Ajv.
+   * Covers types, enums, formats (date-time, email, ...), patterns, nested objects,
+   * arrays and additionalProperties. Every violation is reported with the JSON
+   * pointer of the offending value.
    * 
    * @param response - The API response to validate
-   * @param schema - Schema object with a 'required' array of field names
-   * @throws Error if any required field is missing
+   * @param schema - Schema object, or path of a schema file under testdata/ (e.g. los/schemas/kycUtility.json)
+   * @throws Error listing every violation
    * 
    * @example
-   * const schema = {
-   *   required: ['id', 'name', 'email']
-   * };
-   * ResponseValidator.validateSchema(response, schema);
+   * ResponseValidator.validateSchema(response, 'los/schemas/kycUtility.json');
+   * 
+   * ResponseValidator.validateSchema(response, {
+   *   type: 'object',
+   *   required: ['id', 'email'],
+   *   properties: { email: { type: 'string', format: 'email' } }
+   * });
    */
-  static validateSchema(response: ApiResponse, schema: any): void {
-    // Basic schema validation - can be extended with libraries like Ajv
-    const requiredFields = schema.required || [];
-    
-    for (const field of requiredFields) {
-      if (!(field in response.body)) {
-        throw new Error(`Required field '${field}' missing from response`);
-      }
+  static validateSchema(response: ApiResponse, schema: JsonSchema | string): void {
+    const resolved = typeof schema === 'string' ? loadJsonSchema(schema) : schema;
+    const validate = compileSchema(resolved);
+    if (validate(response.body)) {
+      return;
     }
+    const violations = (validate.errors || []).map(describeSchemaError);
+    const name = typeof schema === 'string' ? schema : resolved.$id || 'schema';
+    throw new Error(
+      `Response body does not match ${name} (${violations.length} violation${violations.length === 1 ? '' : 's'}):\n` +
+      violations.map(violation => `  ${violation}`).join('\n')
+    );
   }
 
   /**
-   * Helper method to retrieve a nested field from an object using dot notation
+   * Retrieve a field from an object using JSONPath or dot notation
    * 
    * @param obj - The object to traverse
-   * @param path - The path to the field (e.g., "user.address.city")
-   * @returns The value at the specified path, or undefined if not found
-   * 
-   * @private
+   * @param path - The path to the field (e.g., "user.address.city", "accounts[0].id", "$.assets[*].isin")
+   * @returns The value at a definite path; for paths that can select several values
+   * (wildcards, slices, unions, filters, ..) the array of selected values; undefined if nothing is selected
+   */
+  static getNestedField(obj: any, path: string): any {
+    const matches = queryJsonPath(obj, path);
+    if (matches.length === 0) {
+      return undefined;
+    }
+    return isDefinitePath(path) ? matches[0].value : matches.map(match => match.value);
+  }
+
+  /**
+   * Retrieve a response header regardless of the case of its name
+   *
+   * @param response - The API response
+   * @param name - Header name (e.g. "Content-Type")
+   * @returns The header value, or undefined if the response does not have the header
    */
-  private static getNestedField(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => current?.[key], obj);
+  static getHeader(response: Pick<ApiResponse, 'headers'>, name: string): string | undefined {
+    const key = Object.keys(response.headers).find(header => header.toLowerCase() === name.toLowerCase());
+    return key === undefined ? undefined : response.headers[key];
   }
 }